@@ -0,0 +1,119 @@
+// src/AppShell.tsx
+// Top-level layout: engine menu, a collapsible sidebar with the dataset tools, the active
+// visualizer (split in two while comparing models) or the multi-view dashboard, and an inspector
+// on the right while a point is selected. The route and the view state come from the URL hash so views can be linked and bookmarked.
+// The LLM views take the whole area below the menu; the dataset tools do not apply to them.
+import React, { Suspense, useState } from 'react';
+import ClusteringPanel from './components/ClusteringPanel';
+import ComparePanel from './components/ComparePanel';
+import DatasetLoader from './components/DatasetLoader';
+import EncodingPanel from './components/EncodingPanel';
+import InspectorPanel from './components/InspectorPanel';
+import NeighborsPanel from './components/NeighborsPanel';
+import QueryPanel from './components/QueryPanel';
+import ReductionPanel from './components/ReductionPanel';
+import SearchPanel from './components/SearchPanel';
+import SelectionPanel from './components/SelectionPanel';
+import SnapshotPanel from './components/SnapshotPanel';
+import TimelineBar from './components/TimelineBar';
+import { buttonStyle, panelStyle } from './components/panelStyles';
+import { useSelection } from './data/SelectionContext';
+import ComparisonSplit from './shell/ComparisonSplit';
+import Dashboard from './shell/Dashboard';
+import EngineViewport from './shell/EngineViewport';
+import { ENGINES, findEngine } from './shell/engines';
+import { findLlmView, LLM_VIEWS } from './shell/llmViews';
+import { DASHBOARD_ROUTE, routeHash, useHashRoute } from './shell/useHashRoute';
+import { useViewState } from './shell/ViewStateContext';
+
+const menuLinkStyle = (active: boolean): React.CSSProperties => ({
+  color: active ? '#ffffff' : 'rgba(210, 205, 255, 0.7)', textDecoration: 'none', fontSize: '13px',
+  padding: '6px 12px', borderRadius: '4px', background: active ? 'rgba(80, 60, 180, 0.55)' : 'transparent',
+});
+
+const AppShell: React.FC = () => {
+  const { route, navigate } = useHashRoute();
+  const [sidebarOpen, setSidebarOpen] = useState(true);
+  const { selectedId } = useSelection();
+  const { notice, dismissNotice } = useViewState();
+  const [copied, setCopied] = useState(false);
+  const activeEngine = findEngine(route);
+  const isDashboard = route === DASHBOARD_ROUTE;
+  const showsDataset = activeEngine !== undefined || isDashboard; // Gets the dataset tools and inspector
+  const activeView = findLlmView(route);
+  const LlmView = activeView?.component;
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <nav style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '6px 12px', background: '#0e0b1c',
+        borderBottom: '1px solid rgba(120, 100, 220, 0.35)', flexShrink: 0 }}>
+        <button style={buttonStyle} disabled={!showsDataset} onClick={() => setSidebarOpen(open => !open)} title="Toggle dataset tools">
+          {sidebarOpen ? '◀' : '▶'} Data
+        </button>
+        <b style={{ margin: '0 12px 0 6px', fontSize: '14px' }}>Embedding Visualizations</b>
+        {ENGINES.map(entry => (
+          <a key={entry.id} href={routeHash(entry.id)} style={menuLinkStyle(entry.id === route)}
+            onClick={e => { e.preventDefault(); navigate(entry.id); }}>
+            {entry.label}
+          </a>
+        ))}
+        <a href={routeHash(DASHBOARD_ROUTE)} style={menuLinkStyle(isDashboard)} onClick={e => { e.preventDefault(); navigate(DASHBOARD_ROUTE); }}>
+          Dashboard
+        </a>
+        <span style={{ margin: '0 6px 0 12px', fontSize: '12px', color: 'rgba(210, 205, 255, 0.5)' }}>LLM</span>
+        {LLM_VIEWS.map(entry => (
+          <a key={entry.id} href={routeHash(entry.id)} style={menuLinkStyle(entry.id === route)}
+            onClick={e => { e.preventDefault(); navigate(entry.id); }}>
+            {entry.label}
+          </a>
+        ))}
+        <button style={{ ...buttonStyle, marginLeft: 'auto' }} title="Copy a link to this exact view"
+          onClick={() => navigator.clipboard.writeText(window.location.href)
+            .then(() => { setCopied(true); setTimeout(() => setCopied(false), 1500); })
+            .catch(() => window.prompt('Copy this link:', window.location.href))}>
+          {copied ? 'Copied' : 'Copy link'}
+        </button>
+      </nav>
+      <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
+        {showsDataset && sidebarOpen && (
+          <aside style={{ width: '280px', flexShrink: 0, overflowY: 'auto', padding: '8px', display: 'flex',
+            flexDirection: 'column', gap: '8px', background: '#0a0816', borderRight: '1px solid rgba(120, 100, 220, 0.25)' }}>
+            <DatasetLoader />
+            <SearchPanel />
+            <QueryPanel />
+            <SelectionPanel />
+            <EncodingPanel />
+            <ReductionPanel />
+            <ClusteringPanel />
+            <NeighborsPanel />
+            <SnapshotPanel />
+            <ComparePanel />
+          </aside>
+        )}
+        <main style={{ flex: 1, minWidth: 0, position: 'relative' }}>
+          {LlmView
+            ? <Suspense fallback={<div style={{ padding: '20px' }}>Loading {activeView!.label}…</div>}><LlmView /></Suspense>
+            : isDashboard
+              ? <Dashboard />
+              : <ComparisonSplit><EngineViewport key={activeEngine!.id} engine={activeEngine!} view="main" /></ComparisonSplit>}
+          {activeEngine && <TimelineBar />}
+          {notice && (
+            <div style={{ ...panelStyle, position: 'absolute', top: '10px', left: '50%', transform: 'translateX(-50%)', zIndex: 10002,
+              display: 'flex', alignItems: 'center', gap: '10px', maxWidth: '80%' }}>
+              <span>{notice}</span>
+              <button style={buttonStyle} onClick={dismissNotice}>Dismiss</button>
+            </div>
+          )}
+        </main>
+        {showsDataset && selectedId !== null && (
+          <aside style={{ width: '300px', flexShrink: 0, overflowY: 'auto', padding: '8px', background: '#0a0816',
+            borderLeft: '1px solid rgba(120, 100, 220, 0.25)' }}>
+            <InspectorPanel />
+          </aside>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AppShell;
@@ -1,38 +1,73 @@
 // src/BabylonApp.tsx
-import React, { Suspense, useEffect, useRef, useState, useMemo } from 'react';
-import { Engine as RLEngine, Scene, useScene, useEngine } from 'react-babylonjs';
+import React, { Suspense, useCallback, useEffect, useId, useRef, useState, useMemo } from 'react';
+import { Engine as RLEngine, WebGPUEngine as RLWebGPUEngine, Scene, useScene, useEngine } from 'react-babylonjs';
 import {
   Vector3, Color3, Color4, ArcRotateCamera, PointerEventTypes, // Added PointerEventTypes
   StandardMaterial, PBRMaterial, Texture, CubeTexture, ParticleSystem,
   GPUParticleSystem, BoxParticleEmitter, DefaultRenderingPipeline,
   MeshBuilder, Nullable,
-  GlowLayer, Animation, Mesh // ActionManager, ExecuteCodeAction removed as JSX components didn't work
+  GlowLayer, Animation, Mesh, Matrix // ActionManager, ExecuteCodeAction removed as JSX components didn't work
 } from '@babylonjs/core';
 import '@babylonjs/loaders/glTF';
+import { AssetIssue, spriteUrl } from './assets/loadAssets';
+import { SPRITES } from './assets/manifest';
+import AssetNotice from './components/AssetNotice';
+import { EmbeddingDataset, scalePosition } from './data/dataset';
+import { SizeLookup, usePointSize } from './data/EncodingContext';
+import { useFilter } from './data/FilterContext';
+import { neighborsOf, undirectedEdges } from './data/neighbors';
+import { ClusterSwatch } from './data/palette';
+import { SwatchLookup, usePointSwatch } from './data/PointColorContext';
+import { Selection, useSelection } from './data/SelectionContext';
+import { useAnimatedDataset } from './data/useAnimatedDataset';
+import { QueryMarker, useQuery } from './query/QueryContext';
+import { BACKEND_LABELS, EngineSceneProps, RendererBackend } from './shell/capabilities';
 
-const MOCK_EMBEDDINGS_BABYLON = [
-  { id: 'b_emb_0_1', position: new Vector3(-15, 5, 8), cluster: 0, name: "Quantum Entanglement", size: 1.2 },
-  { id: 'b_emb_0_2', position: new Vector3(-12, 7, 10), cluster: 0, name: "String Theory", size: 1.0 },
-  { id: 'b_emb_1_1', position: new Vector3(10, -5, -10), cluster: 1, name: "Neural Networks", size: 1.1 },
-  { id: 'b_emb_1_2', position: new Vector3(12, -7, -8), cluster: 1, name: "Reinforcement Learning", size: 1.0 },
-  { id: 'b_emb_0_3', position: new Vector3(-18, 3, 12), cluster: 0, name: "Cosmic Inflation", size: 0.9 },
-  { id: 'b_emb_1_3', position: new Vector3(8, -9, -12), cluster: 1, name: "Generative Adversarial Networks", size: 1.3 },
-  { id: 'b_emb_2_1', position: new Vector3(0, 10, -5), cluster: 1, name: "Large Language Models", size: 1.5 },
-];
-
-const CLUSTER_COLORS_BABYLON = [
-  { base: new Color3(1.0, 0.4, 0.2), emissive: new Color3(0.9, 0.3, 0.1) },
-  { base: new Color3(0.2, 0.6, 1.0), emissive: new Color3(0.1, 0.4, 0.9) },
-];
+interface StarData { id: string; position: Vector3; cluster: number; swatch: ClusterSwatch; name: string; size: number; }
+
+// Normalized dataset positions are scaled into the scene's world units.
+const BABYLON_WORLD_SCALE = 20;
+
+// Every kNN edge is its own tube mesh; past this many stars only the selected star is tethered.
+const MAX_AMBIENT_TETHER_STARS = 400;
+
+const toBabylonStars = (dataset: EmbeddingDataset, swatchOf: SwatchLookup, sizeOf: SizeLookup): StarData[] => dataset.points.map(point => ({
+  id: point.id,
+  position: Vector3.FromArray(scalePosition(point.position, BABYLON_WORLD_SCALE)),
+  cluster: point.cluster,
+  swatch: swatchOf(point),
+  name: point.label,
+  size: 0.8 + sizeOf(dataset, point) * 0.7,
+}));
+
+// Point swatches converted to Color3 once per swatch.
+const swatchColorCacheBabylon = new WeakMap<ClusterSwatch, { base: Color3; emissive: Color3 }>();
+const swatchColorsBabylon = (swatch: ClusterSwatch) => {
+  let colors = swatchColorCacheBabylon.get(swatch);
+  if (!colors) {
+    colors = {
+      base: Color3.FromInts(...swatch.primary),
+      emissive: Color3.FromInts(...swatch.secondary).scale(0.85),
+    };
+    swatchColorCacheBabylon.set(swatch, colors);
+  }
+  return colors;
+};
 
 interface StarCoreProps {
-  position: Vector3; clusterId: number; name: string; size?: number;
-  isSelected: boolean; onClick: () => void;
+  id: string; position: Vector3; swatch: ClusterSwatch; name: string; size?: number;
+  isSelected: boolean; isHovered: boolean; isDimmed: boolean; onClick: () => void; // Dimmed = filtered out by search/filters
+  isMarked: boolean; // In the box/lasso selection set
 }
-const StarCore: React.FC<StarCoreProps> = ({ position, clusterId, name, size = 1, isSelected, onClick }) => {
+const StarCore: React.FC<StarCoreProps> = ({ id, position, swatch, name, size = 1, isSelected, isHovered, isDimmed, isMarked, onClick }) => {
   const scene = useScene();
   const sphereRef = useRef<Nullable<Mesh>>(null);
-  const { base: baseColor, emissive: emissiveColor } = CLUSTER_COLORS_BABYLON[clusterId % CLUSTER_COLORS_BABYLON.length];
+  const { base: baseColor, emissive: emissiveColor } = swatchColorsBabylon(swatch);
+
+  // The scene's hover picking reads the star's id off the mesh.
+  useEffect(() => {
+    if (sphereRef.current) sphereRef.current.metadata = { starId: id };
+  }, [id]);
   
   useEffect(() => {
     const mesh = sphereRef.current;
@@ -67,8 +102,9 @@ const StarCore: React.FC<StarCoreProps> = ({ position, clusterId, name, size = 1
   useEffect(() => {
     const sphereMesh = sphereRef.current;
     if (sphereMesh && pbrMaterial) {
-        const targetEmissiveIntensity = isSelected ? 2.8 : 1.8;
-        const targetScaleFactor = isSelected ? 1.2 : 1;
+        const targetEmissiveIntensity = isSelected ? 2.8 : (isHovered || isMarked ? 2.4 : (isDimmed ? 0.3 : 1.8));
+        pbrMaterial.alpha = isDimmed && !isSelected && !isHovered && !isMarked ? 0.15 : 1;
+        const targetScaleFactor = isSelected ? 1.2 : (isHovered || isMarked ? 1.1 : 1);
         const finalScale = (size * 1.8) * targetScaleFactor;
 
         Animation.CreateAndStartAnimation(
@@ -78,7 +114,7 @@ const StarCore: React.FC<StarCoreProps> = ({ position, clusterId, name, size = 1
             `scaleAnim-${name}`, sphereMesh, "scaling", 
             60, 15, sphereMesh.scaling, new Vector3(finalScale, finalScale, finalScale), Animation.ANIMATIONLOOPMODE_CONSTANT );
     }
-  }, [isSelected, pbrMaterial, size, name, sphereRef]);
+  }, [isSelected, isHovered, isDimmed, isMarked, pbrMaterial, size, name, sphereRef]);
 
   return (
     <>
@@ -88,37 +124,105 @@ const StarCore: React.FC<StarCoreProps> = ({ position, clusterId, name, size = 1
         {/* Click/Pick handled by onPointerObservable in useEffect */}
       </sphere>
       <pointLight name={`light-starcore-${name}`} position={position}
-        intensity={0.7 * (size > 1 ? size * 0.6 : 0.6) * (isSelected ? 1.6 : 1)} 
+        intensity={0.7 * (size > 1 ? size * 0.6 : 0.6) * (isSelected ? 1.6 : (isDimmed ? 0.2 : 1))} 
         diffuse={emissiveColor.scale(1.1)}
         specular={emissiveColor.scale(0.8)} range={25 * size} />
     </>
   );
 };
 
-interface CosmicTetherProps { from: Vector3; to: Vector3; color?: Color3; }
-const CosmicTether: React.FC<CosmicTetherProps> = ({ from, to, color = new Color3(0.7, 0.7, 1) }) => {
+// strength is the kNN similarity normalised over the graph: stronger ties are thicker and more opaque.
+interface CosmicTetherProps { from: Vector3; to: Vector3; color?: Color3; strength?: number; }
+const CosmicTether: React.FC<CosmicTetherProps> = ({ from, to, color = new Color3(0.7, 0.7, 1), strength = 1 }) => {
   const scene = useScene();
+  const colorKey = color.toHexString(); // Color3 instances are recreated per render; key the material on the value
   const tubeMaterial = useMemo(() => {
     if (!scene) return null;
-    const mat = new StandardMaterial(`mat-tether-${from.toString()}-${to.toString()}-${Math.random()}`, scene);
-    mat.diffuseColor = color;
-    mat.emissiveColor = color.scale(0.7);
-    mat.alpha = 0.55;
+    const tetherColor = Color3.FromHexString(colorKey);
+    const mat = new StandardMaterial(`mat-tether-${colorKey}-${Math.random()}`, scene);
+    mat.diffuseColor = tetherColor;
+    mat.emissiveColor = tetherColor.scale(0.7);
+    mat.alpha = 0.25 + strength * 0.45;
     return mat;
-  }, [scene, from, to, color]);
+  }, [scene, colorKey, strength]);
+  useEffect(() => () => tubeMaterial?.dispose(), [tubeMaterial]);
 
   return (
-    <tube name={`tether-${from.toString()}-${to.toString()}`} path={[from, to]} radius={0.04} tessellation={16} cap={Mesh.CAP_ALL} material={tubeMaterial ?? undefined}>
+    <tube name={`tether-${from.toString()}-${to.toString()}`} path={[from, to]} radius={0.02 + strength * 0.05} tessellation={16} cap={Mesh.CAP_ALL} material={tubeMaterial ?? undefined}>
        {/* Material is now a prop, materialFromInstance removed, MeshBuilder.CAP_ALL changed to Mesh.CAP_ALL */}
     </tube>
   );
 };
 
-const NeuralConstellationsScene: React.FC = () => {
+// The semantic query: a bright gold beacon tethered to its nearest neighbours.
+const QUERY_COLOR = Color3.FromHexString('#FFD27A');
+const QueryBeacon: React.FC<{ marker: QueryMarker; stars: StarData[] }> = ({ marker, stars }) => {
+  const scene = useScene();
+  const position = useMemo(() => Vector3.FromArray(scalePosition(marker.position, BABYLON_WORLD_SCALE)), [marker]);
+  const beaconMaterial = useMemo(() => {
+    if (!scene) return null;
+    const mat = new StandardMaterial(`mat-query-${Math.random()}`, scene);
+    mat.diffuseColor = QUERY_COLOR;
+    mat.emissiveColor = QUERY_COLOR;
+    return mat;
+  }, [scene]);
+  useEffect(() => () => beaconMaterial?.dispose(), [beaconMaterial]);
+
+  return (
+    <>
+      <sphere name="query-beacon" diameter={1.6} segments={16} position={position} isPickable={false} material={beaconMaterial ?? undefined} />
+      {marker.neighbors.map(({ index, strength }) => {
+        const star = stars[index];
+        return star && <CosmicTether key={`query-${star.id}-${position}-${star.position}`} from={position} to={star.position}
+          color={QUERY_COLOR} strength={strength} />;
+      })}
+    </>
+  );
+};
+
+interface NeuralConstellationsSceneProps {
+  dataset: EmbeddingDataset; stars: StarData[]; mask: Uint8Array | null; selection: Selection;
+  projectorRef: EngineSceneProps['projectorRef']; queryMarker: QueryMarker | null; camera: EngineSceneProps['camera'];
+  onAssetIssue: (issue: AssetIssue) => void;
+}
+const NeuralConstellationsScene: React.FC<NeuralConstellationsSceneProps> = ({ dataset, stars, mask, selection, projectorRef, queryMarker, camera: cameraSync, onAssetIssue }) => {
   const scene = useScene();
   const engine = useEngine();
   const particleSystemRef = useRef<Nullable<GPUParticleSystem>>(null);
-  const [selectedStarId, setSelectedStarId] = useState<Nullable<string>>(null);
+  const { selectedId: selectedStarId, setSelectedId: setSelectedStarId, focus, selectedIds, hoveredId, setHoveredId } = selection;
+
+  // Hover is picked once per pointer move for the whole scene, rather than by every star.
+  useEffect(() => {
+    if (!scene) return;
+    let lastId: string | null = null;
+    const observer = scene.onPointerObservable.add(pointerInfo => {
+      if (pointerInfo.type !== PointerEventTypes.POINTERMOVE) return;
+      const id: string | null = pointerInfo.pickInfo?.pickedMesh?.metadata?.starId ?? null;
+      if (id === lastId) return;
+      lastId = id;
+      setHoveredId(id);
+    });
+    return () => { scene.onPointerObservable.remove(observer); };
+  }, [scene, setHoveredId]);
+
+  // Box/lasso selection: project star centres through the active camera, then from render
+  // pixels (which follow the hardware scaling level) to CSS pixels.
+  useEffect(() => {
+    if (!scene) return;
+    const projected = new Vector3();
+    projectorRef.current = index => {
+      const star = stars[index];
+      const camera = scene.activeCamera;
+      const engine = scene.getEngine();
+      const canvas = engine.getRenderingCanvas();
+      if (!star || !camera || !canvas) return null;
+      const width = engine.getRenderWidth(), height = engine.getRenderHeight();
+      Vector3.ProjectToRef(star.position, Matrix.IdentityReadOnly, scene.getTransformMatrix(), camera.viewport.toGlobal(width, height), projected);
+      if (projected.z < 0 || projected.z > 1) return null;
+      return [projected.x * canvas.clientWidth / width, projected.y * canvas.clientHeight / height];
+    };
+    return () => { projectorRef.current = null; };
+  }, [scene, stars, projectorRef]);
   const cameraRef = useRef<Nullable<ArcRotateCamera>>(null);
 
   useEffect(() => {
@@ -139,9 +243,19 @@ const NeuralConstellationsScene: React.FC = () => {
       const glowLayer = new GlowLayer("glow", scene, { mainTextureSamples: 2 });
       glowLayer.intensity = 0.55;
 
-      if (GPUParticleSystem.IsSupported) {
+      // The sprite comes from the local asset manifest; without it the stardust is left out, and said so.
+      let stardustUrl: string | null = null;
+      try {
+        stardustUrl = spriteUrl('stardust');
+      } catch (e) {
+        onAssetIssue({ asset: SPRITES.stardust.label, message: `${(e as Error).message}; stardust particles are off` });
+      }
+      if (GPUParticleSystem.IsSupported && stardustUrl) {
         const stardustSystem = new GPUParticleSystem("stardust", { capacity: 12000 }, scene); 
-        stardustSystem.particleTexture = new Texture("https://assets.babylonjs.com/particles/textures/flare.png", scene);
+        stardustSystem.particleTexture = new Texture(stardustUrl, scene, undefined, undefined, undefined, undefined, message => {
+          stardustSystem.stop();
+          onAssetIssue({ asset: SPRITES.stardust.label, message: `${message ?? 'could not be decoded'}; stardust particles are off` });
+        });
         stardustSystem.emitter = Vector3.Zero();
         const emitterSize = 280;
         stardustSystem.particleEmitterType = new BoxParticleEmitter(); // No arguments
@@ -171,34 +285,77 @@ const NeuralConstellationsScene: React.FC = () => {
         // scene cleanup for materials & textures is often handled by react-babylonjs or by disposing the scene itself
       }
     }
-  }, [scene, engine]); // engine dependency might be removed if engine is always available via useEngine()
+  }, [scene, engine, onAssetIssue]); // engine dependency might be removed if engine is always available via useEngine()
 
   const tethers = useMemo(() => {
-    const connections: JSX.Element[] = [];
-    MOCK_EMBEDDINGS_BABYLON.forEach((emb1, i) => {
-      for (let j = i + 1; j < MOCK_EMBEDDINGS_BABYLON.length; j++) {
-        const emb2 = MOCK_EMBEDDINGS_BABYLON[j];
-        if (emb1.cluster === emb2.cluster && Vector3.Distance(emb1.position, emb2.position) < 15) {
-          connections.push( <CosmicTether key={`tether-${emb1.id}-${emb2.id}`} from={emb1.position} to={emb2.position}
-              color={CLUSTER_COLORS_BABYLON[emb1.cluster % CLUSTER_COLORS_BABYLON.length].base.clone().scale(0.6)} />
-          );
-        }
-      }
+    const edges = stars.length <= MAX_AMBIENT_TETHER_STARS
+      ? undirectedEdges(dataset)
+      : neighborsOf(dataset, stars.findIndex(s => s.id === selectedStarId));
+    return edges.map(({ source, target, strength }) => {
+      const emb1 = stars[source], emb2 = stars[target];
+      // The tube path is a builder option, so endpoints that move (layout transitions) need a fresh mesh.
+      return <CosmicTether key={`tether-${emb1.id}-${emb2.id}-${emb1.position}-${emb2.position}`} from={emb1.position} to={emb2.position}
+          color={swatchColorsBabylon(emb1.swatch).base.clone().scale(0.6)} strength={strength} />;
     });
-    return connections;
-  }, []);
+  }, [dataset, stars, selectedStarId]);
 
+  // Eases the target onto the selected star when the selection changes or a focus request comes
+  // in (which re-flies to an already selected star); deselecting goes back to the origin. Stars
+  // moving or being rebuilt (layout transitions, recolours, a new dataset) never fly the camera.
+  const starsRef = useRef(stars);
+  starsRef.current = stars;
+  const flownRef = useRef<{ selectedId: string | null; nonce: number } | null>(null);
   useEffect(() => {
     const camera = cameraRef.current;
-    if (camera && scene) { // Ensure scene is available for animation context
-        const starData = MOCK_EMBEDDINGS_BABYLON.find(s => s.id === selectedStarId);
-        const targetPosition = starData ? starData.position : Vector3.Zero(); 
-        
-        Animation.CreateAndStartAnimation(
-            "camTargetAnim", camera, "target", 
-            60, 20, camera.target, targetPosition, Animation.ANIMATIONLOOPMODE_CONSTANT, undefined, undefined, scene );
-    }
-  }, [selectedStarId, scene, cameraRef]); // Added cameraRef to dependencies
+    const nonce = focus?.nonce ?? 0;
+    const flown = flownRef.current;
+    if (!camera || !scene || (flown && flown.selectedId === selectedStarId && flown.nonce === nonce)) return;
+    flownRef.current = { selectedId: selectedStarId, nonce };
+    const starData = selectedStarId !== null ? starsRef.current.find(s => s.id === selectedStarId) : undefined;
+    if (selectedStarId !== null && !starData) return; // Not among the stars shown
+    const targetPosition = starData ? starData.position : Vector3.Zero();
+    Animation.CreateAndStartAnimation(
+        "camTargetAnim", camera, "target",
+        60, 20, camera.target, targetPosition, Animation.ANIMATIONLOOPMODE_CONSTANT, undefined, undefined, scene );
+  }, [selectedStarId, scene, focus]);
+
+  // Shared links: the camera is [alpha, beta, radius, target x, y, z]. It is reported whenever the
+  // view changes (inertia and auto-rotation included; the shell throttles the writes). Grabbing the
+  // view or restoring one stops auto-rotating, so it stays put. Declared after the target
+  // animation above so a restore wins over a flight started in the same render (a link's
+  // selection and cameras arrive together, once its dataset is on screen).
+  const { restore: cameraRequest, report: reportCamera } = cameraSync;
+  const restoredNonceRef = useRef(0);
+  useEffect(() => {
+    const camera = cameraRef.current;
+    if (!camera || !scene || !cameraRequest || cameraRequest.nonce === restoredNonceRef.current || cameraRequest.camera.length !== 6) return;
+    restoredNonceRef.current = cameraRequest.nonce;
+    const [alpha, beta, radius, tx, ty, tz] = cameraRequest.camera;
+    scene.stopAnimation(camera);
+    camera.useAutoRotationBehavior = false;
+    camera.alpha = alpha;
+    camera.beta = beta;
+    camera.radius = radius;
+    camera.setTarget(new Vector3(tx, ty, tz));
+  }, [cameraRequest, scene]);
+  useEffect(() => {
+    const camera = cameraRef.current;
+    if (!camera) return;
+    const observer = camera.onViewMatrixChangedObservable.add(() => {
+      reportCamera([camera.alpha, camera.beta, camera.radius, camera.target.x, camera.target.y, camera.target.z]);
+    });
+    return () => { camera.onViewMatrixChangedObservable.remove(observer); };
+  }, [scene, reportCamera]);
+  useEffect(() => {
+    if (!scene) return;
+    const observer = scene.onPointerObservable.add(pointerInfo => {
+      const camera = cameraRef.current;
+      if (camera && (pointerInfo.type === PointerEventTypes.POINTERDOWN || pointerInfo.type === PointerEventTypes.POINTERWHEEL)) {
+        camera.useAutoRotationBehavior = false;
+      }
+    });
+    return () => { scene.onPointerObservable.remove(observer); };
+  }, [scene]);
 
   const handleStarClick = (id: string) => {
     setSelectedStarId(prevId => prevId === id ? null : id); 
@@ -212,67 +369,94 @@ const NeuralConstellationsScene: React.FC = () => {
         />
         {/* autoRotationBehavior prop and its options will be set in useEffect once cameraRef is valid, if direct props aren't available in react-babylonjs for these specific sub-properties */}
       <hemisphericLight name="hemiLight" intensity={0.18} direction={Vector3.Up()} groundColor={new Color3(0.1, 0.1, 0.4)}/>
-      {MOCK_EMBEDDINGS_BABYLON.map(emb => <StarCore key={emb.id} position={emb.position} name={emb.name} size={emb.size} clusterId={emb.cluster} isSelected={selectedStarId === emb.id} onClick={() => handleStarClick(emb.id)} />)}
+      {stars.map((emb, i) => <StarCore key={emb.id} id={emb.id} position={emb.position} name={emb.name} size={emb.size} swatch={emb.swatch} isSelected={selectedStarId === emb.id} isHovered={hoveredId === emb.id && selectedStarId !== emb.id} isDimmed={mask ? !mask[i] : false} isMarked={selectedIds.has(emb.id)} onClick={() => handleStarClick(emb.id)} />)}
       {tethers}
+      {queryMarker && <QueryBeacon marker={queryMarker} stars={stars} />}
     </>
   );
 };
 
-const EngineTypeDisplay: React.FC = () => {
+// Reports the backend the engine actually created, read from the engine itself.
+const BackendReporter: React.FC<{ onReady: (actual: RendererBackend) => void }> = ({ onReady }) => {
   const engine = useEngine();
-  const [engineType, setEngineType] = useState("Detecting...");
   useEffect(() => {
-    if (engine) {
-      // Check constructor name or a specific capability
-      if (engine.constructor.name === "WebGPUEngine") {
-        setEngineType("WebGPU");
-      } else {
-        setEngineType("WebGL");
-      }
-    }
-  }, [engine]);
-  return <>{engineType}</>;
+    if (engine) onReady(engine.isWebGPU ? 'webgpu' : engine.version >= 2 ? 'webgl2' : 'webgl');
+  }, [engine, onReady]);
+  return null;
 }
 
-const BabylonApp: React.FC = () => {
-  // Removed manual engine creation and related states (engine, error, engineType from here)
-  // react-babylonjs <Engine> component will manage the engine lifecycle.
+// react-babylonjs only resizes on window resize; the canvas also changes size when the shell's
+// side panels open or close.
+const CanvasResizer: React.FC = () => {
+  const engine = useEngine();
+  useEffect(() => {
+    const canvas = engine?.getRenderingCanvas();
+    if (!engine || !canvas) return;
+    const observer = new ResizeObserver(() => engine.resize());
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [engine]);
+  return null;
+};
+
+const BabylonApp: React.FC<EngineSceneProps> = ({ backend, onReady, projectorRef, camera }) => {
+  const dataset = useAnimatedDataset();
+  const swatchOf = usePointSwatch();
+  const sizeOf = usePointSize();
+  const stars = useMemo(() => toBabylonStars(dataset, swatchOf, sizeOf), [dataset, swatchOf, sizeOf]);
+  // react-babylonjs renders the scene in its own React root, so filter, selection, colour, query and camera state are handed down as props.
+  const { result } = useFilter();
+  const selection = useSelection();
+  const { marker } = useQuery();
+  const [renderer, setRenderer] = useState<RendererBackend | null>(null);
+  const [assetIssues, setAssetIssues] = useState<AssetIssue[]>([]);
+  const reportAssetIssue = useCallback((issue: AssetIssue) => {
+    setAssetIssues(list => (list.some(i => i.asset === issue.asset) ? list : [...list, issue]));
+  }, []);
+  const reportBackend = useCallback((actual: RendererBackend) => {
+    setRenderer(actual);
+    onReady(actual);
+  }, [onReady]);
+  const canvasId = `babylon-canvas-${useId()}`; // The dashboard and the compare split can show two Babylon panes
   const engineOptions = useMemo(() => ({
-    preferWebGPU: true,
     antialias: true,
     adaptToDeviceRatio: true,
     stencil: true,
     preserveDrawingBuffer: true, // Kept from original WebGL fallback
-  }), []);
+    disableWebGL2Support: backend === 'webgl',
+  }), [backend]);
 
-  // Note: The error state for WebGPU fallback needs a different handling now,
-  // potentially by trying to render with WebGL if WebGPU fails,
-  // or by using a global error boundary. For now, this is simplified.
+  // react-babylonjs only renders children once the engine exists, so a WebGPU engine whose
+  // async init fails never reports in; the shell's watchdog then retries with WebGL.
+  const sceneTree = (
+    <>
+      <BackendReporter onReady={reportBackend} />
+      <CanvasResizer />
+      <Scene>
+        <Suspense fallback={ <BabylonHtmlFallback center>
+                <div style={{color:'white', textAlign:'center', fontSize: '1.2em', background:'rgba(0,0,0,0.5)', padding:'20px', borderRadius:'8px'}}>
+                    Loading Neural Constellations...
+                </div>
+            </BabylonHtmlFallback> }>
+          <NeuralConstellationsScene dataset={dataset} stars={stars} mask={result.mask} selection={selection} projectorRef={projectorRef} queryMarker={marker} camera={camera}
+            onAssetIssue={reportAssetIssue} />
+        </Suspense>
+      </Scene>
+    </>
+  );
 
   return (
     <div style={{ width: '100%', height: '100%', background:'#000005', position: 'relative' }}>
-      {/*
-        The <Engine> component from react-babylonjs will create the canvas.
-        No need for babylonCanvasRef or manual placeholder canvas if RLEngine handles it.
-        If a specific canvas ID is needed, it can be passed to <Engine canvasId='...'>.
-      */}
-      <RLEngine engineOptions={engineOptions} canvasId="babylon-canvas-rl">
-        <Scene>
-          <Suspense fallback={ <BabylonHtmlFallback center>
-                  <div style={{color:'white', textAlign:'center', fontSize: '1.2em', background:'rgba(0,0,0,0.5)', padding:'20px', borderRadius:'8px'}}>
-                      Loading Neural Constellations...
-                  </div>
-              </BabylonHtmlFallback> }>
-            <NeuralConstellationsScene />
-          </Suspense>
-        </Scene>
-      </RLEngine>
+      {backend === 'webgpu'
+        ? <RLWebGPUEngine webGPUEngineOptions={{ antialias: true, adaptToDeviceRatio: true, stencil: true }} canvasId={canvasId}>{sceneTree}</RLWebGPUEngine>
+        : <RLEngine engineOptions={engineOptions} canvasId={canvasId}>{sceneTree}</RLEngine>}
       <div style={{ position: 'absolute', bottom: '10px', right: '10px', color: 'rgba(220, 220, 255, 0.75)',
         fontSize: '12px', fontFamily: 'Arial, sans-serif', background: 'rgba(0,0,10,0.7)',
         padding: '5px 10px', borderRadius: '5px', zIndex: 10000 }}>
         <b>Neural Constellations (Babylon.js)</b> <br />
         Features: PBR, GPU Particles, Post-Processing, Dynamic Interactions <br />
-        Renderer: <EngineTypeDisplay />
+        Renderer: {renderer ? BACKEND_LABELS[renderer] : 'Initializing...'}
+        <AssetNotice issues={assetIssues} />
       </div>
     </div>
   );
@@ -1,28 +1,48 @@
 // src/DeckGLApp.tsx
 // No major API changes for Deck.gl 9.1.12.
 // Current layer and effect usage is consistent with docs.
-// Renderer detection heuristic is pragmatic.
-// Enhanced selected item visuals via accessors in ScatterplotLayer.
+// The renderer backend is read from the device deck creates and reported to the shell.
+// Points pulse on the GPU (see deck/PulsingScatterplotLayer.ts); selection reaches the accessors through updateTriggers.
 
 import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import DeckGL, { DeckGLRef } from '@deck.gl/react'; // DeckGLRef typically from @deck.gl/react
-import { ScatterplotLayer, PathLayer } from '@deck.gl/layers';
-import { COORDINATE_SYSTEM, OrbitView, LightingEffect, AmbientLight, PointLight, Effect } from '@deck.gl/core'; // Removed PhongMaterial
+import { PathLayer } from '@deck.gl/layers';
+import { COORDINATE_SYSTEM, OrbitView, LightingEffect, AmbientLight, PointLight, Effect, LinearInterpolator, MapViewState, OrbitViewState, ViewStateChangeParameters } from '@deck.gl/core'; // Removed PhongMaterial
 // import { BloomEffect } from '@deck.gl/extensions'; // BloomEffect removed in Deck.gl 9.x from extensions
+import { EmbeddingDataset, scalePosition, Vec3 } from './data/dataset';
+import { SizeLookup, usePointSize } from './data/EncodingContext';
+import { useFilter } from './data/FilterContext';
+import { NeighborEdge, undirectedEdges } from './data/neighbors';
+import { ClusterSwatch } from './data/palette';
+import { SwatchLookup, usePointSwatch } from './data/PointColorContext';
+import { useSelection } from './data/SelectionContext';
+import { useAnimatedDataset } from './data/useAnimatedDataset';
+import { CellHover, DEFAULT_DENSITY, DensityOptions, densityLayers, toDensityPoints } from './deck/densityLayers';
+import DensityPanel from './deck/DensityPanel';
+import { PulsingScatterplotLayer } from './deck/PulsingScatterplotLayer';
+import { QueryMarker, useQuery } from './query/QueryContext';
+import { BACKEND_LABELS, EngineSceneProps, RendererBackend } from './shell/capabilities';
+import { useRendererFailure } from './shell/RendererBoundary';
 
-const MOCK_EMBEDDINGS_DECK = [
-  { id: 'd_emb_0_1', position: [-60, 20, 10], cluster: 0, name: "Stellar Nucleosynthesis", intensity: 0.9, size: 15 },
-  { id: 'd_emb_0_2', position: [-50, 25, 15], cluster: 0, name: "Supernova Remnants", intensity: 1.0, size: 18 },
-  { id: 'd_emb_1_1', position: [40, -30, -5], cluster: 1, name: "Deep Sea Vents", intensity: 0.85, size: 14 },
-  { id: 'd_emb_1_2', position: [50, -35, 3], cluster: 1, name: "Bioluminescence", intensity: 0.95, size: 17 },
-  { id: 'd_emb_0_3', position: [-70, 15, 5], cluster: 0, name: "Nebula Formation", intensity: 0.7, size: 12 },
-  { id: 'd_emb_1_3', position: [30, -25, -10], cluster: 1, name: "Hydrothermal Chimneys", intensity: 0.8, size: 16 },
-];
+interface DeckEmbedding { id: string; position: Vec3; cluster: number; swatch: ClusterSwatch; name: string; intensity: number; size: number; }
 
-const CLUSTER_COLORS_DECK = [
-  { primary: [255, 120, 30, 255], secondary: [255, 220, 80, 255] },
-  { primary: [30, 150, 255, 255], secondary: [80, 220, 255, 255] },
-];
+// Normalized dataset positions are scaled into the orbit view's cartesian units.
+const DECK_WORLD_SCALE = 75;
+
+const toDeckEmbeddings = (dataset: EmbeddingDataset, swatchOf: SwatchLookup, sizeOf: SizeLookup): DeckEmbedding[] => dataset.points.map(point => {
+  const value = sizeOf(dataset, point);
+  return {
+    id: point.id,
+    position: scalePosition(point.position, DECK_WORLD_SCALE),
+    cluster: point.cluster,
+    swatch: swatchOf(point),
+    name: point.label,
+    intensity: 0.6 + value * 0.4,
+    size: 12 + value * 6,
+  };
+});
+
+const swatchColorsDeck = ({ primary, secondary }: ClusterSwatch) => ({ primary: [...primary, 255], secondary: [...secondary, 255] });
 
 // Explicitly type target as a tuple
 const INITIAL_VIEW_STATE = {
@@ -30,6 +50,18 @@ const INITIAL_VIEW_STATE = {
   zoom: 1.3, minZoom: 0.4, maxZoom: 8,
 };
 
+// Flying to a search result only pans; rotation and zoom stay where the user left them.
+const FLY_DURATION_MS = 800;
+const flyInterpolator = new LinearInterpolator(['target']);
+type DeckViewState = typeof INITIAL_VIEW_STATE & OrbitViewState;
+
+// The semantic query marker and its neighbour links.
+const QUERY_COLOR: [number, number, number] = [255, 210, 122];
+interface QueryLink { path: Vec3[]; strength: number; }
+
+// Alpha multiplier for points and edges filtered out by search/filters.
+const DIMMED_ALPHA = 0.12;
+
 const ambientLight = new AmbientLight({ color: [230, 230, 255], intensity: 0.7 });
 const pointLight1 = new PointLight({ color: [255, 200, 180], intensity: 1.2, position: [-80, -80, 80] });
 const pointLight2 = new PointLight({ color: [180, 200, 255], intensity: 0.9, position: [80, 80, 40] });
@@ -41,110 +73,174 @@ const lightingEffect = new LightingEffect({ ambientLight, pointLight1, pointLigh
 const effects: Effect[] = [lightingEffect]; // Changed PostProcessEffect[] to Effect[]
 
 
-const DeckGLApp: React.FC = () => {
-  const [viewState, setViewState] = useState(INITIAL_VIEW_STATE);
+const DeckGLApp: React.FC<EngineSceneProps> = ({ onReady, projectorRef, camera }) => {
+  const dataset = useAnimatedDataset();
+  const swatchOf = usePointSwatch();
+  const sizeOf = usePointSize();
+  const embeddings = useMemo(() => toDeckEmbeddings(dataset, swatchOf, sizeOf), [dataset, swatchOf, sizeOf]);
+  const [viewState, setViewState] = useState<DeckViewState>(INITIAL_VIEW_STATE);
   const [hoverInfo, setHoverInfo] = useState<any>(null);
-  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
-  const [time, setTime] = useState(0);
+  const [density, setDensity] = useState<DensityOptions>(DEFAULT_DENSITY);
+  const [cellHover, setCellHover] = useState<CellHover | null>(null);
+  const { selectedId: selectedItemId, setSelectedId: setSelectedItemId, focus, selectedIds, hoveredId, setHoveredId } = useSelection();
   const deckRef = useRef<DeckGLRef>(null);
-  const [rendererInfo, setRendererInfo] = useState<string>("Initializing...");
+  const [renderer, setRenderer] = useState<RendererBackend | null>(null);
+  const deviceReadyRef = useRef(false);
+  const reportFailure = useRendererFailure();
+  const { result: { mask } } = useFilter();
+  const { marker } = useQuery();
 
+  // Fly once per request, not again on every frame of a layout transition.
+  const flownNonceRef = useRef(0);
   useEffect(() => {
-    let animationFrameId: number;
-    const animate = () => {
-      setTime(t => t + 0.015);
-      animationFrameId = requestAnimationFrame(animate);
+    const target = focus && focus.nonce !== flownNonceRef.current ? embeddings.find(e => e.id === focus.id) : undefined;
+    if (!focus || !target) return;
+    flownNonceRef.current = focus.nonce;
+    setViewState(v => ({ ...v, target: target.position, transitionDuration: FLY_DURATION_MS, transitionInterpolator: flyInterpolator }));
+  }, [focus, embeddings]);
+
+  // Shared links: the camera is [target x, y, z, rotationX, rotationOrbit, zoom].
+  const restoredNonceRef = useRef(0);
+  useEffect(() => {
+    const request = camera.restore;
+    if (!request || request.nonce === restoredNonceRef.current || request.camera.length !== 6) return;
+    restoredNonceRef.current = request.nonce;
+    const [x, y, z, rotationX, rotationOrbit, zoom] = request.camera;
+    setViewState(v => ({ ...v, target: [x, y, z], rotationX, rotationOrbit, zoom: Math.min(v.maxZoom, Math.max(v.minZoom, zoom)) }));
+  }, [camera.restore]);
+
+  // Box/lasso selection: deck's viewport projects world positions straight to CSS pixels.
+  useEffect(() => {
+    projectorRef.current = index => {
+      const viewport = deckRef.current?.deck?.getViewports()[0];
+      const emb = embeddings[index];
+      if (!viewport || !emb) return null;
+      const [x, y] = viewport.project(emb.position);
+      return [x, y];
     };
-    animationFrameId = requestAnimationFrame(animate);
-    return () => cancelAnimationFrame(animationFrameId);
-  }, []);
-
-  const onViewStateChange = useCallback(({ viewState: newViewState }: { viewState: any }) => {
-    setViewState(newViewState);
-  }, []);
-
-  const onInitialized = useCallback((deckInstance: DeckGLRef | null) => {
-    const currentDeck = deckInstance?.deck;
-    if (currentDeck) {
-        const canvas = currentDeck.getCanvas(); // Use getCanvas() method
-        if (canvas) {
-            // Try to get WebGPU context
-            if ((navigator as any).gpu) { // Basic check if WebGPU API exists
-                canvas.getContext('webgpu') ?
-                    setRendererInfo("WebGPU (Canvas Context)") :
-                    setRendererInfo("WebGPU API available, but context failed");
-            } else if (canvas.getContext('webgl2')) {
-                setRendererInfo("WebGL 2 (Canvas Context)");
-            } else if (canvas.getContext('webgl')) {
-                setRendererInfo("WebGL 1 (Canvas Context)");
-            } else {
-                setRendererInfo("Canvas Context Unavailable");
-            }
-            // console.log("DeckGLApp: Deck instance initialized. Canvas:", canvas);
-        } else {
-            setRendererInfo("Canvas Unavailable from Deck Instance");
-        }
-    } else {
-         setRendererInfo("Deck Instance or Canvas Unavailable");
-    }
-  }, []);
+    return () => { projectorRef.current = null; };
+  }, [embeddings, projectorRef]);
+
+  const { report: reportCamera } = camera;
+  const onViewStateChange = useCallback(({ viewState: newViewState }: ViewStateChangeParameters<OrbitViewState | MapViewState>) => {
+    if (!('target' in newViewState)) return; // The only view is an OrbitView
+    const { target, rotationX = 0, rotationOrbit = 0, zoom } = newViewState;
+    setViewState(v => ({ ...v, ...newViewState }));
+    reportCamera([...target, rotationX, rotationOrbit, zoom]);
+  }, [reportCamera]);
+
+  // Reads the backend from the luma.gl device deck created; luma.gl's WebGL device is always WebGL 2.
+  const onDeviceInitialized = useCallback(({ type }: { type: string }) => {
+    const actual: RendererBackend = type === 'webgpu' ? 'webgpu' : 'webgl2';
+    deviceReadyRef.current = true;
+    setRenderer(actual);
+    onReady(actual);
+  }, [onReady]);
+
+  // Before the device exists an error means initialisation failed; after that it is a layer
+  // error, which should not send the shell off to another backend.
+  const onError = useCallback((error: Error) => {
+    if (!deviceReadyRef.current) reportFailure(error);
+  }, [reportFailure]);
 
 
+  // The edge list is computed once per neighbour graph, and the pulse runs on the GPU, so the
+  // layers below are only rebuilt when the data, selection or query change. Accessors that read
+  // anything besides their datum name it in updateTriggers; deck recomputes just those attributes.
+  const edges = useMemo(() => undirectedEdges(dataset), [dataset]);
+  const activeIndex = useMemo(() => embeddings.findIndex(e => e.id === selectedItemId), [embeddings, selectedItemId]);
+  // Hover moves on every pointer move, so it is never an accessor input: the GPU picking highlight
+  // marks the hovered row (from this view or a linked one) without touching any attribute.
+  const hoveredIndex = useMemo(() => (hoveredId === null ? -1 : embeddings.findIndex(e => e.id === hoveredId)), [embeddings, hoveredId]);
+
+  // Density views sit under the points; their input is only built while one of them is on.
+  const densityOn = density.heatmap || density.cells !== null || density.contours;
+  const densityPoints = useMemo(
+    () => (densityOn ? toDensityPoints(dataset, embeddings, mask, density.cellColumn) : []),
+    [densityOn, dataset, embeddings, mask, density.cellColumn],
+  );
+  const underlays = useMemo(() => densityLayers(dataset, densityPoints, density, setCellHover), [dataset, densityPoints, density]);
+  useEffect(() => { if (!density.cells) setCellHover(null); }, [density.cells]);
+
   const layers = useMemo(() => [
-    new ScatterplotLayer<any>({ // Explicitly type if your data items have a known interface
-      id: 'embedding-geysers', data: MOCK_EMBEDDINGS_DECK,
-      getPosition: (d: any) => d.position,
-      // Reverted to simple accessor signature, added 'as number' cast
-      getRadius: (d: any) => (d.size * (1 + Math.sin(d.intensity * 6 + time * 4 + d.position[0]) * 0.15) * (selectedItemId === d.id ? 1.25 : 1)) as number,
-      getFillColor: (d: any): [number, number, number, number] => { // Explicit return type
-        const baseColor = CLUSTER_COLORS_DECK[d.cluster % CLUSTER_COLORS_DECK.length].primary;
-        const intensityFactor = (selectedItemId === d.id ? 0.85 : 0.55) + d.intensity * 0.45; 
-        return [ baseColor[0] * intensityFactor, baseColor[1] * intensityFactor, baseColor[2] * intensityFactor, (selectedItemId === d.id ? 255 : 190 + d.intensity * 65) ] as [number, number, number, number];
+    ...underlays,
+    new PulsingScatterplotLayer<DeckEmbedding>({
+      id: 'embedding-geysers', data: embeddings, visible: density.points,
+      getPosition: d => d.position,
+      getPhase: d => d.intensity * 6 + d.position[0],
+      getRadius: d => d.size * (selectedItemId === d.id ? 1.25 : (selectedIds.has(d.id) ? 1.12 : 1)),
+      getFillColor: (d, { index }): [number, number, number, number] => {
+        const baseColor = swatchColorsDeck(d.swatch).primary;
+        const intensityFactor = (selectedItemId === d.id ? 0.85 : 0.55) + d.intensity * 0.45;
+        const dim = mask && !mask[index] && selectedItemId !== d.id && !selectedIds.has(d.id) ? DIMMED_ALPHA : 1;
+        return [baseColor[0] * intensityFactor, baseColor[1] * intensityFactor, baseColor[2] * intensityFactor, (selectedItemId === d.id ? 255 : 190 + d.intensity * 65) * dim];
       },
-      getLineColor: (d: any): [number, number, number, number] => { // Explicit return type
-        const baseColor = CLUSTER_COLORS_DECK[d.cluster % CLUSTER_COLORS_DECK.length].secondary;
-        return (selectedItemId === d.id ? [255,255,255, 255] : [...baseColor.slice(0,3), 190]) as [number, number, number, number];
+      getLineColor: (d, { index }): [number, number, number, number] => {
+        const baseColor = swatchColorsDeck(d.swatch).secondary;
+        const dim = mask && !mask[index] ? DIMMED_ALPHA : 1;
+        if (selectedItemId === d.id) return [255, 255, 255, 255];
+        if (selectedIds.has(d.id)) return [255, 236, 170, 255]; // Box/lasso selection set
+        return [baseColor[0], baseColor[1], baseColor[2], 190 * dim];
       },
-      // lineWidthMinPixels and lineWidthMaxPixels changed to numbers from accessors
+      updateTriggers: {
+        getRadius: [selectedItemId, selectedIds],
+        getFillColor: [selectedItemId, selectedIds, mask],
+        getLineColor: [selectedItemId, selectedIds, mask],
+      },
+      highlightedObjectIndex: hoveredIndex,
+      highlightColor: [255, 255, 255, 150],
       lineWidthMinPixels: 1.0,
       lineWidthMaxPixels: 2.5,
       billboard: true, stroked: true,
-      pickable: true, 
-      onHover: info => setHoverInfo(info),
-      onClick: info => setSelectedItemId(prev => prev === info.object?.id ? null : info.object?.id),
-      // material prop removed from ScatterplotLayer
-      // updateTriggers are vital if accessors depend on state/props NOT in the `data` prop.
-      // Here, selectedItemId is used in accessors, so it should trigger updates.
-      // Deck.gl typically handles this by checking if accessor functions themselves change.
-      // Explicitly adding `selectedItemId` to the main useMemo deps array for `layers` handles this.
+      pickable: true,
+      onHover: info => {
+        setHoverInfo(info);
+        setHoveredId(info.object?.id ?? null);
+      },
+      onClick: info => setSelectedItemId(prev => prev === info.object?.id ? null : info.object?.id ?? null),
     }),
-    new PathLayer<any>({
-      id: 'energy-streams',
-      data: (() => {
-        const paths: any[] = [];
-        const activeEmb = MOCK_EMBEDDINGS_DECK.find(e => e.id === selectedItemId);
-        MOCK_EMBEDDINGS_DECK.forEach((emb1, i) => {
-          for (let j = i + 1; j < MOCK_EMBEDDINGS_DECK.length; j++) {
-            const emb2 = MOCK_EMBEDDINGS_DECK[j];
-            const isConnectedToSelected = activeEmb && (emb1.id === activeEmb.id || emb2.id === activeEmb.id);
-            if (emb1.cluster === emb2.cluster && Math.sqrt(Math.pow(emb1.position[0] - emb2.position[0], 2) + Math.pow(emb1.position[1] - emb2.position[1], 2) + Math.pow(emb1.position[2] - emb2.position[2], 2)) < 45) {
-              paths.push({ 
-                  path: [emb1.position, emb2.position], 
-                  color: CLUSTER_COLORS_DECK[emb1.cluster % CLUSTER_COLORS_DECK.length].secondary,
-                  opacity: isConnectedToSelected || !selectedItemId ? 160 : 60 
-                });
-            }
-          }
-        });
-        return paths;
-      })(),
-      getPath: (d: any) => d.path,
-      // Reverted to simple accessor signature
-      getColor: (d: any) => [...d.color.slice(0,3), d.opacity],
-      getWidth: 1.8, widthMinPixels: 1.0, widthMaxPixels: 2.8,
+    // One path per kNN edge; similarity drives opacity and width.
+    new PathLayer<NeighborEdge>({
+      id: 'energy-streams', data: edges, visible: density.edges,
+      _pathType: 'open', // Two points each, never looped; skips deck's path normalisation
+      getPath: ({ source, target }) => [embeddings[source].position, embeddings[target].position],
+      getColor: ({ source, target, strength }): [number, number, number, number] => {
+        const isConnectedToSelected = activeIndex >= 0 && (source === activeIndex || target === activeIndex);
+        const dim = mask && !(mask[source] && mask[target]) ? DIMMED_ALPHA : 1;
+        const [r, g, b] = embeddings[source].swatch.secondary;
+        return [r, g, b, (isConnectedToSelected || !selectedItemId ? 70 + strength * 120 : 30 + strength * 40) * dim];
+      },
+      getWidth: d => 1 + d.strength * 1.6, widthMinPixels: 1.0, widthMaxPixels: 3.2,
+      updateTriggers: {
+        getPath: embeddings,
+        getColor: [embeddings, activeIndex, selectedItemId, mask],
+      },
       jointRounded: true, capRounded: true,
     }),
-  ], [time, selectedItemId]); 
+    marker && new PathLayer<QueryLink>({
+      id: 'query-links',
+      data: marker.neighbors.filter(({ index }) => embeddings[index]).map(({ index, strength }) => ({
+        path: [scalePosition(marker.position, DECK_WORLD_SCALE), embeddings[index].position],
+        strength,
+      })),
+      getPath: d => d.path,
+      getColor: d => [...QUERY_COLOR, 90 + d.strength * 140],
+      getWidth: d => 1 + d.strength * 1.6, widthMinPixels: 1.0, widthMaxPixels: 3.2,
+      capRounded: true,
+    }),
+    marker && new PulsingScatterplotLayer<QueryMarker>({
+      id: 'semantic-query',
+      data: [marker],
+      getPosition: d => scalePosition(d.position, DECK_WORLD_SCALE),
+      getRadius: 16,
+      pulseSpeed: 6, pulseAmplitude: 0.12,
+      getFillColor: [...QUERY_COLOR, 255],
+      getLineColor: [255, 255, 255, 255],
+      lineWidthMinPixels: 2,
+      billboard: true, stroked: true,
+      pickable: false,
+    }),
+  ], [underlays, density.points, density.edges, selectedItemId, selectedIds, hoveredIndex, setHoveredId, setSelectedItemId, embeddings, edges, activeIndex, mask, marker]);
 
   const views = useMemo(() => [new OrbitView({ id: 'mainOrbit', orbitAxis: 'Z', fovy: 50 })], []);
 
@@ -161,13 +257,21 @@ const DeckGLApp: React.FC = () => {
     effects: effects, // Use the updated effects array (without Bloom)
     // parameters: { depthTest: true }, // Commented out due to type error
     useDevicePixels: true,
-    onLoad: () => onInitialized(deckRef.current), // Deck.gl instance is passed here
+    onDeviceInitialized,
+    onError,
   };
 
   return (
     <div style={{ width: '100%', height: '100%', background: '#010002', position: 'relative' }}>
       <style>{`.deck-tooltip { background: rgba(5,0,15,0.9) !important; color: #ddeeff !important; border-radius: 6px !important; padding: 10px 14px !important; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif !important; font-size: 12.5px !important; box-shadow: 0 3px 12px rgba(0,40,90,0.6) !important; border: 1px solid rgba(40,80,130,0.8) !important; max-width: 280px !important; white-space: pre-wrap !important; pointer-events: none !important; }`}</style>
       <DeckGL {...deckGLProps} />
+      <DensityPanel options={density} onChange={setDensity} columns={dataset.columns} />
+      {cellHover && (
+        <div className="deck-tooltip" style={{ position: 'absolute', left: cellHover.x + 8, top: cellHover.y + 8, zIndex: 1 }}>
+          <div><b>{cellHover.count} point{cellHover.count === 1 ? '' : 's'}</b></div>
+          {cellHover.mean !== null && <div>Mean {cellHover.column}: {cellHover.mean.toPrecision(4)}</div>}
+        </div>
+      )}
       {hoverInfo && hoverInfo.object && hoverInfo.object.id !== selectedItemId && (
         <div className="deck-tooltip" style={{ position: 'absolute', left: hoverInfo.x + 8, top: hoverInfo.y + 8, zIndex: 1 }}>
           <div><b>{hoverInfo.object.name}</b></div>
@@ -179,8 +283,8 @@ const DeckGLApp: React.FC = () => {
         fontSize: '12px', fontFamily: 'Arial, sans-serif', background: 'rgba(0,5,20,0.7)',
         padding: '5px 10px', borderRadius: '5px', zIndex: 10000, }}>
         <b>Data Geysers (Deck.gl)</b><br />
-        Features: Scatterplot/Path Layers, Custom Lighting, Post-Processing (Bloom) <br />
-        Renderer: {rendererInfo}
+        Features: GPU-Pulsed Scatterplot, kNN Paths, Heatmap/Hexagon/Contour Density <br />
+        Renderer: {renderer ? BACKEND_LABELS[renderer] : 'Initializing...'}
       </div>
     </div>
   );
@@ -1,10 +0,0 @@
-// src/MyTestShell.tsx
-
-export default function MyTestShell() {
-  return (
-    <div style={{ padding: '20px', backgroundColor: '#111', color: 'white', height: '100vh', display: 'flex', flexDirection: 'column', justifyContent: 'center', alignItems: 'center' }}>
-      <h1>Basic Shell Application</h1>
-      <p>This is a minimal shell. Other applications will be hosted here.</p>
-    </div>
-  );
-}
\ No newline at end of file
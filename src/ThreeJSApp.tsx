@@ -1,67 +1,105 @@
-// @ts-nocheck
 // src/ThreeJSApp.tsx
-import React, { Suspense, useEffect, useRef, useState, useMemo } from 'react';
+import React, { Suspense, useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import { Canvas, useFrame, useThree, ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, Sparkles, Html } from '@react-three/drei';
 import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 import {
-  Color, Vector3, FogExp2, MeshStandardMaterial, LineBasicMaterial,
-  BufferGeometry, Mesh, SRGBColorSpace, ACESFilmicToneMapping
+  Color, Vector3, FogExp2, MeshStandardMaterial,
+  BufferGeometry, Mesh, SRGBColorSpace, ACESFilmicToneMapping, WebGLRenderer,
+  BufferAttribute, ShaderMaterial, Vector2, PerspectiveCamera
 } from 'three';
 import { EffectComposer, Bloom, DepthOfField, Vignette } from '@react-three/postprocessing';
 import { BlendFunction, KernelSize } from 'postprocessing';
+import { dampingFactor } from './data/damping';
+import { EmbeddingDataset, scalePosition } from './data/dataset';
+import { SizeLookup, usePointSize } from './data/EncodingContext';
+import { neighborsOf } from './data/neighbors';
+import { SpatialGrid } from './data/spatialGrid';
+import { useFilter } from './data/FilterContext';
+import { Selection, useSelection } from './data/SelectionContext';
+import { ClusterSwatch, clusterSwatch, rgbToHex } from './data/palette';
+import { SwatchLookup, usePointSwatch } from './data/PointColorContext';
+import { useAnimatedDataset } from './data/useAnimatedDataset';
+import { QueryMarker, useQuery } from './query/QueryContext';
+import { BACKEND_LABELS, EngineSceneProps, RendererBackend } from './shell/capabilities';
+import { ThreeDirectionalLight, ThreeMesh, ThreePointLight } from './three/elements';
 
 interface EmbeddingData {
   id: string;
   position: [number, number, number];
   cluster: number;
+  swatch: ClusterSwatch;
   name: string;
   value: number;
 }
 
-const MOCK_EMBEDDINGS_THREE: EmbeddingData[] = [
-  { id: 'emb_0_1_t', position: [-12, 3, 7], cluster: 0, name: "General Relativity", value: 0.8 },
-  { id: 'emb_0_2_t', position: [-10, 5, 9], cluster: 0, name: "Quantum Mechanics", value: 0.9 },
-  { id: 'emb_0_3_t', position: [-13, 2, 10], cluster: 0, name: "Standard Model", value: 0.7 },
-  { id: 'emb_1_1_t', position: [10, -3, -8], cluster: 1, name: "Convolutional Networks", value: 0.85 },
-  { id: 'emb_1_2_t', position: [12, -5, -6], cluster: 1, name: "Recurrent Networks", value: 0.75 },
-  { id: 'emb_1_3_t', position: [9, -2, -10], cluster: 1, name: "Attention Mechanisms", value: 0.95 },
-  { id: 'emb_2_1_t', position: [-3, -8, -4], cluster: 2, name: "Ecosystem Dynamics", value: 0.7 },
-  { id: 'emb_2_2_t', position: [-5, -10, -2], cluster: 2, name: "Biodiversity Hotspots", value: 0.8 },
-  { id: 'emb_3_1_t', position: [4, 8, 1], cluster: 3, name: "Symbolist Poetry", value: 0.6 },
-  { id: 'emb_3_2_t', position: [2, 10, 3], cluster: 3, name: "Surrealist Painting", value: 0.7 },
-];
-
-const CLUSTER_COLORS_THREE = [
-  { primary: new Color(0xff8800), secondary: new Color(0xffff00) },
-  { primary: new Color(0x0077ff), secondary: new Color(0x00ffff) },
-  { primary: new Color(0x00ff77), secondary: new Color(0x77ff00) },
-  { primary: new Color(0xff00aa), secondary: new Color(0xff55cc) },
-];
+// Normalized dataset positions are scaled into the scene's world units.
+const THREE_WORLD_SCALE = 14;
+
+const toThreeEmbeddings = (dataset: EmbeddingDataset, swatchOf: SwatchLookup, sizeOf: SizeLookup): EmbeddingData[] => dataset.points.map(point => ({
+  id: point.id,
+  position: scalePosition(point.position, THREE_WORLD_SCALE),
+  cluster: point.cluster,
+  swatch: swatchOf(point),
+  name: point.label,
+  value: sizeOf(dataset, point),
+}));
+
+// Point colours come from swatches (see PointColorContext); Color instances are cached per swatch
+// so material memoization in EmbeddingGlyph stays stable across renders.
+const swatchColorCacheThree = new WeakMap<ClusterSwatch, { primary: Color; secondary: Color }>();
+const swatchColorsThree = (swatch: ClusterSwatch) => {
+  let colors = swatchColorCacheThree.get(swatch);
+  if (!colors) {
+    colors = { primary: new Color(rgbToHex(swatch.primary)), secondary: new Color(rgbToHex(swatch.secondary)) };
+    swatchColorCacheThree.set(swatch, colors);
+  }
+  return colors;
+};
+
+// Glyph diameter in world units; the point cloud sizes its sprites the same way.
+const glyphScale = (value: number) => 0.6 + value * 1.2;
+
+// detail adds smaller lines under the name (the trajectory view's logit-lens predictions).
+export const GlyphLabel: React.FC<{ name: string; detail?: string[] }> = ({ name, detail }) => (
+  <Html distanceFactor={12} zIndexRange={[100,0]} style={{pointerEvents: 'none', userSelect: 'none'}}>
+    <div style={{ padding: '4px 8px', background: 'rgba(10,0,20,0.85)', color: '#e8e0ff',
+      fontSize: '11px', borderRadius: '4px', transform: detail ? 'translate(-50%, -110%)' : 'translate(-50%, -160%)', whiteSpace: 'nowrap', backdropFilter: 'blur(2.5px)'}}>
+      {name}
+      {detail?.map((line, i) => <div key={i} style={{ fontSize: '9.5px', color: '#b8aee8' }}>{line}</div>)}
+    </div>
+  </Html>
+);
+
+const scratchScale = new Vector3(); // Reused by every glyph's frame loop instead of allocating per frame
+const scratchFly = new Vector3();
 
 interface EmbeddingGlyphProps {
   id: string; position: [number, number, number]; clusterId: number; name: string; value: number;
+  swatch?: ClusterSwatch; // Overrides the cluster's colour
   onPointerOver: (id: string | null) => void; onPointerOut: () => void; onClick: (id: string) => void;
-  isHovered: boolean; isSelected: boolean;
+  isHovered: boolean; isSelected: boolean; isDimmed: boolean; // Dimmed = filtered out by search/filters
+  isMarked: boolean; // In the box/lasso selection set
+  detail?: string[]; // Extra label lines
 }
 
-const EmbeddingGlyph: React.FC<EmbeddingGlyphProps> = ({
-  id, position, clusterId, name, value, onPointerOver, onPointerOut, onClick, isHovered, isSelected
+export const EmbeddingGlyph: React.FC<EmbeddingGlyphProps> = ({
+  id, position, clusterId, name, value, swatch, onPointerOver, onPointerOut, onClick, isHovered, isSelected, isDimmed, isMarked, detail
 }) => {
   const meshRef = useRef<Mesh>(null!); // Using imported Mesh from 'three'
-  const { primary, secondary } = CLUSTER_COLORS_THREE[clusterId % CLUSTER_COLORS_THREE.length];
-  const baseScale = 0.6 + value * 1.2;
+  const { primary, secondary } = swatchColorsThree(swatch ?? clusterSwatch(clusterId));
+  const baseScale = glyphScale(value);
   const targetScaleValue = useRef(baseScale); 
 
   useEffect(() => {
     if (isSelected) {
       targetScaleValue.current = baseScale * 1.25; 
-    } else if (isHovered) {
+    } else if (isHovered || isMarked) {
       targetScaleValue.current = baseScale * 1.1;
     } else {
       targetScaleValue.current = baseScale;
     }
-  }, [isSelected, isHovered, baseScale]);
+  }, [isSelected, isHovered, isMarked, baseScale]);
 
   useFrame((state, delta) => {
     if (meshRef.current) {
@@ -73,126 +111,396 @@ const EmbeddingGlyph: React.FC<EmbeddingGlyphProps> = ({
         const pulseFactor = 1 + Math.sin(state.clock.elapsedTime * 5) * 0.1; 
         currentTarget *= pulseFactor;
       }
-      // Using new Vector3 from 'three' for lerp target
-      meshRef.current.scale.lerp(new Vector3(currentTarget, currentTarget, currentTarget), delta * 9);
+      meshRef.current.scale.lerp(scratchScale.setScalar(currentTarget), delta * 9);
     }
   });
 
   const material = useMemo(() => new MeshStandardMaterial({
     color: primary, emissive: secondary,
-    emissiveIntensity: isSelected ? 2.3 : (isHovered ? 1.4 : 0.75), 
+    emissiveIntensity: isSelected ? 2.3 : (isHovered ? 1.4 : (isMarked ? 1.2 : (isDimmed ? 0.15 : 0.75))), 
     metalness: 0.65, roughness: 0.35, transparent: true,
-    opacity: isSelected ? 0.98 : (isHovered ? 0.9 : 0.8),
-    depthWrite: !isSelected && !isHovered,
-  }), [primary, secondary, isHovered, isSelected]);
+    opacity: isSelected ? 0.98 : (isHovered || isMarked ? 0.9 : (isDimmed ? 0.12 : 0.8)),
+    depthWrite: !isSelected && !isHovered && !isMarked && !isDimmed,
+  }), [primary, secondary, isHovered, isSelected, isDimmed, isMarked]);
 
   return (
-    // Reverting position prop to use array directly, as per original R3F style.
-    // @ts-nocheck will suppress any resulting type error here.
-    <mesh ref={meshRef} position={position}
+    <ThreeMesh ref={meshRef} position={position}
       onPointerOver={(e: ThreeEvent<PointerEvent>) => { e.stopPropagation(); onPointerOver(id); }}
       onPointerOut={(e: ThreeEvent<PointerEvent>) => { e.stopPropagation(); onPointerOut(); }}
-      onClick={(e: ThreeEvent<PointerEvent>) => { e.stopPropagation(); onClick(id); }} castShadow >
+      onClick={(e: ThreeEvent<MouseEvent>) => { e.stopPropagation(); onClick(id); }} castShadow >
       <icosahedronGeometry args={[0.5, 1]} />
       <primitive object={material} attach="material" />
-      {(isHovered || isSelected) && (
-        <Html distanceFactor={12} zIndexRange={[100,0]} style={{pointerEvents: 'none', userSelect: 'none'}}>
-          <div style={{ padding: '4px 8px', background: 'rgba(10,0,20,0.85)', color: '#e8e0ff',
-            fontSize: '11px', borderRadius: '4px', transform: 'translate(-50%, -160%)', whiteSpace: 'nowrap', backdropFilter: 'blur(2.5px)'}}>
-            {name}
-          </div>
-        </Html>
-      )}
-    </mesh>
+      {(isHovered || isSelected) && <GlyphLabel name={name} detail={detail} />}
+    </ThreeMesh>
+  );
+};
+
+// Point-cloud mode: one draw call for the whole dataset. Sprites are sized in world units so they
+// match the glyphs, hover/selection highlighting happens in the shader (by comparing each
+// point's index with a uniform; search matches and the box/lasso set come in as per-point
+// attributes), and picking casts the pointer ray through a SpatialGrid
+// instead of letting R3F test every point.
+const POINT_VERTEX_SHADER = `
+  attribute vec3 aColor;
+  attribute float aSize;
+  attribute float aIndex;
+  attribute float aMatch;
+  attribute float aMarked;
+  uniform float uScale;
+  uniform float uHovered;
+  uniform float uSelected;
+  uniform float uTime;
+  varying vec3 vColor;
+  varying float vHighlight;
+  varying float vMatch;
+  void main() {
+    float selected = step(abs(aIndex - uSelected), 0.5);
+    float hovered = step(abs(aIndex - uHovered), 0.5) * (1.0 - selected);
+    float scale = 1.0 + max(hovered * 0.15, aMarked * 0.1) + selected * (0.25 + 0.1 * sin(uTime * 5.0));
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = aSize * scale * uScale / -mvPosition.z;
+    gl_Position = projectionMatrix * mvPosition;
+    vColor = aColor;
+    vHighlight = max(max(hovered * 0.6, aMarked * 0.45), selected);
+    vMatch = max(aMatch, vHighlight);
+  }
+`;
+
+const POINT_FRAGMENT_SHADER = `
+  varying vec3 vColor;
+  varying float vHighlight;
+  varying float vMatch;
+  void main() {
+    vec2 c = gl_PointCoord * 2.0 - 1.0;
+    float r = dot(c, c);
+    if (r > 1.0) discard;
+    float core = 1.0 - smoothstep(0.0, 1.0, r);
+    vec3 color = mix(vColor, vec3(1.0), vHighlight * 0.35) * (0.7 + 0.6 * core + vHighlight * 0.8) * mix(0.35, 1.0, vMatch);
+    gl_FragColor = vec4(color, smoothstep(1.0, 0.7, r) * (0.85 + 0.15 * vHighlight) * mix(0.12, 1.0, vMatch));
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+const CLICK_SLOP_PX = 5; // Pointer travel beyond this between down and up is an orbit drag, not a click
+
+interface EmbeddingPointCloudProps {
+  embeddings: EmbeddingData[]; hoveredId: string | null; selectedId: string | null; mask: Uint8Array | null;
+  markedIds: ReadonlySet<string>;
+  onHover: (id: string | null) => void; onClick: (id: string) => void;
+}
+
+const EmbeddingPointCloud: React.FC<EmbeddingPointCloudProps> = ({ embeddings, hoveredId, selectedId, mask, markedIds, onHover, onClick }) => {
+  const { camera, gl, raycaster } = useThree();
+  const geometry = useMemo(() => new BufferGeometry(), []);
+  const material = useMemo(() => new ShaderMaterial({
+    uniforms: { uScale: { value: 1 }, uHovered: { value: -1 }, uSelected: { value: -1 }, uTime: { value: 0 } },
+    vertexShader: POINT_VERTEX_SHADER, fragmentShader: POINT_FRAGMENT_SHADER,
+    transparent: true, depthWrite: false,
+  }), []);
+  useEffect(() => () => { geometry.dispose(); material.dispose(); }, [geometry, material]);
+
+  const radiiRef = useRef(new Float32Array(0));
+  const gridRef = useRef<SpatialGrid | null>(null); // Rebuilt lazily on the first pick after the points move
+  const indexById = useMemo(() => new Map(embeddings.map((e, i) => [e.id, i])), [embeddings]);
+
+  // Attribute buffers are reused while the point count is unchanged, so layout transitions only rewrite them.
+  useEffect(() => {
+    const count = embeddings.length;
+    if (geometry.getAttribute('position')?.count !== count) {
+      geometry.setAttribute('position', new BufferAttribute(new Float32Array(count * 3), 3));
+      geometry.setAttribute('aColor', new BufferAttribute(new Float32Array(count * 3), 3));
+      geometry.setAttribute('aSize', new BufferAttribute(new Float32Array(count), 1));
+      geometry.setAttribute('aIndex', new BufferAttribute(Float32Array.from({ length: count }, (_, i) => i), 1));
+      geometry.setAttribute('aMatch', new BufferAttribute(new Float32Array(count).fill(1), 1));
+      geometry.setAttribute('aMarked', new BufferAttribute(new Float32Array(count), 1));
+      radiiRef.current = new Float32Array(count);
+    }
+    const position = geometry.getAttribute('position') as BufferAttribute;
+    const color = geometry.getAttribute('aColor') as BufferAttribute;
+    const size = geometry.getAttribute('aSize') as BufferAttribute;
+    embeddings.forEach((emb, i) => {
+      position.setXYZ(i, emb.position[0], emb.position[1], emb.position[2]);
+      const { primary } = swatchColorsThree(emb.swatch);
+      color.setXYZ(i, primary.r, primary.g, primary.b);
+      size.setX(i, glyphScale(emb.value));
+      radiiRef.current[i] = glyphScale(emb.value) / 2;
+    });
+    position.needsUpdate = true;
+    color.needsUpdate = true;
+    size.needsUpdate = true;
+    geometry.computeBoundingSphere();
+    gridRef.current = null;
+  }, [embeddings, geometry]);
+
+  useEffect(() => {
+    const match = geometry.getAttribute('aMatch') as BufferAttribute;
+    const marked = geometry.getAttribute('aMarked') as BufferAttribute;
+    if (match.count !== embeddings.length) return; // Attributes are being resized; the next run catches up
+    embeddings.forEach((emb, i) => {
+      match.setX(i, mask ? mask[i] : 1);
+      marked.setX(i, markedIds.has(emb.id) ? 1 : 0);
+    });
+    match.needsUpdate = true;
+    marked.needsUpdate = true;
+  }, [mask, markedIds, embeddings, geometry]);
+
+  useEffect(() => {
+    material.uniforms.uHovered.value = hoveredId !== null ? indexById.get(hoveredId) ?? -1 : -1;
+    material.uniforms.uSelected.value = selectedId !== null ? indexById.get(selectedId) ?? -1 : -1;
+  }, [hoveredId, selectedId, indexById, material]);
+
+  useFrame(state => {
+    // World-space diameter → pixels at unit depth, for gl_PointSize.
+    const fov = (state.camera as PerspectiveCamera).fov * Math.PI / 180;
+    material.uniforms.uScale.value = state.size.height * state.gl.getPixelRatio() / (2 * Math.tan(fov / 2));
+    material.uniforms.uTime.value = state.clock.elapsedTime;
+  });
+
+  const latest = useRef({ embeddings, onHover, onClick });
+  latest.current = { embeddings, onHover, onClick };
+
+  useEffect(() => {
+    const canvas = gl.domElement;
+    const ndc = new Vector2();
+    const pick = (event: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      ndc.set(((event.clientX - rect.left) / rect.width) * 2 - 1, -((event.clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(ndc, camera);
+      const positions = (geometry.getAttribute('position') as BufferAttribute | undefined)?.array as Float32Array | undefined;
+      if (!positions) return null;
+      if (!gridRef.current) gridRef.current = new SpatialGrid(positions, radiiRef.current);
+      const { origin, direction } = raycaster.ray;
+      const hit = gridRef.current.raycast([origin.x, origin.y, origin.z], [direction.x, direction.y, direction.z]);
+      return hit ? latest.current.embeddings[hit.index].id : null;
+    };
+    let down: { x: number; y: number } | null = null;
+    const onPointerMove = (event: PointerEvent) => {
+      if (event.buttons !== 0) return; // Orbiting
+      latest.current.onHover(pick(event));
+    };
+    const onPointerDown = (event: PointerEvent) => { down = { x: event.clientX, y: event.clientY }; };
+    const onPointerUp = (event: PointerEvent) => {
+      if (down && Math.hypot(event.clientX - down.x, event.clientY - down.y) < CLICK_SLOP_PX) {
+        const id = pick(event);
+        if (id) latest.current.onClick(id);
+      }
+      down = null;
+    };
+    const onPointerLeave = () => latest.current.onHover(null);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointerup', onPointerUp);
+    canvas.addEventListener('pointerleave', onPointerLeave);
+    return () => {
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.removeEventListener('pointerleave', onPointerLeave);
+    };
+  }, [gl, camera, raycaster, geometry]);
+
+  const labelled = [hoveredId, selectedId].filter((id, i, ids): id is string => id !== null && ids.indexOf(id) === i);
+  return (
+    <>
+      <points geometry={geometry} material={material} raycast={() => null} frustumCulled={false} />
+      {labelled.map(id => {
+        const emb = embeddings[indexById.get(id) ?? -1];
+        return emb ? <group key={id} position={emb.position}><GlyphLabel name={emb.name} /></group> : null;
+      })}
+    </>
   );
 };
 
-interface RelationshipWispProps { from: [number, number, number]; to: [number, number, number]; color: Color; visible: boolean; }
-const RelationshipWisp: React.FC<RelationshipWispProps> = ({ from, to, color, visible }) => {
+// Above this many points 'auto' swaps the per-glyph meshes for the point cloud.
+const GLYPH_MODE_LIMIT = 1500;
+
+type RenderMode = 'auto' | 'glyphs' | 'points';
+
+// strength is the kNN similarity normalised over the graph; closer neighbours glow brighter.
+interface RelationshipWispProps { from: [number, number, number]; to: [number, number, number]; color: Color; strength: number; }
+export const RelationshipWisp: React.FC<RelationshipWispProps> = ({ from, to, color, strength }) => {
   const points = useMemo(() => [new Vector3(...from), new Vector3(...to)], [from, to]);
   return (
     <line>
       <bufferGeometry attach="geometry" onUpdate={self => self.setFromPoints(points)} />
-      <lineBasicMaterial attach="material" color={color} transparent opacity={visible ? 0.45 : 0} linewidth={1.5} />
+      <lineBasicMaterial attach="material" color={color} transparent opacity={0.15 + strength * 0.55} linewidth={1.5} />
     </line>
   );
 };
 
-const EphemeralEchoesScene: React.FC = () => {
-  const { scene } = useThree();
+// The semantic query: a spinning, pulsing octahedron tied to its nearest neighbours.
+const QUERY_COLOR = new Color(0xffd27a);
+const QueryBeacon: React.FC<{ marker: QueryMarker; embeddings: EmbeddingData[] }> = ({ marker, embeddings }) => {
+  const meshRef = useRef<Mesh>(null!);
+  const position = useMemo(() => scalePosition(marker.position, THREE_WORLD_SCALE), [marker]);
+  useFrame((state, delta) => {
+    meshRef.current.rotation.y += delta * 0.8;
+    meshRef.current.scale.setScalar(1 + Math.sin(state.clock.elapsedTime * 3) * 0.12);
+  });
+  return (
+    <>
+      <group position={position}>
+        <ThreeMesh ref={meshRef} raycast={() => null}>
+          <octahedronGeometry args={[0.6, 0]} />
+          <meshStandardMaterial color={QUERY_COLOR} emissive={QUERY_COLOR} emissiveIntensity={1.8} />
+        </ThreeMesh>
+        <GlyphLabel name={`“${marker.text}”`} />
+      </group>
+      {marker.neighbors.map(({ index, strength }) => embeddings[index] && (
+        <RelationshipWisp key={embeddings[index].id} from={position} to={embeddings[index].position} color={QUERY_COLOR} strength={strength} />
+      ))}
+    </>
+  );
+};
+
+const FLY_RATE = 4; // Damping rate (see data/damping.ts) of the orbit target towards a focused point
+
+interface EphemeralEchoesSceneProps {
+  dataset: EmbeddingDataset; embeddings: EmbeddingData[]; renderMode: RenderMode;
+  mask: Uint8Array | null; selection: Selection; projectorRef: EngineSceneProps['projectorRef'];
+  queryMarker: QueryMarker | null; camera: EngineSceneProps['camera'];
+}
+const EphemeralEchoesScene: React.FC<EphemeralEchoesSceneProps> = ({ dataset, embeddings, renderMode, mask, selection, projectorRef, queryMarker, camera: cameraSync }) => {
+  const { scene, camera, size } = useThree();
   const orbitControlsRef = useRef<OrbitControlsImpl>(null!);
-  const [hoveredGlyph, setHoveredGlyph] = useState<string | null>(null);
-  const [selectedGlyph, setSelectedGlyph] = useState<string | null>(null);
+  const { selectedId: selectedGlyph, setSelectedId: setSelectedGlyph, focus, selectedIds, hoveredId: hoveredGlyph, setHoveredId: setHoveredGlyph } = selection;
+
+  // Box/lasso selection: project the glyph centres with the live camera (read at call time).
+  useEffect(() => {
+    const ndc = new Vector3();
+    projectorRef.current = index => {
+      const emb = embeddings[index];
+      if (!emb) return null;
+      ndc.set(...emb.position).project(camera);
+      if (ndc.z < -1 || ndc.z > 1) return null; // Behind the camera or past the far plane
+      return [(ndc.x + 1) / 2 * size.width, (1 - ndc.y) / 2 * size.height];
+    };
+    return () => { projectorRef.current = null; };
+  }, [embeddings, camera, size, projectorRef]);
 
   useEffect(() => {
     scene.background = new Color(0x08040F);
     scene.fog = new FogExp2(0x08040F, 0.012);
   }, [scene]);
   
+  // Selecting a glyph eases the orbit target onto it each frame, carrying the camera along so
+  // the view flies over rather than swinging round.
+  const flyTargetRef = useRef<Vector3 | null>(null);
   useEffect(() => {
-    if (selectedGlyph && orbitControlsRef.current) {
-      const selectedEmb = MOCK_EMBEDDINGS_THREE.find(e => e.id === selectedGlyph);
-      if (selectedEmb) {
-        const targetPosition = new Vector3(...selectedEmb.position);
-        const controlsInstance = orbitControlsRef.current;
-        if (controlsInstance.target && typeof controlsInstance.target.lerp === 'function') {
-            controlsInstance.target.lerp(targetPosition, 0.08);
-        }
-      }
+    const selectedEmb = selectedGlyph ? embeddings.find(e => e.id === selectedGlyph) : null;
+    if (selectedEmb) flyTargetRef.current = new Vector3(...selectedEmb.position);
+  }, [selectedGlyph, embeddings, focus]);
+
+  // Shared links: the camera is [position x, y, z, orbit target x, y, z]. It is reported on every
+  // change of the controls (damping and auto-rotation included; the shell throttles the writes)
+  // and when a flight lands. Grabbing the view or restoring one stops auto-rotating, so it stays put.
+  const [autoRotate, setAutoRotate] = useState(true);
+  const { restore: cameraRequest, report: reportCamera } = cameraSync;
+  const reportView = useCallback(() => {
+    const controls = orbitControlsRef.current;
+    if (controls) reportCamera([...controls.object.position.toArray(), ...controls.target.toArray()]);
+  }, [reportCamera]);
+  const stopAutoRotate = useCallback(() => setAutoRotate(false), []);
+  const restoredNonceRef = useRef(0);
+  useEffect(() => {
+    const controls = orbitControlsRef.current;
+    if (!cameraRequest || !controls || cameraRequest.nonce === restoredNonceRef.current || cameraRequest.camera.length !== 6) return;
+    restoredNonceRef.current = cameraRequest.nonce;
+    const [px, py, pz, tx, ty, tz] = cameraRequest.camera;
+    flyTargetRef.current = null;
+    controls.object.position.set(px, py, pz);
+    controls.target.set(tx, ty, tz);
+    controls.update();
+    setAutoRotate(false);
+  }, [cameraRequest]);
+
+  useFrame((state, delta) => {
+    const target = flyTargetRef.current;
+    const controls = orbitControlsRef.current;
+    if (!target || !controls) return;
+    const step = scratchFly.subVectors(target, controls.target).multiplyScalar(dampingFactor(FLY_RATE, delta));
+    controls.target.add(step);
+    state.camera.position.add(step);
+    if (controls.target.distanceToSquared(target) < 1e-4) {
+      flyTargetRef.current = null;
+      reportView();
     }
-  }, [selectedGlyph, orbitControlsRef]);
+  });
 
   const wisps = useMemo(() => {
     const activeGlyphId = selectedGlyph || hoveredGlyph;
     if (!activeGlyphId) return [];
-    const activeEmb = MOCK_EMBEDDINGS_THREE.find(e => e.id === activeGlyphId);
-    if (!activeEmb) return [];
-    const connections: JSX.Element[] = [];
-    MOCK_EMBEDDINGS_THREE.forEach(otherEmb => {
-      if (otherEmb.id !== activeEmb.id && otherEmb.cluster === activeEmb.cluster &&
-          new Vector3(...activeEmb.position).distanceTo(new Vector3(...otherEmb.position)) < 12) {
-        connections.push( <RelationshipWisp key={`${activeEmb.id}-${otherEmb.id}`}
-            from={activeEmb.position} to={otherEmb.position} // Pass arrays
-            color={CLUSTER_COLORS_THREE[activeEmb.cluster % CLUSTER_COLORS_THREE.length].secondary} visible={true} />
-        );
-      }
-    });
-    return connections;
-  }, [hoveredGlyph, selectedGlyph]);
+    const activeIndex = embeddings.findIndex(e => e.id === activeGlyphId);
+    if (activeIndex < 0) return [];
+    const activeEmb = embeddings[activeIndex];
+    return neighborsOf(dataset, activeIndex).map(({ target, strength }) => (
+      <RelationshipWisp key={`${activeEmb.id}-${embeddings[target].id}`}
+        from={activeEmb.position} to={embeddings[target].position} // Pass arrays
+        color={swatchColorsThree(activeEmb.swatch).secondary} strength={strength} />
+    ));
+  }, [hoveredGlyph, selectedGlyph, dataset, embeddings]);
+
+  const usePoints = renderMode === 'points' || (renderMode === 'auto' && embeddings.length > GLYPH_MODE_LIMIT);
+  const toggleSelected = useCallback((id: string) => setSelectedGlyph(prev => prev === id ? null : id), [setSelectedGlyph]);
 
   return (
     <>
       <ambientLight intensity={Math.PI / 3.5} />
-      {/* Restoring array positions for lights, @ts-nocheck will handle type errors */}
-      <directionalLight position={[8, 12, 10]} intensity={1.0} castShadow shadow-mapSize={[1024, 1024]} />
-      <pointLight position={[0, 15, 0]} intensity={0.7} distance={80} color={0xffeedd} decay={1.5}/>
-      {MOCK_EMBEDDINGS_THREE.map(emb => ( <EmbeddingGlyph key={emb.id} {...emb} clusterId={emb.cluster}
-          onPointerOver={setHoveredGlyph} onPointerOut={() => setHoveredGlyph(null)} 
-          onClick={(id) => setSelectedGlyph(prev => prev === id ? null : id)} 
-          isHovered={hoveredGlyph === emb.id && selectedGlyph !== emb.id} 
-          isSelected={selectedGlyph === emb.id} />
-      ))}
+      <ThreeDirectionalLight position={[8, 12, 10]} intensity={1.0} castShadow shadow-mapSize={[1024, 1024]} />
+      <ThreePointLight position={[0, 15, 0]} intensity={0.7} distance={80} color={0xffeedd} decay={1.5}/>
+      {usePoints
+        ? <EmbeddingPointCloud embeddings={embeddings} hoveredId={hoveredGlyph} selectedId={selectedGlyph} mask={mask} markedIds={selectedIds}
+            onHover={setHoveredGlyph} onClick={toggleSelected} />
+        : embeddings.map((emb, i) => ( <EmbeddingGlyph key={emb.id} {...emb} clusterId={emb.cluster}
+            onPointerOver={setHoveredGlyph} onPointerOut={() => setHoveredGlyph(null)} 
+            onClick={toggleSelected} 
+            isHovered={hoveredGlyph === emb.id && selectedGlyph !== emb.id} 
+            isSelected={selectedGlyph === emb.id} isDimmed={mask ? !mask[i] : false} isMarked={selectedIds.has(emb.id)} />
+        ))}
       {wisps}
+      {queryMarker && <QueryBeacon marker={queryMarker} embeddings={embeddings} />}
       <Sparkles count={1200} scale={28} size={25} speed={0.04} opacity={0.35} color={0xbbaaff} />
-      <OrbitControls ref={orbitControlsRef} enablePan={true} enableZoom={true} enableRotate={true} autoRotate autoRotateSpeed={0.20}
+      <OrbitControls ref={orbitControlsRef} enablePan={true} enableZoom={true} enableRotate={true} autoRotate={autoRotate} autoRotateSpeed={0.20}
+                     onStart={stopAutoRotate} onChange={reportView}
                      minDistance={5} maxDistance={50} dampingFactor={0.05} enableDamping />
     </>
   );
 };
 
-const ThreeJSApp: React.FC = () => {
+// R3F's default renderer takes WebGL 2 when it can; a WebGL 1 attempt hands three its context explicitly.
+const createWebGL1Renderer = (canvas: HTMLCanvasElement | OffscreenCanvas) => {
+  const context = canvas.getContext('webgl', { antialias: true, alpha: true, powerPreference: 'high-performance' });
+  if (!context) throw new Error('WebGL 1 context unavailable');
+  return new WebGLRenderer({ canvas, context, antialias: true, alpha: true });
+};
+
+const ThreeJSApp: React.FC<EngineSceneProps> = ({ backend, onReady, projectorRef, camera }) => {
+  const dataset = useAnimatedDataset();
+  const swatchOf = usePointSwatch();
+  const sizeOf = usePointSize();
+  const embeddings = useMemo(() => toThreeEmbeddings(dataset, swatchOf, sizeOf), [dataset, swatchOf, sizeOf]);
+  const [renderer, setRenderer] = useState<RendererBackend | null>(null);
+  const [renderMode, setRenderMode] = useState<RenderMode>('auto');
+  const { result } = useFilter();
+  const selection = useSelection();
+  const { marker } = useQuery();
   return (
     <div style={{ width: '100%', height: '100%', background: '#08040F', position: 'relative' }}>
       <Canvas camera={{ position: [0, 7, 28], fov: 45, near: 0.1, far: 1000 }} shadows
+        gl={backend === 'webgl' ? createWebGL1Renderer : undefined}
         onCreated={({ gl }) => {
           gl.outputColorSpace = SRGBColorSpace;
           gl.toneMapping = ACESFilmicToneMapping;
           gl.toneMappingExposure = 0.95;
+          const actual = gl.capabilities.isWebGL2 ? 'webgl2' : 'webgl';
+          setRenderer(actual);
+          onReady(actual);
         }}
         style={{ width: '100%', height: '100%' }}
       >
         <Suspense fallback={<Html center><div style={{color: 'white', fontSize: '1.5em'}}>Loading Ephemeral Echoes...</div></Html>}>
-          <EphemeralEchoesScene />
+          <EphemeralEchoesScene dataset={dataset} embeddings={embeddings} renderMode={renderMode} mask={result.mask} selection={selection} projectorRef={projectorRef} queryMarker={marker} camera={camera} />
           <EffectComposer multisampling={0} enableNormalPass={true}>
             <Bloom intensity={0.55} luminanceThreshold={0.35} luminanceSmoothing={0.03} mipmapBlur={true} blendFunction={BlendFunction.ADD} kernelSize={KernelSize.MEDIUM}/>
             <DepthOfField focusDistance={0.022} focalLength={0.055} bokehScale={2.8} height={480} />
@@ -205,8 +513,15 @@ const ThreeJSApp: React.FC = () => {
         fontSize: '12px', fontFamily: 'Arial, sans-serif', background: 'rgba(10, 0, 20, 0.7)',
         padding: '5px 10px', borderRadius: '5px', zIndex: 1000, }}>
         <b>Ephemeral Echoes (Three.js / R3F)</b> <br />
-        Features: PBR Materials, Post-Processing, Particles <br/>
-        Renderer: WebGL (R3F Default)
+        Features: PBR Materials, Post-Processing, Particles, GPU Point Cloud <br/>
+        Renderer: {renderer ? BACKEND_LABELS[renderer] : 'Initializing...'} <br/>
+        {embeddings.length} points ·{' '}
+        <select value={renderMode} onChange={e => setRenderMode(e.target.value as RenderMode)}
+          style={{ background: 'rgba(20, 10, 45, 0.9)', color: 'inherit', border: '1px solid rgba(120, 100, 220, 0.5)', fontSize: '11px' }}>
+          <option value="auto">Auto ({embeddings.length > GLYPH_MODE_LIMIT ? 'point cloud' : 'glyphs'})</option>
+          <option value="glyphs">Glyphs</option>
+          <option value="points">Point cloud</option>
+        </select>
       </div>
     </div>
   );
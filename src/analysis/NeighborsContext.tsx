@@ -0,0 +1,50 @@
+// src/analysis/NeighborsContext.tsx
+// The kNN graph that drives every scene's edges: its build settings and the running build. A
+// dataset without a graph gets one built with the current settings as soon as it arrives, whether
+// or not the neighbours panel is open, unless it is too large to search without being asked.
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { EmbeddingDataset, sameRows } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { JobStatus } from '../data/useWorkerJob';
+import { DEFAULT_KNN_PARAMS, KnnParams } from './types';
+import { useNeighbors } from './useNeighbors';
+
+// Larger datasets only get a graph on request: the brute-force search is quadratic in the point count.
+export const AUTO_BUILD_MAX_POINTS = 10_000;
+
+interface NeighborsContextValue {
+  params: KnnParams;
+  setParams: React.Dispatch<React.SetStateAction<KnnParams>>;
+  run: (params: KnnParams) => void;
+  cancel: () => void;
+  status: JobStatus | null;
+  error: string | null;
+}
+
+const NeighborsContext = createContext<NeighborsContextValue>({
+  params: DEFAULT_KNN_PARAMS,
+  setParams: () => {},
+  run: () => {},
+  cancel: () => {},
+  status: null,
+  error: null,
+});
+
+export const NeighborsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { dataset } = useDataset();
+  const { run, cancel, status, error } = useNeighbors();
+  const [params, setParams] = useState<KnnParams>(DEFAULT_KNN_PARAMS);
+  const autoBuiltRef = useRef<EmbeddingDataset | null>(null); // Whose rows were last built for, or skipped
+
+  // Keyed on the rows, so a clustering or layout result arriving mid-build doesn't start it over.
+  useEffect(() => {
+    if (dataset.neighbors || (autoBuiltRef.current && sameRows(autoBuiltRef.current, dataset))) return;
+    autoBuiltRef.current = dataset;
+    if (dataset.points.length <= AUTO_BUILD_MAX_POINTS) run(params);
+  }, [dataset, run, params]);
+
+  const value = useMemo(() => ({ params, setParams, run, cancel, status, error }), [params, run, cancel, status, error]);
+  return <NeighborsContext.Provider value={value}>{children}</NeighborsContext.Provider>;
+};
+
+export const useNeighborGraph = () => useContext(NeighborsContext);
@@ -0,0 +1,47 @@
+// src/analysis/analysis.worker.ts
+// Clustering and kNN graphs off the main thread; see data/workerJob.ts for the protocol.
+import { postError, postProgress, postResult } from '../data/workerJob';
+import { fitPca, projectPca } from '../reduction/pca';
+import { hdbscan } from './hdbscan';
+import { kmeans } from './kmeans';
+import { buildKnnGraph } from './knn';
+import { AnalysisRequest, ClusterRequest, ClusterResult } from './types';
+import { l2NormalizeRows } from './vectorMath';
+
+// HDBSCAN evaluates O(n²) distances twice, so wide vectors are PCA-reduced first.
+const HDBSCAN_MAX_DIMENSIONS = 32;
+
+const cluster = ({ data, count, dimensions, params }: ClusterRequest): ClusterResult => {
+  let input = params.normalize ? l2NormalizeRows(data, count, dimensions) : data;
+  if (params.method === 'kmeans') {
+    return { labels: kmeans(input, count, dimensions, params.k, params.seed, postProgress) };
+  }
+  let dims = dimensions;
+  if (dims > HDBSCAN_MAX_DIMENSIONS) {
+    const model = fitPca(input, count, dims, HDBSCAN_MAX_DIMENSIONS, params.seed, (_, p) => postProgress('HDBSCAN PCA preprocessing', p));
+    input = projectPca(model, input, count, dims);
+    dims = HDBSCAN_MAX_DIMENSIONS;
+  }
+  return {
+    labels: hdbscan(input, count, dims, {
+      minClusterSize: params.minClusterSize,
+      minSamples: params.minSamples > 0 ? params.minSamples : undefined,
+    }, postProgress),
+  };
+};
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  try {
+    const request = event.data;
+    if (request.type === 'knn') {
+      const { data, count, dimensions, params } = request;
+      const graph = buildKnnGraph(data, count, dimensions, params.k, params.metric, postProgress);
+      postResult(graph, [graph.indices.buffer, graph.scores.buffer]);
+    } else {
+      const result = cluster(request);
+      postResult(result, [result.labels.buffer]);
+    }
+  } catch (e) {
+    postError(e);
+  }
+};
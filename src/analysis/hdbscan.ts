@@ -0,0 +1,165 @@
+// src/analysis/hdbscan.ts
+// HDBSCAN: mutual-reachability MST (Prim, O(n²) distance evaluations, no n × n matrix),
+// single-linkage hierarchy, condensed tree and excess-of-mass cluster selection.
+// Points that never settle into a selected cluster are labelled NOISE_CLUSTER.
+import { NOISE_CLUSTER } from '../data/dataset';
+import { ProgressCallback } from '../data/workerJob';
+
+export interface HdbscanOptions {
+  minClusterSize: number;
+  minSamples?: number; // Defaults to minClusterSize
+}
+
+const distance = (data: Float32Array, a: number, b: number, dims: number) => {
+  let sum = 0;
+  const oa = a * dims, ob = b * dims;
+  for (let d = 0; d < dims; d++) { const diff = data[oa + d] - data[ob + d]; sum += diff * diff; }
+  return Math.sqrt(sum);
+};
+
+const coreDistances = (data: Float32Array, count: number, dims: number, minSamples: number, onProgress?: ProgressCallback) => {
+  const core = new Float64Array(count);
+  const row = new Float64Array(count);
+  const k = Math.min(minSamples, count) - 1; // The point itself counts as its first neighbour
+  for (let i = 0; i < count; i++) {
+    for (let j = 0; j < count; j++) row[j] = distance(data, i, j, dims);
+    core[i] = row.sort()[k];
+    if (i % 250 === 0) onProgress?.('HDBSCAN core distances', i / count);
+  }
+  return core;
+};
+
+// Prim's algorithm over the implicit complete mutual-reachability graph.
+const mutualReachabilityMst = (data: Float32Array, count: number, dims: number, core: Float64Array, onProgress?: ProgressCallback) => {
+  const inTree = new Uint8Array(count);
+  const best = new Float64Array(count).fill(Infinity);
+  const bestFrom = new Int32Array(count);
+  const edges: { a: number; b: number; weight: number }[] = [];
+  let current = 0;
+  inTree[0] = 1;
+  for (let step = 1; step < count; step++) {
+    let next = -1, nextWeight = Infinity;
+    for (let j = 0; j < count; j++) {
+      if (inTree[j]) continue;
+      const reach = Math.max(core[current], core[j], distance(data, current, j, dims));
+      if (reach < best[j]) { best[j] = reach; bestFrom[j] = current; }
+      if (best[j] < nextWeight) { nextWeight = best[j]; next = j; }
+    }
+    edges.push({ a: bestFrom[next], b: next, weight: nextWeight });
+    inTree[next] = 1;
+    current = next;
+    if (step % 250 === 0) onProgress?.('HDBSCAN spanning tree', step / count);
+  }
+  return edges.sort((x, y) => x.weight - y.weight);
+};
+
+export const hdbscan = (data: Float32Array, count: number, dims: number, options: HdbscanOptions, onProgress?: ProgressCallback): Int32Array => {
+  const minClusterSize = Math.max(2, options.minClusterSize);
+  const labels = new Int32Array(count).fill(NOISE_CLUSTER);
+  if (count < minClusterSize) return labels;
+
+  const core = coreDistances(data, count, dims, options.minSamples ?? minClusterSize, onProgress);
+  const edges = mutualReachabilityMst(data, count, dims, core, onProgress);
+
+  // Single-linkage hierarchy: internal node count + e merges edge e's two components.
+  const parent = Int32Array.from({ length: 2 * count - 1 }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) { parent[x] = parent[parent[x]]; x = parent[x]; }
+    return x;
+  };
+  const left = new Int32Array(count - 1), right = new Int32Array(count - 1);
+  const height = new Float64Array(count - 1);
+  const size = new Int32Array(2 * count - 1).fill(1);
+  edges.forEach(({ a, b, weight }, e) => {
+    const node = count + e;
+    const ra = find(a), rb = find(b);
+    left[e] = ra; right[e] = rb; height[e] = weight;
+    size[node] = size[ra] + size[rb];
+    parent[ra] = node; parent[rb] = node;
+  });
+
+  const leavesUnder = (node: number): number[] => {
+    const out: number[] = [];
+    const stack = [node];
+    while (stack.length) {
+      const n = stack.pop()!;
+      if (n < count) out.push(n);
+      else stack.push(left[n - count], right[n - count]);
+    }
+    return out;
+  };
+
+  // Condensed tree: clusters are numbered from 0 (the root); each point records the
+  // cluster it fell out of, and its lambda (1 / distance) at that moment feeds the stability.
+  const clusterParent: number[] = [-1];
+  const clusterBirth: number[] = [0];
+  const stability: number[] = [0];
+  const pointCluster = new Int32Array(count);
+  const fallOut = (node: number, cluster: number, lambda: number) => {
+    leavesUnder(node).forEach(p => {
+      pointCluster[p] = cluster;
+      stability[cluster] += lambda - clusterBirth[cluster];
+    });
+  };
+
+  const stack: { node: number; cluster: number }[] = [{ node: 2 * count - 2, cluster: 0 }];
+  while (stack.length) {
+    const { node, cluster } = stack.pop()!;
+    if (node < count) continue; // Only reachable with minClusterSize < 2, which is clamped above
+    const e = node - count;
+    const lambda = 1 / Math.max(height[e], 1e-10); // Duplicate points merge at distance 0
+    const l = left[e], r = right[e];
+    const bigLeft = size[l] >= minClusterSize, bigRight = size[r] >= minClusterSize;
+    if (bigLeft && bigRight) {
+      [l, r].forEach(child => {
+        const id = clusterParent.length;
+        clusterParent.push(cluster);
+        clusterBirth.push(lambda);
+        stability.push(0);
+        stability[cluster] += (lambda - clusterBirth[cluster]) * size[child];
+        stack.push({ node: child, cluster: id });
+      });
+    } else if (bigLeft) {
+      fallOut(r, cluster, lambda);
+      stack.push({ node: l, cluster });
+    } else if (bigRight) {
+      fallOut(l, cluster, lambda);
+      stack.push({ node: r, cluster });
+    } else {
+      fallOut(l, cluster, lambda);
+      fallOut(r, cluster, lambda);
+    }
+  }
+
+  // Excess of mass: keep a cluster when it is more stable than its selected descendants.
+  // Children always have larger ids than their parent, so walking ids downwards is bottom-up.
+  const clusterCount = clusterParent.length;
+  const selected = new Uint8Array(clusterCount);
+  const subtreeStability = stability.slice();
+  const childSum = new Float64Array(clusterCount);
+  for (let c = clusterCount - 1; c > 0; c--) {
+    if (stability[c] >= childSum[c]) {
+      selected[c] = 1;
+      subtreeStability[c] = stability[c];
+    } else {
+      subtreeStability[c] = childSum[c];
+    }
+    childSum[clusterParent[c]] += subtreeStability[c];
+  }
+  // Deselect anything beneath a selected ancestor.
+  for (let c = 1; c < clusterCount; c++) {
+    for (let a = clusterParent[c]; a > 0; a = clusterParent[a]) {
+      if (selected[a]) { selected[c] = 0; break; }
+    }
+  }
+
+  const finalLabel = new Int32Array(clusterCount).fill(NOISE_CLUSTER);
+  let nextLabel = 0;
+  for (let c = 1; c < clusterCount; c++) if (selected[c]) finalLabel[c] = nextLabel++;
+  for (let p = 0; p < count; p++) {
+    for (let c = pointCluster[p]; c > 0; c = clusterParent[c]) {
+      if (selected[c]) { labels[p] = finalLabel[c]; break; }
+    }
+  }
+  return labels;
+};
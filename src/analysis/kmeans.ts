@@ -0,0 +1,71 @@
+// src/analysis/kmeans.ts
+// k-means with k-means++ seeding (Lloyd iterations) over row-major vectors.
+import { createRng } from '../data/random';
+import { ProgressCallback } from '../data/workerJob';
+
+const MAX_ITERATIONS = 100;
+
+const squaredDistance = (data: Float32Array, offset: number, centroids: Float64Array, c: number, dims: number) => {
+  let sum = 0;
+  const base = c * dims;
+  for (let d = 0; d < dims; d++) { const diff = data[offset + d] - centroids[base + d]; sum += diff * diff; }
+  return sum;
+};
+
+export const kmeans = (data: Float32Array, count: number, dims: number, k: number, seed = 42, onProgress?: ProgressCallback): Int32Array => {
+  const clusters = Math.max(1, Math.min(k, count));
+  const rng = createRng(seed);
+  const centroids = new Float64Array(clusters * dims);
+  const nearest = new Float64Array(count).fill(Infinity);
+
+  // k-means++: each new centre is sampled proportionally to its squared distance from the existing ones.
+  let chosen = Math.floor(rng() * count);
+  for (let c = 0; c < clusters; c++) {
+    for (let d = 0; d < dims; d++) centroids[c * dims + d] = data[chosen * dims + d];
+    let total = 0;
+    for (let i = 0; i < count; i++) {
+      nearest[i] = Math.min(nearest[i], squaredDistance(data, i * dims, centroids, c, dims));
+      total += nearest[i];
+    }
+    let target = rng() * total;
+    chosen = count - 1;
+    for (let i = 0; i < count; i++) {
+      target -= nearest[i];
+      if (target <= 0) { chosen = i; break; }
+    }
+  }
+
+  const labels = new Int32Array(count).fill(-1);
+  const sizes = new Int32Array(clusters);
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    let changed = 0;
+    for (let i = 0; i < count; i++) {
+      let best = 0, bestDistance = Infinity;
+      for (let c = 0; c < clusters; c++) {
+        const dist = squaredDistance(data, i * dims, centroids, c, dims);
+        if (dist < bestDistance) { bestDistance = dist; best = c; }
+      }
+      if (labels[i] !== best) { labels[i] = best; changed++; }
+    }
+    onProgress?.('k-means', (iter + 1) / MAX_ITERATIONS);
+    if (changed === 0) break;
+
+    centroids.fill(0);
+    sizes.fill(0);
+    for (let i = 0; i < count; i++) {
+      const base = labels[i] * dims;
+      sizes[labels[i]]++;
+      for (let d = 0; d < dims; d++) centroids[base + d] += data[i * dims + d];
+    }
+    for (let c = 0; c < clusters; c++) {
+      if (sizes[c] === 0) {
+        // Re-seed an emptied cluster on a random point so k stays as requested.
+        const i = Math.floor(rng() * count);
+        for (let d = 0; d < dims; d++) centroids[c * dims + d] = data[i * dims + d];
+      } else {
+        for (let d = 0; d < dims; d++) centroids[c * dims + d] /= sizes[c];
+      }
+    }
+  }
+  return labels;
+};
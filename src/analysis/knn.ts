@@ -0,0 +1,73 @@
+// src/analysis/knn.ts
+// Exact (brute-force) k-nearest-neighbour graph. O(n² × dims), processed row by row so memory
+// stays O(n × k); the worker reports progress as rows complete.
+import { NeighborGraph, NeighborMetric } from '../data/dataset';
+import { ProgressCallback } from '../data/workerJob';
+import { l2NormalizeRows } from './vectorMath';
+
+export const buildKnnGraph = (
+  data: Float32Array, count: number, dims: number, k: number, metric: NeighborMetric, onProgress?: ProgressCallback,
+): NeighborGraph => {
+  const kk = Math.max(1, Math.min(k, count - 1));
+  const rows = metric === 'cosine' ? l2NormalizeRows(data, count, dims) : data;
+  const indices = new Int32Array(count * kk).fill(-1);
+  const scores = new Float32Array(count * kk).fill(-Infinity);
+  let minScore = Infinity, maxScore = -Infinity;
+
+  for (let i = 0; i < count; i++) {
+    const base = i * kk;
+    const oi = i * dims;
+    for (let j = 0; j < count; j++) {
+      if (j === i) continue;
+      const oj = j * dims;
+      let score: number;
+      if (metric === 'cosine') {
+        let dot = 0;
+        for (let d = 0; d < dims; d++) dot += rows[oi + d] * rows[oj + d];
+        score = dot;
+      } else {
+        let sum = 0;
+        for (let d = 0; d < dims; d++) { const diff = rows[oi + d] - rows[oj + d]; sum += diff * diff; }
+        score = 1 / (1 + Math.sqrt(sum));
+      }
+      // Insertion into the row's sorted top-k (best first).
+      if (score <= scores[base + kk - 1]) continue;
+      let slot = kk - 1;
+      while (slot > 0 && scores[base + slot - 1] < score) {
+        scores[base + slot] = scores[base + slot - 1];
+        indices[base + slot] = indices[base + slot - 1];
+        slot--;
+      }
+      scores[base + slot] = score;
+      indices[base + slot] = j;
+    }
+    for (let n = 0; n < kk; n++) {
+      minScore = Math.min(minScore, scores[base + n]);
+      maxScore = Math.max(maxScore, scores[base + n]);
+    }
+    if (i % 200 === 0) onProgress?.('Nearest neighbours', i / count);
+  }
+  return { k: kk, metric, indices, scores, minScore, maxScore };
+};
+
+// Score of one outside vector (e.g. an embedded query) against every row, on the same scale
+// as the graph's scores. Cosine normalises on the fly so the rows need no copy.
+export const scoreAgainstRows = (query: ArrayLike<number>, data: Float32Array, count: number, dims: number, metric: NeighborMetric): Float32Array => {
+  const scores = new Float32Array(count);
+  let queryNorm = 0;
+  for (let d = 0; d < dims; d++) queryNorm += query[d] * query[d];
+  queryNorm = Math.sqrt(queryNorm) || 1;
+  for (let i = 0; i < count; i++) {
+    const oi = i * dims;
+    if (metric === 'cosine') {
+      let dot = 0, norm = 0;
+      for (let d = 0; d < dims; d++) { dot += query[d] * data[oi + d]; norm += data[oi + d] * data[oi + d]; }
+      scores[i] = dot / (queryNorm * (Math.sqrt(norm) || 1));
+    } else {
+      let sum = 0;
+      for (let d = 0; d < dims; d++) { const diff = query[d] - data[oi + d]; sum += diff * diff; }
+      scores[i] = 1 / (1 + Math.sqrt(sum));
+    }
+  }
+  return scores;
+};
@@ -0,0 +1,54 @@
+// src/analysis/types.ts
+// Request/result shapes for the analysis worker.
+import { NeighborGraph, NeighborMetric } from '../data/dataset';
+
+export type ClusteringMethod = 'kmeans' | 'hdbscan';
+
+export interface ClusteringParams {
+  method: ClusteringMethod;
+  k: number; // k-means
+  minClusterSize: number; // HDBSCAN
+  minSamples: number; // HDBSCAN, 0 = same as minClusterSize
+  normalize: boolean; // L2-normalise rows first, so Euclidean distance follows cosine similarity
+  seed: number;
+}
+
+export const DEFAULT_CLUSTERING_PARAMS: ClusteringParams = {
+  method: 'kmeans',
+  k: 8,
+  minClusterSize: 10,
+  minSamples: 0,
+  normalize: true,
+  seed: 42,
+};
+
+export interface ClusterRequest {
+  type: 'cluster';
+  data: Float32Array; // Raw vectors, or layout positions when the dataset has none
+  count: number;
+  dimensions: number;
+  params: ClusteringParams;
+}
+
+export interface KnnParams {
+  k: number;
+  metric: NeighborMetric;
+}
+
+export const DEFAULT_KNN_PARAMS: KnnParams = { k: 8, metric: 'cosine' };
+
+export interface KnnRequest {
+  type: 'knn';
+  data: Float32Array; // Raw vectors, or layout positions when the dataset has none
+  count: number;
+  dimensions: number;
+  params: KnnParams;
+}
+
+export type AnalysisRequest = ClusterRequest | KnnRequest;
+
+export interface ClusterResult {
+  labels: Int32Array; // NOISE_CLUSTER marks HDBSCAN noise
+}
+
+export type KnnResult = NeighborGraph;
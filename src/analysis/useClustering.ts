@@ -0,0 +1,31 @@
+// src/analysis/useClustering.ts
+// Runs clustering in the analysis worker and writes the labels into the shared dataset.
+import { useCallback } from 'react';
+import { sameRows, withClusters } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { useWorkerJob } from '../data/useWorkerJob';
+import { AnalysisRequest, ClusteringParams, ClusterResult } from './types';
+
+export const createAnalysisWorker = () =>
+  new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+
+export const useClustering = () => {
+  const { dataset, setDataset } = useDataset();
+  const { start, cancel, status, error } = useWorkerJob<AnalysisRequest, ClusterResult>(createAnalysisWorker);
+
+  const run = useCallback((params: ClusteringParams) => {
+    const source = dataset;
+    // Without raw vectors, cluster the layout itself (normalising 3D positions would be meaningless).
+    const request: AnalysisRequest = source.vectors
+      ? { type: 'cluster', data: source.vectors, count: source.points.length, dimensions: source.dimensions, params }
+      : {
+        type: 'cluster', data: Float32Array.from(source.points.flatMap(p => p.position)),
+        count: source.points.length, dimensions: 3, params: { ...params, normalize: false },
+      };
+    start(request, ({ labels }) => {
+      setDataset(current => (sameRows(current, source) ? withClusters(current, labels) : current));
+    });
+  }, [dataset, setDataset, start]);
+
+  return { run, cancel, status, error };
+};
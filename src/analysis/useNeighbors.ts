@@ -0,0 +1,30 @@
+// src/analysis/useNeighbors.ts
+// Builds the kNN graph in the analysis worker and stores it on the shared dataset.
+import { useCallback } from 'react';
+import { EmbeddingDataset, sameRows, withNeighbors } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { useWorkerJob } from '../data/useWorkerJob';
+import { AnalysisRequest, KnnParams, KnnResult } from './types';
+import { createAnalysisWorker } from './useClustering';
+
+// Without raw vectors the layout is the only space available, and cosine on 3D positions means little.
+export const knnRequest = (dataset: EmbeddingDataset, params: KnnParams): AnalysisRequest => (dataset.vectors
+  ? { type: 'knn', data: dataset.vectors, count: dataset.points.length, dimensions: dataset.dimensions, params }
+  : {
+    type: 'knn', data: Float32Array.from(dataset.points.flatMap(p => p.position)),
+    count: dataset.points.length, dimensions: 3, params: { ...params, metric: 'euclidean' },
+  });
+
+export const useNeighbors = () => {
+  const { dataset, setDataset } = useDataset();
+  const { start, cancel, status, error } = useWorkerJob<AnalysisRequest, KnnResult>(createAnalysisWorker);
+
+  const run = useCallback((params: KnnParams) => {
+    const source = dataset;
+    start(knnRequest(source, params), graph => {
+      setDataset(current => (sameRows(current, source) ? withNeighbors(current, graph) : current));
+    });
+  }, [dataset, setDataset, start]);
+
+  return { run, cancel, status, error };
+};
@@ -0,0 +1,14 @@
+// src/analysis/vectorMath.ts
+// Row-wise helpers over row-major Float32Array matrices.
+
+export const l2NormalizeRows = (data: Float32Array, count: number, dims: number): Float32Array => {
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < count; i++) {
+    const offset = i * dims;
+    let norm = 0;
+    for (let d = 0; d < dims; d++) norm += data[offset + d] * data[offset + d];
+    norm = Math.sqrt(norm) || 1;
+    for (let d = 0; d < dims; d++) out[offset + d] = data[offset + d] / norm;
+  }
+  return out;
+};
@@ -0,0 +1,63 @@
+// src/assets/loadAssets.ts
+// Resolves manifest entries for the engines. Anything that cannot be provided comes back as an
+// AssetIssue naming what the scene shows instead, for the scene to display (see AssetNotice).
+import { FONTS, FontId, SPRITES, SpriteId } from './manifest';
+
+export interface AssetIssue {
+  asset: string; // Manifest label
+  message: string; // What went wrong and what is shown instead
+}
+
+export class AssetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssetError';
+  }
+}
+
+const spriteUrls = new Map<SpriteId, string>();
+
+// A PNG data URL of the sprite, drawn once per page. Throws AssetError without a 2D canvas.
+export const spriteUrl = (id: SpriteId): string => {
+  let url = spriteUrls.get(id);
+  if (!url) {
+    const { label, size, draw } = SPRITES[id];
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new AssetError(`no 2D canvas to draw the ${label.toLowerCase()} on`);
+    draw(ctx, size);
+    url = canvas.toDataURL('image/png');
+    spriteUrls.set(id, url);
+  }
+  return url;
+};
+
+// Not assigned in Unicode, so every font draws it as the missing-glyph box (or nothing).
+const UNASSIGNED = '\u0378';
+const PROBE_SIZE = 32;
+
+// The characters that the font stack (with the browser's own fallback fonts) has no glyph for:
+// they draw exactly like an unassigned code point. Without a 2D canvas nothing can be checked,
+// so nothing is reported missing.
+export const missingGlyphs = (font: FontId, chars: Iterable<string>): Set<string> => {
+  const missing = new Set<string>();
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = PROBE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return missing;
+  ctx.font = `${PROBE_SIZE * 0.75}px ${FONTS[font].family}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const render = (char: string) => {
+    ctx.clearRect(0, 0, PROBE_SIZE, PROBE_SIZE);
+    ctx.fillText(char, PROBE_SIZE / 2, PROBE_SIZE / 2);
+    return ctx.getImageData(0, 0, PROBE_SIZE, PROBE_SIZE).data;
+  };
+  const tofu = render(UNASSIGNED);
+  new Set(chars).forEach(char => {
+    const pixels = render(char);
+    if (pixels.every((v, i) => v === tofu[i]) || pixels.every((v, i) => i % 4 !== 3 || v === 0)) missing.add(char);
+  });
+  return missing;
+};
@@ -0,0 +1,64 @@
+// src/assets/manifest.ts
+// Every asset the engines use, all local so the scenes work without network access. Sprites are
+// drawn on a canvas when first needed rather than fetched; fonts are the system's, checked for
+// the glyphs in use. Engines resolve entries through loadAssets.ts, which says what fell back.
+
+export type SpriteId = 'stardust' | 'runeGlow';
+
+export interface SpriteAsset {
+  label: string; // Shown when the sprite cannot be made
+  size: number; // Square, in pixels
+  draw: (ctx: CanvasRenderingContext2D, size: number) => void; // Onto a cleared, transparent canvas
+}
+
+// White sprites, so engines tint them by cluster colour.
+export const SPRITES: Record<SpriteId, SpriteAsset> = {
+  // Babylon's stardust particles: a bright core with a soft halo and faint cross streaks.
+  stardust: {
+    label: 'Stardust sprite',
+    size: 64,
+    draw: (ctx, size) => {
+      const c = size / 2;
+      const halo = ctx.createRadialGradient(c, c, 0, c, c, c);
+      halo.addColorStop(0, 'rgba(255, 255, 255, 1)');
+      halo.addColorStop(0.15, 'rgba(255, 255, 255, 0.85)');
+      halo.addColorStop(0.45, 'rgba(255, 255, 255, 0.2)');
+      halo.addColorStop(1, 'rgba(255, 255, 255, 0)');
+      ctx.fillStyle = halo;
+      ctx.fillRect(0, 0, size, size);
+      const streak = ctx.createLinearGradient(0, c, size, c);
+      streak.addColorStop(0, 'rgba(255, 255, 255, 0)');
+      streak.addColorStop(0.5, 'rgba(255, 255, 255, 0.5)');
+      streak.addColorStop(1, 'rgba(255, 255, 255, 0)');
+      ctx.fillStyle = streak;
+      ctx.fillRect(0, c - 1, size, 2);
+      ctx.fillRect(c - 1, 0, 2, size);
+    },
+  },
+  // The halo behind each Pixi rune.
+  runeGlow: {
+    label: 'Rune glow sprite',
+    size: 128,
+    draw: (ctx, size) => {
+      const c = size / 2;
+      const glow = ctx.createRadialGradient(c, c, 0, c, c, c);
+      glow.addColorStop(0, 'rgba(255, 255, 255, 1)');
+      glow.addColorStop(0.55, 'rgba(255, 255, 255, 0.75)');
+      glow.addColorStop(1, 'rgba(255, 255, 255, 0)');
+      ctx.fillStyle = glow;
+      ctx.fillRect(0, 0, size, size);
+    },
+  },
+};
+
+export type FontId = 'runes';
+
+export interface FontAsset {
+  label: string;
+  family: string; // CSS font-family stack
+}
+
+export const FONTS: Record<FontId, FontAsset> = {
+  // Runes are arbitrary symbols from the data; colour emoji fonts cover most of them.
+  runes: { label: 'Rune font', family: '"Segoe UI Emoji", "Apple Color Emoji", "Noto Color Emoji", sans-serif' },
+};
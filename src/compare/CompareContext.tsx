@@ -0,0 +1,69 @@
+// src/compare/CompareContext.tsx
+// A second model's embeddings of the same corpus, the comparison built against the shown
+// dataset, and how the split view shows it. Like a snapshot timeline, the comparison applies
+// while the shared dataset is its A side; loading or isolating other data parks it.
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { EmbeddingDataset, sameRows } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { ClusterSwatch, rampSwatch } from '../data/palette';
+import { PointLegend } from '../data/PointColorContext';
+import { DEFAULT_ENGINE, EngineId } from '../shell/engines';
+import { changeRamp, ModelComparison } from './compare';
+
+export type CompareColorMode = 'cluster' | 'jaccard' | 'rank';
+
+interface CompareContextValue {
+  other: EmbeddingDataset | null; // Model B as loaded
+  setOther: (other: EmbeddingDataset | null) => void;
+  comparison: ModelComparison | null;
+  setComparison: (comparison: ModelComparison | null) => void;
+  active: boolean; // The shown dataset is the comparison's A side, so the split view is up
+  colorMode: CompareColorMode;
+  setColorMode: (mode: CompareColorMode) => void;
+  swatches: ReadonlyMap<string, ClusterSwatch> | null; // Per id for the metric colour modes, shared by both panes
+  legend: PointLegend | null;
+  paneEngine: EngineId; // The second pane's scene; the first follows the menu
+  setPaneEngine: (engine: EngineId) => void;
+}
+
+const CompareContext = createContext<CompareContextValue>({
+  other: null,
+  setOther: () => {},
+  comparison: null,
+  setComparison: () => {},
+  active: false,
+  colorMode: 'jaccard',
+  setColorMode: () => {},
+  swatches: null,
+  legend: null,
+  paneEngine: DEFAULT_ENGINE,
+  setPaneEngine: () => {},
+});
+
+export const CompareProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { dataset } = useDataset();
+  const [other, setOther] = useState<EmbeddingDataset | null>(null);
+  const [comparison, setComparison] = useState<ModelComparison | null>(null);
+  const [colorMode, setColorMode] = useState<CompareColorMode>('jaccard');
+  const [paneEngine, setPaneEngine] = useState<EngineId>(DEFAULT_ENGINE);
+  const active = comparison !== null && sameRows(comparison.a, dataset);
+
+  // Both metrics are drawn so that red means the neighbourhood changed.
+  const swatches = useMemo(() => {
+    if (!comparison || colorMode === 'cluster') return null;
+    const { a, k, jaccard, rankShift } = comparison;
+    return new Map(a.points.map((p, i) => [p.id, rampSwatch(changeRamp, colorMode === 'jaccard' ? 1 - jaccard[i] : rankShift[i] / k)]));
+  }, [comparison, colorMode]);
+  const legend = useMemo<PointLegend | null>(() => {
+    if (!comparison || colorMode === 'cluster') return null;
+    return colorMode === 'jaccard'
+      ? { kind: 'continuous', title: 'Neighbour overlap', ramp: changeRamp, min: 'same (1)', mid: null, max: 'none shared (0)' }
+      : { kind: 'continuous', title: 'Rank change', ramp: changeRamp, min: 'same order (0)', mid: null, max: `all moved (${comparison.k})` };
+  }, [comparison, colorMode]);
+
+  const value = useMemo(() => ({ other, setOther, comparison, setComparison, active, colorMode, setColorMode, swatches, legend, paneEngine, setPaneEngine }),
+    [other, comparison, active, colorMode, swatches, legend, paneEngine]);
+  return <CompareContext.Provider value={value}>{children}</CompareContext.Provider>;
+};
+
+export const useCompare = () => useContext(CompareContext);
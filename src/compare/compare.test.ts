@@ -0,0 +1,77 @@
+// src/compare/compare.test.ts
+// Neighbourhood agreement between two kNN graphs, and pairing two models' datasets, on small
+// hand-computed cases.
+import { describe, expect, it } from 'vitest';
+import { createDataset, NeighborGraph } from '../data/dataset';
+import { neighborhoodChange, pairDatasets } from './compare';
+
+const graph = (k: number, indices: number[]): NeighborGraph => ({
+  k, metric: 'cosine', indices: Int32Array.from(indices),
+  scores: new Float32Array(indices.length), minScore: 0, maxScore: 1,
+});
+
+const dataset = (name: string, ids: string[]) => createDataset({
+  name,
+  points: ids.map((id, i) => ({ id, label: `${id}@${i}`, cluster: 0, position: [i, 0, 0], metadata: {} })), // Label = id@row
+});
+
+describe('neighborhoodChange', () => {
+  // A has k = 4 and B k = 3, so only A's first three neighbours count; -1 pads a short list.
+  const a = graph(4, [
+    1, 2, 3, 9,
+    0, 2, -1, -1,
+    -1, -1, -1, 5,
+  ]);
+  const b = graph(3, [
+    2, 1, 4,
+    0, -1, -1,
+    -1, -1, -1,
+  ]);
+  const { k, jaccard, rankShift } = neighborhoodChange(a, b, 3);
+
+  it('compares the first min(kA, kB) neighbours', () => {
+    expect(k).toBe(3);
+  });
+
+  it('counts the union and charges a missing neighbour rank k', () => {
+    // Row 0: shared {1, 2} (ranks 0↔1 and 1↔0), 3 only in A at rank 2, 4 only in B at rank 2.
+    // Union 4; shifts 1 + 1 + (3 - 2) + (3 - 2) = 4.
+    expect(jaccard[0]).toBeCloseTo(2 / 4);
+    expect(rankShift[0]).toBeCloseTo(4 / 4);
+  });
+
+  it('skips the -1 padding on either side', () => {
+    // Row 1: shared {0} at rank 0 on both, 2 only in A at rank 1. Union 2; shifts 0 + (3 - 1) = 2.
+    expect(jaccard[1]).toBeCloseTo(1 / 2);
+    expect(rankShift[1]).toBeCloseTo(2 / 2);
+  });
+
+  it('treats two empty neighbourhoods as unchanged', () => {
+    expect(jaccard[2]).toBe(1);
+    expect(rankShift[2]).toBe(0);
+  });
+});
+
+describe('pairDatasets', () => {
+  it('cuts both models down to the shared ids in A\'s row order', () => {
+    const a = dataset('A', ['x', 'y', 'z', 'w', 'only-a']);
+    const b = dataset('B', ['w', 'only-b', 'y', 'x', 'z', 'also-b']);
+    const paired = pairDatasets(a, b);
+    expect(paired.a.points.map(p => p.id)).toEqual(['x', 'y', 'z', 'w']);
+    expect(paired.a.name).toBe('A (4 shared)');
+    expect(paired.b.points.map(p => p.id)).toEqual(['x', 'y', 'z', 'w']);
+    expect(paired.b.points.map(p => p.label)).toEqual(['x@3', 'y@2', 'z@4', 'w@0']); // B's own rows, reordered
+    expect(paired.dropped).toBe(3); // only-a, only-b and also-b
+  });
+
+  it('keeps A as it is when B has all of its ids', () => {
+    const a = dataset('A', ['x', 'y', 'z']);
+    const paired = pairDatasets(a, dataset('B', ['z', 'y', 'x', 'extra']));
+    expect(paired.a).toBe(a);
+    expect(paired.dropped).toBe(1);
+  });
+
+  it('refuses models that share fewer than three ids', () => {
+    expect(() => pairDatasets(dataset('A', ['x', 'y', 'z']), dataset('B', ['x', 'y', 'q']))).toThrow(/share only 2 ids/);
+  });
+});
@@ -0,0 +1,99 @@
+// src/compare/compare.ts
+// Two embedding models run over the same corpus, compared point by point: how far each point's
+// k nearest neighbours under model A agree with its neighbours under model B. The layouts are
+// only for looking at; the metrics come from the kNN graphs, which use the raw vectors.
+import { EmbeddingDataset, inferColumns, NeighborGraph, subsetDataset, withNeighbors, withPositions } from '../data/dataset';
+import { rampFromStops } from '../data/palette';
+import { applyTransform, fitProcrustes } from '../snapshots/snapshots';
+
+// Metadata columns added to both sides, so the metrics work with the filters and inspector.
+export const COMPARE_COLUMNS = {
+  jaccard: 'knn_jaccard', // |N_A ∩ N_B| / |N_A ∪ N_B|; 1 = same neighbours
+  rankShift: 'knn_rank_shift', // Mean |rank_A − rank_B| over N_A ∪ N_B, a neighbour missing on one side counting as rank k
+} as const;
+
+export interface ModelComparison {
+  a: EmbeddingDataset; // Model A cut down to the shared ids, with its kNN graph and the metric columns; the shared dataset
+  b: EmbeddingDataset; // Model B in A's row order, laid over A's layout; shown in the second pane
+  k: number;
+  jaccard: Float32Array; // Per row
+  rankShift: Float32Array; // Per row, 0..k
+  dropped: number; // Ids only one of the models has, left out
+}
+
+// Both datasets cut down to the ids they share, in A's row order.
+export const pairDatasets = (a: EmbeddingDataset, b: EmbeddingDataset) => {
+  const rowsB = new Map(b.points.map((p, row) => [p.id, row]));
+  const keptA = a.points.map((_, row) => row).filter(row => rowsB.has(a.points[row].id));
+  if (keptA.length < 3) throw new Error(`The models share only ${keptA.length} ids; comparing them needs at least 3.`);
+  const keptB = keptA.map(row => rowsB.get(a.points[row].id)!);
+  return {
+    a: keptA.length === a.points.length ? a : subsetDataset(a, keptA, `${a.name} (${keptA.length} shared)`),
+    b: subsetDataset(b, keptB, b.name),
+    dropped: a.points.length + b.points.length - 2 * keptA.length,
+  };
+};
+
+// B's layout rotated, scaled and shifted onto A's (Procrustes over the rows), so the two panes
+// start out looking the same way round.
+export const alignLayout = (b: EmbeddingDataset, a: EmbeddingDataset): EmbeddingDataset => {
+  const source = b.points.map(p => p.position);
+  const transform = fitProcrustes(source, a.points.map(p => p.position));
+  return withPositions(b, source.map(p => applyTransform(transform, p)), b.layout);
+};
+
+// Per-row agreement between two kNN graphs over the same rows.
+export const neighborhoodChange = (graphA: NeighborGraph, graphB: NeighborGraph, count: number) => {
+  const k = Math.min(graphA.k, graphB.k);
+  const jaccard = new Float32Array(count);
+  const rankShift = new Float32Array(count);
+  const rankB = new Map<number, number>();
+  for (let i = 0; i < count; i++) {
+    rankB.clear();
+    for (let r = 0; r < k; r++) {
+      const j = graphB.indices[i * graphB.k + r];
+      if (j >= 0) rankB.set(j, r);
+    }
+    let shared = 0, shift = 0, union = rankB.size;
+    for (let r = 0; r < k; r++) {
+      const j = graphA.indices[i * graphA.k + r];
+      if (j < 0) continue;
+      const other = rankB.get(j);
+      if (other === undefined) {
+        union++;
+        shift += k - r;
+      } else {
+        shared++;
+        shift += Math.abs(r - other);
+        rankB.delete(j);
+      }
+    }
+    rankB.forEach(r => { shift += k - r; }); // In B's neighbours only
+    jaccard[i] = union > 0 ? shared / union : 1;
+    rankShift[i] = union > 0 ? shift / union : 0;
+  }
+  return { k, jaccard, rankShift };
+};
+
+const withMetrics = (dataset: EmbeddingDataset, graph: NeighborGraph, jaccard: Float32Array, rankShift: Float32Array) => {
+  const points = dataset.points.map((point, i) => ({
+    ...point,
+    metadata: { ...point.metadata, [COMPARE_COLUMNS.jaccard]: jaccard[i], [COMPARE_COLUMNS.rankShift]: rankShift[i] },
+  }));
+  return withNeighbors({ ...dataset, points, columns: inferColumns(points) }, graph);
+};
+
+// a and b as paired (and laid out); the graphs were built on them with the same k and metric.
+export const buildComparison = (
+  a: EmbeddingDataset, b: EmbeddingDataset, graphA: NeighborGraph, graphB: NeighborGraph, dropped: number,
+): ModelComparison => {
+  const { k, jaccard, rankShift } = neighborhoodChange(graphA, graphB, a.points.length);
+  return {
+    a: withMetrics(a, graphA, jaccard, rankShift),
+    b: withMetrics(alignLayout(b, a), graphB, jaccard, rankShift),
+    k, jaccard, rankShift, dropped,
+  };
+};
+
+// Steady blue through amber to red for neighbourhoods that changed completely.
+export const changeRamp = rampFromStops([[70, 120, 210], [240, 200, 90], [240, 60, 60]]);
@@ -0,0 +1,37 @@
+// src/compare/useComparisonBuilder.ts
+// Builds a comparison between the shown dataset (model A) and model B: both are cut down to the
+// ids they share, B gets a PCA layout if it only has the placeholder projection, then a kNN graph
+// is built for each with the same settings, one after the other on the analysis worker. The A
+// side, with the metrics added, replaces the shown dataset.
+import { useCallback } from 'react';
+import { AnalysisRequest, KnnParams, KnnResult } from '../analysis/types';
+import { createAnalysisWorker } from '../analysis/useClustering';
+import { knnRequest } from '../analysis/useNeighbors';
+import { EmbeddingDataset } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { useJobSequence } from '../data/useJobSequence';
+import { layoutIfNeeded } from '../reduction/useReduction';
+import { buildComparison, pairDatasets } from './compare';
+import { useCompare } from './CompareContext';
+
+export const useComparisonBuilder = () => {
+  const { loadDataset } = useDataset();
+  const { setComparison } = useCompare();
+  const { start, cancel, status, error } = useJobSequence();
+
+  const build = useCallback((modelA: EmbeddingDataset, modelB: EmbeddingDataset, params: KnnParams) => start(async sequence => {
+    const paired = pairDatasets(modelA, modelB);
+    const b = await layoutIfNeeded(sequence, paired.b, `PCA (${paired.b.name})`);
+
+    const graphs: KnnResult[] = [];
+    for (const [side, dataset] of [['A', paired.a], ['B', b]] as const) {
+      graphs.push(await sequence.runJob<AnalysisRequest, KnnResult>(createAnalysisWorker, knnRequest(dataset, params), stage => `${stage} (${side})`));
+    }
+
+    const comparison = buildComparison(paired.a, b, graphs[0], graphs[1], paired.dropped);
+    loadDataset(comparison.a);
+    setComparison(comparison);
+  }), [loadDataset, setComparison, start]);
+
+  return { build, cancel, status, error };
+};
@@ -0,0 +1,15 @@
+// src/components/AssetNotice.tsx
+// Lines for a scene's info box naming the assets it could not use and what it shows instead,
+// so a missing effect is explained rather than silently absent.
+import React from 'react';
+import { AssetIssue } from '../assets/loadAssets';
+
+const AssetNotice: React.FC<{ issues: AssetIssue[] }> = ({ issues }) => (
+  <>
+    {issues.map(issue => (
+      <div key={issue.asset} style={{ color: '#ffd27a', maxWidth: '360px' }}>⚠ {issue.asset}: {issue.message}</div>
+    ))}
+  </>
+);
+
+export default AssetNotice;
@@ -0,0 +1,79 @@
+// src/components/ClusteringPanel.tsx
+// Controls for re-clustering the dataset on-device; labels feed every scene's colouring.
+// Loaded vectors that arrive without any cluster column are clustered with k-means automatically.
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { NOISE_CLUSTER } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { clusterSwatch, rgbToCss } from '../data/palette';
+import { ClusteringMethod, ClusteringParams, DEFAULT_CLUSTERING_PARAMS } from '../analysis/types';
+import { useClustering } from '../analysis/useClustering';
+import NumberField from './NumberField';
+import ProgressBar from './ProgressBar';
+import { buttonStyle, inputStyle, panelStyle, rowStyle } from './panelStyles';
+
+const MAX_SWATCHES = 24;
+
+const ClusteringPanel: React.FC = () => {
+  const { dataset } = useDataset();
+  const { run, cancel, status, error } = useClustering();
+  const [params, setParams] = useState<ClusteringParams>(DEFAULT_CLUSTERING_PARAMS);
+  const update = (patch: Partial<ClusteringParams>) => setParams(p => ({ ...p, ...patch }));
+
+  const autoClusteredRef = useRef<Float32Array | null>(null);
+
+  useEffect(() => {
+    const unclustered = dataset.points.every(p => p.cluster === dataset.points[0].cluster);
+    if (dataset.vectors && unclustered && autoClusteredRef.current !== dataset.vectors) {
+      autoClusteredRef.current = dataset.vectors;
+      const k = Math.max(2, Math.min(params.k, Math.round(Math.sqrt(dataset.points.length / 2))));
+      run({ ...params, method: 'kmeans', k });
+    }
+  }, [dataset, run, params]);
+
+  const summary = useMemo(() => {
+    const sizes = new Map<number, number>();
+    dataset.points.forEach(p => sizes.set(p.cluster, (sizes.get(p.cluster) ?? 0) + 1));
+    const noise = sizes.get(NOISE_CLUSTER) ?? 0;
+    sizes.delete(NOISE_CLUSTER);
+    return { clusters: [...sizes.keys()].sort((a, b) => a - b), noise };
+  }, [dataset]);
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <b>Clusters — {summary.clusters.length}{summary.noise ? `, ${summary.noise} noise points` : ''}</b>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2px' }}>
+        {summary.clusters.slice(0, MAX_SWATCHES).map(c => (
+          <span key={c} title={`Cluster ${c}`} style={{ width: '10px', height: '10px', borderRadius: '2px', background: rgbToCss(clusterSwatch(c).primary) }} />
+        ))}
+        {summary.noise > 0 && (
+          <span title="Noise" style={{ width: '10px', height: '10px', borderRadius: '2px', background: rgbToCss(clusterSwatch(NOISE_CLUSTER).primary) }} />
+        )}
+      </div>
+      <label style={rowStyle}>
+        Method
+        <select value={params.method} style={inputStyle} onChange={e => update({ method: e.target.value as ClusteringMethod })}>
+          <option value="kmeans">k-means</option>
+          <option value="hdbscan">HDBSCAN</option>
+        </select>
+      </label>
+      {params.method === 'kmeans'
+        ? <NumberField label="k" value={params.k} min={1} onChange={k => update({ k })} />
+        : <>
+          <NumberField label="Min cluster size" value={params.minClusterSize} min={2} onChange={minClusterSize => update({ minClusterSize })} />
+          <NumberField label="Min samples (0 = auto)" value={params.minSamples} onChange={minSamples => update({ minSamples })} />
+        </>}
+      {dataset.vectors && (
+        <label style={rowStyle}>
+          Cosine (normalise rows)
+          <input type="checkbox" checked={params.normalize} onChange={e => update({ normalize: e.target.checked })} />
+        </label>
+      )}
+      {status
+        ? <ProgressBar stage={status.stage} progress={status.progress} onCancel={cancel} />
+        : <button style={buttonStyle} onClick={() => run(params)}>Cluster {dataset.vectors ? 'vectors' : 'layout'}</button>}
+      {error && <span style={{ color: '#ff8a8a' }}>Clustering failed: {error}</span>}
+    </div>
+  );
+};
+
+export default ClusteringPanel;
@@ -0,0 +1,112 @@
+// src/components/ComparePanel.tsx
+// Compares the shown dataset (model A) with another model's embeddings of the same corpus:
+// per point, how much its k nearest neighbours agree between the two. The split view shows
+// both; this panel loads model B, colours the points by the metrics and lists the points whose
+// neighbourhoods changed most.
+import React, { useMemo, useRef, useState } from 'react';
+import { DEFAULT_KNN_PARAMS } from '../analysis/types';
+import { COMPARE_COLUMNS } from '../compare/compare';
+import { CompareColorMode, useCompare } from '../compare/CompareContext';
+import { useComparisonBuilder } from '../compare/useComparisonBuilder';
+import { useDataset } from '../data/DatasetContext';
+import { useSelection } from '../data/SelectionContext';
+import { ACCEPTED_EXTENSIONS, loadDatasetFiles } from '../loaders';
+import NumberField from './NumberField';
+import ProgressBar from './ProgressBar';
+import { buttonStyle, inputStyle, panelStyle, rowStyle } from './panelStyles';
+
+const MOST_CHANGED = 10;
+
+const mean = (values: Float32Array) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+const ComparePanel: React.FC = () => {
+  const { dataset, loadDataset } = useDataset();
+  const { focusPoint } = useSelection();
+  const { other, setOther, comparison, setComparison, active, colorMode, setColorMode } = useCompare();
+  const { build, cancel, status, error } = useComparisonBuilder();
+  const [k, setK] = useState(DEFAULT_KNN_PARAMS.k);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const loadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setOther((await loadDatasetFiles(files)).dataset);
+    } catch (e) {
+      setLoadError((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Least neighbour overlap first; rank change breaks ties between equal overlaps.
+  const mostChanged = useMemo(() => {
+    if (!comparison) return [];
+    const { jaccard, rankShift } = comparison;
+    return Array.from(jaccard, (_, row) => row)
+      .sort((r, s) => jaccard[r] - jaccard[s] || rankShift[s] - rankShift[r])
+      .slice(0, MOST_CHANGED);
+  }, [comparison]);
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <b>Compare models</b>
+      {!other && <span style={{ opacity: 0.7 }}>Load another model's embeddings of the same items to compare neighbourhoods side by side.</span>}
+      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>A: {dataset.name} ({dataset.points.length})</span>
+      {other && <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>B: {other.name} ({other.points.length})</span>}
+      <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+        <button style={buttonStyle} disabled={isLoading} onClick={() => inputRef.current?.click()}>
+          {isLoading ? 'Loading…' : other ? 'Replace model B…' : 'Load model B…'}
+        </button>
+        <input ref={inputRef} type="file" multiple accept={ACCEPTED_EXTENSIONS.join(',')} style={{ display: 'none' }}
+          onChange={e => { loadFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+      </div>
+      {loadError && <span style={{ color: '#ff8a8a' }}>{loadError}</span>}
+      <NumberField label="Neighbours (k)" value={k} min={1} onChange={v => setK(Math.max(1, Math.round(v)))} />
+
+      {status
+        ? <ProgressBar stage={status.stage} progress={status.progress} onCancel={cancel} />
+        : <button style={buttonStyle} disabled={!other} onClick={() => build(dataset, other!, { ...DEFAULT_KNN_PARAMS, k })}>Compare neighbourhoods</button>}
+      {error && <span style={{ color: '#ff8a8a' }}>Comparison failed: {error}</span>}
+
+      {comparison && (
+        <>
+          <span>
+            {comparison.a.points.length} shared points, k = {comparison.k}; mean overlap {mean(comparison.jaccard).toFixed(2)}
+            {comparison.dropped > 0 ? `; ${comparison.dropped} ids in only one model were left out` : ''}.
+          </span>
+          {!active && (
+            <div style={rowStyle}>
+              <span style={{ color: '#ffd27a' }}>Other data is shown.</span>
+              <button style={buttonStyle} onClick={() => loadDataset(comparison.a)}>Show comparison</button>
+            </div>
+          )}
+          <label style={rowStyle}>
+            Colour by
+            <select value={colorMode} style={inputStyle} onChange={e => setColorMode(e.target.value as CompareColorMode)}>
+              <option value="cluster">Cluster</option>
+              <option value="jaccard">Neighbour overlap</option>
+              <option value="rank">Rank change</option>
+            </select>
+          </label>
+          <span title={`Columns ${COMPARE_COLUMNS.jaccard} and ${COMPARE_COLUMNS.rankShift}`}>Changed most: overlap / rank change</span>
+          {mostChanged.map(row => {
+            const point = comparison.a.points[row];
+            return (
+              <div key={point.id} style={{ ...rowStyle, cursor: active ? 'pointer' : undefined }} onClick={() => { if (active) focusPoint(point.id); }}>
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{point.label}</span>
+                <span style={{ flexShrink: 0 }}>{comparison.jaccard[row].toFixed(2)} / {comparison.rankShift[row].toFixed(1)}</span>
+              </div>
+            );
+          })}
+          <button style={buttonStyle} onClick={() => setComparison(null)}>Close comparison</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,127 @@
+// src/components/DatasetLoader.tsx
+// File picker, URL field and window-wide drag-and-drop for embedding files, with an error report
+// panel. Data loaded from a URL can be fetched again by a shared view link; local files cannot.
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useDataset } from '../data/DatasetContext';
+import { ACCEPTED_EXTENSIONS, DatasetLoadError, loadDatasetFiles, loadDatasetUrl, LoadIssue, LoadReport, LoadResult } from '../loaders';
+import { buttonStyle, inputStyle, panelStyle } from './panelStyles';
+
+const MAX_LISTED_ISSUES = 40;
+
+const IssueList: React.FC<{ title: string; issues: LoadIssue[]; color: string }> = ({ title, issues, color }) => {
+  if (issues.length === 0) return null;
+  return (
+    <div style={{ marginTop: '6px' }}>
+      <b style={{ color }}>{title} ({issues.length})</b>
+      <ul style={{ margin: '4px 0 0 0', paddingLeft: '16px', maxHeight: '180px', overflowY: 'auto' }}>
+        {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+          <li key={i}>{issue.file}{issue.row !== undefined ? `:${issue.row}` : ''} — {issue.message}</li>
+        ))}
+        {issues.length > MAX_LISTED_ISSUES && <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>}
+      </ul>
+    </div>
+  );
+};
+
+const DatasetLoader: React.FC = () => {
+  const { dataset, loadDataset } = useDataset();
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+  const [report, setReport] = useState<LoadReport | null>(null);
+  const [url, setUrl] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const dragDepthRef = useRef(0); // dragenter/dragleave fire for every child element
+
+  const load = useCallback(async (fetchResult: () => Promise<LoadResult>, source: string | null) => {
+    setIsLoading(true);
+    setFailure(null);
+    try {
+      const result = await fetchResult();
+      loadDataset(result.dataset, source);
+      setReport(result.report.errors.length || result.report.warnings.length ? result.report : null);
+    } catch (e) {
+      setFailure((e as Error).message);
+      setReport(e instanceof DatasetLoadError ? e.report : null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadDataset]);
+
+  const loadFiles = useCallback((files: File[]) => {
+    if (files.length > 0) load(() => loadDatasetFiles(files), null);
+  }, [load]);
+
+  useEffect(() => {
+    const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes('Files') ?? false;
+    const onDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepthRef.current++;
+      setIsDragging(true);
+    };
+    const onDragLeave = () => {
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) setIsDragging(false);
+    };
+    const onDragOver = (event: DragEvent) => { if (hasFiles(event)) event.preventDefault(); };
+    const onDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepthRef.current = 0;
+      setIsDragging(false);
+      loadFiles(Array.from(event.dataTransfer!.files));
+    };
+    window.addEventListener('dragenter', onDragEnter);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragenter', onDragEnter);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, [loadFiles]);
+
+  return (
+    <>
+      <div style={{ ...panelStyle, display: 'flex', alignItems: 'center', gap: '10px' }}>
+        <span>
+          <b>{dataset.name}</b> — {dataset.points.length} points
+          {dataset.dimensions > 0 ? `, ${dataset.dimensions}d` : ''}
+        </span>
+        <button style={buttonStyle} disabled={isLoading} onClick={() => inputRef.current?.click()}>
+          {isLoading ? 'Loading…' : 'Load embeddings…'}
+        </button>
+        <input ref={inputRef} type="file" multiple accept={ACCEPTED_EXTENSIONS.join(',')} style={{ display: 'none' }}
+          onChange={e => { loadFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+      </div>
+      <form style={{ ...panelStyle, marginTop: '6px', display: 'flex', gap: '6px' }}
+        onSubmit={e => { e.preventDefault(); if (url.trim()) load(() => loadDatasetUrl(url.trim()), url.trim()); }}>
+        <input value={url} placeholder="https://…/embeddings.jsonl" style={{ ...inputStyle, flex: 1, minWidth: 0 }} onChange={e => setUrl(e.target.value)} />
+        <button type="submit" style={buttonStyle} disabled={isLoading || !url.trim()}>Load URL</button>
+      </form>
+
+      {(failure || report) && (
+        <div style={{ ...panelStyle, marginTop: '6px', maxWidth: '520px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: '10px' }}>
+            <b style={{ color: failure ? '#ff8a8a' : '#ffd27a' }}>{failure ? `Load failed: ${failure}` : 'Loaded with issues'}</b>
+            <button style={buttonStyle} onClick={() => { setFailure(null); setReport(null); }}>Dismiss</button>
+          </div>
+          {report && <IssueList title="Errors (rows skipped)" issues={report.errors} color="#ff8a8a" />}
+          {report && <IssueList title="Warnings" issues={report.warnings} color="#ffd27a" />}
+        </div>
+      )}
+
+      {isDragging && (
+        <div style={{ position: 'fixed', inset: 0, zIndex: 20000, background: 'rgba(20, 10, 50, 0.6)',
+          border: '3px dashed rgba(160, 140, 255, 0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center',
+          color: '#f0ecff', fontSize: '1.4em', pointerEvents: 'none' }}>
+          Drop .jsonl, .csv, .tsv, .npy or .safetensors (plus an optional labels file)
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DatasetLoader;
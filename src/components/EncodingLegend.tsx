@@ -0,0 +1,59 @@
+// src/components/EncodingLegend.tsx
+// Legend for whatever colours the points in this pane: the clusters, a column's categories or
+// colour map, or a comparison metric. Sits in the scene's bottom-left corner.
+import React, { useMemo } from 'react';
+import { useDataset } from '../data/DatasetContext';
+import { NOISE_CLUSTER } from '../data/dataset';
+import { clusterSwatch, ClusterSwatch, rgbToCss } from '../data/palette';
+import { usePointLegend } from '../data/PointColorContext';
+import { panelStyle, rowStyle } from './panelStyles';
+
+const MAX_ROWS = 10; // Longer categorical legends end in "… n more"
+const GRADIENT_STEPS = 8;
+
+const Swatch: React.FC<{ swatch: ClusterSwatch }> = ({ swatch }) => (
+  <span style={{ width: '10px', height: '10px', borderRadius: '50%', flexShrink: 0, background: rgbToCss(swatch.primary), boxShadow: `0 0 4px ${rgbToCss(swatch.glow, 0.6)}` }} />
+);
+
+const EncodingLegend: React.FC = () => {
+  const { dataset } = useDataset();
+  const legend = usePointLegend();
+  const clusters = useMemo(() => [...new Set(dataset.points.map(p => p.cluster))].sort((a, b) => a - b), [dataset]);
+
+  const entries = legend === null
+    ? clusters.map(cluster => ({ label: cluster === NOISE_CLUSTER ? 'Noise' : `Cluster ${cluster}`, swatch: clusterSwatch(cluster) }))
+    : legend.kind === 'categorical' ? legend.entries : [];
+  const hidden = Math.max(0, entries.length - MAX_ROWS) + (legend?.kind === 'categorical' ? legend.more : 0);
+  if (legend === null && clusters.length < 2) return null;
+
+  return (
+    <div style={{ ...panelStyle, position: 'absolute', bottom: '10px', left: '10px', maxWidth: '220px', zIndex: 5, pointerEvents: 'none', display: 'flex', flexDirection: 'column', gap: '3px' }}>
+      <b style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{legend?.title ?? 'Cluster'}</b>
+      {legend?.kind === 'continuous' ? (
+        <div style={{ width: '180px' }}>
+          <div style={{
+            height: '8px', borderRadius: '2px',
+            background: `linear-gradient(to right, ${Array.from({ length: GRADIENT_STEPS + 1 }, (_, i) => rgbToCss(legend.ramp(i / GRADIENT_STEPS))).join(', ')})`,
+          }} />
+          <div style={rowStyle}>
+            <span>{legend.min}</span>
+            {legend.mid !== null && <span>{legend.mid}</span>}
+            <span>{legend.max}</span>
+          </div>
+        </div>
+      ) : (
+        <>
+          {entries.slice(0, MAX_ROWS).map(entry => (
+            <span key={entry.label} style={{ display: 'flex', alignItems: 'center', gap: '6px', overflow: 'hidden', whiteSpace: 'nowrap' }}>
+              <Swatch swatch={entry.swatch} />
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{entry.label}</span>
+            </span>
+          ))}
+          {hidden > 0 && <span style={{ opacity: 0.7 }}>… {hidden} more</span>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EncodingLegend;
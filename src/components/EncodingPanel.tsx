@@ -0,0 +1,64 @@
+// src/components/EncodingPanel.tsx
+// Picks the columns that colour and size the points in every scene. Numeric columns colour
+// through a continuous colour map, others through the categorical palette; the legend in each
+// scene explains the result.
+import React from 'react';
+import { COLOR_MAPS, ColorMapId } from '../data/colorMaps';
+import { getColumn } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { ColorEncoding, SizeEncoding, SizeScale } from '../data/encoding';
+import { useEncoding } from '../data/EncodingContext';
+import { inputStyle, panelStyle, rowStyle } from './panelStyles';
+
+const EncodingPanel: React.FC = () => {
+  const { dataset } = useDataset();
+  const { encoding, setEncoding } = useEncoding();
+  const { color, size } = encoding;
+  // Columns the current dataset lacks show as the default (cluster colour, uniform size).
+  const colorColumn = color.column !== null ? getColumn(dataset, color.column) : undefined;
+  const sizeColumn = size.column !== null ? getColumn(dataset, size.column) : undefined;
+  const numericColumns = dataset.columns.filter(c => c.kind === 'numeric');
+
+  const updateColor = (patch: Partial<ColorEncoding>) => setEncoding(e => ({ ...e, color: { ...e.color, ...patch } }));
+  const updateSize = (patch: Partial<SizeEncoding>) => setEncoding(e => ({ ...e, size: { ...e.size, ...patch } }));
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <b>Encoding</b>
+      <label style={rowStyle}>
+        Colour by
+        <select value={colorColumn?.name ?? ''} style={inputStyle} onChange={e => updateColor({ column: e.target.value || null })}>
+          <option value="">Cluster</option>
+          {dataset.columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+        </select>
+      </label>
+      {colorColumn?.kind === 'numeric' && (
+        <label style={rowStyle}>
+          Colour map
+          <select value={color.colorMap} style={inputStyle} onChange={e => updateColor({ colorMap: e.target.value as ColorMapId })}>
+            {(Object.keys(COLOR_MAPS) as ColorMapId[]).map(id => <option key={id} value={id}>{COLOR_MAPS[id].label}</option>)}
+          </select>
+        </label>
+      )}
+      <label style={rowStyle}>
+        Size by
+        <select value={sizeColumn?.kind === 'numeric' ? sizeColumn.name : ''} style={inputStyle} onChange={e => updateSize({ column: e.target.value || null })}>
+          <option value="">Uniform</option>
+          {numericColumns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+        </select>
+      </label>
+      {sizeColumn?.kind === 'numeric' && (
+        <label style={rowStyle}>
+          Scale
+          <select value={size.scale} style={inputStyle} onChange={e => updateSize({ scale: e.target.value as SizeScale })}>
+            <option value="linear">Linear</option>
+            <option value="sqrt">Square root</option>
+            <option value="log">Log</option>
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default EncodingPanel;
@@ -0,0 +1,135 @@
+// src/components/HistogramPanel.tsx
+// Histogram of one metadata column (or the clusters) bound to the shared stores: each bar shows
+// all points in the bin, the ones matching the filters and the ones in the selection set, and
+// the hovered point's bin is outlined. Dragging across bars brushes them into the selection set
+// (Shift adds, Alt removes), which every scene highlights; a brushed range can become a filter.
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useDataset } from '../data/DatasetContext';
+import { useFilter } from '../data/FilterContext';
+import { buildHistogram } from '../data/histogram';
+import { clusterSwatch, rgbToCss } from '../data/palette';
+import { selectionModeOf, useSelection } from '../data/SelectionContext';
+import { buttonStyle, inputStyle, panelStyle, rowStyle, tooltipStyle } from './panelStyles';
+
+const BAR_COLOR = 'rgba(150, 130, 255, 0.85)';
+const SELECTED_COLOR = '#ffd27a';
+
+interface HistogramPanelProps {
+  column: string | null; // null = cluster
+  onColumn: (column: string | null) => void;
+}
+
+const HistogramPanel: React.FC<HistogramPanelProps> = ({ column, onColumn }) => {
+  const { dataset } = useDataset();
+  const { setFilter, result: { mask } } = useFilter();
+  const { selectedIds, updateSelectedIds, hoveredId } = useSelection();
+  // A column the current dataset lacks falls back to the clusters.
+  const shown = column !== null && dataset.columns.some(c => c.name === column) ? column : null;
+  const histogram = useMemo(() => buildHistogram(dataset, shown), [dataset, shown]);
+  const { bins } = histogram;
+  const [brush, setBrush] = useState<{ from: number; to: number } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [hover, setHover] = useState<{ bin: number; x: number; y: number } | null>(null);
+  const barsRef = useRef<HTMLDivElement>(null);
+  useEffect(() => setBrush(null), [histogram]);
+
+  const counts = useMemo(() => bins.map(bin => ({
+    total: bin.rows.length,
+    matched: mask ? bin.rows.reduce((n, row) => n + mask[row], 0) : bin.rows.length,
+    selected: bin.rows.reduce((n, row) => n + (selectedIds.has(dataset.points[row].id) ? 1 : 0), 0),
+  })), [bins, mask, selectedIds, dataset]);
+  const largest = Math.max(1, ...counts.map(c => c.total));
+  const hoveredRow = hoveredId !== null ? dataset.points.findIndex(p => p.id === hoveredId) : -1;
+  const hoveredBin = hoveredRow >= 0 ? histogram.binOfRow[hoveredRow] : -1;
+
+  const binAt = (event: React.PointerEvent) => {
+    const rect = barsRef.current!.getBoundingClientRect();
+    return Math.min(bins.length - 1, Math.max(0, Math.floor((event.clientX - rect.left) / rect.width * bins.length)));
+  };
+  const brushed = brush ? [Math.min(brush.from, brush.to), Math.max(brush.from, brush.to)] : null;
+
+  const onPointerDown = (event: React.PointerEvent) => {
+    if (event.button !== 0 || bins.length === 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const bin = binAt(event);
+    setBrush({ from: bin, to: bin });
+    setDragging(true);
+  };
+  const onPointerMove = (event: React.PointerEvent) => {
+    if (bins.length === 0) return;
+    const bin = binAt(event);
+    if (dragging) setBrush(b => b && { ...b, to: bin });
+    setHover({ bin, x: event.clientX, y: event.clientY });
+  };
+  const onPointerUp = (event: React.PointerEvent) => {
+    if (!dragging || !brushed) return;
+    setDragging(false);
+    const ids = bins.slice(brushed[0], brushed[1] + 1).flatMap(bin => bin.rows.map(row => dataset.points[row].id));
+    updateSelectedIds(ids, selectionModeOf(event));
+  };
+
+  // Numeric ranges and clusters map onto the shared filters; other categories have no filter to map to.
+  const filterToBrush = () => {
+    if (!brushed) return;
+    const picked = bins.slice(brushed[0], brushed[1] + 1);
+    if (shown === null) {
+      setFilter(f => ({ ...f, clusters: picked.map(bin => bin.cluster!) }));
+    } else if (picked[0].range) {
+      const range = { column: shown, min: picked[0].range[0], max: picked[picked.length - 1].range![1] };
+      setFilter(f => ({ ...f, ranges: [...f.ranges.filter(r => r.column !== shown), range] }));
+    }
+  };
+  const canFilter = brushed !== null && !dragging && (shown === null || bins[brushed[0]]?.range !== null);
+
+  return (
+    <div style={{ ...panelStyle, height: '100%', boxSizing: 'border-box', display: 'flex', flexDirection: 'column', gap: '6px', borderRadius: 0 }}>
+      <div style={{ ...rowStyle, justifyContent: 'flex-start' }}>
+        <b>Histogram</b>
+        <select value={shown ?? ''} style={inputStyle} onChange={e => onColumn(e.target.value || null)}>
+          <option value="">Cluster</option>
+          {dataset.columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+        </select>
+        <span style={{ opacity: 0.7 }}>Drag across bars to select · Shift adds · Alt removes</span>
+        {canFilter && <button style={buttonStyle} onClick={filterToBrush}>Filter to {shown === null ? 'clusters' : 'range'}</button>}
+      </div>
+      {bins.length === 0 && <span style={{ opacity: 0.7 }}>No values in this column.</span>}
+      <div ref={barsRef} style={{ flex: 1, minHeight: 0, display: 'flex', alignItems: 'stretch', gap: '2px', cursor: 'crosshair', touchAction: 'none' }}
+        onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp}
+        onPointerCancel={() => setDragging(false)} onPointerLeave={() => setHover(null)}>
+        {bins.map((bin, index) => {
+          const { total, matched, selected } = counts[index];
+          const color = bin.cluster !== null ? rgbToCss(clusterSwatch(bin.cluster).primary, 0.9) : BAR_COLOR;
+          const inBrush = brushed !== null && index >= brushed[0] && index <= brushed[1];
+          return (
+            <div key={index} style={{
+              flex: 1, minWidth: 0, position: 'relative',
+              background: inBrush ? 'rgba(150, 130, 255, 0.15)' : undefined,
+              outline: index === hoveredBin ? `1px solid ${SELECTED_COLOR}` : undefined,
+            }}>
+              <div style={{ position: 'absolute', bottom: 0, left: 0, right: 0, height: `${total / largest * 100}%`, background: color, opacity: 0.25 }} />
+              <div style={{ position: 'absolute', bottom: 0, left: 0, right: 0, height: `${matched / largest * 100}%`, background: color }} />
+              {selected > 0 && (
+                <div style={{ position: 'absolute', bottom: 0, left: '25%', right: '25%', height: `${selected / largest * 100}%`, background: SELECTED_COLOR }} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {bins.length > 0 && (
+        <div style={{ ...rowStyle, opacity: 0.7 }}>
+          <span>{bins[0].label}</span>
+          <span>{bins[bins.length - 1].label}</span>
+        </div>
+      )}
+
+      {hover && bins[hover.bin] && !dragging && (
+        <div style={{ ...tooltipStyle, position: 'fixed', left: hover.x + 12, top: hover.y - 60, zIndex: 10 }}>
+          <b>{bins[hover.bin].label}</b>
+          <div>{counts[hover.bin].total} points{mask ? `, ${counts[hover.bin].matched} matching` : ''}{counts[hover.bin].selected ? `, ${counts[hover.bin].selected} selected` : ''}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistogramPanel;
@@ -0,0 +1,96 @@
+// src/components/InspectorPanel.tsx
+// Details of the selected point: its nearest neighbours in the kNN graph (click one to move
+// the selection there), all of its metadata, and the source text when the file had one.
+import React, { useMemo } from 'react';
+import { EmbeddingPoint, NeighborMetric, NOISE_CLUSTER } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { neighborsOf } from '../data/neighbors';
+import { clusterSwatch, rgbToCss } from '../data/palette';
+import { useSelection } from '../data/SelectionContext';
+import { buttonStyle, panelStyle, rowStyle } from './panelStyles';
+
+// Metadata fields that hold the embedded text itself, in priority order.
+const SOURCE_TEXT_FIELDS = ['text', 'content', 'sentence', 'document', 'passage', 'body'];
+
+const sourceText = (point: EmbeddingPoint) => {
+  const field = Object.keys(point.metadata).find(key => SOURCE_TEXT_FIELDS.includes(key.toLowerCase()));
+  const value = field !== undefined ? point.metadata[field] : null;
+  return typeof value === 'string' && value !== point.label ? value : null;
+};
+
+// Euclidean graphs store 1 / (1 + distance); show the distance, which is what users reason about.
+const formatScore = (score: number, metric: NeighborMetric) =>
+  metric === 'cosine' ? `${score.toFixed(3)} sim` : `${(1 / score - 1).toFixed(3)} dist`;
+
+const Swatch: React.FC<{ cluster: number }> = ({ cluster }) => (
+  <span style={{ width: '8px', height: '8px', borderRadius: '50%', flexShrink: 0, background: rgbToCss(clusterSwatch(cluster).primary) }} />
+);
+
+const InspectorPanel: React.FC = () => {
+  const { dataset } = useDataset();
+  const { selectedId, setSelectedId, focusPoint } = useSelection();
+
+  const index = useMemo(() => dataset.points.findIndex(p => p.id === selectedId), [dataset, selectedId]);
+  const neighbors = useMemo(() => neighborsOf(dataset, index), [dataset, index]);
+  if (index < 0) return null;
+
+  const point = dataset.points[index];
+  const graph = dataset.neighbors;
+  const text = sourceText(point);
+  const metadata = Object.entries(point.metadata);
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <div style={rowStyle}>
+        <b style={{ display: 'flex', alignItems: 'center', gap: '6px', wordBreak: 'break-word' }}><Swatch cluster={point.cluster} />{point.label}</b>
+        <button style={{ ...buttonStyle, padding: '1px 6px' }} title="Clear selection" onClick={() => setSelectedId(null)}>×</button>
+      </div>
+      <span style={{ opacity: 0.7 }}>
+        id {point.id} · {point.cluster === NOISE_CLUSTER ? 'noise' : `cluster ${point.cluster}`}
+      </span>
+
+      {text && (
+        <details>
+          <summary style={{ cursor: 'pointer' }}>Source text</summary>
+          <div style={{ maxHeight: '160px', overflowY: 'auto', whiteSpace: 'pre-wrap', marginTop: '4px', opacity: 0.9 }}>{text}</div>
+        </details>
+      )}
+
+      <b style={{ marginTop: '4px' }}>Nearest neighbours{graph ? ` — ${graph.metric}` : ''}</b>
+      {!graph && <span style={{ opacity: 0.7 }}>No neighbour graph yet; build one in the Neighbours panel.</span>}
+      {graph && (
+        <ol style={{ margin: 0, paddingLeft: '20px' }}>
+          {neighbors.map(({ target, score }) => {
+            const neighbor = dataset.points[target];
+            return (
+              <li key={neighbor.id}>
+                <button onClick={() => focusPoint(neighbor.id)} style={{ ...buttonStyle, background: 'transparent', border: 'none',
+                  padding: '1px 0', width: '100%', textAlign: 'left', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                  <Swatch cluster={neighbor.cluster} />
+                  <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{neighbor.label}</span>
+                  <span style={{ opacity: 0.7, fontVariantNumeric: 'tabular-nums' }}>{formatScore(score, graph.metric)}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {metadata.length > 0 && <>
+        <b style={{ marginTop: '4px' }}>Metadata</b>
+        <table style={{ borderCollapse: 'collapse', fontSize: '11px' }}>
+          <tbody>
+            {metadata.map(([key, value]) => (
+              <tr key={key}>
+                <td style={{ opacity: 0.7, paddingRight: '8px', verticalAlign: 'top' }}>{key}</td>
+                <td style={{ wordBreak: 'break-word' }}>{value === null ? '—' : String(value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </>}
+    </div>
+  );
+};
+
+export default InspectorPanel;
@@ -0,0 +1,44 @@
+// src/components/NeighborsPanel.tsx
+// Controls for the kNN graph that drives every scene's edges (see NeighborsContext, which also
+// builds one for each dataset of moderate size that arrives without it).
+import React from 'react';
+import { NeighborMetric } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { AUTO_BUILD_MAX_POINTS, useNeighborGraph } from '../analysis/NeighborsContext';
+import { KnnParams } from '../analysis/types';
+import NumberField from './NumberField';
+import ProgressBar from './ProgressBar';
+import { buttonStyle, inputStyle, panelStyle, rowStyle } from './panelStyles';
+
+const NeighborsPanel: React.FC = () => {
+  const { dataset } = useDataset();
+  const { params, setParams, run, cancel, status, error } = useNeighborGraph();
+  const update = (patch: Partial<KnnParams>) => setParams(p => ({ ...p, ...patch }));
+
+  const graph = dataset.neighbors;
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <b>Neighbours — {graph ? `k = ${graph.k}, ${graph.metric}` : 'not built'}</b>
+      <NumberField label="k" value={params.k} min={1} onChange={k => update({ k })} />
+      {dataset.vectors && (
+        <label style={rowStyle}>
+          Metric
+          <select value={params.metric} style={inputStyle} onChange={e => update({ metric: e.target.value as NeighborMetric })}>
+            <option value="cosine">Cosine</option>
+            <option value="euclidean">Euclidean</option>
+          </select>
+        </label>
+      )}
+      {status
+        ? <ProgressBar stage={status.stage} progress={status.progress} onCancel={cancel} />
+        : <button style={buttonStyle} onClick={() => run(params)}>Build graph from {dataset.vectors ? 'vectors' : 'layout'}</button>}
+      {!graph && !status && dataset.points.length > AUTO_BUILD_MAX_POINTS && (
+        <span style={{ color: '#ffd27a' }}>Over {AUTO_BUILD_MAX_POINTS.toLocaleString()} points the graph is only built on request; it can take a long time.</span>
+      )}
+      {error && <span style={{ color: '#ff8a8a' }}>Neighbour search failed: {error}</span>}
+    </div>
+  );
+};
+
+export default NeighborsPanel;
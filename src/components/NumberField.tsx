@@ -0,0 +1,15 @@
+// src/components/NumberField.tsx
+import React from 'react';
+import { inputStyle, rowStyle } from './panelStyles';
+
+interface NumberFieldProps { label: string; value: number; step?: number; min?: number; onChange: (v: number) => void; }
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, step = 1, min = 0, onChange }) => (
+  <label style={rowStyle}>
+    {label}
+    <input type="number" value={value} step={step} min={min} style={{ ...inputStyle, width: '64px' }}
+      onChange={e => { const v = Number(e.target.value); if (Number.isFinite(v)) onChange(v); }} />
+  </label>
+);
+
+export default NumberField;
@@ -0,0 +1,19 @@
+// src/components/ProgressBar.tsx
+import React from 'react';
+import { buttonStyle } from './panelStyles';
+
+interface ProgressBarProps { stage: string; progress: number; onCancel?: () => void; }
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ stage, progress, onCancel }) => (
+  <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+    <div style={{ flex: 1 }}>
+      {stage} — {Math.round(progress * 100)}%
+      <div style={{ height: '4px', background: 'rgba(255,255,255,0.15)', borderRadius: '2px' }}>
+        <div style={{ width: `${progress * 100}%`, height: '100%', background: '#9d8cff', borderRadius: '2px' }} />
+      </div>
+    </div>
+    {onCancel && <button style={buttonStyle} onClick={onCancel}>Cancel</button>}
+  </div>
+);
+
+export default ProgressBar;
@@ -0,0 +1,78 @@
+// src/components/QueryPanel.tsx
+// Type a sentence, embed it with the configured OpenAI-compatible endpoint, and see where it
+// lands: every scene draws it as a marker tied to its nearest neighbours, listed here too.
+import React, { useState } from 'react';
+import { useDataset } from '../data/DatasetContext';
+import { clusterSwatch, rgbToCss } from '../data/palette';
+import { useSelection } from '../data/SelectionContext';
+import { useQuery } from '../query/QueryContext';
+import { buttonStyle, inputStyle, panelStyle, rowStyle } from './panelStyles';
+
+const QueryPanel: React.FC = () => {
+  const { dataset } = useDataset();
+  const { focusPoint } = useSelection();
+  const { endpoint, setEndpoint, query, placement, pending, error, runQuery, cancelQuery, clearQuery } = useQuery();
+  const [text, setText] = useState('');
+
+  const submit = () => { if (text.trim()) runQuery(text.trim()); };
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <b>Semantic query</b>
+      {!dataset.vectors && <span style={{ opacity: 0.7 }}>Load a dataset with raw vectors to place queries in it.</span>}
+      <textarea value={text} rows={2} placeholder="A sentence to embed…" style={{ ...inputStyle, resize: 'vertical' }}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submit(); } }} />
+      <div style={{ display: 'flex', gap: '4px' }}>
+        {pending
+          ? <button style={buttonStyle} onClick={cancelQuery}>Cancel</button>
+          : <button style={buttonStyle} disabled={!text.trim() || !dataset.vectors} onClick={submit}>Embed & place</button>}
+        {query && <button style={buttonStyle} onClick={clearQuery}>Clear</button>}
+      </div>
+      <details>
+        <summary style={{ cursor: 'pointer' }}>Endpoint</summary>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginTop: '4px' }}>
+          <input value={endpoint.url} style={inputStyle} title="OpenAI-compatible /v1/embeddings URL"
+            onChange={e => setEndpoint({ ...endpoint, url: e.target.value })} />
+          <label style={rowStyle}>
+            Model
+            <input value={endpoint.model} placeholder="server default" style={{ ...inputStyle, width: '130px' }}
+              onChange={e => setEndpoint({ ...endpoint, model: e.target.value })} />
+          </label>
+          <label style={rowStyle}>
+            API key
+            <input type="password" value={endpoint.apiKey} placeholder="none" style={{ ...inputStyle, width: '130px' }}
+              onChange={e => setEndpoint({ ...endpoint, apiKey: e.target.value })} />
+          </label>
+        </div>
+      </details>
+
+      {pending && <span>Embedding…</span>}
+      {error && <span style={{ color: '#ff8a8a' }}>{error}</span>}
+      {query && placement && <>
+        <span style={{ opacity: 0.7 }}>
+          “{query.text}” — {placement.placement === 'projection'
+            ? `placed by the ${dataset.layout === 'pca' ? 'PCA' : 'random'} projection`
+            : `placed among its neighbours (${dataset.layout} has no exact out-of-sample map)`}
+        </span>
+        <ol style={{ margin: 0, paddingLeft: '20px' }}>
+          {placement.neighbors.map(({ index, score }) => {
+            const point = dataset.points[index];
+            return (
+              <li key={point.id}>
+                <button onClick={() => focusPoint(point.id)} style={{ ...buttonStyle, background: 'transparent', border: 'none',
+                  padding: '1px 0', width: '100%', textAlign: 'left', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                  <span style={{ width: '8px', height: '8px', borderRadius: '50%', flexShrink: 0, background: rgbToCss(clusterSwatch(point.cluster).primary) }} />
+                  <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{point.label}</span>
+                  <span style={{ opacity: 0.7, fontVariantNumeric: 'tabular-nums' }}>{score.toFixed(3)}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </>}
+    </div>
+  );
+};
+
+export default QueryPanel;
@@ -0,0 +1,73 @@
+// src/components/ReductionPanel.tsx
+// Controls for projecting the raw vectors to 2D/3D. A freshly loaded dataset that only has
+// the placeholder random projection gets a PCA layout automatically.
+import React, { useEffect, useRef, useState } from 'react';
+import { useDataset } from '../data/DatasetContext';
+import { DEFAULT_REDUCTION_PARAMS, ReductionMethod, ReductionParams } from '../reduction/types';
+import { useReduction } from '../reduction/useReduction';
+import NumberField from './NumberField';
+import ProgressBar from './ProgressBar';
+import { buttonStyle, inputStyle, panelStyle, rowStyle } from './panelStyles';
+
+const METHOD_LABELS: Record<ReductionMethod, string> = { pca: 'PCA (fast)', umap: 'UMAP', tsne: 't-SNE' };
+
+const ReductionPanel: React.FC<{ defaultComponents?: 2 | 3 }> = ({ defaultComponents = 3 }) => {
+  const { dataset } = useDataset();
+  const { run, cancel, status, error } = useReduction();
+  const [params, setParams] = useState<ReductionParams>({ ...DEFAULT_REDUCTION_PARAMS, components: defaultComponents });
+  const update = (patch: Partial<ReductionParams>) => setParams(p => ({ ...p, ...patch }));
+
+  const autoProjectedRef = useRef<Float32Array | null>(null); // Vectors already auto-projected once
+
+  useEffect(() => {
+    if (dataset.vectors && dataset.layout === 'random-projection' && autoProjectedRef.current !== dataset.vectors) {
+      autoProjectedRef.current = dataset.vectors;
+      run({ ...params, method: 'pca' });
+    }
+  }, [dataset, run, params]);
+
+  if (!dataset.vectors) {
+    return <div style={panelStyle}>Layout: coordinates from file (no raw vectors to reduce)</div>;
+  }
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <b>Projection — {dataset.dimensions}d → {params.components}d (current: {dataset.layout})</b>
+      <label style={rowStyle}>
+        Method
+        <select value={params.method} style={inputStyle} onChange={e => update({ method: e.target.value as ReductionMethod })}>
+          {Object.entries(METHOD_LABELS).map(([method, label]) => <option key={method} value={method}>{label}</option>)}
+        </select>
+      </label>
+      <label style={rowStyle}>
+        Output
+        <select value={params.components} style={inputStyle} onChange={e => update({ components: Number(e.target.value) as 2 | 3 })}>
+          <option value={3}>3D</option>
+          <option value={2}>2D</option>
+        </select>
+      </label>
+      {params.method === 'umap' && <>
+        <NumberField label="Neighbors" value={params.nNeighbors} min={2} onChange={nNeighbors => update({ nNeighbors })} />
+        <NumberField label="Min dist" value={params.minDist} step={0.05} onChange={minDist => update({ minDist })} />
+      </>}
+      {params.method === 'tsne' && (
+        <NumberField label="Perplexity" value={params.perplexity} min={2} onChange={perplexity => update({ perplexity })} />
+      )}
+      {params.method !== 'pca' && <>
+        <NumberField label={params.method === 'umap' ? 'Epochs' : 'Iterations'} value={params.iterations} step={50}
+          onChange={iterations => update({ iterations })} />
+        <NumberField label="Seed" value={params.seed} onChange={seed => update({ seed })} />
+      </>}
+      {params.method === 'tsne' && dataset.points.length > 5000 && (
+        <span style={{ color: '#ffd27a' }}>t-SNE is O(n²) here; expect a long run for {dataset.points.length} points.</span>
+      )}
+
+      {status
+        ? <ProgressBar stage={status.stage} progress={status.progress} onCancel={cancel} />
+        : <button style={buttonStyle} onClick={() => run(params)}>Project</button>}
+      {error && <span style={{ color: '#ff8a8a' }}>Projection failed: {error}</span>}
+    </div>
+  );
+};
+
+export default ReductionPanel;
@@ -0,0 +1,98 @@
+// src/components/SearchPanel.tsx
+// Search box with ranked results (click to fly there), plus cluster and numeric-range filters
+// that compose with the query. Non-matching points are dimmed in every scene.
+import React, { useMemo } from 'react';
+import { NOISE_CLUSTER } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { useFilter } from '../data/FilterContext';
+import { EMPTY_FILTER, isFilterActive, RangeFilter } from '../data/filters';
+import { clusterSwatch, rgbToCss } from '../data/palette';
+import { useSelection } from '../data/SelectionContext';
+import { buttonStyle, inputStyle, panelStyle, rowStyle } from './panelStyles';
+
+const MAX_RESULTS = 12;
+
+const SearchPanel: React.FC = () => {
+  const { dataset } = useDataset();
+  const { filter, setFilter, result } = useFilter();
+  const { focusPoint } = useSelection();
+
+  const clusters = useMemo(() => [...new Set(dataset.points.map(p => p.cluster))].sort((a, b) => a - b), [dataset]);
+  const numericColumns = dataset.columns.filter(c => c.kind === 'numeric');
+  const unusedColumns = numericColumns.filter(c => !filter.ranges.some(r => r.column === c.name));
+
+  const toggleCluster = (cluster: number) => setFilter(f => {
+    const current = f.clusters ?? clusters;
+    const next = current.includes(cluster) ? current.filter(c => c !== cluster) : [...current, cluster];
+    return { ...f, clusters: next.length === clusters.length ? null : next };
+  });
+  const updateRange = (column: string, patch: Partial<RangeFilter>) =>
+    setFilter(f => ({ ...f, ranges: f.ranges.map(r => (r.column === column ? { ...r, ...patch } : r)) }));
+  const addRange = (column: string) => {
+    const info = numericColumns.find(c => c.name === column);
+    if (info) setFilter(f => ({ ...f, ranges: [...f.ranges, { column, min: info.min, max: info.max }] }));
+  };
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <b>Search & filter{isFilterActive(filter) ? ` — ${result.matchCount} of ${dataset.points.length}` : ''}</b>
+      <input type="search" placeholder="Name or metadata…" value={filter.query} style={inputStyle}
+        onChange={e => setFilter(f => ({ ...f, query: e.target.value }))}
+        onKeyDown={e => { if (e.key === 'Enter' && result.ranked.length) focusPoint(dataset.points[result.ranked[0]].id); }} />
+      {result.ranked.length > 0 && (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0, maxHeight: '180px', overflowY: 'auto' }}>
+          {result.ranked.slice(0, MAX_RESULTS).map(i => {
+            const point = dataset.points[i];
+            return (
+              <li key={point.id}>
+                <button onClick={() => focusPoint(point.id)} style={{ ...buttonStyle, background: 'transparent', border: 'none',
+                  padding: '2px 0', width: '100%', textAlign: 'left', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                  <span style={{ width: '8px', height: '8px', borderRadius: '50%', flexShrink: 0, background: rgbToCss(clusterSwatch(point.cluster).primary) }} />
+                  {point.label}
+                </button>
+              </li>
+            );
+          })}
+          {result.ranked.length > MAX_RESULTS && <li>…and {result.ranked.length - MAX_RESULTS} more</li>}
+        </ul>
+      )}
+
+      <span>Clusters</span>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '3px' }}>
+        {clusters.map(cluster => {
+          const on = !filter.clusters || filter.clusters.includes(cluster);
+          return (
+            <button key={cluster} title={cluster === NOISE_CLUSTER ? 'Noise' : `Cluster ${cluster}`} onClick={() => toggleCluster(cluster)}
+              style={{ ...buttonStyle, padding: '1px 6px', opacity: on ? 1 : 0.35, background: rgbToCss(clusterSwatch(cluster).primary, 0.6) }}>
+              {cluster === NOISE_CLUSTER ? '∅' : cluster}
+            </button>
+          );
+        })}
+      </div>
+
+      {filter.ranges.map(range => (
+        <div key={range.column} style={rowStyle}>
+          {range.column}
+          <span>
+            <input type="number" value={range.min} style={{ ...inputStyle, width: '56px' }}
+              onChange={e => updateRange(range.column, { min: Number(e.target.value) })} />
+            {' – '}
+            <input type="number" value={range.max} style={{ ...inputStyle, width: '56px' }}
+              onChange={e => updateRange(range.column, { max: Number(e.target.value) })} />
+            <button style={{ ...buttonStyle, padding: '1px 6px', marginLeft: '4px' }} title="Remove range"
+              onClick={() => setFilter(f => ({ ...f, ranges: f.ranges.filter(r => r.column !== range.column) }))}>×</button>
+          </span>
+        </div>
+      ))}
+      {unusedColumns.length > 0 && (
+        <select value="" style={inputStyle} onChange={e => addRange(e.target.value)}>
+          <option value="">Add numeric range…</option>
+          {unusedColumns.map(c => <option key={c.name} value={c.name}>{c.name} ({c.min}–{c.max})</option>)}
+        </select>
+      )}
+      {isFilterActive(filter) && <button style={buttonStyle} onClick={() => setFilter(EMPTY_FILTER)}>Clear</button>}
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,65 @@
+// src/components/SelectionPanel.tsx
+// Actions on the box/lasso selection set: export it, tag it with a label, or isolate it into
+// a dataset of its own (and get back to the full one afterwards).
+import React, { useMemo, useState } from 'react';
+import { sameRows, withMetadataValue } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { downloadText, selectionToCsv, selectionToJson, USER_LABEL_COLUMN } from '../data/selectionExport';
+import { useSelection } from '../data/SelectionContext';
+import { buttonStyle, inputStyle, panelStyle } from './panelStyles';
+
+const fileStem = (name: string) => name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'dataset';
+
+const SelectionPanel: React.FC = () => {
+  const { dataset, setDataset, isolatedFrom, isolate, endIsolation } = useDataset();
+  const { selectedIds, updateSelectedIds } = useSelection();
+  const [userLabel, setUserLabel] = useState('');
+
+  const indices = useMemo(
+    () => dataset.points.flatMap((point, i) => (selectedIds.has(point.id) ? [i] : [])),
+    [dataset, selectedIds]);
+  const points = indices.map(i => dataset.points[i]);
+
+  const exportAs = (format: 'json' | 'csv') => {
+    const text = format === 'json' ? selectionToJson(points) : selectionToCsv(points);
+    downloadText(`${fileStem(dataset.name)}-selection.${format}`, format === 'json' ? 'application/json' : 'text/csv', text);
+  };
+  const assignLabel = () => {
+    const label = userLabel.trim();
+    if (!label) return;
+    setDataset(current => (sameRows(current, dataset) ? withMetadataValue(current, indices, USER_LABEL_COLUMN, label) : current));
+    setUserLabel('');
+  };
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <b>Selection{indices.length ? ` — ${indices.length} points` : ''}</b>
+      {isolatedFrom && (
+        <>
+          <span>Showing an isolated subset of {isolatedFrom.name} ({isolatedFrom.points.length} points).</span>
+          <button style={buttonStyle} onClick={endIsolation}>Back to full dataset</button>
+        </>
+      )}
+      {indices.length === 0
+        ? <span style={{ opacity: 0.7 }}>Use the box or lasso tool at the top right of the view to select points.</span>
+        : <>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              <button style={buttonStyle} onClick={() => exportAs('json')}>Export JSON</button>
+              <button style={buttonStyle} onClick={() => exportAs('csv')}>Export CSV</button>
+            </div>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              <input value={userLabel} placeholder="New label…" style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+                onChange={e => setUserLabel(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') assignLabel(); }} />
+              <button style={buttonStyle} disabled={!userLabel.trim()} onClick={assignLabel}
+                title={`Store in the "${USER_LABEL_COLUMN}" metadata column`}>Assign</button>
+            </div>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              <button style={buttonStyle} onClick={() => { isolate(indices); updateSelectedIds([], 'replace'); }}>Isolate</button>
+              <button style={buttonStyle} onClick={() => updateSelectedIds([], 'replace')}>Clear</button>
+            </div>
+          </>}
+    </div>
+  );
+};
+
+export default SelectionPanel;
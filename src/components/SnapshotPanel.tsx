@@ -0,0 +1,125 @@
+// src/components/SnapshotPanel.tsx
+// Collects embedding sets of the same items (checkpoints, epochs, indexing runs) into a timeline,
+// and reports how much each point moved once they are aligned. Playback is on the timeline bar.
+import React, { useMemo, useRef, useState } from 'react';
+import { useDataset } from '../data/DatasetContext';
+import { useSelection } from '../data/SelectionContext';
+import { ACCEPTED_EXTENSIONS, groupDatasetFiles, loadDatasetFiles } from '../loaders';
+import { needsLayout } from '../reduction/useReduction';
+import { DRIFT_COLUMNS } from '../snapshots/snapshots';
+import { useSnapshots } from '../snapshots/SnapshotContext';
+import { useSnapshotBuilder } from '../snapshots/useSnapshotBuilder';
+import ProgressBar from './ProgressBar';
+import { buttonStyle, panelStyle, rowStyle } from './panelStyles';
+
+const TOP_MOVERS = 8;
+
+const mean = (values: Float32Array) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+const max = (values: Float32Array) => values.reduce((a, b) => Math.max(a, b), 0);
+
+const SnapshotPanel: React.FC = () => {
+  const { dataset, loadDataset } = useDataset();
+  const { focusPoint } = useSelection();
+  const { snapshots, setSnapshots, timeline, setTimeline, active } = useSnapshots();
+  const { build, cancel, status, error } = useSnapshotBuilder();
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      for (const group of groupDatasetFiles(files)) {
+        const { dataset: snapshot } = await loadDatasetFiles(group);
+        setSnapshots(list => [...list, snapshot]);
+      }
+    } catch (e) {
+      setLoadError((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const move = (index: number, by: number) => setSnapshots(list => {
+    const next = [...list];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    return next;
+  });
+
+  const movers = useMemo(() => {
+    if (!timeline) return [];
+    const drift = timeline.base.points.map(p => Number(p.metadata[DRIFT_COLUMNS.path] ?? 0));
+    return drift.map((value, row) => ({ row, value })).sort((a, b) => b.value - a.value).slice(0, TOP_MOVERS);
+  }, [timeline]);
+
+  return (
+    <div style={{ ...panelStyle, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '220px' }}>
+      <b>Snapshots{snapshots.length ? ` — ${snapshots.length}` : ''}</b>
+      {snapshots.length === 0 && <span style={{ opacity: 0.7 }}>Load two or more embedding sets that share ids to play them back as a timeline.</span>}
+      {snapshots.map((snapshot, index) => (
+        <div key={index} style={rowStyle}>
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            title={needsLayout(snapshot) ? 'Gets a PCA layout when the timeline is built' : undefined}>
+            {index + 1}. {snapshot.name} ({snapshot.points.length}{needsLayout(snapshot) ? ', PCA' : ''})
+          </span>
+          <span style={{ display: 'flex', gap: '2px', flexShrink: 0 }}>
+            <button style={buttonStyle} disabled={index === 0} onClick={() => move(index, -1)} title="Earlier">↑</button>
+            <button style={buttonStyle} disabled={index === snapshots.length - 1} onClick={() => move(index, 1)} title="Later">↓</button>
+            <button style={buttonStyle} onClick={() => setSnapshots(list => list.filter((_, i) => i !== index))} title="Remove">✕</button>
+          </span>
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+        <button style={buttonStyle} disabled={isLoading} onClick={() => inputRef.current?.click()}>
+          {isLoading ? 'Loading…' : 'Add snapshots…'}
+        </button>
+        <button style={buttonStyle} onClick={() => setSnapshots(list => [...list, dataset])} title="Add the dataset shown now">Add current</button>
+        <input ref={inputRef} type="file" multiple accept={ACCEPTED_EXTENSIONS.join(',')} style={{ display: 'none' }}
+          onChange={e => { addFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+      </div>
+      {loadError && <span style={{ color: '#ff8a8a' }}>{loadError}</span>}
+
+      {status
+        ? <ProgressBar stage={status.stage} progress={status.progress} onCancel={cancel} />
+        : <button style={buttonStyle} disabled={snapshots.length < 2} onClick={() => build(snapshots)}>Align and build timeline</button>}
+      {error && <span style={{ color: '#ff8a8a' }}>Timeline failed: {error}</span>}
+
+      {timeline && (
+        <>
+          <span>
+            {timeline.base.points.length} points over {timeline.names.length} snapshots
+            {timeline.dropped > 0 ? `; ${timeline.dropped} ids not in every snapshot were left out` : ''}.
+          </span>
+          {!active && (
+            <div style={rowStyle}>
+              <span style={{ color: '#ffd27a' }}>Other data is shown.</span>
+              <button style={buttonStyle} onClick={() => loadDataset(timeline.base)}>Show timeline</button>
+            </div>
+          )}
+          <span title="Movement left after aligning each snapshot onto the one before, in layout units">Per step: mean / largest move</span>
+          {timeline.steps.map((step, k) => (
+            <div key={k} style={{ ...rowStyle, opacity: 0.85 }}>
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{timeline.names[k]} → {timeline.names[k + 1]}</span>
+              <span style={{ flexShrink: 0 }}>{mean(step).toFixed(3)} / {max(step).toFixed(3)}</span>
+            </div>
+          ))}
+          <span>Moved most (columns {DRIFT_COLUMNS.path}, {DRIFT_COLUMNS.net}{timeline.base.columns.some(c => c.name === DRIFT_COLUMNS.cosine) ? `, ${DRIFT_COLUMNS.cosine}` : ''}):</span>
+          {movers.map(({ row, value }) => {
+            const point = timeline.base.points[row];
+            return (
+              <div key={point.id} style={{ ...rowStyle, cursor: active ? 'pointer' : undefined }} onClick={() => { if (active) focusPoint(point.id); }}>
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{point.label}</span>
+                <span style={{ flexShrink: 0 }}>{value.toFixed(3)}</span>
+              </div>
+            );
+          })}
+          <button style={buttonStyle} onClick={() => setTimeline(null)}>Close timeline</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotPanel;
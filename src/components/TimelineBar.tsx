@@ -0,0 +1,49 @@
+// src/components/TimelineBar.tsx
+// Playback for the snapshot timeline, docked along the bottom of the view: play/pause, a scrubber
+// with a tick per snapshot, and the speed.
+import React from 'react';
+import { useSnapshots } from '../snapshots/SnapshotContext';
+import { buttonStyle, inputStyle, panelStyle } from './panelStyles';
+
+const SPEEDS = [0.25, 0.5, 1, 2]; // Snapshots per second
+
+const TimelineBar: React.FC = () => {
+  const { timeline, active, time, setTime, playing, setPlaying, speed, setSpeed } = useSnapshots();
+  if (!timeline || !active) return null;
+  const last = timeline.frames.length - 1;
+  const from = Math.min(Math.floor(time), last - 1);
+  const fraction = time - from;
+  const shown = fraction < 0.01 ? timeline.names[from] : fraction > 0.99 ? timeline.names[from + 1]
+    : `${timeline.names[from]} → ${timeline.names[from + 1]} (${Math.round(fraction * 100)}%)`;
+
+  return (
+    <div style={{ ...panelStyle, position: 'absolute', left: '50%', bottom: '12px', transform: 'translateX(-50%)', width: 'min(640px, 90%)',
+      display: 'flex', flexDirection: 'column', gap: '4px', zIndex: 10000 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <button style={buttonStyle} onClick={() => {
+          if (!playing && time >= last) setTime(0);
+          setPlaying(!playing);
+        }}>
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input type="range" min={0} max={last} step={0.01} value={time} style={{ flex: 1 }}
+          onChange={e => { setPlaying(false); setTime(Number(e.target.value)); }} />
+        <select value={speed} style={inputStyle} onChange={e => setSpeed(Number(e.target.value))} title="Snapshots per second">
+          {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </div>
+      <div style={{ position: 'relative', height: '14px', margin: '0 50px 0 56px' }}>
+        {timeline.names.map((name, k) => (
+          <span key={k} title={name} onClick={() => { setPlaying(false); setTime(k); }}
+            style={{ position: 'absolute', left: `${(k / last) * 100}%`, transform: 'translateX(-50%)', cursor: 'pointer',
+              color: Math.round(time) === k ? '#ffd27a' : 'rgba(224, 220, 255, 0.6)' }}>
+            ▲
+          </span>
+        ))}
+      </div>
+      <span style={{ textAlign: 'center' }}>{shown}</span>
+    </div>
+  );
+};
+
+export default TimelineBar;
@@ -0,0 +1,30 @@
+// src/components/panelStyles.ts
+// Shared inline styles for the HTML overlay panels that sit on top of the scenes.
+import type React from 'react';
+
+export const panelStyle: React.CSSProperties = {
+  background: 'rgba(10, 5, 25, 0.88)', color: '#e0dcff', fontSize: '12px',
+  fontFamily: 'Arial, sans-serif', borderRadius: '6px', padding: '8px 12px',
+  border: '1px solid rgba(120, 100, 220, 0.45)', backdropFilter: 'blur(3px)',
+};
+
+export const buttonStyle: React.CSSProperties = {
+  background: 'rgba(80, 60, 180, 0.6)', color: '#f0ecff', border: '1px solid rgba(150, 130, 255, 0.6)',
+  borderRadius: '4px', padding: '4px 10px', cursor: 'pointer', fontSize: '12px',
+};
+
+export const inputStyle: React.CSSProperties = {
+  background: 'rgba(20, 10, 45, 0.9)', color: '#f0ecff', border: '1px solid rgba(120, 100, 220, 0.5)',
+  borderRadius: '3px', padding: '2px 4px', fontSize: '12px',
+};
+
+// Label on the left, control on the right.
+export const rowStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' };
+
+// Hover tooltips outside deck.gl, matching its .deck-tooltip look (see DeckGLApp).
+export const tooltipStyle: React.CSSProperties = {
+  background: 'rgba(5,0,15,0.9)', color: '#ddeeff', borderRadius: '6px', padding: '10px 14px',
+  fontFamily: "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif", fontSize: '12.5px',
+  boxShadow: '0 3px 12px rgba(0,40,90,0.6)', border: '1px solid rgba(40,80,130,0.8)',
+  maxWidth: '280px', whiteSpace: 'pre-wrap', pointerEvents: 'none',
+};
@@ -0,0 +1,65 @@
+// src/data/DatasetContext.tsx
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { EmbeddingDataset, subsetDataset } from './dataset';
+import { SAMPLE_DATASET } from './sampleDataset';
+
+interface DatasetContextValue {
+  dataset: EmbeddingDataset;
+  setDataset: React.Dispatch<React.SetStateAction<EmbeddingDataset>>;
+  loadDataset: (dataset: EmbeddingDataset, source?: string | null) => void; // Replaces the data outright, leaving any isolated view
+  source: string | null; // URL the data was fetched from, so a shared link can fetch it again; null for local files
+  isolatedFrom: EmbeddingDataset | null; // The full dataset while an isolated subset is shown
+  isolate: (indices: number[]) => void;
+  endIsolation: () => void;
+}
+
+// Defaults to the sample corpus so a scene rendered outside the provider still has data.
+const DatasetContext = createContext<DatasetContextValue>({
+  dataset: SAMPLE_DATASET,
+  setDataset: () => {},
+  loadDataset: () => {},
+  source: null,
+  isolatedFrom: null,
+  isolate: () => {},
+  endIsolation: () => {},
+});
+
+export const DatasetProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [dataset, setDataset] = useState<EmbeddingDataset>(SAMPLE_DATASET);
+  const [source, setSource] = useState<string | null>(null);
+  const [isolatedFrom, setIsolatedFrom] = useState<EmbeddingDataset | null>(null);
+
+  const loadDataset = useCallback((next: EmbeddingDataset, nextSource: string | null = null) => {
+    setIsolatedFrom(null);
+    setDataset(next);
+    setSource(nextSource);
+  }, []);
+
+  // Isolating within an isolated view narrows it further; ending isolation always returns to the full dataset.
+  const isolate = useCallback((indices: number[]) => {
+    if (indices.length === 0) return;
+    setIsolatedFrom(full => full ?? dataset);
+    setDataset(subsetDataset(dataset, indices, `${isolatedFrom?.name ?? dataset.name} (${indices.length} isolated)`));
+  }, [dataset, isolatedFrom]);
+
+  const endIsolation = useCallback(() => {
+    if (!isolatedFrom) return;
+    setDataset(isolatedFrom);
+    setIsolatedFrom(null);
+  }, [isolatedFrom]);
+
+  const value = useMemo(() => ({ dataset, setDataset, loadDataset, source, isolatedFrom, isolate, endIsolation }),
+    [dataset, loadDataset, source, isolatedFrom, isolate, endIsolation]);
+  return <DatasetContext.Provider value={value}>{children}</DatasetContext.Provider>;
+};
+
+// Shows a fixed dataset to everything inside, e.g. the second pane of a comparison. Nothing in
+// there edits the shared data: the setters do nothing.
+export const DatasetScope: React.FC<{ dataset: EmbeddingDataset; children: React.ReactNode }> = ({ dataset, children }) => {
+  const value = useMemo(() => ({
+    dataset, setDataset: () => {}, loadDataset: () => {}, source: null, isolatedFrom: null, isolate: () => {}, endIsolation: () => {},
+  }), [dataset]);
+  return <DatasetContext.Provider value={value}>{children}</DatasetContext.Provider>;
+};
+
+export const useDataset = () => useContext(DatasetContext);
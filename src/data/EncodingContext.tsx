@@ -0,0 +1,45 @@
+// src/data/EncodingContext.tsx
+// Which columns drive point colour and size. Colour reaches the scenes through the point colour
+// lookup (with its legend); size through usePointSize, which the scenes' data conversions call.
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { EmbeddingDataset, EmbeddingPoint } from './dataset';
+import { useDataset } from './DatasetContext';
+import { colorByColumn, DEFAULT_ENCODING, Encoding, sizeWeight } from './encoding';
+import { PointColorProvider } from './PointColorContext';
+
+// 0..1 size weight; takes the dataset so a scoped pane (see DatasetScope) sizes by its own column ranges.
+export type SizeLookup = (dataset: EmbeddingDataset, point: EmbeddingPoint) => number;
+
+interface EncodingContextValue {
+  encoding: Encoding;
+  setEncoding: React.Dispatch<React.SetStateAction<Encoding>>;
+  sizeOf: SizeLookup;
+}
+
+const defaultSize: SizeLookup = (dataset, point) => sizeWeight(dataset, point, DEFAULT_ENCODING.size);
+
+const EncodingContext = createContext<EncodingContextValue>({
+  encoding: DEFAULT_ENCODING,
+  setEncoding: () => {},
+  sizeOf: defaultSize,
+});
+
+export const EncodingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { dataset } = useDataset();
+  const [encoding, setEncoding] = useState<Encoding>(DEFAULT_ENCODING);
+  const { color, size } = encoding;
+
+  const colored = useMemo(() => colorByColumn(dataset, color), [dataset, color]);
+  const sizeOf = useCallback<SizeLookup>((d, point) => sizeWeight(d, point, size), [size]);
+
+  const value = useMemo(() => ({ encoding, setEncoding, sizeOf }), [encoding, sizeOf]);
+  return (
+    <EncodingContext.Provider value={value}>
+      <PointColorProvider swatches={colored?.swatches ?? null} legend={colored?.legend}>{children}</PointColorProvider>
+    </EncodingContext.Provider>
+  );
+};
+
+export const useEncoding = () => useContext(EncodingContext);
+
+export const usePointSize = () => useContext(EncodingContext).sizeOf;
@@ -0,0 +1,45 @@
+// src/data/FilterContext.tsx
+// Shared search/filter state, read by the sidebar and by whichever scene is active.
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { useDataset } from './DatasetContext';
+import { applyFilter, EMPTY_FILTER, FilterResult, FilterState } from './filters';
+import { buildSearchIndex } from './search';
+
+interface FilterContextValue {
+  filter: FilterState;
+  setFilter: React.Dispatch<React.SetStateAction<FilterState>>;
+  result: FilterResult;
+}
+
+const FilterContext = createContext<FilterContextValue>({
+  filter: EMPTY_FILTER,
+  setFilter: () => {},
+  result: { mask: null, matchCount: 0, ranked: [] },
+});
+
+const useFilterResult = (filter: FilterState) => {
+  const { dataset } = useDataset();
+  const { points } = dataset;
+  const searchIndex = useMemo(() => buildSearchIndex(points), [points]);
+  return useMemo(() => applyFilter(dataset, searchIndex, filter), [dataset, searchIndex, filter]);
+};
+
+export const FilterProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [filter, setFilter] = useState<FilterState>(EMPTY_FILTER);
+  const result = useFilterResult(filter);
+
+  const value = useMemo(() => ({ filter, setFilter, result }), [filter, result]);
+  return <FilterContext.Provider value={value}>{children}</FilterContext.Provider>;
+};
+
+// The shared filter evaluated against a scoped dataset (see DatasetScope), so the second pane of
+// a comparison dims the same points as the first.
+export const FilterScope: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { filter, setFilter } = useFilter();
+  const result = useFilterResult(filter);
+
+  const value = useMemo(() => ({ filter, setFilter, result }), [filter, setFilter, result]);
+  return <FilterContext.Provider value={value}>{children}</FilterContext.Provider>;
+};
+
+export const useFilter = () => useContext(FilterContext);
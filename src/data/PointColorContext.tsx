@@ -0,0 +1,63 @@
+// src/data/PointColorContext.tsx
+// What colour each point is drawn in, and the legend that explains it. By default a point takes
+// its cluster's swatch; a provider can override that per id (e.g. colour-by-column, or the
+// comparison view colouring by neighbourhood change). Lookups return shared swatch objects, so
+// scenes can key their own colour caches on them.
+import React, { createContext, useContext, useMemo } from 'react';
+import { EmbeddingPoint } from './dataset';
+import { ClusterSwatch, clusterSwatch, ColorRamp } from './palette';
+
+export type SwatchLookup = (point: EmbeddingPoint) => ClusterSwatch;
+
+export interface LegendEntry { label: string; swatch: ClusterSwatch; }
+
+export type PointLegend =
+  | { kind: 'categorical'; title: string; entries: LegendEntry[]; more: number } // more = rarer values, drawn grey
+  | { kind: 'continuous'; title: string; ramp: ColorRamp; min: string; mid: string | null; max: string }; // mid labels the ramp's centre
+
+interface PointColors {
+  lookup: SwatchLookup;
+  legend: PointLegend | null; // null = cluster colours
+}
+
+const byCluster: SwatchLookup = point => clusterSwatch(point.cluster);
+
+const PointColorContext = createContext<PointColors>({ lookup: byCluster, legend: null });
+
+// Points missing from swatches keep the colour the enclosing provider gives them; null swatches
+// leave the enclosing colouring (cluster colours at the top) in place.
+export const PointColorProvider: React.FC<{
+  swatches: ReadonlyMap<string, ClusterSwatch> | null;
+  legend?: PointLegend | null;
+  children: React.ReactNode;
+}> = ({ swatches, legend = null, children }) => {
+  const outer = useContext(PointColorContext);
+  const value = useMemo<PointColors>(() => {
+    if (!swatches) return outer;
+    const inherited = outer.lookup;
+    return { lookup: point => swatches.get(point.id) ?? inherited(point), legend };
+  }, [swatches, legend, outer]);
+  return <PointColorContext.Provider value={value}>{children}</PointColorContext.Provider>;
+};
+
+// Colour for an overlay standing in for a whole cluster (a bubble, a contour): the swatch most of
+// its points are drawn in, so it matches them under any encoding. Cluster colours give each
+// cluster its own swatch back.
+export const clusterSwatches = (points: { cluster: number; swatch: ClusterSwatch }[]): Map<number, ClusterSwatch> => {
+  const counts = new Map<number, Map<ClusterSwatch, number>>();
+  points.forEach(({ cluster, swatch }) => {
+    const tally = counts.get(cluster) ?? new Map<ClusterSwatch, number>();
+    tally.set(swatch, (tally.get(swatch) ?? 0) + 1);
+    counts.set(cluster, tally);
+  });
+  const swatches = new Map<number, ClusterSwatch>();
+  counts.forEach((tally, cluster) => {
+    const [best] = [...tally.entries()].reduce((a, b) => (b[1] > a[1] ? b : a));
+    swatches.set(cluster, best);
+  });
+  return swatches;
+};
+
+export const usePointSwatch = () => useContext(PointColorContext).lookup;
+
+export const usePointLegend = () => useContext(PointColorContext).legend;
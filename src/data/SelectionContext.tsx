@@ -0,0 +1,74 @@
+// src/data/SelectionContext.tsx
+// The selected (inspected) point, the hovered point and the multi-point selection set from
+// box/lasso selection, shared by every scene and the sidebar, plus "fly to this point" requests.
+// All are by id, so they survive re-projection, re-clustering and switching views, and carry
+// across the panes of a comparison.
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useDataset } from './DatasetContext';
+
+// nonce makes a repeated request for the same point a new value, so scenes fly again.
+export interface FocusRequest { id: string; nonce: number; }
+
+// How a new box/lasso selection combines with the existing set.
+export type SelectionMode = 'replace' | 'add' | 'subtract';
+
+// The modifier keys every selection gesture shares (box, lasso, histogram brush).
+export const selectionModeOf = (event: { altKey: boolean; shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }): SelectionMode =>
+  event.altKey ? 'subtract' : event.shiftKey || event.ctrlKey || event.metaKey ? 'add' : 'replace';
+
+export interface Selection {
+  selectedId: string | null;
+  setSelectedId: React.Dispatch<React.SetStateAction<string | null>>;
+  focus: FocusRequest | null;
+  focusPoint: (id: string) => void; // Selects the point and asks the active scene to fly to it
+  selectedIds: ReadonlySet<string>;
+  updateSelectedIds: (ids: string[], mode: SelectionMode) => void;
+  hoveredId: string | null;
+  setHoveredId: (id: string | null) => void;
+}
+
+const SelectionContext = createContext<Selection>({
+  selectedId: null,
+  setSelectedId: () => {},
+  focus: null,
+  focusPoint: () => {},
+  selectedIds: new Set(),
+  updateSelectedIds: () => {},
+  hoveredId: null,
+  setHoveredId: () => {},
+});
+
+export const SelectionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { dataset } = useDataset();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [focus, setFocus] = useState<FocusRequest | null>(null);
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(new Set());
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  // A new dataset (loaded, or an isolated subset) drops selected ids it no longer has.
+  const { points } = dataset;
+  useEffect(() => {
+    const ids = new Set(points.map(p => p.id));
+    setSelectedId(id => (id !== null && ids.has(id) ? id : null));
+    setHoveredId(id => (id !== null && ids.has(id) ? id : null));
+    setSelectedIds(selected => ([...selected].every(id => ids.has(id)) ? selected : new Set([...selected].filter(id => ids.has(id)))));
+  }, [points]);
+
+  const focusPoint = useCallback((id: string) => {
+    setSelectedId(id);
+    setFocus(prev => ({ id, nonce: (prev?.nonce ?? 0) + 1 }));
+  }, []);
+
+  const updateSelectedIds = useCallback((ids: string[], mode: SelectionMode) => setSelectedIds(selected => {
+    if (mode === 'replace') return new Set(ids);
+    const next = new Set(selected);
+    ids.forEach(id => (mode === 'add' ? next.add(id) : next.delete(id)));
+    return next;
+  }), []);
+
+  const value = useMemo(() => ({ selectedId, setSelectedId, focus, focusPoint, selectedIds, updateSelectedIds, hoveredId, setHoveredId }),
+    [selectedId, focus, focusPoint, selectedIds, updateSelectedIds, hoveredId]);
+  return <SelectionContext.Provider value={value}>{children}</SelectionContext.Provider>;
+};
+
+export const useSelection = () => useContext(SelectionContext);
@@ -0,0 +1,38 @@
+// src/data/colorMaps.ts
+// Continuous colour maps for numeric columns. Viridis and magma are perceptually uniform
+// (sampled from matplotlib at nine stops); the diverging map runs blue through grey to red.
+import { ColorRamp, rampFromStops, RGB } from './palette';
+
+export type ColorMapId = 'viridis' | 'magma' | 'diverging';
+
+export interface ColorMap {
+  label: string;
+  ramp: ColorRamp;
+  diverging: boolean; // Centred on zero when the values straddle it
+}
+
+const hex = (value: string): RGB => [1, 3, 5].map(i => parseInt(value.slice(i, i + 2), 16)) as RGB;
+
+export const COLOR_MAPS: Record<ColorMapId, ColorMap> = {
+  viridis: {
+    label: 'Viridis', diverging: false,
+    ramp: rampFromStops(['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'].map(hex)),
+  },
+  magma: {
+    label: 'Magma', diverging: false,
+    ramp: rampFromStops(['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'].map(hex)),
+  },
+  diverging: {
+    label: 'Diverging', diverging: true,
+    ramp: rampFromStops(['#3b4cc0', '#7b9ff9', '#c0d4f5', '#dddddd', '#f2cbb7', '#ee8468', '#b40426'].map(hex)),
+  },
+};
+
+export const DEFAULT_COLOR_MAP: ColorMapId = 'viridis';
+
+// Position of a value on the map: min..max onto 0..1, or for a diverging map over a range that
+// straddles zero, each side of zero onto its own half so zero lands on the neutral middle.
+export const colorMapPosition = (map: ColorMap, value: number, min: number, max: number) => {
+  if (map.diverging && min < 0 && max > 0) return value < 0 ? 0.5 - 0.5 * value / min : 0.5 + 0.5 * value / max;
+  return max > min ? (value - min) / (max - min) : 0.5;
+};
@@ -0,0 +1,11 @@
+// src/data/damping.ts
+// Frame-rate independent easing for the scenes' animations. A rate is per second: a value closes
+// that fraction of the gap to its target, continuously compounded (1 - e^-rate of it per second),
+// however the second is split into frames.
+
+// Fraction of the gap a value at this rate closes over a frame of the given length.
+export const dampingFactor = (rate: number, seconds: number) => 1 - Math.exp(-rate * seconds);
+
+// The value moved one frame's worth towards its target.
+export const damp = (value: number, target: number, rate: number, seconds: number) =>
+  value + (target - value) * dampingFactor(rate, seconds);
@@ -0,0 +1,217 @@
+// src/data/dataset.ts
+// Renderer-agnostic embedding dataset shared by every visualizer.
+// Layout positions live in a normalized space (roughly [-1, 1] per axis);
+// each app scales them into its own world units through a small adapter.
+
+export type Vec2 = [number, number];
+export type Vec3 = [number, number, number];
+export type MetadataValue = string | number | null;
+export type LayoutMethod = 'provided' | 'random-projection' | 'pca' | 'umap' | 'tsne';
+
+export const NOISE_CLUSTER = -1; // Points a density clustering left unassigned
+
+export interface EmbeddingPoint {
+  id: string;
+  label: string;
+  cluster: number;
+  position: Vec3;
+  metadata: Record<string, MetadataValue>;
+}
+
+export type NeighborMetric = 'cosine' | 'euclidean';
+
+// k nearest neighbours of every point, computed in the original vector space.
+export interface NeighborGraph {
+  k: number;
+  metric: NeighborMetric;
+  indices: Int32Array; // Row-major points.length × k, nearest first
+  scores: Float32Array; // Similarity per edge: cosine similarity, or 1 / (1 + distance)
+  minScore: number; // Score range over the whole graph, for normalising edge opacity/width
+  maxScore: number;
+}
+
+// The affine map from raw vectors to layout positions, for layouts that have one (PCA, random
+// projection): position = ((vector - mean) · axes - center) / extent. Lets new vectors, such as
+// an embedded query, land exactly where the dataset's own projection would put them.
+export interface LinearProjection {
+  mean: Float32Array | null; // Subtracted before projecting; null for a projection through the origin
+  axes: Float32Array[]; // One per output axis (2 or 3), each of length `dimensions`
+  center: Vec3; // normalizePositions' centring and scaling, applied after projecting
+  extent: number;
+}
+
+export interface ColumnInfo {
+  name: string;
+  kind: 'numeric' | 'categorical';
+  min: number; // Only meaningful for numeric columns
+  max: number;
+}
+
+export interface EmbeddingDataset {
+  name: string;
+  points: EmbeddingPoint[];
+  columns: ColumnInfo[];
+  dimensions: number; // Width of each raw vector, 0 when the dataset has no vectors
+  vectors: Float32Array | null; // Row-major points.length × dimensions
+  layout: LayoutMethod; // How the point positions were produced
+  neighbors: NeighborGraph | null;
+  projection: LinearProjection | null; // Only while the positions are a linear projection of the vectors
+}
+
+export interface DatasetInit {
+  name: string;
+  points: EmbeddingPoint[];
+  vectors?: Float32Array | null;
+  dimensions?: number;
+  layout?: LayoutMethod;
+  neighbors?: NeighborGraph | null;
+  projection?: LinearProjection | null;
+}
+
+export const createDataset = ({ name, points, vectors = null, dimensions = 0, layout = 'provided', neighbors = null, projection = null }: DatasetInit): EmbeddingDataset => {
+  if (vectors && vectors.length !== points.length * dimensions) {
+    throw new Error(`Vector buffer holds ${vectors.length} values, expected ${points.length} × ${dimensions}.`);
+  }
+  return {
+    name,
+    points,
+    columns: inferColumns(points),
+    dimensions: vectors ? dimensions : 0,
+    vectors,
+    layout,
+    neighbors,
+    projection,
+  };
+};
+
+// Returns a copy of the dataset with new layout positions, keeping ids, vectors and metadata.
+export const withPositions = (
+  dataset: EmbeddingDataset, positions: Vec3[], layout: LayoutMethod, projection: LinearProjection | null = null,
+): EmbeddingDataset => ({
+  ...dataset,
+  points: dataset.points.map((point, i) => ({ ...point, position: positions[i] })),
+  layout,
+  projection,
+});
+
+// True when both datasets describe the same rows (same vectors buffer and ids), so a
+// result computed from one can be written into the other.
+export const sameRows = (a: EmbeddingDataset, b: EmbeddingDataset) =>
+  a.vectors === b.vectors && a.points.length === b.points.length && a.points.every((p, i) => p.id === b.points[i].id);
+
+export const withClusters = (dataset: EmbeddingDataset, clusters: ArrayLike<number>): EmbeddingDataset => ({
+  ...dataset,
+  points: dataset.points.map((point, i) => ({ ...point, cluster: clusters[i] })),
+});
+
+export const withNeighbors = (dataset: EmbeddingDataset, neighbors: NeighborGraph | null): EmbeddingDataset => ({
+  ...dataset,
+  neighbors,
+});
+
+// Sets one metadata column on the given points (e.g. a user-assigned label), leaving the rest untouched.
+export const withMetadataValue = (dataset: EmbeddingDataset, indices: number[], column: string, value: MetadataValue): EmbeddingDataset => {
+  const targets = new Set(indices);
+  const points = dataset.points.map((point, i) => (targets.has(i) ? { ...point, metadata: { ...point.metadata, [column]: value } } : point));
+  return { ...dataset, points, columns: inferColumns(points) };
+};
+
+// A new dataset holding only the given rows, re-normalised so they fill the view. The kNN
+// graph refers to the old row numbers, so it is dropped and has to be rebuilt.
+export const subsetDataset = (dataset: EmbeddingDataset, indices: number[], name: string): EmbeddingDataset => {
+  const { dimensions, vectors: source } = dataset;
+  const vectors = source ? new Float32Array(indices.length * dimensions) : null;
+  if (source && vectors) {
+    indices.forEach((index, row) => vectors.set(source.subarray(index * dimensions, (index + 1) * dimensions), row * dimensions));
+  }
+  const positions = normalizePositions(indices.map(i => dataset.points[i].position));
+  return createDataset({
+    name,
+    points: indices.map((index, row) => ({ ...dataset.points[index], position: positions[row] })),
+    vectors,
+    dimensions,
+    layout: dataset.layout,
+  });
+};
+
+export const inferColumns = (points: EmbeddingPoint[]): ColumnInfo[] => {
+  const columns = new Map<string, ColumnInfo>();
+  points.forEach(point => {
+    Object.entries(point.metadata).forEach(([name, value]) => {
+      if (value === null || value === '') return;
+      let column = columns.get(name);
+      if (!column) {
+        column = { name, kind: 'numeric', min: Infinity, max: -Infinity };
+        columns.set(name, column);
+      }
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        column.min = Math.min(column.min, value);
+        column.max = Math.max(column.max, value);
+      } else {
+        column.kind = 'categorical';
+      }
+    });
+  });
+  return [...columns.values()].map(column => column.kind === 'categorical'
+    ? { ...column, min: 0, max: 0 }
+    : column);
+};
+
+export const getColumn = (dataset: EmbeddingDataset, name: string) =>
+  dataset.columns.find(column => column.name === name);
+
+export const getVector = (dataset: EmbeddingDataset, index: number): Float32Array | null => {
+  if (!dataset.vectors) return null;
+  return dataset.vectors.subarray(index * dataset.dimensions, (index + 1) * dataset.dimensions);
+};
+
+export const numericValue = (point: EmbeddingPoint, column: string, fallback = 0): number => {
+  const value = point.metadata[column];
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+};
+
+// Maps a numeric column onto 0..1 using the column range; constant columns map to 0.5.
+export const normalizedValue = (dataset: EmbeddingDataset, point: EmbeddingPoint, column: string, fallback = 0.5): number => {
+  const info = getColumn(dataset, column);
+  const value = point.metadata[column];
+  if (!info || info.kind !== 'numeric' || typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return info.max > info.min ? (value - info.min) / (info.max - info.min) : 0.5;
+};
+
+// Centers the positions and scales them uniformly so the largest extent fits in [-1, 1].
+export const normalizePositions = (positions: Vec3[]): Vec3[] => {
+  const { center, extent } = positionNormalization(positions);
+  return positions.map(p => p.map((v, axis) => (v - center[axis]) / extent) as Vec3);
+};
+
+// The centre and half-extent normalizePositions divides by.
+export const positionNormalization = (positions: Vec3[]): { center: Vec3; extent: number } => {
+  if (positions.length === 0) return { center: [0, 0, 0], extent: 1 };
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  positions.forEach(p => {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], p[axis]);
+      max[axis] = Math.max(max[axis], p[axis]);
+    }
+  });
+  const center = min.map((m, axis) => (m + max[axis]) / 2) as Vec3;
+  const extent = Math.max(...max.map((m, axis) => m - min[axis])) / 2 || 1;
+  return { center, extent };
+};
+
+export const projectVector = (projection: LinearProjection, vector: ArrayLike<number>): Vec3 => {
+  const { mean, axes, center, extent } = projection;
+  const position: Vec3 = [0, 0, 0];
+  axes.forEach((axis, a) => {
+    let sum = 0;
+    for (let d = 0; d < axis.length; d++) sum += (vector[d] - (mean ? mean[d] : 0)) * axis[d];
+    position[a] = (sum - center[a]) / extent;
+  });
+  return position;
+};
+
+export const scalePosition = (position: Vec3, scale: number): Vec3 =>
+  [position[0] * scale, position[1] * scale, position[2] * scale];
+
+export const distance3 = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
@@ -0,0 +1,86 @@
+// src/data/encoding.ts
+// Visual encodings of metadata columns: colour by any column (a continuous colour map for
+// numeric columns, the categorical palette for the rest) and point size by a numeric column
+// through a linear, square-root or log scale.
+import { COLOR_MAPS, colorMapPosition, ColorMapId, DEFAULT_COLOR_MAP } from './colorMaps';
+import { EmbeddingDataset, EmbeddingPoint, getColumn, NOISE_CLUSTER } from './dataset';
+import { buildHistogram, formatBound, MAX_CATEGORIES } from './histogram';
+import { ClusterSwatch, clusterSwatch, rampSwatch } from './palette';
+import { PointLegend } from './PointColorContext';
+
+export type SizeScale = 'linear' | 'sqrt' | 'log';
+
+export interface ColorEncoding {
+  column: string | null; // null = cluster
+  colorMap: ColorMapId; // Numeric columns only
+}
+
+export interface SizeEncoding {
+  column: string | null; // null = every point the same size
+  scale: SizeScale;
+}
+
+export interface Encoding {
+  color: ColorEncoding;
+  size: SizeEncoding;
+}
+
+export const DEFAULT_ENCODING: Encoding = {
+  color: { column: null, colorMap: DEFAULT_COLOR_MAP },
+  size: { column: 'value', scale: 'linear' }, // The column the scenes were designed around
+};
+
+// Points without a value in the column (and the rarest categories) are grey.
+const MISSING_SWATCH = clusterSwatch(NOISE_CLUSTER);
+
+export interface ColoredColumn {
+  swatches: Map<string, ClusterSwatch>;
+  legend: PointLegend;
+}
+
+// Per id swatches for a column, or null when the dataset lacks it (cluster colours apply).
+// Categories take the palette in order of frequency, like the histogram's bins.
+export const colorByColumn = (dataset: EmbeddingDataset, { column, colorMap }: ColorEncoding): ColoredColumn | null => {
+  const info = column !== null ? getColumn(dataset, column) : undefined;
+  if (!info) return null;
+  const { points } = dataset;
+  const swatches = new Map<string, ClusterSwatch>();
+
+  if (info.kind === 'numeric') {
+    const map = COLOR_MAPS[colorMap];
+    points.forEach(p => {
+      const value = p.metadata[info.name];
+      swatches.set(p.id, typeof value === 'number' && Number.isFinite(value)
+        ? rampSwatch(map.ramp, colorMapPosition(map, value, info.min, info.max))
+        : MISSING_SWATCH);
+    });
+    const centred = map.diverging && info.min < 0 && info.max > 0;
+    return {
+      swatches,
+      legend: { kind: 'continuous', title: info.name, ramp: map.ramp, min: formatBound(info.min), mid: centred ? '0' : null, max: formatBound(info.max) },
+    };
+  }
+
+  const { bins, binOfRow } = buildHistogram(dataset, info.name);
+  const named = Math.min(bins.length, MAX_CATEGORIES);
+  points.forEach((p, row) => swatches.set(p.id, binOfRow[row] >= 0 && binOfRow[row] < named ? clusterSwatch(binOfRow[row]) : MISSING_SWATCH));
+  const entries = bins.slice(0, named).map((bin, index) => ({ label: bin.label, swatch: clusterSwatch(index) }));
+  const more = bins.length > named ? new Set(bins[named].rows.map(row => String(points[row].metadata[info.name]))).size : 0;
+  return { swatches, legend: { kind: 'categorical', title: info.name, entries, more } };
+};
+
+// 0..1 size weight of a point; constant columns and missing values sit in the middle.
+export const sizeWeight = (dataset: EmbeddingDataset, point: EmbeddingPoint, { column, scale }: SizeEncoding): number => {
+  const info = column !== null ? getColumn(dataset, column) : undefined;
+  const value = info ? point.metadata[info.name] : undefined;
+  if (!info || info.kind !== 'numeric' || typeof value !== 'number' || !Number.isFinite(value) || !(info.max > info.min)) return 0.5;
+  const t = Math.min(1, Math.max(0, (value - info.min) / (info.max - info.min)));
+  if (scale === 'sqrt') return Math.sqrt(t);
+  if (scale === 'log') {
+    // A positive range compresses by ratio; one that reaches zero or below is shifted to start at zero.
+    return info.min > 0
+      ? Math.log(value / info.min) / Math.log(info.max / info.min)
+      : Math.log1p(value - info.min) / Math.log1p(info.max - info.min);
+  }
+  return t;
+};
@@ -0,0 +1,58 @@
+// src/data/filters.ts
+// Search plus structured filters, combined into one per-point match mask that every scene
+// uses to dim the points that do not match.
+import { EmbeddingDataset, numericValue } from './dataset';
+import { SearchIndex, searchScore, tokenizeQuery } from './search';
+
+export interface RangeFilter {
+  column: string; // Numeric metadata column
+  min: number;
+  max: number;
+}
+
+export interface FilterState {
+  query: string;
+  clusters: number[] | null; // null = every cluster
+  ranges: RangeFilter[];
+}
+
+export const EMPTY_FILTER: FilterState = { query: '', clusters: null, ranges: [] };
+
+export interface FilterResult {
+  mask: Uint8Array | null; // 1 = matches; null when no filter is active
+  matchCount: number;
+  ranked: number[]; // Search hits by descending score (only when there is a query)
+}
+
+export const isFilterActive = (filter: FilterState) =>
+  filter.query.trim() !== '' || filter.clusters !== null || filter.ranges.length > 0;
+
+export const applyFilter = (dataset: EmbeddingDataset, index: SearchIndex, filter: FilterState): FilterResult => {
+  const count = dataset.points.length;
+  if (!isFilterActive(filter)) return { mask: null, matchCount: count, ranked: [] };
+
+  const tokens = tokenizeQuery(filter.query);
+  const clusters = filter.clusters ? new Set(filter.clusters) : null;
+  // Ranges on columns this dataset lacks are ignored rather than hiding everything.
+  const ranges = filter.ranges.filter(range => dataset.columns.some(c => c.name === range.column && c.kind === 'numeric'));
+  const mask = new Uint8Array(count);
+  const scored: { index: number; score: number }[] = [];
+  let matchCount = 0;
+
+  dataset.points.forEach((point, i) => {
+    if (clusters && !clusters.has(point.cluster)) return;
+    if (ranges.some(({ column, min, max }) => {
+      const value = numericValue(point, column, NaN);
+      return !(value >= min && value <= max);
+    })) return;
+    if (tokens.length) {
+      const score = searchScore(index[i], tokens);
+      if (score <= 0) return;
+      scored.push({ index: i, score });
+    }
+    mask[i] = 1;
+    matchCount++;
+  });
+
+  return { mask, matchCount, ranked: scored.sort((a, b) => b.score - a.score).map(s => s.index) };
+};
@@ -0,0 +1,79 @@
+// src/data/histogram.ts
+// Points binned by one metadata column (or by cluster), keeping the rows in each bin so a
+// brushed bin maps straight back to points.
+import { EmbeddingDataset, getColumn, NOISE_CLUSTER } from './dataset';
+
+export const HISTOGRAM_BINS = 24; // Numeric columns
+export const MAX_CATEGORIES = 24; // Categorical columns; the rarest values share an "other" bin
+
+export interface HistogramBin {
+  label: string;
+  rows: number[];
+  range: [number, number] | null; // Value range of a numeric bin
+  cluster: number | null; // Cluster bins only
+}
+
+export interface Histogram {
+  column: string | null; // null = cluster
+  bins: HistogramBin[];
+  binOfRow: Int32Array; // -1 for points without a value
+}
+
+export const formatBound = (value: number) => (Math.abs(value) >= 1e4 || (value !== 0 && Math.abs(value) < 1e-2) ? value.toExponential(1) : String(+value.toPrecision(3)));
+
+export const buildHistogram = (dataset: EmbeddingDataset, column: string | null, binCount = HISTOGRAM_BINS): Histogram => {
+  const { points } = dataset;
+  const binOfRow = new Int32Array(points.length).fill(-1);
+
+  if (column === null) {
+    const clusters = [...new Set(points.map(p => p.cluster))].sort((a, b) => a - b);
+    const binOf = new Map(clusters.map((cluster, bin) => [cluster, bin]));
+    const bins: HistogramBin[] = clusters.map(cluster => ({
+      label: cluster === NOISE_CLUSTER ? 'Noise' : `Cluster ${cluster}`, rows: [], range: null, cluster,
+    }));
+    points.forEach((p, row) => {
+      binOfRow[row] = binOf.get(p.cluster)!;
+      bins[binOfRow[row]].rows.push(row);
+    });
+    return { column, bins, binOfRow };
+  }
+
+  const info = getColumn(dataset, column);
+  if (!info) return { column, bins: [], binOfRow };
+
+  if (info.kind === 'numeric') {
+    const span = info.max - info.min;
+    const count = span > 0 ? binCount : 1;
+    const width = span / count;
+    const bins: HistogramBin[] = Array.from({ length: count }, (_, bin) => {
+      const lo = info.min + bin * width, hi = bin === count - 1 ? info.max : lo + width;
+      return { label: count === 1 ? formatBound(lo) : `${formatBound(lo)} – ${formatBound(hi)}`, rows: [], range: [lo, hi], cluster: null };
+    });
+    points.forEach((p, row) => {
+      const value = p.metadata[column];
+      if (typeof value !== 'number' || !Number.isFinite(value)) return;
+      const bin = span > 0 ? Math.min(count - 1, Math.floor((value - info.min) / width)) : 0;
+      binOfRow[row] = bin;
+      bins[bin].rows.push(row);
+    });
+    return { column, bins, binOfRow };
+  }
+
+  const rowsByValue = new Map<string, number[]>();
+  points.forEach((p, row) => {
+    const value = p.metadata[column];
+    if (value === null || value === undefined || value === '') return;
+    const key = String(value);
+    let rows = rowsByValue.get(key);
+    if (!rows) rowsByValue.set(key, rows = []);
+    rows.push(row);
+  });
+  const byCount = [...rowsByValue.entries()].sort((a, b) => b[1].length - a[1].length);
+  const bins: HistogramBin[] = byCount.slice(0, MAX_CATEGORIES).map(([label, rows]) => ({ label, rows, range: null, cluster: null }));
+  if (byCount.length > MAX_CATEGORIES) {
+    const rest = byCount.slice(MAX_CATEGORIES);
+    bins.push({ label: `${rest.length} others`, rows: rest.flatMap(([, rows]) => rows), range: null, cluster: null });
+  }
+  bins.forEach((bin, index) => bin.rows.forEach(row => { binOfRow[row] = index; }));
+  return { column, bins, binOfRow };
+};
@@ -0,0 +1,28 @@
+// src/data/layout.ts
+import { LinearProjection, positionNormalization, Vec3 } from './dataset';
+import { createRng, gaussian } from './random';
+
+// Instant placeholder layout for vectors without coordinates: a seeded Gaussian
+// random projection to 3D, which roughly preserves relative distances.
+export const randomProjectionLayout = (
+  vectors: Float32Array, count: number, dimensions: number, seed = 42,
+): { positions: Vec3[]; projection: LinearProjection } => {
+  const rng = createRng(seed);
+  const basis = Array.from({ length: 3 }, () => Float32Array.from({ length: dimensions }, () => gaussian(rng)));
+  const raw: Vec3[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = i * dimensions;
+    const p: Vec3 = [0, 0, 0];
+    for (let axis = 0; axis < 3; axis++) {
+      let sum = 0;
+      for (let d = 0; d < dimensions; d++) sum += vectors[offset + d] * basis[axis][d];
+      p[axis] = sum;
+    }
+    raw.push(p);
+  }
+  const { center, extent } = positionNormalization(raw);
+  return {
+    positions: raw.map(p => p.map((v, axis) => (v - center[axis]) / extent) as Vec3),
+    projection: { mean: null, axes: basis, center, extent },
+  };
+};
@@ -0,0 +1,50 @@
+// src/data/neighbors.ts
+// Read helpers over a dataset's NeighborGraph, shared by the scenes' edge renderers.
+import { EmbeddingDataset, NeighborGraph } from './dataset';
+
+export interface NeighborEdge {
+  source: number; // Indices into dataset.points
+  target: number;
+  score: number;
+  strength: number; // score normalised to 0..1 across the graph, for opacity/width
+}
+
+const strengthOf = (graph: NeighborGraph, score: number) =>
+  graph.maxScore > graph.minScore ? (score - graph.minScore) / (graph.maxScore - graph.minScore) : 1;
+
+export const neighborsOf = (dataset: EmbeddingDataset, index: number): NeighborEdge[] => {
+  const graph = dataset.neighbors;
+  if (!graph || index < 0) return [];
+  const edges: NeighborEdge[] = [];
+  for (let n = 0; n < graph.k; n++) {
+    const target = graph.indices[index * graph.k + n];
+    if (target < 0) continue;
+    const score = graph.scores[index * graph.k + n];
+    edges.push({ source: index, target, score, strength: strengthOf(graph, score) });
+  }
+  return edges;
+};
+
+// Edge lists depend only on the graph, which layout changes and transitions carry over unchanged.
+const edgeCache = new WeakMap<NeighborGraph, readonly NeighborEdge[]>();
+
+// Every kNN edge once, ignoring direction; mutual neighbours keep the higher score. Computed
+// once per graph; callers must not modify the list.
+export const undirectedEdges = (dataset: EmbeddingDataset): readonly NeighborEdge[] => {
+  const graph = dataset.neighbors;
+  if (!graph) return [];
+  const cached = edgeCache.get(graph);
+  if (cached) return cached;
+  const count = dataset.points.length;
+  const edges = new Map<number, NeighborEdge>();
+  dataset.points.forEach((_, i) => {
+    neighborsOf(dataset, i).forEach(edge => {
+      const key = Math.min(edge.source, edge.target) * count + Math.max(edge.source, edge.target);
+      const existing = edges.get(key);
+      if (!existing || existing.score < edge.score) edges.set(key, edge);
+    });
+  });
+  const list = [...edges.values()];
+  edgeCache.set(graph, list);
+  return list;
+};
@@ -0,0 +1,75 @@
+// src/data/palette.ts
+// Generated cluster palette: hues step by the golden angle so any number of clusters stays
+// distinguishable, with neighbouring ids far apart on the colour wheel. Noise is grey.
+import { NOISE_CLUSTER } from './dataset';
+
+export type RGB = [number, number, number]; // 0..255
+
+export interface ClusterSwatch {
+  primary: RGB; // Main fill
+  secondary: RGB; // Highlights, outlines, emissive
+  glow: RGB; // Soft halo / background tint
+}
+
+const GOLDEN_ANGLE = 137.508;
+const BASE_HUE = 28; // Start on the warm orange the scenes were designed around
+
+const hslToRgb = (h: number, s: number, l: number): RGB => {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+};
+
+const NOISE_SWATCH: ClusterSwatch = { primary: [110, 110, 120], secondary: [150, 150, 160], glow: [190, 190, 200] };
+
+const swatchCache = new Map<number, ClusterSwatch>();
+
+export const clusterSwatch = (cluster: number): ClusterSwatch => {
+  if (cluster === NOISE_CLUSTER) return NOISE_SWATCH;
+  let swatch = swatchCache.get(cluster);
+  if (!swatch) {
+    const hue = (BASE_HUE + cluster * GOLDEN_ANGLE) % 360;
+    // Alternate lightness a little so hues that land close together still separate.
+    const lightness = 0.52 + (cluster % 3) * 0.04;
+    swatch = {
+      primary: hslToRgb(hue, 0.9, lightness),
+      secondary: hslToRgb((hue + 22) % 360, 0.95, lightness + 0.14),
+      glow: hslToRgb(hue, 0.8, 0.86),
+    };
+    swatchCache.set(cluster, swatch);
+  }
+  return swatch;
+};
+
+export const rgbToHex = ([r, g, b]: RGB) => (r << 16) | (g << 8) | b;
+
+export const rgbToCss = ([r, g, b]: RGB, alpha = 1) => `rgba(${r}, ${g}, ${b}, ${alpha})`;
+
+const mixRgb = (a: RGB, b: RGB, f: number): RGB => a.map((c, i) => Math.round(c + (b[i] - c) * f)) as RGB;
+
+export type ColorRamp = (t: number) => RGB; // t in 0..1
+
+// Piecewise-linear ramp through evenly spaced colour stops.
+export const rampFromStops = (stops: RGB[]): ColorRamp => t => {
+  const x = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const i = Math.min(Math.floor(x), stops.length - 2);
+  return mixRgb(stops[i], stops[i + 1], x - i);
+};
+
+const RAMP_STEPS = 32;
+const rampSwatchCache = new WeakMap<ColorRamp, ClusterSwatch[]>();
+
+// Swatch for a point coloured by a number rather than a cluster. t is quantised, so a ramp has
+// only a few swatch objects and the scenes' caches keyed on them stay small.
+export const rampSwatch = (ramp: ColorRamp, t: number): ClusterSwatch => {
+  let swatches = rampSwatchCache.get(ramp);
+  if (!swatches) {
+    swatches = Array.from({ length: RAMP_STEPS + 1 }, (_, step) => {
+      const primary = ramp(step / RAMP_STEPS);
+      return { primary, secondary: mixRgb(primary, [255, 255, 255], 0.3), glow: mixRgb(primary, [255, 255, 255], 0.65) };
+    });
+    rampSwatchCache.set(ramp, swatches);
+  }
+  return swatches[Math.round(Math.min(1, Math.max(0, t)) * RAMP_STEPS)];
+};
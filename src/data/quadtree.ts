@@ -0,0 +1,89 @@
+// src/data/quadtree.ts
+// Static 2D quadtree over a set of points, for culling to a rectangle and picking under a cursor
+// without visiting every point. Points are reordered so each node's points (its descendants'
+// included) are one contiguous run of `order`; a node inside the query rectangle is taken whole.
+
+const LEAF_SIZE = 16;
+const MAX_DEPTH = 16; // Coincident points would otherwise split forever
+
+export class Quadtree {
+  private readonly order: Int32Array; // Point indices, grouped by node
+  private readonly nodes: {
+    minX: number; minY: number; maxX: number; maxY: number;
+    start: number; end: number; // Run of order covered
+    children: number; // Index of the first of four children in nodes, or -1 for a leaf
+  }[] = [];
+
+  // positions is xy-interleaved.
+  constructor(private readonly positions: Float32Array) {
+    const count = positions.length / 2;
+    this.order = Int32Array.from({ length: count }, (_, i) => i);
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (let i = 0; i < count; i++) {
+      minX = Math.min(minX, positions[i * 2]); maxX = Math.max(maxX, positions[i * 2]);
+      minY = Math.min(minY, positions[i * 2 + 1]); maxY = Math.max(maxY, positions[i * 2 + 1]);
+    }
+    if (count === 0) { minX = minY = 0; maxX = maxY = 1; }
+    this.nodes.push({ minX, minY, maxX, maxY, start: 0, end: count, children: -1 });
+    this.split(0, 0, new Int32Array(count));
+  }
+
+  // Calls visit with every point inside the rectangle (edges included).
+  forEachInRect(minX: number, minY: number, maxX: number, maxY: number, visit: (index: number) => void) {
+    const stack = [0];
+    while (stack.length > 0) {
+      const node = this.nodes[stack.pop()!];
+      if (node.start === node.end || node.minX > maxX || node.maxX < minX || node.minY > maxY || node.maxY < minY) continue;
+      const inside = node.minX >= minX && node.maxX <= maxX && node.minY >= minY && node.maxY <= maxY;
+      if (inside || node.children < 0) {
+        for (let k = node.start; k < node.end; k++) {
+          const i = this.order[k];
+          const x = this.positions[i * 2], y = this.positions[i * 2 + 1];
+          if (inside || (x >= minX && x <= maxX && y >= minY && y <= maxY)) visit(i);
+        }
+      } else {
+        for (let c = 0; c < 4; c++) stack.push(node.children + c);
+      }
+    }
+  }
+
+  // The highest-index point (the last drawn, so the one on top) whose circle contains (x, y), or
+  // -1. radiusOf may return 0 to leave a point out; no radius may exceed maxRadius.
+  pick(x: number, y: number, maxRadius: number, radiusOf: (index: number) => number): number {
+    let best = -1;
+    this.forEachInRect(x - maxRadius, y - maxRadius, x + maxRadius, y + maxRadius, i => {
+      if (i < best) return;
+      const r = radiusOf(i);
+      const dx = this.positions[i * 2] - x, dy = this.positions[i * 2 + 1] - y;
+      if (r > 0 && dx * dx + dy * dy <= r * r) best = i;
+    });
+    return best;
+  }
+
+  // Partitions the node's run into its four quadrants (a counting sort through scratch) and
+  // recurses into the ones that are still too full.
+  private split(nodeIndex: number, depth: number, scratch: Int32Array) {
+    const node = this.nodes[nodeIndex];
+    const { start, end } = node;
+    if (end - start <= LEAF_SIZE || depth >= MAX_DEPTH) return;
+    const midX = (node.minX + node.maxX) / 2, midY = (node.minY + node.maxY) / 2;
+    const quadrant = (i: number) => (this.positions[i * 2] > midX ? 1 : 0) + (this.positions[i * 2 + 1] > midY ? 2 : 0);
+
+    const counts = [0, 0, 0, 0];
+    for (let k = start; k < end; k++) counts[quadrant(this.order[k])]++;
+    const offsets = [start, start + counts[0], start + counts[0] + counts[1], start + counts[0] + counts[1] + counts[2]];
+    const fill = offsets.slice();
+    for (let k = start; k < end; k++) scratch[fill[quadrant(this.order[k])]++] = this.order[k];
+    this.order.set(scratch.subarray(start, end), start);
+
+    node.children = this.nodes.length;
+    for (let q = 0; q < 4; q++) {
+      this.nodes.push({
+        minX: q & 1 ? midX : node.minX, maxX: q & 1 ? node.maxX : midX,
+        minY: q & 2 ? midY : node.minY, maxY: q & 2 ? node.maxY : midY,
+        start: offsets[q], end: offsets[q] + counts[q], children: -1,
+      });
+    }
+    for (let q = 0; q < 4; q++) this.split(node.children + q, depth + 1, scratch);
+  }
+}
@@ -0,0 +1,22 @@
+// src/data/random.ts
+// Small seeded PRNG so layouts and clusterings are reproducible between runs.
+
+export type Rng = () => number;
+
+// mulberry32: fast 32-bit generator, good enough for layout initialisation and sampling.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Box-Muller transform on top of a uniform generator.
+export const gaussian = (rng: Rng) => {
+  const u = Math.max(rng(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
@@ -0,0 +1,52 @@
+// src/data/sampleDataset.ts
+// Built-in demo corpus, merged from the per-engine mock arrays the scenes used to carry.
+import { createDataset, EmbeddingPoint, Vec3 } from './dataset';
+import { buildKnnGraph } from '../analysis/knn';
+
+const samplePoint = (id: string, label: string, cluster: number, position: Vec3, value: number, rune: string): EmbeddingPoint => ({
+  id, label, cluster, position, metadata: { value, rune },
+});
+
+const SAMPLE_POINTS: EmbeddingPoint[] = [
+  // Physics & cosmos
+  samplePoint('emb_0_1', "General Relativity", 0, [-0.86, 0.21, 0.5], 0.8, '🌌'),
+  samplePoint('emb_0_2', "Quantum Mechanics", 0, [-0.71, 0.36, 0.64], 0.9, '⚛️'),
+  samplePoint('emb_0_3', "Standard Model", 0, [-0.93, 0.14, 0.71], 0.7, '🔬'),
+  samplePoint('emb_0_4', "Quantum Entanglement", 0, [-0.75, 0.25, 0.4], 0.85, '🔗'),
+  samplePoint('emb_0_5', "String Theory", 0, [-0.6, 0.35, 0.5], 0.65, '🎻'),
+  samplePoint('emb_0_6', "Cosmic Inflation", 0, [-0.9, 0.15, 0.6], 0.6, '🎈'),
+  samplePoint('emb_0_7', "Stellar Nucleosynthesis", 0, [-0.8, 0.27, 0.13], 0.9, '⭐'),
+  samplePoint('emb_0_8', "Supernova Remnants", 0, [-0.67, 0.33, 0.2], 1.0, '💥'),
+  samplePoint('emb_0_9', "Nebula Formation", 0, [-0.93, 0.2, 0.07], 0.7, '☁️'),
+  // Machine learning
+  samplePoint('emb_1_1', "Convolutional Networks", 1, [0.71, -0.21, -0.57], 0.85, '🧮'),
+  samplePoint('emb_1_2', "Recurrent Networks", 1, [0.86, -0.36, -0.43], 0.75, '🔁'),
+  samplePoint('emb_1_3', "Attention Mechanisms", 1, [0.64, -0.14, -0.71], 0.95, '👁️'),
+  samplePoint('emb_1_4', "Neural Networks", 1, [0.5, -0.25, -0.5], 0.8, '🧠'),
+  samplePoint('emb_1_5', "Reinforcement Learning", 1, [0.6, -0.35, -0.4], 0.7, '🎯'),
+  samplePoint('emb_1_6', "Generative Adversarial Networks", 1, [0.4, -0.45, -0.6], 0.9, '🎭'),
+  samplePoint('emb_1_7', "Large Language Models", 1, [0.45, 0.05, -0.65], 1.0, '💬'),
+  // Life sciences & the deep sea
+  samplePoint('emb_2_1', "Ecosystem Dynamics", 2, [-0.21, -0.57, -0.29], 0.7, '🌿'),
+  samplePoint('emb_2_2', "Biodiversity Hotspots", 2, [-0.36, -0.71, -0.14], 0.8, '🦋'),
+  samplePoint('emb_2_3', "Deep Sea Vents", 2, [0.05, -0.8, -0.07], 0.85, '🌋'),
+  samplePoint('emb_2_4', "Bioluminescence", 2, [0.18, -0.72, 0.04], 0.95, '🪼'),
+  samplePoint('emb_2_5', "Hydrothermal Chimneys", 2, [-0.08, -0.9, -0.13], 0.8, '🔥'),
+  // Arts
+  samplePoint('emb_3_1', "Symbolist Poetry", 3, [0.29, 0.57, 0.07], 0.6, '🪶'),
+  samplePoint('emb_3_2', "Surrealist Painting", 3, [0.14, 0.71, 0.21], 0.7, '🎨'),
+  // Antiquity & alchemy
+  samplePoint('emb_4_1', "Library of Alexandria", 4, [-0.2, 0.6, -0.5], 0.6, '📜'),
+  samplePoint('emb_4_2', "Oracle of Delphi", 4, [-0.05, 0.67, -0.6], 0.8, '🧿'),
+  samplePoint('emb_4_3', "Philosopher's Stone", 4, [0.3, 0.45, -0.35], 1.0, '💎'),
+  samplePoint('emb_4_4', "Aqua Vitae", 4, [0.45, 0.52, -0.4], 0.75, '💧'),
+  samplePoint('emb_4_5', "Antikythera Mechanism", 4, [-0.12, 0.52, -0.38], 0.5, '⚙️'),
+  samplePoint('emb_4_6', "Caduceus Staff", 4, [0.38, 0.38, -0.52], 0.9, '⚕️'),
+];
+
+// The sample has no raw vectors, so its neighbour graph comes from the layout; it is small enough to build inline.
+export const SAMPLE_DATASET = createDataset({
+  name: 'Sample corpus',
+  points: SAMPLE_POINTS,
+  neighbors: buildKnnGraph(Float32Array.from(SAMPLE_POINTS.flatMap(p => p.position)), SAMPLE_POINTS.length, 3, 4, 'euclidean'),
+});
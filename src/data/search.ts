@@ -0,0 +1,51 @@
+// src/data/search.ts
+// Fuzzy text search over point labels, ids and string metadata. Each query token must match
+// some field, either as a substring (scored by position, bonus at word starts) or as a
+// reasonably tight subsequence ("nrl net" finds "Neural Networks").
+import { EmbeddingPoint } from './dataset';
+
+interface SearchField { text: string; weight: number; }
+
+export type SearchIndex = SearchField[][]; // Lower-cased fields per point, in dataset order
+
+export const buildSearchIndex = (points: EmbeddingPoint[]): SearchIndex => points.map(point => {
+  const fields: SearchField[] = [{ text: point.label.toLowerCase(), weight: 1 }, { text: point.id.toLowerCase(), weight: 0.5 }];
+  Object.values(point.metadata).forEach(value => {
+    if (typeof value === 'string' && value) fields.push({ text: value.toLowerCase(), weight: 0.7 });
+  });
+  return fields;
+});
+
+const isWordStart = (text: string, index: number) => index === 0 || /[^\p{L}\p{N}]/u.test(text[index - 1]);
+
+// 0 means no match.
+const tokenScore = (token: string, text: string): number => {
+  const at = text.indexOf(token);
+  if (at >= 0) return 60 + (isWordStart(text, at) ? 30 : 0) - Math.min(at, 20) + (text.length === token.length ? 10 : 0);
+  let from = 0, first = -1, last = -1, adjacent = 0;
+  for (const ch of token) {
+    const found = text.indexOf(ch, from);
+    if (found < 0) return 0;
+    if (first < 0) first = found;
+    if (found === last + 1) adjacent++;
+    last = found;
+    from = found + 1;
+  }
+  const span = last - first + 1;
+  if (span > token.length * 3) return 0; // Scattered letters across a long text are noise
+  return 10 + adjacent * 4 - (span - token.length);
+};
+
+export const tokenizeQuery = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Score of one point against the query tokens, or 0 when any token is unmatched.
+export const searchScore = (fields: SearchField[], tokens: string[]): number => {
+  let total = 0;
+  for (const token of tokens) {
+    let best = 0;
+    for (const field of fields) best = Math.max(best, tokenScore(token, field.text) * field.weight);
+    if (best <= 0) return 0;
+    total += best;
+  }
+  return total;
+};
@@ -0,0 +1,35 @@
+// src/data/selectionExport.ts
+// Serialises a set of points for download: ids, labels, cluster and any user-assigned label.
+import { EmbeddingPoint } from './dataset';
+
+// Metadata column written by "Assign label" in the selection panel.
+export const USER_LABEL_COLUMN = 'user_label';
+
+const exportRow = (point: EmbeddingPoint) => ({
+  id: point.id,
+  label: point.label,
+  cluster: point.cluster,
+  [USER_LABEL_COLUMN]: point.metadata[USER_LABEL_COLUMN] ?? null,
+});
+
+export const selectionToJson = (points: EmbeddingPoint[]) => JSON.stringify(points.map(exportRow), null, 2);
+
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const selectionToCsv = (points: EmbeddingPoint[]) => {
+  const header = ['id', 'label', 'cluster', USER_LABEL_COLUMN];
+  const rows = points.map(point => Object.values(exportRow(point)).map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+export const downloadText = (filename: string, mimeType: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,123 @@
+// src/data/spatialGrid.ts
+// Uniform 3D grid over a set of spheres (point position + pick radius), for ray picking
+// without testing every point. Each sphere is filed under every cell its bounding box touches,
+// so a ray only has to visit the cells it passes through (3D DDA), nearest first.
+
+export interface RayHit {
+  index: number;
+  distance: number; // Along the ray, from its origin
+}
+
+export class SpatialGrid {
+  private readonly min: [number, number, number];
+  private readonly cellSize: number;
+  private readonly resolution: [number, number, number];
+  private readonly cellStart: Int32Array; // CSR layout: items of cell c are cellItems[cellStart[c] .. cellStart[c + 1])
+  private readonly cellItems: Int32Array;
+
+  // positions is xyz-interleaved; radii holds one pick radius per point.
+  constructor(private readonly positions: Float32Array, private readonly radii: Float32Array) {
+    const count = radii.length;
+    const min: [number, number, number] = [Infinity, Infinity, Infinity];
+    const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+    let maxRadius = 0;
+    for (let i = 0; i < count; i++) {
+      for (let a = 0; a < 3; a++) {
+        min[a] = Math.min(min[a], positions[i * 3 + a] - radii[i]);
+        max[a] = Math.max(max[a], positions[i * 3 + a] + radii[i]);
+      }
+      maxRadius = Math.max(maxRadius, radii[i]);
+    }
+    if (count === 0) { min.fill(0); max.fill(1); }
+    this.min = min;
+
+    // About four points per cell on average, but never finer than a typical sphere.
+    const extent = [0, 1, 2].map(a => Math.max(max[a] - min[a], 1e-6));
+    const volume = extent[0] * extent[1] * extent[2];
+    this.cellSize = Math.max(Math.cbrt(volume / Math.max(1, count / 4)), maxRadius * 2, 1e-6);
+    this.resolution = [0, 1, 2].map(a => Math.min(256, Math.max(1, Math.ceil(extent[a] / this.cellSize)))) as [number, number, number];
+
+    const cellCount = this.resolution[0] * this.resolution[1] * this.resolution[2];
+    const counts = new Int32Array(cellCount + 1);
+    this.forEachCoveredCell(count, cell => { counts[cell + 1]++; });
+    for (let c = 0; c < cellCount; c++) counts[c + 1] += counts[c];
+    this.cellStart = counts;
+    this.cellItems = new Int32Array(counts[cellCount]);
+    const fill = counts.slice(0, cellCount);
+    this.forEachCoveredCell(count, (cell, i) => { this.cellItems[fill[cell]++] = i; });
+  }
+
+  private cellCoord(value: number, axis: number) {
+    return Math.min(this.resolution[axis] - 1, Math.max(0, Math.floor((value - this.min[axis]) / this.cellSize)));
+  }
+
+  private forEachCoveredCell(count: number, visit: (cell: number, index: number) => void) {
+    const [rx, ry] = this.resolution;
+    for (let i = 0; i < count; i++) {
+      const lo = [0, 1, 2].map(a => this.cellCoord(this.positions[i * 3 + a] - this.radii[i], a));
+      const hi = [0, 1, 2].map(a => this.cellCoord(this.positions[i * 3 + a] + this.radii[i], a));
+      for (let z = lo[2]; z <= hi[2]; z++) {
+        for (let y = lo[1]; y <= hi[1]; y++) {
+          for (let x = lo[0]; x <= hi[0]; x++) visit(x + rx * (y + ry * z), i);
+        }
+      }
+    }
+  }
+
+  // Nearest sphere hit by the ray, or null. direction must be normalised.
+  raycast(origin: [number, number, number], direction: [number, number, number]): RayHit | null {
+    // Clip the ray to the grid's bounding box (slab test).
+    let tEnter = 0, tExit = Infinity;
+    for (let a = 0; a < 3; a++) {
+      const lo = this.min[a], hi = this.min[a] + this.resolution[a] * this.cellSize;
+      if (Math.abs(direction[a]) < 1e-12) {
+        if (origin[a] < lo || origin[a] > hi) return null;
+        continue;
+      }
+      const t1 = (lo - origin[a]) / direction[a], t2 = (hi - origin[a]) / direction[a];
+      tEnter = Math.max(tEnter, Math.min(t1, t2));
+      tExit = Math.min(tExit, Math.max(t1, t2));
+    }
+    if (tEnter > tExit) return null;
+
+    const cell = [0, 1, 2].map(a => this.cellCoord(origin[a] + direction[a] * tEnter, a));
+    const step = direction.map(d => (d > 0 ? 1 : d < 0 ? -1 : 0));
+    const tDelta = direction.map(d => (d !== 0 ? this.cellSize / Math.abs(d) : Infinity));
+    const tNext = [0, 1, 2].map(a => {
+      if (step[a] === 0) return Infinity;
+      const boundary = this.min[a] + (cell[a] + (step[a] > 0 ? 1 : 0)) * this.cellSize;
+      return (boundary - origin[a]) / direction[a];
+    });
+
+    const [rx, ry] = this.resolution;
+    let best: RayHit | null = null;
+    let tCell = tEnter;
+    while (tCell <= tExit) {
+      const c = cell[0] + rx * (cell[1] + ry * cell[2]);
+      for (let k = this.cellStart[c]; k < this.cellStart[c + 1]; k++) {
+        const i = this.cellItems[k];
+        const hit = this.intersect(i, origin, direction);
+        if (hit !== null && (!best || hit < best.distance)) best = { index: i, distance: hit };
+      }
+      // A sphere is filed under the cell where the ray enters it, so nothing in later cells can be nearer.
+      if (best && best.distance <= Math.min(tNext[0], tNext[1], tNext[2])) break;
+      const axis = tNext[0] < tNext[1] ? (tNext[0] < tNext[2] ? 0 : 2) : (tNext[1] < tNext[2] ? 1 : 2);
+      cell[axis] += step[axis];
+      if (cell[axis] < 0 || cell[axis] >= this.resolution[axis]) break;
+      tCell = tNext[axis];
+      tNext[axis] += tDelta[axis];
+    }
+    return best;
+  }
+
+  // Distance along the ray to where it first meets sphere i, or null on a miss.
+  private intersect(i: number, origin: [number, number, number], direction: [number, number, number]) {
+    const ox = this.positions[i * 3] - origin[0], oy = this.positions[i * 3 + 1] - origin[1], oz = this.positions[i * 3 + 2] - origin[2];
+    const along = ox * direction[0] + oy * direction[1] + oz * direction[2];
+    const perp2 = ox * ox + oy * oy + oz * oz - along * along;
+    const r2 = this.radii[i] * this.radii[i];
+    if (perp2 > r2) return null;
+    const t = along - Math.sqrt(r2 - perp2);
+    return t >= 0 ? t : along >= 0 ? 0 : null;
+  }
+}
@@ -0,0 +1,68 @@
+// src/data/useAnimatedDataset.ts
+// Returns the shared dataset with positions eased from wherever each point was last drawn,
+// so a new layout morphs into place instead of jumping. Re-renders only while moving.
+// While a snapshot timeline applies, the positions come from the timeline's clock instead.
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { timelinePositions } from '../snapshots/snapshots';
+import { useSnapshots } from '../snapshots/SnapshotContext';
+import { EmbeddingDataset, Vec3, withPositions } from './dataset';
+import { useDataset } from './DatasetContext';
+
+const TRANSITION_MS = 1200;
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+const samePosition = (a: Vec3, b: Vec3) => a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+
+export const useAnimatedDataset = (): EmbeddingDataset => {
+  const { dataset } = useDataset();
+  const { timeline, active, time } = useSnapshots();
+  const [frame, setFrame] = useState(dataset);
+  const displayedRef = useRef(new Map<string, Vec3>());
+  const timelineFrame = useMemo(
+    () => (active && timeline ? withPositions(dataset, timelinePositions(timeline, time), dataset.layout) : null),
+    [active, timeline, time, dataset],
+  );
+  const lastTimelineFrameRef = useRef<EmbeddingDataset | null>(null);
+  useEffect(() => { if (timelineFrame) lastTimelineFrameRef.current = timelineFrame; }, [timelineFrame]);
+
+  useEffect(() => {
+    if (active) return;
+    // Leaving the timeline morphs from wherever playback left the points.
+    if (lastTimelineFrameRef.current) {
+      displayedRef.current = new Map(lastTimelineFrameRef.current.points.map(p => [p.id, p.position]));
+      lastTimelineFrameRef.current = null;
+    }
+    const record = (shown: EmbeddingDataset) => {
+      displayedRef.current = new Map(shown.points.map(p => [p.id, p.position]));
+      setFrame(shown);
+    };
+    const starts = dataset.points.map(p => displayedRef.current.get(p.id));
+    const moves = starts.some((start, i) => start && !samePosition(start, dataset.points[i].position));
+    if (!moves) {
+      record(dataset);
+      return;
+    }
+
+    let frameId = 0;
+    const startTime = performance.now();
+    const tick = (now: number) => {
+      const t = Math.min(1, (now - startTime) / TRANSITION_MS);
+      if (t >= 1) {
+        record(dataset);
+        return;
+      }
+      const e = easeInOutCubic(t);
+      record(withPositions(dataset, dataset.points.map((p, i) => {
+        const start = starts[i];
+        if (!start) return p.position;
+        return [0, 1, 2].map(axis => start[axis] + (p.position[axis] - start[axis]) * e) as Vec3;
+      }), dataset.layout));
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [dataset, active]);
+
+  return timelineFrame ?? frame;
+};
@@ -0,0 +1,61 @@
+// src/data/useJobSequence.ts
+// React wrapper for builds that run several worker jobs one after another: one build at a time,
+// progress and error state, and cancellation on unmount. A build that has been cancelled or
+// replaced stops at its next step instead of finishing.
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { JobStatus } from './useWorkerJob';
+import { JobCancelledError, startWorkerJob, WorkerJob } from './workerJob';
+
+// What a build's steps get to run jobs and report progress with.
+export interface JobSequence {
+  // Runs one job and resolves with its result; label turns the worker's stage into the one shown.
+  runJob: <Req, T>(createWorker: () => Worker, request: Req, label: (stage: string) => string) => Promise<T>;
+  setStatus: (status: JobStatus) => void;
+}
+
+export const useJobSequence = () => {
+  const jobRef = useRef<WorkerJob<unknown> | null>(null);
+  const runRef = useRef(0); // Bumped by cancel and by each new build, so a stale build stops at its next step
+  const [status, setStatus] = useState<JobStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const cancel = useCallback(() => {
+    runRef.current++;
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setStatus(null);
+  }, []);
+  useEffect(() => cancel, [cancel]);
+
+  // Cancels any running build and runs steps as the new one.
+  const start = useCallback(async (steps: (sequence: JobSequence) => Promise<void>) => {
+    cancel();
+    const run = runRef.current;
+    setError(null);
+    const sequence: JobSequence = {
+      runJob: async <Req, T>(createWorker: () => Worker, request: Req, label: (stage: string) => string) => {
+        setStatus({ stage: label('Starting'), progress: 0 });
+        const job = startWorkerJob<Req, T>(createWorker, request, (stage, progress) => setStatus({ stage: label(stage), progress }));
+        jobRef.current = job;
+        const result = await job.promise;
+        if (run !== runRef.current) throw new JobCancelledError();
+        return result;
+      },
+      setStatus: next => {
+        if (run === runRef.current) setStatus(next);
+      },
+    };
+    try {
+      await steps(sequence);
+    } catch (e) {
+      if (!(e instanceof JobCancelledError) && run === runRef.current) setError((e as Error).message);
+    } finally {
+      if (run === runRef.current) {
+        jobRef.current = null;
+        setStatus(null);
+      }
+    }
+  }, [cancel]);
+
+  return { start, cancel, status, error };
+};
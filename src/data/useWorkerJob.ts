@@ -0,0 +1,43 @@
+// src/data/useWorkerJob.ts
+// React wrapper around startWorkerJob: one job at a time, progress and error state,
+// and cancellation on unmount.
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { JobCancelledError, startWorkerJob, WorkerJob } from './workerJob';
+
+export interface JobStatus {
+  stage: string;
+  progress: number;
+}
+
+export const useWorkerJob = <Req, T>(createWorker: () => Worker) => {
+  const jobRef = useRef<WorkerJob<T> | null>(null);
+  const [status, setStatus] = useState<JobStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const cancel = useCallback(() => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setStatus(null);
+  }, []);
+
+  // Starts a job (cancelling any running one) and hands its result to onResult.
+  const start = useCallback((request: Req, onResult: (result: T) => void) => {
+    jobRef.current?.cancel();
+    setError(null);
+    setStatus({ stage: 'Starting', progress: 0 });
+    const job = startWorkerJob<Req, T>(createWorker, request, (stage, progress) => setStatus({ stage, progress }));
+    jobRef.current = job;
+    job.promise.then(onResult).catch(e => {
+      if (!(e instanceof JobCancelledError)) setError(e.message);
+    }).finally(() => {
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setStatus(null);
+      }
+    });
+  }, [createWorker]);
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  return { start, cancel, status, error };
+};
@@ -0,0 +1,66 @@
+// src/data/workerJob.ts
+// Shared protocol for the analysis workers: each job gets a fresh worker that streams
+// progress messages and finishes with exactly one result or error.
+
+export type WorkerResponse<T> =
+  | { type: 'progress'; stage: string; progress: number } // progress in 0..1
+  | { type: 'result'; result: T }
+  | { type: 'error'; message: string };
+
+export type ProgressCallback = (stage: string, progress: number) => void;
+
+export interface WorkerJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const startWorkerJob = <Req, T>(
+  createWorker: () => Worker,
+  request: Req,
+  onProgress?: ProgressCallback,
+): WorkerJob<T> => {
+  const worker = createWorker();
+  let rejectJob: (e: Error) => void = () => {};
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectJob = reject;
+    worker.onmessage = (event: MessageEvent<WorkerResponse<T>>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.stage, message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'Worker failed to start.'));
+    };
+  });
+  worker.postMessage(request);
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectJob(new JobCancelledError());
+    },
+  };
+};
+
+// Worker-side helpers.
+export const postProgress = (stage: string, progress: number) =>
+  self.postMessage({ type: 'progress', stage, progress } satisfies WorkerResponse<never>);
+
+export const postResult = <T>(result: T, transfer: Transferable[] = []) =>
+  self.postMessage({ type: 'result', result } satisfies WorkerResponse<T>, { transfer });
+
+export const postError = (e: unknown) =>
+  self.postMessage({ type: 'error', message: (e as Error).message ?? String(e) } satisfies WorkerResponse<never>);
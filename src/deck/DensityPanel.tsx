@@ -0,0 +1,62 @@
+// src/deck/DensityPanel.tsx
+// Which of the deck.gl scene's layers are drawn: the points and kNN paths, and the density views
+// over them (see densityLayers.ts). Sits in the scene's top-left corner.
+import React from 'react';
+import { inputStyle, panelStyle, rowStyle } from '../components/panelStyles';
+import { ColumnInfo } from '../data/dataset';
+import { CellShape, DensityOptions, MAX_CELL_SIZE, MIN_CELL_SIZE } from './densityLayers';
+
+interface DensityPanelProps {
+  options: DensityOptions;
+  onChange: React.Dispatch<React.SetStateAction<DensityOptions>>;
+  columns: ColumnInfo[];
+}
+
+const DensityPanel: React.FC<DensityPanelProps> = ({ options, onChange, columns }) => {
+  const update = (patch: Partial<DensityOptions>) => onChange(o => ({ ...o, ...patch }));
+  const numericColumns = columns.filter(c => c.kind === 'numeric');
+  // A column the current dataset lacks counts points instead.
+  const cellColumn = numericColumns.some(c => c.name === options.cellColumn) ? options.cellColumn : null;
+  const toggle = (key: 'points' | 'edges' | 'heatmap' | 'contours', label: string) => (
+    <label style={rowStyle}>
+      {label}
+      <input type="checkbox" checked={options[key]} onChange={e => update({ [key]: e.target.checked })} />
+    </label>
+  );
+
+  return (
+    <div style={{ ...panelStyle, position: 'absolute', top: '10px', left: '10px', zIndex: 5, display: 'flex', flexDirection: 'column', gap: '4px', minWidth: '190px' }}>
+      <b>Layers</b>
+      {toggle('points', 'Points')}
+      {toggle('edges', 'Neighbour paths')}
+      {toggle('heatmap', 'Heatmap')}
+      <label style={rowStyle}>
+        Cells
+        <select value={options.cells ?? ''} style={inputStyle} onChange={e => update({ cells: (e.target.value || null) as CellShape | null })}>
+          <option value="">Off</option>
+          <option value="hexagon">Hexagons</option>
+          <option value="grid">Grid</option>
+        </select>
+      </label>
+      {options.cells && (
+        <label style={rowStyle}>
+          Colour by
+          <select value={cellColumn ?? ''} style={inputStyle} onChange={e => update({ cellColumn: e.target.value || null })}>
+            <option value="">Count</option>
+            {numericColumns.map(c => <option key={c.name} value={c.name}>Mean {c.name}</option>)}
+          </select>
+        </label>
+      )}
+      {toggle('contours', 'Cluster contours')}
+      {(options.cells || options.contours) && (
+        <label style={rowStyle}>
+          Cell size
+          <input type="range" min={MIN_CELL_SIZE} max={MAX_CELL_SIZE} step={0.5} value={options.cellSize}
+            onChange={e => update({ cellSize: Number(e.target.value) })} />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default DensityPanel;
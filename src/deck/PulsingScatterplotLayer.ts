@@ -0,0 +1,67 @@
+// src/deck/PulsingScatterplotLayer.ts
+// ScatterplotLayer whose circles breathe in and out on the GPU: each point's radius is scaled by
+// a sine of a shared clock plus its own phase, so the animation costs one uniform per frame
+// instead of recomputing every radius (and rebuilding the layer) 60 times a second.
+import type { Accessor, DefaultProps } from '@deck.gl/core';
+import { ScatterplotLayer, ScatterplotLayerProps } from '@deck.gl/layers';
+
+type PulseProps = { phase: number; amplitude: number };
+
+const pulseModule = {
+  name: 'pulse',
+  vs: /* glsl */ `\
+uniform pulseUniforms {
+  float phase;
+  float amplitude;
+} pulse;
+in float instancePhases;
+`,
+  inject: {
+    // Scales the circle's quad; the fragment shader draws the disc and its stroke in unit space, so both follow.
+    'vs:DECKGL_FILTER_SIZE': /* glsl */ `
+    size *= 1.0 + sin(pulse.phase + instancePhases) * pulse.amplitude;
+  `,
+  },
+  uniformTypes: { phase: 'f32', amplitude: 'f32' },
+};
+
+type PulsingProps<D> = {
+  getPhase?: Accessor<D, number>; // Radians; spreads the points out over the cycle
+  pulseSpeed?: number; // Radians per second
+  pulseAmplitude?: number; // Fraction of the radius; 0 stops the animation
+};
+
+// Deck merges these over ScatterplotLayer's own.
+const defaultProps: DefaultProps<ScatterplotLayerProps & PulsingProps<unknown>> = {
+  getPhase: { type: 'accessor', value: 0 },
+  pulseSpeed: { type: 'number', value: 4 },
+  pulseAmplitude: { type: 'number', value: 0.15 },
+};
+
+export class PulsingScatterplotLayer<D = unknown> extends ScatterplotLayer<D, PulsingProps<D>> {
+  static layerName = 'PulsingScatterplotLayer';
+  static defaultProps = defaultProps;
+
+  getShaders() {
+    const shaders = super.getShaders();
+    return { ...shaders, modules: [...shaders.modules, pulseModule] };
+  }
+
+  initializeState() {
+    super.initializeState();
+    this.getAttributeManager()!.addInstanced({
+      instancePhases: { size: 1, accessor: 'getPhase', defaultValue: 0 },
+    });
+  }
+
+  draw(params: Parameters<ScatterplotLayer['draw']>[0]) {
+    const { pulseSpeed, pulseAmplitude } = this.props;
+    // Wrapped to one cycle so the float32 uniform keeps its precision however long the page is open.
+    const phase = (performance.now() / 1000 * pulseSpeed!) % (Math.PI * 2);
+    const pulse: PulseProps = { phase, amplitude: pulseAmplitude! };
+    this.state.model?.shaderInputs.setProps({ pulse });
+    super.draw(params);
+    // Deck draws only on demand; asking again each frame keeps the pulse going.
+    if (pulseAmplitude! > 0) this.setNeedsRedraw();
+  }
+}
@@ -0,0 +1,145 @@
+// src/deck/densityLayers.ts
+// Density views over the projected embeddings, for corpora where individual dots turn to noise:
+// a heatmap (a Gaussian kernel in screen pixels), hexagon or square cells coloured by how many
+// points they hold or by the mean of a numeric column, and density contours per cluster. They
+// all lie on the x–y plane, so a 3D layout's density is its footprint seen from above.
+import { ContourLayer, GridLayer, HeatmapLayer, HexagonLayer } from '@deck.gl/aggregation-layers';
+import { Color, PickingInfo } from '@deck.gl/core';
+import { COLOR_MAPS } from '../data/colorMaps';
+import { EmbeddingDataset, getColumn, NOISE_CLUSTER, Vec3 } from '../data/dataset';
+import { ClusterSwatch, ColorRamp } from '../data/palette';
+import { clusterSwatches } from '../data/PointColorContext';
+
+export type CellShape = 'hexagon' | 'grid';
+
+export interface DensityOptions {
+  points: boolean; // The embedding-geysers scatterplot
+  edges: boolean; // The energy-streams kNN paths
+  heatmap: boolean;
+  cells: CellShape | null;
+  cellColumn: string | null; // Numeric column whose mean colours the cells; null = point count
+  contours: boolean;
+  cellSize: number; // World units, for the cells and the contours' grid
+}
+
+export const DEFAULT_DENSITY: DensityOptions = {
+  points: true, edges: true, heatmap: false, cells: null, cellColumn: null, contours: false, cellSize: 4,
+};
+
+export const MIN_CELL_SIZE = 1;
+export const MAX_CELL_SIZE = 15;
+
+export interface DensityPoint {
+  position: Vec3; // On the x–y plane
+  cluster: number;
+  swatch: ClusterSwatch; // As the point is drawn, from the active encoding
+  value: number; // In the cell column; NaN without one or where the point has no value
+}
+
+// What a hovered cell shows in the tooltip.
+export interface CellHover { x: number; y: number; count: number; mean: number | null; column: string | null; }
+
+const RANGE_STEPS = 6;
+const CONTOUR_LEVELS = [0.15, 0.4, 0.7]; // Fractions of the cluster's densest cell
+const HEX_RADIUS_PER_CELL = 0.62; // A hexagon of this radius has the area of a cellSize square
+
+const colorRange = (ramp: ColorRamp): Color[] => Array.from({ length: RANGE_STEPS }, (_, i) => ramp(i / (RANGE_STEPS - 1)));
+
+// Points that pass the filter, flattened onto the plane; drawn holds the scene's points, in dataset order.
+export const toDensityPoints = (
+  dataset: EmbeddingDataset, drawn: { position: Vec3; swatch: ClusterSwatch }[], mask: Uint8Array | null, column: string | null,
+): DensityPoint[] => {
+  const info = column !== null ? getColumn(dataset, column) : undefined;
+  const numeric = info?.kind === 'numeric' ? info.name : null;
+  const points: DensityPoint[] = [];
+  dataset.points.forEach((point, i) => {
+    if (mask && !mask[i]) return;
+    const value = numeric !== null ? point.metadata[numeric] : undefined;
+    points.push({
+      position: [drawn[i].position[0], drawn[i].position[1], 0],
+      cluster: point.cluster,
+      swatch: drawn[i].swatch,
+      value: typeof value === 'number' && Number.isFinite(value) ? value : NaN,
+    });
+  });
+  return points;
+};
+
+// Contour levels for one cluster, as fractions of its densest cell on a cellSize grid (the
+// layer's own grid is aligned differently, so this is close rather than exact).
+const contourLevels = (points: DensityPoint[], cellSize: number): number[] => {
+  const counts = new Map<string, number>();
+  let densest = 0;
+  points.forEach(({ position: [x, y] }) => {
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+    densest = Math.max(densest, count);
+  });
+  return [...new Set(CONTOUR_LEVELS.map(level => Math.max(1, Math.round(densest * level))))];
+};
+
+export const densityLayers = (
+  dataset: EmbeddingDataset, points: DensityPoint[], options: DensityOptions, onCellHover: (hover: CellHover | null) => void,
+) => {
+  const { heatmap, cells, cellColumn, contours, cellSize } = options;
+  const getPosition = (d: DensityPoint) => d.position;
+  const layers = [];
+
+  if (heatmap) {
+    layers.push(new HeatmapLayer<DensityPoint>({
+      id: 'density-heatmap', data: points, getPosition, getWeight: 1,
+      radiusPixels: 40, intensity: 1, threshold: 0.05,
+      colorRange: colorRange(COLOR_MAPS.magma.ramp),
+    }));
+  }
+
+  if (cells) {
+    const info = cellColumn !== null ? getColumn(dataset, cellColumn) : undefined;
+    const column = info?.kind === 'numeric' ? info : null;
+    // A diverging map over a column that straddles zero keeps zero on its neutral middle.
+    const centred = column !== null && column.min < 0 && column.max > 0;
+    const extent = column ? Math.max(-column.min, column.max) : 0;
+    const common = {
+      // Averaging a column leaves out the points that have no value in it.
+      data: column ? points.filter(d => !Number.isNaN(d.value)) : points,
+      getPosition,
+      getColorWeight: column ? (d: DensityPoint) => d.value : 1,
+      colorAggregation: column ? 'MEAN' as const : 'SUM' as const,
+      colorRange: colorRange((centred ? COLOR_MAPS.diverging : COLOR_MAPS.viridis).ramp),
+      colorScaleType: column ? 'linear' as const : 'quantize' as const,
+      colorDomain: centred ? [-extent, extent] as [number, number] : null,
+      extruded: false, coverage: 0.92, opacity: 0.6,
+      pickable: true,
+      onHover: ({ object, x, y }: PickingInfo) => {
+        onCellHover(object ? { x, y, count: object.count, mean: column ? object.colorValue : null, column: column?.name ?? null } : null);
+        return false; // Not consumed; deck's own hover handling goes on
+      },
+    };
+    layers.push(cells === 'hexagon'
+      ? new HexagonLayer<DensityPoint>({ id: 'density-hexagons', radius: cellSize * HEX_RADIUS_PER_CELL, ...common })
+      : new GridLayer<DensityPoint>({ id: 'density-grid', cellSize, ...common }));
+  }
+
+  if (contours) {
+    const byCluster = new Map<number, DensityPoint[]>();
+    points.forEach(point => {
+      if (point.cluster === NOISE_CLUSTER) return;
+      const members = byCluster.get(point.cluster) ?? [];
+      members.push(point);
+      byCluster.set(point.cluster, members);
+    });
+    const swatches = clusterSwatches(points);
+    byCluster.forEach((members, cluster) => {
+      const { secondary } = swatches.get(cluster)!;
+      layers.push(new ContourLayer<DensityPoint>({
+        id: `density-contours-${cluster}`, data: members, getPosition, getWeight: 1, cellSize,
+        contours: contourLevels(members, cellSize).map((threshold, i) => ({
+          threshold, color: [...secondary, 120 + i * 60] as Color, strokeWidth: 1 + i,
+        })),
+      }));
+    });
+  }
+
+  return layers;
+};
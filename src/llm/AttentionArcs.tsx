@@ -0,0 +1,152 @@
+// src/llm/AttentionArcs.tsx
+// Tokens laid out left to right with an arc from each query token back to every key it attends
+// to, drawn with deck.gl path layers in a pan/zoom orthographic view. Arc width and opacity
+// follow the weight relative to the matrix maximum.
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import DeckGL from '@deck.gl/react';
+import { OrthographicView } from '@deck.gl/core';
+import { PathLayer, ScatterplotLayer, TextLayer } from '@deck.gl/layers';
+import { panelStyle } from '../components/panelStyles';
+
+const TOKEN_SPACING = 40;
+const ARC_SEGMENTS = 24;
+const QUERY_COLOR: [number, number, number] = [255, 210, 122]; // Arcs out of the focused token
+const KEY_COLOR: [number, number, number] = [130, 190, 255]; // Arcs into it
+const ARC_COLOR: [number, number, number] = [190, 170, 255];
+
+interface AttentionArc { query: number; key: number; weight: number; path: [number, number][]; }
+
+const tokenX = (index: number) => index * TOKEN_SPACING;
+
+// A half-sine arch above the token row, taller for longer-range attention; a token attending to
+// itself gets a small loop. The view's y axis points down, so "above" is negative y.
+const arcPath = (query: number, key: number): [number, number][] => {
+  const from = tokenX(key), to = tokenX(query);
+  return Array.from({ length: ARC_SEGMENTS + 1 }, (_, s) => {
+    const t = s / ARC_SEGMENTS;
+    if (from === to) return [from + Math.sin(2 * Math.PI * t) * 6, -(1 - Math.cos(2 * Math.PI * t)) * 8];
+    return [from + (to - from) * t, -Math.sin(Math.PI * t) * Math.abs(to - from) * 0.4];
+  });
+};
+
+interface AttentionArcsProps {
+  tokens: string[];
+  matrix: Float32Array; // T×T, row = query
+  scale: number; // Weight drawn at full strength
+  minWeight: number; // Fraction of `scale` below which arcs are hidden
+  focusToken: number | null;
+  onFocusToken: (index: number | null) => void;
+  onError: (error: Error) => void;
+}
+
+const AttentionArcs: React.FC<AttentionArcsProps> = ({ tokens, matrix, scale, minWeight, focusToken, onFocusToken, onError }) => {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hover, setHover] = useState<{ x: number; y: number; text: string } | null>(null);
+  const T = tokens.length;
+
+  // The host changes width with the window and with the panels beside it.
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!host) return;
+    const observer = new ResizeObserver(() => setWidth(host.clientWidth));
+    observer.observe(host);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit the token row on load and whenever a different prompt is shown; after that the view is
+  // the user's, so later resizes don't refit it.
+  const widthRef = useRef(width);
+  widthRef.current = width;
+  const measured = width > 0;
+  const initialViewState = useMemo(() => {
+    const end = tokenX(tokens.length - 1);
+    return {
+      attention: {
+        target: [end / 2, -end / 8, 0] as [number, number, number],
+        zoom: Math.log2(Math.max(widthRef.current, 200) * 0.9 / Math.max(end, TOKEN_SPACING)),
+        minZoom: -8, maxZoom: 6,
+      },
+    };
+  }, [tokens, measured]);
+
+  const arcs = useMemo(() => {
+    const threshold = minWeight * scale;
+    const out: AttentionArc[] = [];
+    for (let query = 0; query < T; query++) {
+      for (let key = 0; key < T; key++) {
+        const weight = matrix[query * T + key];
+        if (weight <= 0 || weight < threshold) continue;
+        if (focusToken !== null && query !== focusToken && key !== focusToken) continue;
+        out.push({ query, key, weight, path: arcPath(query, key) });
+      }
+    }
+    return out.sort((a, b) => a.weight - b.weight); // Strongest drawn last, on top
+  }, [matrix, T, scale, minWeight, focusToken]);
+
+  const nodes = useMemo(() => tokens.map((token, index) => ({ token, index, position: [tokenX(index), 0] as [number, number] })), [tokens]);
+
+  const layers = useMemo(() => [
+    new PathLayer<AttentionArc>({
+      id: 'attention-arcs',
+      data: arcs,
+      getPath: d => d.path,
+      getColor: d => {
+        const base = focusToken === null ? ARC_COLOR : d.query === focusToken ? QUERY_COLOR : KEY_COLOR;
+        return [...base, 40 + Math.min(1, d.weight / scale) * 215];
+      },
+      getWidth: d => 0.5 + Math.min(1, d.weight / scale) * 5,
+      widthUnits: 'pixels',
+      capRounded: true, jointRounded: true,
+      pickable: true,
+      onHover: info => setHover(info.object
+        ? { x: info.x, y: info.y, text: `${JSON.stringify(tokens[info.object.query])} → ${JSON.stringify(tokens[info.object.key])}: ${info.object.weight.toFixed(3)}` }
+        : null),
+      updateTriggers: { getColor: [focusToken, scale], getWidth: [scale] },
+    }),
+    new ScatterplotLayer<typeof nodes[number]>({
+      id: 'attention-tokens',
+      data: nodes,
+      getPosition: d => d.position,
+      getRadius: d => (d.index === focusToken ? 7 : 5),
+      radiusUnits: 'pixels',
+      getFillColor: d => (d.index === focusToken ? [...QUERY_COLOR, 255] : [200, 190, 255, 230]),
+      stroked: true, getLineColor: [20, 10, 40, 255], lineWidthMinPixels: 1,
+      pickable: true,
+      onHover: info => setHover(info.object ? { x: info.x, y: info.y, text: `#${info.object.index} ${JSON.stringify(info.object.token)}` } : null),
+      onClick: info => onFocusToken(info.object && info.object.index !== focusToken ? info.object.index : null),
+      updateTriggers: { getRadius: [focusToken], getFillColor: [focusToken] },
+    }),
+    new TextLayer<typeof nodes[number]>({
+      id: 'attention-labels',
+      data: nodes,
+      getPosition: d => [d.position[0], d.position[1] + 10],
+      getText: d => d.token,
+      getAngle: 90, // Reads upwards, hanging below the token row
+      getTextAnchor: 'end',
+      getAlignmentBaseline: 'center',
+      getSize: 12,
+      getColor: d => (d.index === focusToken ? [...QUERY_COLOR, 255] : [224, 220, 255, 255]),
+      characterSet: 'auto', // Tokenizer output is full of non-ASCII (Ġ, ▁, CJK, emoji)
+      updateTriggers: { getColor: [focusToken] },
+    }),
+  ], [arcs, nodes, tokens, scale, focusToken, onFocusToken]);
+
+  const views = useMemo(() => [new OrthographicView({ id: 'attention' })], []);
+
+  return (
+    <div ref={hostRef} style={{ position: 'relative', width: '100%', height: '100%' }}>
+      {width > 0 && (
+        <DeckGL views={views} initialViewState={initialViewState} controller layers={layers}
+          onClick={info => { if (!info.object) onFocusToken(null); }} onError={onError} />
+      )}
+      {hover && (
+        <div style={{ ...panelStyle, position: 'absolute', left: hover.x + 10, top: hover.y + 10, pointerEvents: 'none', whiteSpace: 'nowrap' }}>
+          {hover.text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttentionArcs;
@@ -0,0 +1,121 @@
+// src/llm/AttentionMatrix.tsx
+// The same attention matrix as a heatmap on a 2D canvas: one row per query token, one column per
+// key token. Needs no GPU, so it also stands in when deck.gl cannot start.
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { RGB } from '../data/palette';
+import { panelStyle } from '../components/panelStyles';
+
+const LABELLED_TOKEN_LIMIT = 80; // Above this the axis labels would overlap
+const LABEL_MARGIN = 90;
+const PLAIN_MARGIN = 16;
+
+// Dark violet through purple to the gold used for the focused token elsewhere.
+const RAMP: RGB[] = [[14, 10, 30], [120, 60, 200], [255, 210, 122]];
+export const rampColor = (t: number): RGB => {
+  const x = Math.min(1, Math.max(0, t)) * (RAMP.length - 1);
+  const i = Math.min(Math.floor(x), RAMP.length - 2), f = x - i;
+  return RAMP[i].map((c, channel) => Math.round(c + (RAMP[i + 1][channel] - c) * f)) as RGB;
+};
+
+interface AttentionMatrixProps {
+  tokens: string[];
+  matrix: Float32Array; // T×T, row = query
+  scale: number; // Weight drawn at full brightness
+  focusToken: number | null;
+  onFocusToken: (index: number | null) => void;
+}
+
+const AttentionMatrix: React.FC<AttentionMatrixProps> = ({ tokens, matrix, scale, focusToken, onFocusToken }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hover, setHover] = useState<{ x: number; y: number; query: number; key: number } | null>(null);
+  const T = tokens.length;
+  const margin = T <= LABELLED_TOKEN_LIMIT ? LABEL_MARGIN : PLAIN_MARGIN;
+
+  // The heatmap at one pixel per cell; drawn scaled up without smoothing.
+  const image = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = T;
+    canvas.height = T;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+    const pixels = ctx.createImageData(T, T);
+    for (let i = 0; i < T * T; i++) {
+      const [r, g, b] = rampColor(scale > 0 ? matrix[i] / scale : 0);
+      pixels.data.set([r, g, b, 255], i * 4);
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  }, [matrix, scale, T]);
+
+  const cellSize = useCallback((width: number, height: number) => Math.max(0, Math.min(width, height) - margin - PLAIN_MARGIN) / T, [margin, T]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const { width, height } = canvas.getBoundingClientRect();
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      const cell = cellSize(width, height);
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(image, margin, margin, cell * T, cell * T);
+
+      if (T <= LABELLED_TOKEN_LIMIT) {
+        ctx.font = `${Math.min(12, Math.max(8, cell * 0.8))}px Arial, sans-serif`;
+        ctx.textBaseline = 'middle';
+        tokens.forEach((token, i) => {
+          ctx.fillStyle = i === focusToken ? '#ffd27a' : '#d8d2ff';
+          ctx.textAlign = 'right';
+          ctx.fillText(token, margin - 4, margin + (i + 0.5) * cell, margin - 6); // Query axis
+          ctx.save();
+          ctx.translate(margin + (i + 0.5) * cell, margin - 4);
+          ctx.rotate(-Math.PI / 2);
+          ctx.textAlign = 'left';
+          ctx.fillText(token, 0, 0, margin - 6); // Key axis
+          ctx.restore();
+        });
+      }
+      if (focusToken !== null) {
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = '#ffd27a';
+        ctx.strokeRect(margin, margin + focusToken * cell, cell * T, cell); // What it attends to
+        ctx.strokeStyle = '#82beff';
+        ctx.strokeRect(margin + focusToken * cell, margin, cell, cell * T); // What attends to it
+      }
+    };
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [image, tokens, focusToken, margin, cellSize, T]);
+
+  const cellAt = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left, y = event.clientY - rect.top;
+    const cell = cellSize(rect.width, rect.height);
+    const key = Math.floor((x - margin) / cell), query = Math.floor((y - margin) / cell);
+    return cell > 0 && key >= 0 && key < T && query >= 0 && query < T ? { x, y, query, key } : null;
+  };
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <canvas ref={canvasRef} style={{ width: '100%', height: '100%', display: 'block', cursor: 'crosshair' }}
+        onMouseMove={e => setHover(cellAt(e))} onMouseLeave={() => setHover(null)}
+        onClick={e => {
+          const cell = cellAt(e);
+          onFocusToken(cell && cell.query !== focusToken ? cell.query : null);
+        }} />
+      {hover && (
+        <div style={{ ...panelStyle, position: 'absolute', left: hover.x + 12, top: hover.y + 12, pointerEvents: 'none', whiteSpace: 'nowrap' }}>
+          {JSON.stringify(tokens[hover.query])} → {JSON.stringify(tokens[hover.key])}: {matrix[hover.query * T + hover.key].toFixed(4)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttentionMatrix;
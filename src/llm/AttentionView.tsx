@@ -0,0 +1,122 @@
+// src/llm/AttentionView.tsx
+// Attention-pattern visualizer: pick a layer and a head (or an aggregate over heads), then read
+// the pattern as arcs between tokens or as a query × key heatmap. Clicking a token focuses it in
+// both views: gold for what it attends to, blue for what attends to it.
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { buttonStyle, inputStyle, panelStyle, rowStyle } from '../components/panelStyles';
+import { ATTENTION_EXTENSIONS, loadAttentionFiles } from '../loaders/attention';
+import { probeCapabilities } from '../shell/capabilities';
+import { ATTENTION_MODE_LABELS, AttentionMode, attentionMatrix, matrixMax } from './attention';
+import AttentionArcs from './AttentionArcs';
+import AttentionMatrix from './AttentionMatrix';
+import { useLlm } from './LlmContext';
+
+type AttentionDisplay = 'arcs' | 'matrix';
+
+const AttentionView: React.FC = () => {
+  const { attention, setAttention } = useLlm();
+  const [mode, setMode] = useState<AttentionMode>('mean');
+  const [layerChoice, setLayer] = useState(0);
+  const [headChoice, setHead] = useState(0);
+  const [minWeight, setMinWeight] = useState(0.1);
+  const [display, setDisplay] = useState<AttentionDisplay>('arcs');
+  const [focusToken, setFocusToken] = useState<number | null>(null);
+  const [arcsUnavailable, setArcsUnavailable] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // The arcs need deck.gl, which needs WebGL 2; the heatmap is plain canvas.
+  useEffect(() => {
+    let live = true;
+    probeCapabilities().then(c => { if (live && !c.webgl2) setArcsUnavailable('WebGL 2 is not available'); });
+    return () => { live = false; };
+  }, []);
+
+  useEffect(() => setFocusToken(null), [attention]);
+
+  const layer = Math.min(layerChoice, attention.layers - 1);
+  const head = Math.min(headChoice, attention.heads - 1);
+  const matrix = useMemo(() => attentionMatrix(attention, layer, mode, head), [attention, layer, mode, head]);
+  const scale = useMemo(() => matrixMax(matrix), [matrix]);
+  const shown = arcsUnavailable ? 'matrix' : display;
+
+  const loadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setAttention(await loadAttentionFiles(files));
+    } catch (e) {
+      setLoadError((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%', background: '#08060F' }}
+      onDragOver={e => e.preventDefault()}
+      onDrop={e => { e.preventDefault(); loadFiles(Array.from(e.dataTransfer.files)); }}>
+      {shown === 'arcs'
+        ? <AttentionArcs tokens={attention.tokens} matrix={matrix} scale={scale} minWeight={minWeight}
+            focusToken={focusToken} onFocusToken={setFocusToken} onError={e => setArcsUnavailable(e.message)} />
+        : <AttentionMatrix tokens={attention.tokens} matrix={matrix} scale={scale} focusToken={focusToken} onFocusToken={setFocusToken} />}
+
+      <div style={{ ...panelStyle, position: 'absolute', top: '10px', right: '10px', width: '250px', display: 'flex', flexDirection: 'column', gap: '6px', zIndex: 1 }}>
+        <b>Attention</b>
+        <span>
+          {attention.name} — {attention.tokens.length} tokens, {attention.layers} layers × {attention.heads} heads
+        </span>
+        <button style={buttonStyle} disabled={isLoading} onClick={() => inputRef.current?.click()}>
+          {isLoading ? 'Loading…' : 'Load attention…'}
+        </button>
+        <input ref={inputRef} type="file" multiple accept={ATTENTION_EXTENSIONS.join(',')} style={{ display: 'none' }}
+          onChange={e => { loadFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+        {loadError && <span style={{ color: '#ff8a8a' }}>{loadError}</span>}
+
+        <label style={rowStyle}>
+          Heads
+          <select value={mode} style={inputStyle} onChange={e => setMode(e.target.value as AttentionMode)}>
+            {(Object.keys(ATTENTION_MODE_LABELS) as AttentionMode[]).map(m => <option key={m} value={m}>{ATTENTION_MODE_LABELS[m]}</option>)}
+          </select>
+        </label>
+        <label style={rowStyle}>
+          Layer {layer}
+          <input type="range" min={0} max={attention.layers - 1} value={layer} onChange={e => setLayer(Number(e.target.value))} />
+        </label>
+        {mode === 'head' && (
+          <label style={rowStyle}>
+            Head {head}
+            <input type="range" min={0} max={attention.heads - 1} value={head} onChange={e => setHead(Number(e.target.value))} />
+          </label>
+        )}
+        {mode === 'rollout' && <span style={{ opacity: 0.7 }}>Attention flow through layers 0–{layer}, counting the residual stream.</span>}
+
+        <div style={{ display: 'flex', gap: '4px' }}>
+          {(['arcs', 'matrix'] as AttentionDisplay[]).map(d => (
+            <button key={d} style={{ ...buttonStyle, flex: 1, opacity: shown === d ? 1 : 0.6 }}
+              disabled={d === 'arcs' && arcsUnavailable !== null} onClick={() => setDisplay(d)}>
+              {d === 'arcs' ? 'Arcs' : 'Heatmap'}
+            </button>
+          ))}
+        </div>
+        {arcsUnavailable && <span style={{ opacity: 0.7 }}>Arcs unavailable ({arcsUnavailable}); showing the heatmap.</span>}
+        {shown === 'arcs' && (
+          <label style={rowStyle}>
+            Hide below {Math.round(minWeight * 100)}%
+            <input type="range" min={0} max={0.9} step={0.01} value={minWeight} onChange={e => setMinWeight(Number(e.target.value))} />
+          </label>
+        )}
+        {focusToken !== null && (
+          <div style={rowStyle}>
+            <span>Focused: #{focusToken} {JSON.stringify(attention.tokens[focusToken])}</span>
+            <button style={buttonStyle} onClick={() => setFocusToken(null)}>Clear</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttentionView;
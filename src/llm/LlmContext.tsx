@@ -0,0 +1,37 @@
+// src/llm/LlmContext.tsx
+// Model internals loaded for the LLM views. Kept above the router so switching views, or over to
+// an embedding engine and back, does not drop a dump that took a while to load.
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { AttentionTensor } from './attention';
+import { HiddenStates } from './hiddenStates';
+import { Unembedding } from './logitLens';
+import { SAMPLE_ATTENTION } from './sampleAttention';
+import { SAMPLE_HIDDEN_STATES, SAMPLE_UNEMBEDDING } from './sampleHiddenStates';
+
+interface LlmContextValue {
+  attention: AttentionTensor;
+  setAttention: (attention: AttentionTensor) => void;
+  hiddenStates: HiddenStates;
+  setHiddenStates: (hiddenStates: HiddenStates) => void;
+  unembedding: Unembedding;
+  setUnembedding: (unembedding: Unembedding) => void;
+}
+
+const LlmContext = createContext<LlmContextValue>({
+  attention: SAMPLE_ATTENTION,
+  setAttention: () => {},
+  hiddenStates: SAMPLE_HIDDEN_STATES,
+  setHiddenStates: () => {},
+  unembedding: SAMPLE_UNEMBEDDING,
+  setUnembedding: () => {},
+});
+
+export const LlmProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [attention, setAttention] = useState<AttentionTensor>(SAMPLE_ATTENTION);
+  const [hiddenStates, setHiddenStates] = useState<HiddenStates>(SAMPLE_HIDDEN_STATES);
+  const [unembedding, setUnembedding] = useState<Unembedding>(SAMPLE_UNEMBEDDING);
+  const value = useMemo(() => ({ attention, setAttention, hiddenStates, setHiddenStates, unembedding, setUnembedding }), [attention, hiddenStates, unembedding]);
+  return <LlmContext.Provider value={value}>{children}</LlmContext.Provider>;
+};
+
+export const useLlm = () => useContext(LlmContext);
@@ -0,0 +1,124 @@
+// src/llm/LogitLensPanel.tsx
+// Logit-lens grid docked under the trajectory scene: one cell per token and layer, showing the
+// top decoded token and shaded by its probability, with the last layer on top as in the usual
+// plots. Hovering a cell lists the top-k; clicking one moves the scene to that token and layer.
+import React, { useRef, useState } from 'react';
+import ProgressBar from '../components/ProgressBar';
+import { buttonStyle, panelStyle, rowStyle, tooltipStyle } from '../components/panelStyles';
+import { JobStatus } from '../data/useWorkerJob';
+import { loadUnembeddingFiles, UNEMBEDDING_EXTENSIONS } from '../loaders/unembedding';
+import { rampColor } from './AttentionMatrix';
+import { HiddenStates } from './hiddenStates';
+import { formatDecoded, lensAt, LogitLensResult } from './logitLens';
+import { useLlm } from './LlmContext';
+
+const CELL_WIDTH = 64;
+const CELL_HEIGHT = 20;
+
+// Newlines and tabs would break the one-line cells.
+const cellText = (token: string) => token.replace(/\n/g, '↵').replace(/\t/g, '→');
+
+interface LogitLensPanelProps {
+  hidden: HiddenStates;
+  lens: LogitLensResult | null;
+  status: JobStatus | null; error: string | null; onCancel: () => void;
+  normalize: boolean; onNormalize: (normalize: boolean) => void;
+  layer: number; selectedToken: number | null;
+  onHoverToken: (token: number | null) => void;
+  onPick: (layer: number, token: number) => void;
+}
+
+const LogitLensPanel: React.FC<LogitLensPanelProps> = ({
+  hidden, lens, status, error, onCancel, normalize, onNormalize, layer, selectedToken, onHoverToken, onPick,
+}) => {
+  const { unembedding, setUnembedding } = useLlm();
+  const [hover, setHover] = useState<{ layer: number; token: number; x: number; y: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const T = hidden.tokens.length;
+  const shownLayer = Math.round(layer);
+  const layersTopDown = Array.from({ length: hidden.layers }, (_, i) => hidden.layers - 1 - i);
+
+  const loadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setUnembedding(await loadUnembeddingFiles(files));
+    } catch (e) {
+      setLoadError((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const hoverCell = (cellLayer: number, token: number, event: React.MouseEvent) => {
+    setHover({ layer: cellLayer, token, x: event.clientX, y: event.clientY });
+    onHoverToken(token);
+  };
+
+  return (
+    <div style={{ ...panelStyle, position: 'absolute', left: '10px', right: '10px', bottom: '10px', maxHeight: '42%', display: 'flex', flexDirection: 'column', gap: '6px' }}
+      onDragOver={e => e.preventDefault()}
+      onDrop={e => { e.preventDefault(); e.stopPropagation(); loadFiles(Array.from(e.dataTransfer.files)); }}>
+      <div style={{ ...rowStyle, justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+        <b>Logit lens</b>
+        <span>{unembedding.name} — {unembedding.vocabSize} tokens, d_model {unembedding.dModel}</span>
+        <button style={buttonStyle} disabled={isLoading} onClick={() => inputRef.current?.click()}>
+          {isLoading ? 'Loading…' : 'Load unembedding…'}
+        </button>
+        <input ref={inputRef} type="file" multiple accept={UNEMBEDDING_EXTENSIONS.join(',')} style={{ display: 'none' }}
+          onChange={e => { loadFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+        <label title="Apply a LayerNorm (without the learned gain and bias) before decoding, standing in for the model's final norm">
+          <input type="checkbox" checked={normalize} onChange={e => onNormalize(e.target.checked)} /> Final norm
+        </label>
+        {status && <div style={{ width: '200px' }}><ProgressBar stage={status.stage} progress={status.progress} onCancel={onCancel} /></div>}
+      </div>
+      {(loadError || error) && <span style={{ color: '#ff8a8a' }}>{loadError ?? error}</span>}
+
+      {lens && (
+        <div style={{ overflow: 'auto' }} onMouseLeave={() => { setHover(null); onHoverToken(null); }}>
+          <div style={{ display: 'grid', gridTemplateColumns: `32px repeat(${T}, ${CELL_WIDTH}px)`, gridAutoRows: `${CELL_HEIGHT}px`, gap: '1px', width: 'max-content' }}>
+            {layersTopDown.map(cellLayer => (
+              <React.Fragment key={cellLayer}>
+                <span style={{ alignSelf: 'center', color: cellLayer === shownLayer ? '#ffd27a' : undefined }}>L{cellLayer}</span>
+                {hidden.tokens.map((_, token) => {
+                  const [top] = lensAt(lens, unembedding.vocab, cellLayer * T + token);
+                  const [r, g, b] = rampColor(top?.prob ?? 0);
+                  const outlined = cellLayer === shownLayer || token === selectedToken;
+                  return (
+                    <div key={token} onMouseMove={e => hoverCell(cellLayer, token, e)} onClick={() => onPick(cellLayer, token)}
+                      style={{
+                        background: `rgb(${r}, ${g}, ${b})`, color: (top?.prob ?? 0) > 0.6 ? '#140a1e' : '#f0ecff',
+                        overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'pre', padding: '2px 4px', cursor: 'pointer',
+                        outline: outlined ? `1px solid ${token === selectedToken ? '#ffd27a' : 'rgba(255, 210, 122, 0.45)'}` : undefined,
+                      }}>
+                      {top ? cellText(top.token) : ''}
+                    </div>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+            <span />
+            {hidden.tokens.map((token, index) => (
+              <span key={index} title={JSON.stringify(token)}
+                style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'pre', fontWeight: index === selectedToken ? 'bold' : undefined }}>
+                {cellText(token)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {lens && hover && (
+        <div style={{ ...tooltipStyle, position: 'fixed', left: hover.x + 12, top: hover.y + 12, zIndex: 10 }}>
+          <b>{JSON.stringify(hidden.tokens[hover.token])}</b> #{hover.token} at layer {hover.layer}
+          {lensAt(lens, unembedding.vocab, hover.layer * T + hover.token).map((decoded, i) => <div key={i}>{formatDecoded(decoded)}</div>)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LogitLensPanel;
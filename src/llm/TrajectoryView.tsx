@@ -0,0 +1,236 @@
+// src/llm/TrajectoryView.tsx
+// Token trajectories: each token of a prompt as a path through the model's layers, in one
+// projection shared by every layer, drawn with the Three.js scene's glyphs and wisps. The layer
+// slider moves each token's glyph along its path; play sweeps from the embeddings to the last layer.
+// The logit-lens panel underneath decodes each token's state at each layer.
+import React, { MutableRefObject, useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { Color, Group } from 'three';
+import ProgressBar from '../components/ProgressBar';
+import { buttonStyle, inputStyle, panelStyle, rowStyle } from '../components/panelStyles';
+import { damp } from '../data/damping';
+import { scalePosition } from '../data/dataset';
+import { clusterSwatch, rgbToHex } from '../data/palette';
+import { HIDDEN_STATE_EXTENSIONS, loadHiddenStateFiles } from '../loaders/hiddenStates';
+import { ReductionMethod } from '../reduction/types';
+import { probeCapabilities } from '../shell/capabilities';
+import { EmbeddingGlyph, GlyphLabel, RelationshipWisp } from '../ThreeJSApp';
+import { pointAlong, TokenTrajectory } from './hiddenStates';
+import { useLlm } from './LlmContext';
+import { formatDecoded, lensAt, LogitLensResult } from './logitLens';
+import LogitLensPanel from './LogitLensPanel';
+import { useLogitLens } from './useLogitLens';
+import { useTrajectories } from './useTrajectories';
+
+const TRAJECTORY_WORLD_SCALE = 12;
+const SCRUB_RATE = 6; // Damping rate (see data/damping.ts) of the shown layer towards the slider
+const PLAY_SPEED = 0.8; // Layers per second
+const GLYPH_VALUE = 0.2; // EmbeddingGlyph's size input; tokens all get the same size
+
+const METHOD_LABELS: Record<ReductionMethod, string> = { pca: 'PCA', umap: 'UMAP', tsne: 't-SNE' };
+
+// Tokens are coloured like clusters, by position in the prompt; Color instances are cached so the wisps' props stay stable.
+const tokenColorCache = new Map<number, Color>();
+const tokenColor = (token: number) => {
+  let color = tokenColorCache.get(token);
+  if (!color) tokenColorCache.set(token, color = new Color(rgbToHex(clusterSwatch(token).secondary)));
+  return color;
+};
+
+interface MovingTokenProps {
+  path: TokenTrajectory; // World units
+  shownLayerRef: MutableRefObject<number>;
+  index: number; label: string; detail?: string[];
+  isHovered: boolean; isSelected: boolean; isDimmed: boolean;
+  onHover: (index: number | null) => void; onClick: (index: number) => void;
+}
+
+// The glyph follows its path in the frame loop, so scrubbing never re-renders it.
+const MovingToken: React.FC<MovingTokenProps> = ({ path, shownLayerRef, index, label, detail, isHovered, isSelected, isDimmed, onHover, onClick }) => {
+  const groupRef = useRef<Group>(null!);
+  useFrame(() => {
+    const [x, y, z] = pointAlong(path, shownLayerRef.current);
+    groupRef.current.position.set(x, y, z);
+  });
+  return (
+    <group ref={groupRef}>
+      <EmbeddingGlyph id={String(index)} position={[0, 0, 0]} clusterId={index} name={label} value={GLYPH_VALUE}
+        onPointerOver={() => onHover(index)} onPointerOut={() => onHover(null)} onClick={() => onClick(index)}
+        isHovered={isHovered} isSelected={isSelected} isDimmed={isDimmed} isMarked={false} detail={detail} />
+    </group>
+  );
+};
+
+interface TrajectorySceneProps {
+  paths: TokenTrajectory[]; tokens: string[]; targetLayer: number;
+  lens: LogitLensResult | null; vocab: string[];
+  hoveredToken: number | null; selectedToken: number | null;
+  onHover: (index: number | null) => void; onSelect: (index: number) => void;
+}
+
+const TrajectoryScene: React.FC<TrajectorySceneProps> = ({ paths, tokens, targetLayer, lens, vocab, hoveredToken, selectedToken, onHover, onSelect }) => {
+  const shownLayerRef = useRef(targetLayer);
+  useFrame((_, delta) => {
+    shownLayerRef.current = damp(shownLayerRef.current, targetLayer, SCRUB_RATE, delta);
+  });
+
+  // Segments the slider has passed are drawn bright; with a token selected, the others fade.
+  const reached = Math.floor(targetLayer + 1e-6);
+  const trails = useMemo(() => paths.flatMap((path, token) => path.slice(1).map((to, segment) => {
+    const active = selectedToken === null || selectedToken === token;
+    return <RelationshipWisp key={`${token}-${segment}`} from={path[segment]} to={to} color={tokenColor(token)}
+      strength={(segment < reached ? 0.8 : 0.12) * (active ? 1 : 0.15)} />;
+  })), [paths, reached, selectedToken]);
+
+  // Labels of the hovered and selected glyphs list what the lens decodes at the nearest layer.
+  const decodedLayer = Math.round(targetLayer);
+  const detail = (token: number) => lens ? lensAt(lens, vocab, decodedLayer * tokens.length + token).map(formatDecoded) : undefined;
+
+  return (
+    <>
+      {trails}
+      {paths.map((path, index) => (
+        <MovingToken key={index} path={path} shownLayerRef={shownLayerRef} index={index} label={tokens[index]}
+          detail={hoveredToken === index || selectedToken === index ? detail(index) : undefined}
+          isHovered={hoveredToken === index && selectedToken !== index} isSelected={selectedToken === index}
+          isDimmed={selectedToken !== null && selectedToken !== index} onHover={onHover} onClick={onSelect} />
+      ))}
+      {selectedToken !== null && paths[selectedToken].map((position, layer) => (
+        <group key={layer} position={position}><GlyphLabel name={`L${layer}`} /></group>
+      ))}
+    </>
+  );
+};
+
+const TrajectoryView: React.FC = () => {
+  const { hiddenStates, setHiddenStates, unembedding } = useLlm();
+  const [method, setMethod] = useState<ReductionMethod>('pca');
+  const [unitLength, setUnitLength] = useState(true);
+  const [normalize, setNormalize] = useState(true);
+  const [targetLayer, setTargetLayer] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [hoveredToken, setHoveredToken] = useState<number | null>(null);
+  const [selectedToken, setSelectedToken] = useState<number | null>(null);
+  const [webglMissing, setWebglMissing] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { trajectories, status, error, cancel } = useTrajectories(hiddenStates, method, unitLength);
+  const logitLens = useLogitLens(hiddenStates, unembedding, normalize);
+
+  useEffect(() => {
+    let live = true;
+    probeCapabilities().then(c => { if (live) setWebglMissing(!c.webgl2 && !c.webgl); });
+    return () => { live = false; };
+  }, []);
+
+  useEffect(() => {
+    setTargetLayer(0);
+    setSelectedToken(null);
+    setHoveredToken(null);
+  }, [hiddenStates]);
+
+  const lastLayer = hiddenStates.layers - 1;
+  const layer = Math.min(targetLayer, lastLayer);
+  const paths = useMemo(() => trajectories?.map(path => path.map(p => scalePosition(p, TRAJECTORY_WORLD_SCALE))) ?? null, [trajectories]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0, last = performance.now();
+    const step = (now: number) => {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      setTargetLayer(l => Math.min(l + elapsed * PLAY_SPEED, lastLayer));
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, lastLayer]);
+  useEffect(() => { if (playing && layer >= lastLayer) setPlaying(false); }, [playing, layer, lastLayer]);
+
+  const loadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setHiddenStates(await loadHiddenStateFiles(files));
+    } catch (e) {
+      setLoadError((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%', background: '#08040F' }}
+      onDragOver={e => e.preventDefault()}
+      onDrop={e => { e.preventDefault(); loadFiles(Array.from(e.dataTransfer.files)); }}>
+      {webglMissing
+        ? <div style={{ ...panelStyle, margin: '20px', maxWidth: '420px' }}>The trajectory view needs WebGL, which this browser does not provide.</div>
+        : (
+          <Canvas camera={{ position: [0, 6, 26], fov: 45, near: 0.1, far: 1000 }} style={{ width: '100%', height: '100%' }}
+            onPointerMissed={() => setSelectedToken(null)}>
+            <ambientLight intensity={Math.PI / 3.5} />
+            <hemisphereLight args={[0xffeedd, 0x221a44, 1.6]} />
+            {paths && (
+              <TrajectoryScene paths={paths} tokens={hiddenStates.tokens} targetLayer={layer} lens={logitLens.lens} vocab={unembedding.vocab}
+                hoveredToken={hoveredToken} selectedToken={selectedToken}
+                onHover={setHoveredToken} onSelect={index => setSelectedToken(prev => (prev === index ? null : index))} />
+            )}
+            <OrbitControls enablePan enableZoom enableRotate minDistance={4} maxDistance={60} dampingFactor={0.05} enableDamping />
+          </Canvas>
+        )}
+
+      <div style={{ ...panelStyle, position: 'absolute', top: '10px', right: '10px', width: '250px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        <b>Token trajectories</b>
+        <span>
+          {hiddenStates.name} — {hiddenStates.tokens.length} tokens, {hiddenStates.layers} layers, d_model {hiddenStates.dModel}
+        </span>
+        <button style={buttonStyle} disabled={isLoading} onClick={() => inputRef.current?.click()}>
+          {isLoading ? 'Loading…' : 'Load hidden states…'}
+        </button>
+        <input ref={inputRef} type="file" multiple accept={HIDDEN_STATE_EXTENSIONS.join(',')} style={{ display: 'none' }}
+          onChange={e => { loadFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+        {loadError && <span style={{ color: '#ff8a8a' }}>{loadError}</span>}
+
+        <label style={rowStyle}>
+          Projection
+          <select value={method} style={inputStyle} onChange={e => setMethod(e.target.value as ReductionMethod)}>
+            {(Object.keys(METHOD_LABELS) as ReductionMethod[]).map(m => <option key={m} value={m}>{METHOD_LABELS[m]}</option>)}
+          </select>
+        </label>
+        <label style={rowStyle} title="The residual stream grows with depth; without this the last layers dominate the projection">
+          Unit-length states
+          <input type="checkbox" checked={unitLength} onChange={e => setUnitLength(e.target.checked)} />
+        </label>
+        {status && <ProgressBar stage={status.stage} progress={status.progress} onCancel={cancel} />}
+        {error && <span style={{ color: '#ff8a8a' }}>{error}</span>}
+
+        <label style={rowStyle}>
+          Layer {Math.round(layer)} / {lastLayer}
+          <input type="range" min={0} max={lastLayer} step={0.01} value={layer}
+            onChange={e => { setPlaying(false); setTargetLayer(Number(e.target.value)); }} />
+        </label>
+        <button style={buttonStyle} onClick={() => {
+          if (!playing && layer >= lastLayer) setTargetLayer(0);
+          setPlaying(p => !p);
+        }}>
+          {playing ? 'Pause' : 'Play through layers'}
+        </button>
+        {selectedToken !== null && (
+          <div style={rowStyle}>
+            <span>Following #{selectedToken} {JSON.stringify(hiddenStates.tokens[selectedToken])}</span>
+            <button style={buttonStyle} onClick={() => setSelectedToken(null)}>Clear</button>
+          </div>
+        )}
+      </div>
+
+      <LogitLensPanel hidden={hiddenStates} lens={logitLens.lens} status={logitLens.status} error={logitLens.error} onCancel={logitLens.cancel}
+        normalize={normalize} onNormalize={setNormalize} layer={layer} selectedToken={selectedToken} onHoverToken={setHoveredToken}
+        onPick={(cellLayer, token) => { setPlaying(false); setTargetLayer(cellLayer); setSelectedToken(token); }} />
+    </div>
+  );
+};
+
+export default TrajectoryView;
@@ -0,0 +1,88 @@
+// src/llm/attention.ts
+// Attention weights for one prompt as a transformer's forward pass returns them
+// (layers × heads × query tokens × key tokens), and the per-layer matrices the visualizer draws.
+
+export interface AttentionTensor {
+  name: string;
+  tokens: string[];
+  layers: number;
+  heads: number;
+  weights: Float32Array; // [layer][head][query][key], C order; rows are softmax outputs
+}
+
+export type AttentionMode = 'head' | 'mean' | 'max' | 'rollout';
+
+export const ATTENTION_MODE_LABELS: Record<AttentionMode, string> = {
+  head: 'Single head',
+  mean: 'Mean over heads',
+  max: 'Max over heads',
+  rollout: 'Attention rollout',
+};
+
+// One head's T×T slice; row = query token, column = key token. A view, not a copy.
+export const headMatrix = (tensor: AttentionTensor, layer: number, head: number): Float32Array => {
+  const size = tensor.tokens.length ** 2;
+  const offset = (layer * tensor.heads + head) * size;
+  return tensor.weights.subarray(offset, offset + size);
+};
+
+const reduceHeads = (tensor: AttentionTensor, layer: number, reduce: 'mean' | 'max'): Float32Array => {
+  const out = new Float32Array(tensor.tokens.length ** 2);
+  for (let head = 0; head < tensor.heads; head++) {
+    const matrix = headMatrix(tensor, layer, head);
+    for (let i = 0; i < out.length; i++) out[i] = reduce === 'max' ? Math.max(out[i], matrix[i]) : out[i] + matrix[i];
+  }
+  if (reduce === 'mean') for (let i = 0; i < out.length; i++) out[i] /= tensor.heads;
+  return out;
+};
+
+// Rollout products are cubic in the token count, so each tensor keeps the layers computed so far.
+const rolloutCache = new WeakMap<AttentionTensor, Float32Array[]>();
+
+// Attention rollout (Abnar & Zuidema, 2020): average the heads, add the residual connection as an
+// identity term, renormalise the rows and multiply through the layers, so entry (i, j) estimates
+// how much of token j's input has reached token i's representation after `layer`.
+const attentionRollout = (tensor: AttentionTensor, layer: number): Float32Array => {
+  const T = tensor.tokens.length;
+  let rollouts = rolloutCache.get(tensor);
+  if (!rollouts) rolloutCache.set(tensor, rollouts = []);
+  for (let l = rollouts.length; l <= layer; l++) {
+    const mixed = reduceHeads(tensor, l, 'mean');
+    for (let row = 0; row < T; row++) {
+      mixed[row * T + row] += 1;
+      for (let col = 0; col < T; col++) mixed[row * T + col] /= 2;
+    }
+    const previous = rollouts[l - 1];
+    if (!previous) {
+      rollouts.push(mixed);
+      continue;
+    }
+    const product = new Float32Array(T * T);
+    for (let row = 0; row < T; row++) {
+      for (let mid = 0; mid < T; mid++) {
+        const a = mixed[row * T + mid];
+        if (a === 0) continue; // Causal masks leave half the matrix empty
+        for (let col = 0; col < T; col++) product[row * T + col] += a * previous[mid * T + col];
+      }
+    }
+    rollouts.push(product);
+  }
+  return rollouts[layer];
+};
+
+// The T×T matrix to draw for a layer; `head` only matters in 'head' mode.
+export const attentionMatrix = (tensor: AttentionTensor, layer: number, mode: AttentionMode, head: number): Float32Array => {
+  switch (mode) {
+    case 'head': return headMatrix(tensor, layer, head);
+    case 'mean': return reduceHeads(tensor, layer, 'mean');
+    case 'max': return reduceHeads(tensor, layer, 'max');
+    case 'rollout': return attentionRollout(tensor, layer);
+  }
+};
+
+// Colour and width are scaled to the largest weight, so diffuse long-context layers stay visible.
+export const matrixMax = (matrix: Float32Array) => {
+  let max = 0;
+  for (let i = 0; i < matrix.length; i++) if (matrix[i] > max) max = matrix[i];
+  return max;
+};
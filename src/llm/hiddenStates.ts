@@ -0,0 +1,47 @@
+// src/llm/hiddenStates.ts
+// Residual-stream hidden states for one prompt (layers × tokens × d_model), and the token
+// trajectories the trajectory view draws through a projection shared by every layer.
+import { Vec3 } from '../data/dataset';
+
+export interface HiddenStates {
+  name: string;
+  tokens: string[];
+  layers: number; // Usually the embedding output plus one per transformer block
+  dModel: number;
+  states: Float32Array; // [layer][token][d_model], C order
+}
+
+export const hiddenState = (hidden: HiddenStates, layer: number, token: number): Float32Array => {
+  const offset = (layer * hidden.tokens.length + token) * hidden.dModel;
+  return hidden.states.subarray(offset, offset + hidden.dModel);
+};
+
+// Every (layer, token) state as one row, layer-major, for the shared projection. The residual
+// stream's norm grows with depth, so by default rows are scaled to unit length; otherwise the
+// last layers alone decide the projection's axes.
+export const trajectoryRows = (hidden: HiddenStates, unitLength: boolean): Float32Array => {
+  if (!unitLength) return hidden.states;
+  const rows = new Float32Array(hidden.states.length);
+  const count = hidden.layers * hidden.tokens.length, d = hidden.dModel;
+  for (let row = 0; row < count; row++) {
+    let norm = 0;
+    for (let i = row * d; i < (row + 1) * d; i++) norm += hidden.states[i] ** 2;
+    norm = Math.sqrt(norm) || 1;
+    for (let i = row * d; i < (row + 1) * d; i++) rows[i] = hidden.states[i] / norm;
+  }
+  return rows;
+};
+
+// One path per token, one vertex per layer.
+export type TokenTrajectory = Vec3[];
+
+// Splits the projected rows (in trajectoryRows order) back into per-token paths.
+export const toTrajectories = (positions: Vec3[], hidden: HiddenStates): TokenTrajectory[] =>
+  hidden.tokens.map((_, token) => Array.from({ length: hidden.layers }, (_, layer) => positions[layer * hidden.tokens.length + token]));
+
+// The point a fractional layer index reaches along a path.
+export const pointAlong = (path: TokenTrajectory, layer: number): Vec3 => {
+  const clamped = Math.min(Math.max(layer, 0), path.length - 1);
+  const from = Math.floor(clamped), to = Math.min(from + 1, path.length - 1), f = clamped - from;
+  return path[from].map((v, axis) => v + (path[to][axis] - v) * f) as Vec3;
+};
@@ -0,0 +1,94 @@
+// src/llm/logitLens.ts
+// Logit lens (nostalgebraist, 2020): decode an intermediate hidden state with the model's own
+// unembedding, as if the remaining layers were skipped, to see what each layer "would predict".
+import { ProgressCallback } from '../data/workerJob';
+
+export interface Unembedding {
+  name: string;
+  vocab: string[]; // Decoded token per row, already made readable (see displayToken)
+  vocabSize: number;
+  dModel: number;
+  weights: Float32Array; // vocabSize × dModel, row-major (lm_head.weight layout)
+}
+
+export interface LogitLensRequest {
+  type: 'lens';
+  states: Float32Array; // rows × dModel hidden states, layer-major
+  rows: number;
+  dModel: number;
+  unembedding: Float32Array;
+  vocabSize: number;
+  k: number;
+  normalize: boolean;
+}
+
+export interface LogitLensResult {
+  k: number;
+  topIds: Int32Array; // rows × k vocabulary ids, most probable first
+  topProbs: Float32Array; // rows × k softmax probabilities over the whole vocabulary
+}
+
+export interface DecodedToken { token: string; prob: number; }
+
+export const LENS_TOP_K = 5;
+
+// Byte-level BPE and SentencePiece mark spaces and newlines with visible characters.
+export const displayToken = (token: string) => token.replace(/[Ġ▁]/g, ' ').replace(/Ċ/g, '\n');
+
+// Models apply a final norm before the unembedding; without its learned gain and bias, a plain
+// LayerNorm is the usual stand-in. Works in place.
+export const layerNorm = (vector: Float32Array) => {
+  let mean = 0;
+  for (let i = 0; i < vector.length; i++) mean += vector[i];
+  mean /= vector.length;
+  let variance = 0;
+  for (let i = 0; i < vector.length; i++) variance += (vector[i] - mean) ** 2;
+  const scale = 1 / Math.sqrt(variance / vector.length + 1e-5);
+  for (let i = 0; i < vector.length; i++) vector[i] = (vector[i] - mean) * scale;
+  return vector;
+};
+
+// Top-k tokens and their probabilities for every row; O(rows × vocabulary × d_model).
+export const runLogitLens = ({ states, rows, dModel, unembedding, vocabSize, k, normalize }: LogitLensRequest, onProgress?: ProgressCallback): LogitLensResult => {
+  const topIds = new Int32Array(rows * k).fill(-1);
+  const topProbs = new Float32Array(rows * k);
+  const logits = new Float32Array(vocabSize);
+  const state = new Float32Array(dModel);
+  for (let row = 0; row < rows; row++) {
+    state.set(states.subarray(row * dModel, (row + 1) * dModel));
+    if (normalize) layerNorm(state);
+    let max = -Infinity;
+    for (let v = 0; v < vocabSize; v++) {
+      let logit = 0;
+      const offset = v * dModel;
+      for (let d = 0; d < dModel; d++) logit += unembedding[offset + d] * state[d];
+      logits[v] = logit;
+      if (logit > max) max = logit;
+    }
+    let total = 0;
+    for (let v = 0; v < vocabSize; v++) total += Math.exp(logits[v] - max);
+
+    // Insertion into a k-long list, kept sorted by logit.
+    const ids = topIds.subarray(row * k, (row + 1) * k);
+    for (let v = 0; v < vocabSize; v++) {
+      if (ids[k - 1] !== -1 && logits[v] <= logits[ids[k - 1]]) continue;
+      let slot = k - 1;
+      while (slot > 0 && (ids[slot - 1] === -1 || logits[v] > logits[ids[slot - 1]])) {
+        ids[slot] = ids[slot - 1];
+        slot--;
+      }
+      ids[slot] = v;
+    }
+    for (let i = 0; i < k; i++) topProbs[row * k + i] = ids[i] === -1 ? 0 : Math.exp(logits[ids[i]] - max) / total;
+    onProgress?.('Decoding hidden states', (row + 1) / rows);
+  }
+  return { k, topIds, topProbs };
+};
+
+// The decoded tokens for one hidden-state row.
+export const lensAt = (lens: LogitLensResult, vocab: string[], row: number): DecodedToken[] =>
+  Array.from({ length: lens.k }, (_, i) => lens.topIds[row * lens.k + i])
+    .map((id, i) => ({ token: vocab[id] ?? `#${id}`, prob: lens.topProbs[row * lens.k + i] }))
+    .filter((_, i) => lens.topIds[row * lens.k + i] !== -1);
+
+export const formatDecoded = ({ token, prob }: DecodedToken) => `${JSON.stringify(token)} ${(prob * 100).toFixed(1)}%`;
@@ -0,0 +1,13 @@
+// src/llm/logitLens.worker.ts
+// Logit-lens decoding off the main thread; see data/workerJob.ts for the protocol.
+import { postError, postProgress, postResult } from '../data/workerJob';
+import { LogitLensRequest, LogitLensResult, runLogitLens } from './logitLens';
+
+self.onmessage = (event: MessageEvent<LogitLensRequest>) => {
+  try {
+    const result = runLogitLens(event.data, postProgress);
+    postResult<LogitLensResult>(result, [result.topIds.buffer, result.topProbs.buffer]);
+  } catch (e) {
+    postError(e);
+  }
+};
@@ -0,0 +1,44 @@
+// src/llm/sampleAttention.ts
+// Built-in demo for the attention visualizer: a short causal prompt with the head patterns real
+// models are known for (attention sinks, previous-token, local and content heads), generated so
+// the view has something to show before a dump is loaded.
+import { createRng, gaussian } from '../data/random';
+import { AttentionTensor } from './attention';
+
+export const SAMPLE_TOKENS = ['<s>', 'The', ' quick', ' brown', ' fox', ' jumps', ' over', ' the', ' lazy', ' dog', '.'];
+const SAMPLE_LAYERS = 4;
+const SAMPLE_HEADS = 4;
+
+// Pre-softmax score for query i looking at key j <= i.
+const headScore = (kind: number, i: number, j: number, noise: number) => {
+  switch (kind) {
+    case 0: return j === 0 ? 4 : noise; // Attention sink on the first token
+    case 1: return j === i - 1 ? 5 : noise; // Previous token
+    case 2: return -(i - j) * 0.9 + noise; // Local window, decaying with distance
+    default: return noise * 2.5; // Content-dependent: stands in for learned query/key similarity
+  }
+};
+
+const buildSampleAttention = (): AttentionTensor => {
+  const rng = createRng(7);
+  const T = SAMPLE_TOKENS.length;
+  const weights = new Float32Array(SAMPLE_LAYERS * SAMPLE_HEADS * T * T);
+  // A fixed token-pair affinity, so the content heads agree with each other across layers.
+  const affinity = Array.from({ length: T * T }, () => gaussian(rng));
+  for (let layer = 0; layer < SAMPLE_LAYERS; layer++) {
+    for (let head = 0; head < SAMPLE_HEADS; head++) {
+      const kind = (head + layer) % SAMPLE_HEADS; // Rotate the patterns so each layer looks different
+      const offset = (layer * SAMPLE_HEADS + head) * T * T;
+      for (let i = 0; i < T; i++) {
+        const scores = Array.from({ length: i + 1 }, (_, j) => headScore(kind, i, j, affinity[i * T + j] * 0.6 + gaussian(rng) * 0.3));
+        const peak = Math.max(...scores);
+        const exp = scores.map(s => Math.exp(s - peak));
+        const total = exp.reduce((a, b) => a + b, 0);
+        exp.forEach((e, j) => { weights[offset + i * T + j] = e / total; });
+      }
+    }
+  }
+  return { name: 'Sample prompt', tokens: SAMPLE_TOKENS, layers: SAMPLE_LAYERS, heads: SAMPLE_HEADS, weights };
+};
+
+export const SAMPLE_ATTENTION = buildSampleAttention();
@@ -0,0 +1,59 @@
+// src/llm/sampleHiddenStates.ts
+// Built-in demo for the trajectory view: hidden states for the sample prompt, generated so each
+// block mixes in the preceding context (as attention does) and pushes every token a little
+// further along a shared direction, the way residual streams drift with depth. The sample
+// unembedding is fitted to them so the logit lens has a story to tell: early layers are unsure,
+// and by the last layer each token predicts the next word of the prompt.
+import { createRng, gaussian } from '../data/random';
+import { HiddenStates } from './hiddenStates';
+import { layerNorm, Unembedding } from './logitLens';
+import { SAMPLE_TOKENS } from './sampleAttention';
+
+const SAMPLE_LAYERS = 5; // Embeddings plus four blocks, matching the sample attention
+const SAMPLE_D_MODEL = 24;
+const SAMPLE_SHARPNESS = 4; // Scales the sample unembedding; higher makes every layer more confident
+
+const buildSampleHiddenStates = (): HiddenStates => {
+  const rng = createRng(11);
+  const T = SAMPLE_TOKENS.length, d = SAMPLE_D_MODEL;
+  const states = new Float32Array(SAMPLE_LAYERS * T * d);
+  for (let i = 0; i < T * d; i++) states[i] = gaussian(rng);
+  for (let layer = 1; layer < SAMPLE_LAYERS; layer++) {
+    const drift = Array.from({ length: d }, () => gaussian(rng) * 0.6);
+    const previous = states.subarray((layer - 1) * T * d, layer * T * d);
+    const current = states.subarray(layer * T * d, (layer + 1) * T * d);
+    const context = new Float32Array(d); // Running sum of earlier tokens: causal mixing
+    for (let token = 0; token < T; token++) {
+      for (let k = 0; k < d; k++) {
+        context[k] += previous[token * d + k];
+        const mixed = previous[token * d + k] * 0.55 + (context[k] / (token + 1)) * 0.45;
+        current[token * d + k] = mixed + drift[k] + gaussian(rng) * 0.25;
+      }
+    }
+  }
+  return { name: 'Sample prompt', tokens: SAMPLE_TOKENS, layers: SAMPLE_LAYERS, dModel: d, states };
+};
+
+export const SAMPLE_HIDDEN_STATES = buildSampleHiddenStates();
+
+// Token t+1's row is token t's normalised last-layer state, less what all tokens share at that
+// layer, so the final layer decodes the next token. The first token is never a continuation and
+// keeps a zero row.
+const buildSampleUnembedding = (hidden: HiddenStates): Unembedding => {
+  const { tokens, dModel: d, layers } = hidden;
+  const T = tokens.length;
+  const last = (layers - 1) * T * d;
+  const rows = Array.from({ length: T }, (_, token) => layerNorm(hidden.states.slice(last + token * d, last + (token + 1) * d)));
+  const shared = new Float32Array(d);
+  rows.forEach(row => row.forEach((x, k) => { shared[k] += x / T; }));
+
+  const weights = new Float32Array(T * d);
+  for (let token = 0; token < T - 1; token++) {
+    const distinct = rows[token].map((x, k) => x - shared[k]);
+    const scale = SAMPLE_SHARPNESS / distinct.reduce((sum, x) => sum + x * x, 0);
+    distinct.forEach((x, k) => { weights[(token + 1) * d + k] = x * scale; });
+  }
+  return { name: 'Sample unembedding', vocab: tokens, vocabSize: T, dModel: d, weights };
+};
+
+export const SAMPLE_UNEMBEDDING = buildSampleUnembedding(SAMPLE_HIDDEN_STATES);
@@ -0,0 +1,33 @@
+// src/llm/useLogitLens.ts
+// Decodes every layer's hidden state for every token through the unembedding on a worker;
+// a vocabulary-sized matrix product per cell is too slow for the main thread.
+import { useEffect, useState } from 'react';
+import { useWorkerJob } from '../data/useWorkerJob';
+import { HiddenStates } from './hiddenStates';
+import { LENS_TOP_K, LogitLensRequest, LogitLensResult, Unembedding } from './logitLens';
+
+export const createLogitLensWorker = () =>
+  new Worker(new URL('./logitLens.worker.ts', import.meta.url), { type: 'module' });
+
+export const useLogitLens = (hidden: HiddenStates, unembedding: Unembedding, normalize: boolean) => {
+  const { start, cancel, status, error } = useWorkerJob<LogitLensRequest, LogitLensResult>(createLogitLensWorker);
+  const [result, setResult] = useState<{ source: HiddenStates; unembedding: Unembedding; lens: LogitLensResult } | null>(null);
+  const mismatch = unembedding.dModel !== hidden.dModel
+    ? `The unembedding is ${unembedding.vocabSize} × ${unembedding.dModel} but the hidden states have d_model ${hidden.dModel}.`
+    : null;
+
+  useEffect(() => {
+    if (unembedding.dModel !== hidden.dModel) {
+      cancel();
+      return;
+    }
+    const request: LogitLensRequest = {
+      type: 'lens', states: hidden.states, rows: hidden.layers * hidden.tokens.length, dModel: hidden.dModel,
+      unembedding: unembedding.weights, vocabSize: unembedding.vocabSize, k: LENS_TOP_K, normalize,
+    };
+    start(request, lens => setResult({ source: hidden, unembedding, lens }));
+  }, [hidden, unembedding, normalize, start, cancel]);
+
+  const current = result && result.source === hidden && result.unembedding === unembedding ? result.lens : null;
+  return { lens: current, status, error: mismatch ?? error, cancel };
+};
@@ -0,0 +1,27 @@
+// src/llm/useTrajectories.ts
+// Projects every layer's hidden states with one shared reduction (so positions are comparable
+// across layers) on the reduction worker, and splits the result into per-token paths.
+import { useEffect, useState } from 'react';
+import { useWorkerJob } from '../data/useWorkerJob';
+import { DEFAULT_REDUCTION_PARAMS, ReductionMethod, ReductionRequest, ReductionResult } from '../reduction/types';
+import { createReductionWorker, unpackPositions } from '../reduction/useReduction';
+import { HiddenStates, toTrajectories, TokenTrajectory, trajectoryRows } from './hiddenStates';
+
+export const useTrajectories = (hidden: HiddenStates, method: ReductionMethod, unitLength: boolean) => {
+  const { start, cancel, status, error } = useWorkerJob<ReductionRequest, ReductionResult>(createReductionWorker);
+  const [result, setResult] = useState<{ source: HiddenStates; paths: TokenTrajectory[] } | null>(null);
+
+  useEffect(() => {
+    const count = hidden.layers * hidden.tokens.length;
+    const request: ReductionRequest = {
+      type: 'reduce', vectors: trajectoryRows(hidden, unitLength), count, dimensions: hidden.dModel,
+      params: { ...DEFAULT_REDUCTION_PARAMS, method, components: 3 },
+    };
+    start(request, ({ positions, components }) => {
+      setResult({ source: hidden, paths: toTrajectories(unpackPositions(positions, count, components).positions, hidden) });
+    });
+  }, [hidden, method, unitLength, start]);
+
+  // Paths from an earlier prompt would index the wrong tokens; the previous projection of the same prompt is fine to keep showing.
+  return { trajectories: result?.source === hidden ? result.paths : null, status, error, cancel };
+};
@@ -0,0 +1,26 @@
+// src/loaders/attention.ts
+// Attention dumps for the attention visualizer: { "tokens": [...], "attentions": [layer][head][query][key] }
+// as JSON, or the same tensor as .npy (see tensorDump.ts for the accepted file layouts).
+// `torch.stack(outputs.attentions)` has a batch axis after the layers; a batch of one is accepted.
+import { AttentionTensor } from '../llm/attention';
+import { dumpTokens, readTensorDump, TENSOR_DUMP_EXTENSIONS } from './tensorDump';
+
+export const ATTENTION_EXTENSIONS = TENSOR_DUMP_EXTENSIONS;
+
+// Normalises the accepted layouts to layers × heads × T × T.
+const toTensorShape = (shape: number[], file: string): [number, number, number] => {
+  let dims = shape;
+  if (dims.length === 5 && dims[1] === 1) dims = [dims[0], ...dims.slice(2)]; // (layers, batch=1, heads, T, T)
+  if (dims.length === 3) dims = [1, ...dims]; // A single layer's (heads, T, T)
+  if (dims.length !== 4 || dims[2] !== dims[3]) {
+    throw new Error(`${file}: expected attention shaped (layers, heads, tokens, tokens), got (${shape.join(', ')}).`);
+  }
+  return [dims[0], dims[1], dims[2]];
+};
+
+// Loads one attention dump from picked or dropped files; rejects with a readable message.
+export const loadAttentionFiles = async (files: File[]): Promise<AttentionTensor> => {
+  const dump = await readTensorDump(files, ['attentions', 'attention'], 'attention');
+  const [layers, heads, T] = toTensorShape(dump.shape, dump.file);
+  return { name: dump.name, tokens: dumpTokens(dump, T), layers, heads, weights: dump.data };
+};
@@ -0,0 +1,37 @@
+// src/loaders/binary.ts
+// Decoders for the half-precision formats that .npy and safetensors files commonly use.
+
+export const float16ToFloat32 = (bits: number) => {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x03ff;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+};
+
+// bfloat16 is the top half of a float32, so widening is a shift.
+const bfloatScratch = new DataView(new ArrayBuffer(4));
+export const bfloat16ToFloat32 = (bits: number) => {
+  bfloatScratch.setUint32(0, bits << 16);
+  return bfloatScratch.getFloat32(0);
+};
+
+export type BinaryDType = 'f2' | 'bf2' | 'f4' | 'f8';
+
+export const BYTES_PER_ELEMENT: Record<BinaryDType, number> = { f2: 2, bf2: 2, f4: 4, f8: 8 };
+
+// Reads `count` little-endian elements starting at `byteOffset` into a fresh Float32Array.
+export const readFloats = (buffer: ArrayBuffer, byteOffset: number, count: number, dtype: BinaryDType): Float32Array => {
+  const view = new DataView(buffer, byteOffset, count * BYTES_PER_ELEMENT[dtype]);
+  const out = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    switch (dtype) {
+      case 'f2': out[i] = float16ToFloat32(view.getUint16(i * 2, true)); break;
+      case 'bf2': out[i] = bfloat16ToFloat32(view.getUint16(i * 2, true)); break;
+      case 'f4': out[i] = view.getFloat32(i * 4, true); break;
+      case 'f8': out[i] = view.getFloat64(i * 8, true); break;
+    }
+  }
+  return out;
+};
@@ -0,0 +1,49 @@
+// src/loaders/delimited.test.ts
+// CSV/TSV splitting and record extraction, including the rows that get reported instead of loaded.
+import { describe, expect, it } from 'vitest';
+import { parseDelimited, splitDelimited } from './delimited';
+import { emptyReport } from './records';
+
+describe('splitDelimited', () => {
+  it('keeps delimiters, newlines and doubled quotes inside quoted fields', () => {
+    const rows = splitDelimited('id,text\r\na,"one, two"\nb,"say ""hi""\nacross lines"\n\nc,plain', ',');
+    expect(rows).toEqual([
+      { fields: ['id', 'text'], row: 1 },
+      { fields: ['a', 'one, two'], row: 2 },
+      { fields: ['b', 'say "hi"\nacross lines'], row: 3 },
+      { fields: ['c', 'plain'], row: 6 }, // The quoted newline and the blank line still count
+    ]);
+  });
+
+  it('only opens a quote at the start of a field', () => {
+    expect(splitDelimited('5" disk\tx', '\t')).toEqual([{ fields: ['5" disk', 'x'], row: 1 }]);
+  });
+});
+
+describe('parseDelimited', () => {
+  it('reads a JSON-array vector column, positions, clusters and metadata', () => {
+    const report = emptyReport();
+    const records = parseDelimited('id,label,cluster,embedding,x,y,score,source\np1,First,2,"[1, 2.5]",0.5,-1,0.9,wiki\n', ',', 'a.csv', report);
+    expect(report).toEqual(emptyReport());
+    expect(records).toEqual([{
+      row: 2, id: 'p1', label: 'First', cluster: 2, vector: [1, 2.5], position: [0.5, -1, 0],
+      metadata: { label: 'First', score: 0.9, source: 'wiki' },
+    }]);
+  });
+
+  it('assembles vectors from numbered columns in numeric order', () => {
+    const records = parseDelimited('dim_10\tdim_2\tdim_0\n3\t2\t\n', '\t', 'a.tsv', emptyReport());
+    expect(records[0].vector).toEqual([NaN, 2, 3]); // An empty cell is a missing value
+  });
+
+  it('reports rows with the wrong column count or an unreadable vector, and keeps the rest', () => {
+    const report = emptyReport();
+    const records = parseDelimited('id,embedding\na,"[1,2]"\nb,"[1,2]",extra\nc,"[1, oops]"\nd,1 2\n', ',', 'a.csv', report);
+    expect(records.map(r => r.id)).toEqual(['a', 'd']);
+    expect(records[1].vector).toEqual([1, 2]); // Whitespace-separated numbers
+    expect(report.errors).toEqual([
+      { file: 'a.csv', row: 3, message: 'Expected 2 columns, found 3.' },
+      { file: 'a.csv', row: 4, message: 'Column "embedding" does not hold a vector.' },
+    ]);
+  });
+});
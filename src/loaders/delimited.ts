@@ -0,0 +1,118 @@
+// src/loaders/delimited.ts
+// CSV/TSV with a header row. Vectors come either from one column holding a JSON array or
+// whitespace-separated numbers ("embedding"), or from numbered columns such as dim_0, dim_1, ...
+import { MetadataValue } from '../data/dataset';
+import { CLUSTER_FIELDS, findField, ID_FIELDS, LABEL_FIELDS, LoadReport, parseScalar, RawRecord, VECTOR_FIELDS } from './records';
+
+const NUMBERED_COLUMN = /^(dim|emb|embedding|vec|vector|v|e|f)[_-]?(\d+)$/i;
+
+// RFC 4180 style splitting: quoted fields may contain delimiters, newlines and doubled quotes.
+export const splitDelimited = (text: string, delimiter: string): { fields: string[]; row: number }[] => {
+  const rows: { fields: string[]; row: number }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { field += '"'; i++; } else inQuotes = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field); field = '';
+      if (fields.length > 1 || fields[0] !== '') rows.push({ fields, row: rowStart });
+      fields = [];
+      line++;
+      rowStart = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || fields.length) {
+    fields.push(field);
+    rows.push({ fields, row: rowStart });
+  }
+  return rows;
+};
+
+const parseVectorCell = (cell: string): number[] | null => {
+  const trimmed = cell.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return Array.isArray(parsed) ? parsed.map(v => (typeof v === 'number' ? v : NaN)) : null;
+    } catch {
+      return null;
+    }
+  }
+  const parts = trimmed.split(/[\s;]+/).filter(Boolean);
+  return parts.length ? parts.map(Number) : null;
+};
+
+export const parseDelimited = (text: string, delimiter: ',' | '\t', file: string, report: LoadReport): RawRecord[] => {
+  const rows = splitDelimited(text, delimiter);
+  if (rows.length === 0) return [];
+  const header = rows[0].fields.map(h => h.trim());
+
+  const idField = findField(header, ID_FIELDS);
+  const labelField = findField(header, LABEL_FIELDS);
+  const clusterField = findField(header, CLUSTER_FIELDS);
+  const vectorField = findField(header, VECTOR_FIELDS);
+  const numbered = header
+    .map((name, index) => ({ index, match: NUMBERED_COLUMN.exec(name) }))
+    .filter(c => c.match)
+    .sort((a, b) => Number(a.match![2]) - Number(b.match![2]))
+    .map(c => c.index);
+  const column = (name?: string) => (name ? header.indexOf(name) : -1);
+  const xIndex = header.indexOf('x'), yIndex = header.indexOf('y'), zIndex = header.indexOf('z');
+
+  const reserved = new Set<number>([column(idField), column(clusterField), column(vectorField), xIndex, yIndex, zIndex, ...numbered]);
+
+  const records: RawRecord[] = [];
+  rows.slice(1).forEach(({ fields, row }) => {
+    if (fields.length !== header.length) {
+      report.errors.push({ file, row, message: `Expected ${header.length} columns, found ${fields.length}.` });
+      return;
+    }
+    const record: RawRecord = { row, metadata: {} };
+    if (vectorField) {
+      const vector = parseVectorCell(fields[column(vectorField)]);
+      if (!vector) {
+        report.errors.push({ file, row, message: `Column "${vectorField}" does not hold a vector.` });
+        return;
+      }
+      record.vector = vector;
+    } else if (numbered.length) {
+      record.vector = numbered.map(i => (fields[i].trim() === '' ? NaN : Number(fields[i])));
+    }
+    if (xIndex !== -1 && yIndex !== -1) {
+      record.position = [Number(fields[xIndex]), Number(fields[yIndex]), zIndex !== -1 ? Number(fields[zIndex]) : 0];
+    }
+    if (idField) record.id = fields[column(idField)];
+    if (labelField) record.label = fields[column(labelField)];
+    if (clusterField) {
+      const cluster = Number(fields[column(clusterField)]);
+      if (Number.isInteger(cluster)) record.cluster = cluster;
+    }
+    header.forEach((name, i) => {
+      if (reserved.has(i)) return;
+      const value: MetadataValue = parseScalar(fields[i]);
+      record.metadata[name] = value;
+    });
+    records.push(record);
+  });
+  return records;
+};
+
+// Plain label sidecars: one label per line, no header.
+export const parseLabelLines = (text: string) => text.split(/\r?\n/).filter((line, i, all) => line !== '' || i < all.length - 1);
@@ -0,0 +1,20 @@
+// src/loaders/hiddenStates.ts
+// Per-layer hidden states for the trajectory view: { "tokens": [...], "hidden_states": [layer][token][d_model] }
+// as JSON, or the same tensor as .npy (see tensorDump.ts for the accepted file layouts).
+// `torch.stack(outputs.hidden_states)` has a batch axis after the layers; a batch of one is accepted.
+import { HiddenStates } from '../llm/hiddenStates';
+import { dumpTokens, readTensorDump, TENSOR_DUMP_EXTENSIONS } from './tensorDump';
+
+export const HIDDEN_STATE_EXTENSIONS = TENSOR_DUMP_EXTENSIONS;
+
+export const loadHiddenStateFiles = async (files: File[]): Promise<HiddenStates> => {
+  const dump = await readTensorDump(files, ['hidden_states', 'hiddenStates', 'states'], 'hidden-state');
+  let dims = dump.shape;
+  if (dims.length === 4 && dims[1] === 1) dims = [dims[0], dims[2], dims[3]]; // (layers, batch=1, tokens, d_model)
+  if (dims.length !== 3) {
+    throw new Error(`${dump.file}: expected hidden states shaped (layers, tokens, d_model), got (${dump.shape.join(', ')}).`);
+  }
+  const [layers, T, dModel] = dims;
+  if (layers < 2) throw new Error(`${dump.file}: a trajectory needs at least two layers.`);
+  return { name: dump.name, tokens: dumpTokens(dump, T), layers, dModel, states: dump.data };
+};
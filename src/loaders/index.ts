@@ -0,0 +1,136 @@
+// src/loaders/index.ts
+// Entry point for turning user-supplied files into an EmbeddingDataset.
+// Text formats carry their own metadata; .npy and safetensors matrices take an optional
+// sidecar (plain .txt labels, or a CSV/TSV/JSONL with one metadata row per vector).
+import { EmbeddingDataset } from '../data/dataset';
+import { parseDelimited, parseLabelLines } from './delimited';
+import { parseJsonl } from './jsonl';
+import { NpyArray, parseNpy } from './npy';
+import { buildDatasetFromRecords, DatasetLoadError, emptyReport, LoadReport, RawRecord } from './records';
+import { parseSafetensors } from './safetensors';
+
+export type { LoadIssue, LoadReport } from './records';
+export { DatasetLoadError } from './records';
+
+export interface LoadResult {
+  dataset: EmbeddingDataset;
+  report: LoadReport;
+}
+
+type FileKind = 'jsonl' | 'csv' | 'tsv' | 'npy' | 'safetensors' | 'labels';
+
+export const ACCEPTED_EXTENSIONS = ['.jsonl', '.ndjson', '.json', '.csv', '.tsv', '.tab', '.npy', '.safetensors', '.txt', '.labels'];
+
+const fileKind = (name: string): FileKind | null => {
+  const ext = name.slice(name.lastIndexOf('.')).toLowerCase();
+  switch (ext) {
+    case '.jsonl': case '.ndjson': case '.json': return 'jsonl';
+    case '.csv': return 'csv';
+    case '.tsv': case '.tab': return 'tsv';
+    case '.npy': return 'npy';
+    case '.safetensors': return 'safetensors';
+    case '.txt': case '.labels': return 'labels';
+    default: return null;
+  }
+};
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+const parseTextRecords = (kind: FileKind, text: string, file: string, report: LoadReport): RawRecord[] => {
+  switch (kind) {
+    case 'jsonl': return parseJsonl(text, file, report);
+    case 'csv': return parseDelimited(text, ',', file, report);
+    case 'tsv': return parseDelimited(text, '\t', file, report);
+    default: return [];
+  }
+};
+
+const matrixRecords = async (matrix: NpyArray, file: string, sidecar: File | undefined, report: LoadReport): Promise<RawRecord[]> => {
+  if (matrix.shape.length !== 2) {
+    throw new DatasetLoadError(`${file}: expected a 2D matrix (rows × dimensions), got shape (${matrix.shape.join(', ')}).`, report);
+  }
+  const [rows, dimensions] = matrix.shape;
+  let sideRecords: RawRecord[] = [];
+  if (sidecar) {
+    const kind = fileKind(sidecar.name)!;
+    const text = await sidecar.text();
+    sideRecords = kind === 'labels'
+      ? parseLabelLines(text).map((label, i) => ({ row: i + 1, label, metadata: {} }))
+      : parseTextRecords(kind, text, sidecar.name, report);
+    if (sideRecords.length !== rows) {
+      report.warnings.push({ file: sidecar.name, message: `Sidecar has ${sideRecords.length} rows but ${file} has ${rows} vectors; unmatched rows use their index as label.` });
+    }
+  } else {
+    report.warnings.push({ file, message: 'No labels sidecar supplied; points are labelled by row index.' });
+  }
+  return Array.from({ length: rows }, (_, i) => ({
+    ...(sideRecords[i] ?? { metadata: {} }),
+    row: i + 1,
+    vector: matrix.data.subarray(i * dimensions, (i + 1) * dimensions),
+  }));
+};
+
+// Splits a pick of files into one group per dataset, for loading several at once (snapshots):
+// self-describing text files stand alone, in natural name order (epoch_2 before epoch_10); a
+// pick containing a matrix is one dataset with its sidecar.
+export const groupDatasetFiles = (files: File[]): File[][] => {
+  if (files.some(f => ['npy', 'safetensors', 'labels'].includes(fileKind(f.name) ?? ''))) return [files];
+  return [...files]
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+    .map(f => [f]);
+};
+
+// Loads one dataset from a set of dropped or picked files. Resolves with the dataset and any
+// non-fatal issues; rejects with DatasetLoadError (carrying the full report) when nothing usable remains.
+export const loadDatasetFiles = async (files: File[]): Promise<LoadResult> => {
+  const report = emptyReport();
+  const known = files.filter(f => {
+    if (fileKind(f.name)) return true;
+    report.warnings.push({ file: f.name, message: 'Unrecognised file type, ignored.' });
+    return false;
+  });
+
+  const isMatrix = (f: File) => ['npy', 'safetensors'].includes(fileKind(f.name)!);
+  const primary = known.find(isMatrix) ?? known.find(f => fileKind(f.name) !== 'labels');
+  if (!primary) throw new DatasetLoadError('No embedding file found. Drop a .jsonl, .csv, .tsv, .npy or .safetensors file.', report);
+  const sidecar = isMatrix(primary) ? known.find(f => !isMatrix(f)) : undefined;
+  known.filter(f => f !== primary && f !== sidecar).forEach(f => {
+    report.warnings.push({ file: f.name, message: `Only one dataset is loaded at a time; ${primary.name} was used.` });
+  });
+
+  const name = baseName(primary.name);
+  const kind = fileKind(primary.name)!;
+  let records: RawRecord[];
+  try {
+    if (kind === 'npy') {
+      records = await matrixRecords(parseNpy(await primary.arrayBuffer()), primary.name, sidecar, report);
+    } else if (kind === 'safetensors') {
+      const tensor = parseSafetensors(await primary.arrayBuffer());
+      report.warnings.push({ file: primary.name, message: `Using tensor "${tensor.name}".` });
+      records = await matrixRecords(tensor, primary.name, sidecar, report);
+    } else {
+      records = parseTextRecords(kind, await primary.text(), primary.name, report);
+    }
+  } catch (e) {
+    if (e instanceof DatasetLoadError) throw e;
+    report.errors.push({ file: primary.name, message: (e as Error).message });
+    throw new DatasetLoadError(`${primary.name}: ${(e as Error).message}`, report);
+  }
+
+  const dataset = buildDatasetFromRecords(name, primary.name, records, report);
+  return { dataset, report };
+};
+
+// Fetches a dataset file by URL (same-origin, or a server that allows CORS) and loads it like a
+// picked file; the file name comes from the URL path. This is how a shared view link refers to its data.
+export const loadDatasetUrl = async (url: string): Promise<LoadResult> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (e) {
+    throw new DatasetLoadError(`Could not fetch ${url}: ${(e as Error).message}`, emptyReport());
+  }
+  if (!response.ok) throw new DatasetLoadError(`Could not fetch ${url}: HTTP ${response.status}`, emptyReport());
+  const name = decodeURIComponent(new URL(url, window.location.href).pathname.split('/').pop() || 'dataset.jsonl');
+  return loadDatasetFiles([new File([await response.blob()], name)]);
+};
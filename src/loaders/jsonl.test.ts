@@ -0,0 +1,44 @@
+// src/loaders/jsonl.test.ts
+// JSONL and JSON-array parsing, including the rows that get reported instead of loaded.
+import { describe, expect, it } from 'vitest';
+import { parseJsonl } from './jsonl';
+import { emptyReport } from './records';
+
+describe('parseJsonl', () => {
+  it('reads one object per line, with nulls in a vector as NaN', () => {
+    const report = emptyReport();
+    const records = parseJsonl([
+      '{"id": 7, "text": "hello", "embedding": [0.5, null], "position": [1, 2], "flag": true}',
+      '',
+      '{"id": "b", "cluster": 1, "vector": [1, 2], "x": 3, "y": 4, "z": 5, "note": null}',
+    ].join('\r\n'), 'a.jsonl', report);
+    expect(report).toEqual(emptyReport());
+    expect(records).toEqual([
+      { row: 1, id: '7', label: 'hello', vector: [0.5, NaN], position: [1, 2, 0], metadata: { text: 'hello', flag: 'true' } },
+      { row: 3, id: 'b', cluster: 1, vector: [1, 2], position: [3, 4, 5], metadata: { note: null } },
+    ]);
+  });
+
+  it('accepts a JSON array of objects', () => {
+    const records = parseJsonl('  [{"id": "a", "embedding": [1]}, {"id": "b", "embedding": [2]}]', 'a.json', emptyReport());
+    expect(records.map(r => [r.row, r.id])).toEqual([[1, 'a'], [2, 'b']]);
+  });
+
+  it('reports malformed lines, non-object rows and non-numeric vectors, and keeps the rest', () => {
+    const report = emptyReport();
+    const records = parseJsonl('{"id": "a"}\n{"id": \n[1, 2]\n{"id": "d", "embedding": "1,2"}\n{"id": "e"}', 'a.jsonl', report);
+    expect(records.map(r => r.id)).toEqual(['a', 'e']);
+    expect(report.errors.map(({ row, message }) => [row, message.replace(/: .*/, '')])).toEqual([
+      [2, 'Malformed JSON'],
+      [3, 'Row is not a JSON object.'],
+      [4, 'Field "embedding" is not an array of numbers.'],
+    ]);
+  });
+
+  it('reports a JSON array that does not parse as a whole', () => {
+    const report = emptyReport();
+    expect(parseJsonl('[{"id": "a"},', 'a.json', report)).toEqual([]);
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0]).toMatchObject({ file: 'a.json', message: expect.stringMatching(/^Malformed JSON: /) });
+  });
+});
@@ -0,0 +1,88 @@
+// src/loaders/jsonl.ts
+// One JSON object per line, e.g. {"id": "a", "text": "...", "embedding": [0.1, ...], "source": "wiki"}.
+// A plain .json file holding an array of such objects is accepted too.
+import { MetadataValue, Vec3 } from '../data/dataset';
+import { CLUSTER_FIELDS, findField, ID_FIELDS, LABEL_FIELDS, LoadReport, RawRecord, VECTOR_FIELDS } from './records';
+
+const toVec3 = (value: unknown): Vec3 | undefined => {
+  if (!Array.isArray(value) || value.length < 2 || value.length > 3) return undefined;
+  if (!value.every(v => typeof v === 'number')) return undefined;
+  return [value[0], value[1], value[2] ?? 0];
+};
+
+export const recordFromObject = (obj: Record<string, unknown>, row: number, file: string, report: LoadReport): RawRecord | null => {
+  const fields = Object.keys(obj);
+  const idField = findField(fields, ID_FIELDS);
+  const labelField = findField(fields, LABEL_FIELDS);
+  const clusterField = findField(fields, CLUSTER_FIELDS);
+  const vectorField = findField(fields, VECTOR_FIELDS);
+  const record: RawRecord = { row, metadata: {} };
+
+  if (vectorField) {
+    const vector = obj[vectorField];
+    if (!Array.isArray(vector) || !vector.every(v => typeof v === 'number' || v === null)) {
+      report.errors.push({ file, row, message: `Field "${vectorField}" is not an array of numbers.` });
+      return null;
+    }
+    // JSON has no NaN literal; nulls are what NaN usually serialises to.
+    record.vector = vector.map(v => (v === null ? NaN : v));
+  }
+
+  if (obj.position !== undefined) {
+    record.position = toVec3(obj.position);
+  } else if (typeof obj.x === 'number' && typeof obj.y === 'number') {
+    record.position = [obj.x, obj.y, typeof obj.z === 'number' ? obj.z : 0];
+  }
+
+  if (idField && obj[idField] !== null && obj[idField] !== undefined) record.id = String(obj[idField]);
+  if (labelField && typeof obj[labelField] === 'string') record.label = obj[labelField] as string;
+  if (clusterField && typeof obj[clusterField] === 'number') record.cluster = obj[clusterField] as number;
+
+  const reserved = new Set([idField, clusterField, vectorField, 'position', 'x', 'y', 'z']);
+  fields.forEach(field => {
+    if (reserved.has(field)) return;
+    const value = obj[field];
+    let meta: MetadataValue | undefined;
+    if (typeof value === 'number' || typeof value === 'string') meta = value;
+    else if (typeof value === 'boolean') meta = String(value);
+    else if (value === null) meta = null;
+    if (meta !== undefined) record.metadata[field] = meta;
+  });
+  return record;
+};
+
+const parseRow = (parsed: unknown, row: number, file: string, report: LoadReport): RawRecord | null => {
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    report.errors.push({ file, row, message: 'Row is not a JSON object.' });
+    return null;
+  }
+  return recordFromObject(parsed as Record<string, unknown>, row, file, report);
+};
+
+export const parseJsonl = (text: string, file: string, report: LoadReport): RawRecord[] => {
+  const records: RawRecord[] = [];
+  if (text.trimStart().startsWith('[')) {
+    try {
+      (JSON.parse(text) as unknown[]).forEach((parsed, i) => {
+        const record = parseRow(parsed, i + 1, file, report);
+        if (record) records.push(record);
+      });
+    } catch (e) {
+      report.errors.push({ file, message: `Malformed JSON: ${(e as Error).message}` });
+    }
+    return records;
+  }
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (e) {
+      report.errors.push({ file, row: i + 1, message: `Malformed JSON: ${(e as Error).message}` });
+      return;
+    }
+    const record = parseRow(parsed, i + 1, file, report);
+    if (record) records.push(record);
+  });
+  return records;
+};
@@ -0,0 +1,70 @@
+// src/loaders/npy.test.ts
+// parseNpy on .npy files assembled byte by byte.
+import { describe, expect, it } from 'vitest';
+import { parseNpy } from './npy';
+
+interface NpyOptions { major?: number; fortran?: boolean; }
+
+const WRITERS: Record<string, [number, (view: DataView, offset: number, value: number) => void]> = {
+  '<f2': [2, (view, offset, bits) => view.setUint16(offset, bits, true)], // Values are raw half-precision bits
+  '<f4': [4, (view, offset, value) => view.setFloat32(offset, value, true)],
+  '<f8': [8, (view, offset, value) => view.setFloat64(offset, value, true)],
+  '>f4': [4, (view, offset, value) => view.setFloat32(offset, value, false)],
+};
+
+// Magic, version, header length, a header padded to 64 bytes as NumPy writes it, then the data.
+const npy = (descr: string, shape: number[], values: number[], { major = 1, fortran = false }: NpyOptions = {}) => {
+  const shapeText = shape.length === 1 ? `${shape[0]},` : shape.join(', ');
+  const dict = `{'descr': '${descr}', 'fortran_order': ${fortran ? 'True' : 'False'}, 'shape': (${shapeText}), }`;
+  const prefix = major === 1 ? 10 : 12;
+  const header = dict.padEnd(Math.ceil((prefix + dict.length + 1) / 64) * 64 - prefix - 1) + '\n';
+  const [size, write] = WRITERS[descr];
+  const buffer = new ArrayBuffer(prefix + header.length + values.length * size);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  bytes.set([0x93, ...Array.from('NUMPY', c => c.charCodeAt(0)), major, 0]);
+  if (major === 1) view.setUint16(8, header.length, true);
+  else view.setUint32(8, header.length, true);
+  bytes.set(Array.from(header, c => c.charCodeAt(0)), prefix);
+  values.forEach((value, i) => write(view, prefix + header.length + i * size, value));
+  return buffer;
+};
+
+describe('parseNpy', () => {
+  it('reads a version 1 float32 matrix', () => {
+    const { shape, data } = parseNpy(npy('<f4', [2, 3], [1, 2.5, -3, 0, 4, 5]));
+    expect(shape).toEqual([2, 3]);
+    expect(Array.from(data)).toEqual([1, 2.5, -3, 0, 4, 5]);
+  });
+
+  it('reads a version 2 header and float64 data', () => {
+    const { shape, data } = parseNpy(npy('<f8', [3], [0.125, -8, 1e10], { major: 2 }));
+    expect(shape).toEqual([3]);
+    expect(Array.from(data)).toEqual([0.125, -8, 1e10]);
+  });
+
+  it('widens float16', () => {
+    const { data } = parseNpy(npy('<f2', [1, 4], [0x3c00, 0xc000, 0x3800, 0x0000]));
+    expect(Array.from(data)).toEqual([1, -2, 0.5, 0]);
+  });
+
+  it('rejects a file without the magic bytes', () => {
+    const buffer = npy('<f4', [1], [1]);
+    new Uint8Array(buffer)[1] = 'X'.charCodeAt(0);
+    expect(() => parseNpy(buffer)).toThrow(/bad magic bytes/);
+  });
+
+  it('rejects big-endian, Fortran-ordered and truncated arrays', () => {
+    expect(() => parseNpy(npy('>f4', [2], [1, 2]))).toThrow(/Unsupported .npy dtype ">f4"/);
+    expect(() => parseNpy(npy('<f4', [2, 2], [1, 2, 3, 4], { fortran: true }))).toThrow(/Fortran-ordered/);
+    expect(() => parseNpy(npy('<f4', [2, 3], [1, 2, 3]))).toThrow(/truncated: shape \(2, 3\) needs 24 bytes/);
+  });
+
+  it('reports a header it cannot read', () => {
+    const buffer = npy('<f4', [1], [1]);
+    const bytes = new Uint8Array(buffer);
+    const at = new TextDecoder('latin1').decode(bytes).indexOf("'shape'");
+    bytes.set(Array.from("'shap_'", c => c.charCodeAt(0)), at);
+    expect(() => parseNpy(buffer)).toThrow(/Unreadable .npy header/);
+  });
+});
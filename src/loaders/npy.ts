@@ -0,0 +1,39 @@
+// src/loaders/npy.ts
+// NumPy .npy reader (format versions 1-3) for little-endian float16/32/64 arrays in C order.
+import { BinaryDType, BYTES_PER_ELEMENT, readFloats } from './binary';
+
+export interface NpyArray {
+  shape: number[];
+  data: Float32Array;
+}
+
+const NPY_DTYPES: Record<string, BinaryDType> = { '<f2': 'f2', '<f4': 'f4', '<f8': 'f8', '|f2': 'f2' };
+
+export const parseNpy = (buffer: ArrayBuffer): NpyArray => {
+  const bytes = new Uint8Array(buffer);
+  const magic = String.fromCharCode(...bytes.subarray(1, 6));
+  if (bytes[0] !== 0x93 || magic !== 'NUMPY') throw new Error('Not a NumPy .npy file (bad magic bytes).');
+
+  const major = bytes[6];
+  const view = new DataView(buffer);
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerStart = major === 1 ? 10 : 12;
+  const header = new TextDecoder(major === 3 ? 'utf-8' : 'latin1').decode(bytes.subarray(headerStart, headerStart + headerLength));
+
+  const descr = /'descr'\s*:\s*'([^']+)'/.exec(header)?.[1];
+  const fortran = /'fortran_order'\s*:\s*(True|False)/.exec(header)?.[1];
+  const shapeText = /'shape'\s*:\s*\(([^)]*)\)/.exec(header)?.[1];
+  if (!descr || !fortran || shapeText === undefined) throw new Error(`Unreadable .npy header: ${header.trim()}`);
+
+  const dtype = NPY_DTYPES[descr];
+  if (!dtype) throw new Error(`Unsupported .npy dtype "${descr}"; expected little-endian float16, float32 or float64.`);
+  if (fortran === 'True') throw new Error('Fortran-ordered .npy arrays are not supported; save with np.ascontiguousarray.');
+
+  const shape = shapeText.split(',').map(s => s.trim()).filter(Boolean).map(Number);
+  const count = shape.reduce((a, b) => a * b, 1);
+  const dataStart = headerStart + headerLength;
+  if (buffer.byteLength - dataStart < count * BYTES_PER_ELEMENT[dtype]) {
+    throw new Error(`.npy file is truncated: shape (${shape.join(', ')}) needs ${count * BYTES_PER_ELEMENT[dtype]} bytes of data.`);
+  }
+  return { shape, data: readFloats(buffer, dataStart, count, dtype) };
+};
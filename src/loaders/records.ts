@@ -0,0 +1,144 @@
+// src/loaders/records.ts
+// Common record shape every file parser produces, plus the validation step that
+// turns parsed records into an EmbeddingDataset and a human-readable report.
+import { createDataset, EmbeddingDataset, EmbeddingPoint, LayoutMethod, LinearProjection, MetadataValue, normalizePositions, Vec3 } from '../data/dataset';
+import { randomProjectionLayout } from '../data/layout';
+
+export interface RawRecord {
+  row: number; // 1-based line/row in the source file, for error messages
+  id?: string;
+  label?: string;
+  cluster?: number;
+  position?: Vec3;
+  vector?: ArrayLike<number>;
+  metadata: Record<string, MetadataValue>;
+}
+
+export interface LoadIssue {
+  file: string;
+  row?: number;
+  message: string;
+}
+
+export interface LoadReport {
+  errors: LoadIssue[];
+  warnings: LoadIssue[];
+}
+
+export class DatasetLoadError extends Error {
+  report: LoadReport;
+  constructor(message: string, report: LoadReport) {
+    super(message);
+    this.name = 'DatasetLoadError';
+    this.report = report;
+  }
+}
+
+export const emptyReport = (): LoadReport => ({ errors: [], warnings: [] });
+
+// Field names recognised in JSONL records and CSV headers, in priority order.
+export const ID_FIELDS = ['id', '_id', 'uid', 'key'];
+export const LABEL_FIELDS = ['label', 'name', 'title', 'text', 'sentence', 'document'];
+export const CLUSTER_FIELDS = ['cluster', 'cluster_id', 'clusterId'];
+export const VECTOR_FIELDS = ['embedding', 'vector', 'embeddings', 'values', 'emb'];
+
+export const findField = (fields: string[], candidates: string[]) => {
+  const lower = fields.map(f => f.toLowerCase());
+  for (const candidate of candidates) {
+    const index = lower.indexOf(candidate.toLowerCase());
+    if (index !== -1) return fields[index];
+  }
+  return undefined;
+};
+
+const mostCommon = (values: number[]) => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  let best = 0, bestCount = -1;
+  counts.forEach((count, value) => { if (count > bestCount) { best = value; bestCount = count; } });
+  return best;
+};
+
+const hasNonFinite = (values: ArrayLike<number>) => {
+  for (let i = 0; i < values.length; i++) if (!Number.isFinite(values[i])) return true;
+  return false;
+};
+
+// Validates vectors and coordinates, drops bad rows (recording why) and assembles the dataset.
+// Throws DatasetLoadError when nothing usable is left.
+export const buildDatasetFromRecords = (name: string, file: string, records: RawRecord[], report: LoadReport): EmbeddingDataset => {
+  const withVectors = records.filter(r => r.vector);
+  const dimensions = withVectors.length ? mostCommon(withVectors.map(r => r.vector!.length)) : 0;
+  if (withVectors.length && withVectors.length < records.length) {
+    report.warnings.push({ file, message: `${records.length - withVectors.length} of ${records.length} rows have no vector.` });
+  }
+
+  const valid = records.filter(record => {
+    if (record.vector) {
+      if (record.vector.length !== dimensions) {
+        report.errors.push({ file, row: record.row, message: `Ragged vector: ${record.vector.length} dimensions, expected ${dimensions}.` });
+        return false;
+      }
+      if (hasNonFinite(record.vector)) {
+        report.errors.push({ file, row: record.row, message: 'Vector contains NaN or infinite values.' });
+        return false;
+      }
+    } else if (dimensions > 0) {
+      return false;
+    }
+    if (record.position && hasNonFinite(record.position)) {
+      report.errors.push({ file, row: record.row, message: 'Coordinates contain NaN or infinite values.' });
+      return false;
+    }
+    return true;
+  });
+
+  if (valid.length === 0) {
+    throw new DatasetLoadError(`${file}: no usable rows.`, report);
+  }
+
+  const seenIds = new Set<string>();
+  const points: EmbeddingPoint[] = valid.map((record, index) => {
+    let id = record.id ?? String(index);
+    if (seenIds.has(id)) {
+      report.warnings.push({ file, row: record.row, message: `Duplicate id "${id}" renamed to "${id}#${index}".` });
+      id = `${id}#${index}`;
+    }
+    seenIds.add(id);
+    return {
+      id,
+      label: record.label ?? id,
+      cluster: record.cluster ?? 0,
+      position: [0, 0, 0],
+      metadata: record.metadata,
+    };
+  });
+
+  let vectors: Float32Array | null = null;
+  if (dimensions > 0) {
+    vectors = new Float32Array(valid.length * dimensions);
+    valid.forEach((record, i) => vectors!.set(record.vector!, i * dimensions));
+  }
+
+  let positions: Vec3[];
+  let layout: LayoutMethod = 'provided';
+  let projection: LinearProjection | null = null;
+  if (valid.every(r => r.position)) {
+    positions = normalizePositions(valid.map(r => r.position!));
+  } else if (vectors) {
+    ({ positions, projection } = randomProjectionLayout(vectors, valid.length, dimensions));
+    layout = 'random-projection';
+  } else {
+    throw new DatasetLoadError(`${file}: rows have neither a vector nor x/y coordinates.`, report);
+  }
+  points.forEach((point, i) => { point.position = positions[i]; });
+
+  return createDataset({ name, points, vectors, dimensions, layout, projection });
+};
+
+export const parseScalar = (raw: string): MetadataValue => {
+  const trimmed = raw.trim();
+  if (trimmed === '') return null;
+  const num = Number(trimmed);
+  return Number.isNaN(num) ? trimmed : num;
+};
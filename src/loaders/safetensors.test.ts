@@ -0,0 +1,65 @@
+// src/loaders/safetensors.test.ts
+// parseSafetensors on files assembled byte by byte.
+import { describe, expect, it } from 'vitest';
+import { parseSafetensors, readSafetensorsHeader } from './safetensors';
+
+interface Tensor { dtype: string; shape: number[]; bytes: number[]; }
+
+const f32 = (...values: number[]) => Array.from(new Uint8Array(Float32Array.from(values).buffer)); // Little-endian hosts
+const u16 = (...bits: number[]) => bits.flatMap(b => [b & 0xff, b >> 8]);
+
+// 8-byte header length, the JSON header, then each tensor's bytes in order.
+const safetensors = (tensors: Record<string, Tensor>, metadata?: Record<string, string>) => {
+  let offset = 0;
+  const header: Record<string, unknown> = metadata ? { __metadata__: metadata } : {};
+  Object.entries(tensors).forEach(([name, { dtype, shape, bytes }]) => {
+    header[name] = { dtype, shape, data_offsets: [offset, offset + bytes.length] };
+    offset += bytes.length;
+  });
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const buffer = new ArrayBuffer(8 + json.length + offset);
+  new DataView(buffer).setBigUint64(0, BigInt(json.length), true);
+  new Uint8Array(buffer).set(json, 8);
+  new Uint8Array(buffer).set(Object.values(tensors).flatMap(t => t.bytes), 8 + json.length);
+  return buffer;
+};
+
+describe('parseSafetensors', () => {
+  it('prefers a tensor named like an embedding matrix, leaving out the metadata entry', () => {
+    const buffer = safetensors({
+      bias: { dtype: 'F32', shape: [2], bytes: f32(9, 9) },
+      other: { dtype: 'F32', shape: [3, 2], bytes: f32(0, 0, 0, 0, 0, 0) },
+      embeddings: { dtype: 'F32', shape: [2, 2], bytes: f32(1, 2, 3, 4) },
+    }, { format: 'pt' });
+    expect(Object.keys(readSafetensorsHeader(buffer).header)).toEqual(['bias', 'other', 'embeddings']);
+    const { name, shape, data } = parseSafetensors(buffer);
+    expect(name).toBe('embeddings');
+    expect(shape).toEqual([2, 2]);
+    expect(Array.from(data)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('otherwise takes the largest float matrix, or the tensor asked for', () => {
+    const buffer = safetensors({
+      small: { dtype: 'F32', shape: [1, 2], bytes: f32(5, 6) },
+      large: { dtype: 'BF16', shape: [2, 2], bytes: u16(0x3f80, 0xc000, 0x3f00, 0) }, // 1, -2, 0.5, 0
+    });
+    expect(parseSafetensors(buffer).name).toBe('large');
+    expect(Array.from(parseSafetensors(buffer).data)).toEqual([1, -2, 0.5, 0]);
+    expect(Array.from(parseSafetensors(buffer, 'small').data)).toEqual([5, 6]);
+  });
+
+  it('rejects a header length that runs past the file', () => {
+    const buffer = safetensors({ x: { dtype: 'F32', shape: [1, 1], bytes: f32(1) } });
+    new DataView(buffer).setBigUint64(0, 1000n, true);
+    expect(() => parseSafetensors(buffer)).toThrow(/bad header length/);
+  });
+
+  it('rejects files with no usable tensor, unsupported dtypes and byte ranges that do not fit', () => {
+    expect(() => parseSafetensors(safetensors({ ids: { dtype: 'I64', shape: [1, 1], bytes: new Array(8).fill(0) } })))
+      .toThrow(/No suitable float tensor found \(tensors: ids\)/);
+    expect(() => parseSafetensors(safetensors({ ids: { dtype: 'I64', shape: [1, 1], bytes: new Array(8).fill(0) } }), 'ids'))
+      .toThrow(/unsupported dtype I64/);
+    expect(() => parseSafetensors(safetensors({ x: { dtype: 'F32', shape: [2, 2], bytes: f32(1, 2, 3) } })))
+      .toThrow(/byte range does not match its shape \(2 × 2\)/);
+  });
+});
@@ -0,0 +1,43 @@
+// src/loaders/safetensors.ts
+// safetensors: 8-byte little-endian header length, a JSON header, then raw tensor bytes.
+import { BinaryDType, BYTES_PER_ELEMENT, readFloats } from './binary';
+import { NpyArray } from './npy';
+
+interface TensorInfo { dtype: string; shape: number[]; data_offsets: [number, number]; }
+
+const SAFETENSORS_DTYPES: Record<string, BinaryDType> = { F16: 'f2', BF16: 'bf2', F32: 'f4', F64: 'f8' };
+
+// Names tried first when a file holds several 2D tensors.
+const PREFERRED_TENSORS = ['embeddings', 'embedding', 'vectors', 'weight'];
+
+export const readSafetensorsHeader = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const headerLength = Number(view.getBigUint64(0, true));
+  if (headerLength <= 0 || headerLength + 8 > buffer.byteLength) throw new Error('Not a safetensors file (bad header length).');
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 8, headerLength))) as Record<string, TensorInfo>;
+  delete header.__metadata__;
+  return { header, dataStart: 8 + headerLength };
+};
+
+// Returns the named tensor, or the most plausible embedding matrix when no name is given.
+export const parseSafetensors = (buffer: ArrayBuffer, tensorName?: string): NpyArray & { name: string } => {
+  const { header, dataStart } = readSafetensorsHeader(buffer);
+  const names = Object.keys(header);
+  let name = tensorName;
+  if (!name) {
+    const matrices = names.filter(n => header[n].shape.length === 2 && SAFETENSORS_DTYPES[header[n].dtype]);
+    name = PREFERRED_TENSORS.find(p => matrices.includes(p))
+      ?? matrices.sort((a, b) => header[b].shape[0] * header[b].shape[1] - header[a].shape[0] * header[a].shape[1])[0];
+  }
+  if (!name || !header[name]) throw new Error(`No suitable float tensor found (tensors: ${names.join(', ') || 'none'}).`);
+
+  const info = header[name];
+  const dtype = SAFETENSORS_DTYPES[info.dtype];
+  if (!dtype) throw new Error(`Tensor "${name}" has unsupported dtype ${info.dtype}.`);
+  const count = info.shape.reduce((a, b) => a * b, 1);
+  const [start, end] = info.data_offsets;
+  if (end - start !== count * BYTES_PER_ELEMENT[dtype] || dataStart + end > buffer.byteLength) {
+    throw new Error(`Tensor "${name}" byte range does not match its shape (${info.shape.join(' × ')}).`);
+  }
+  return { name, shape: info.shape, data: readFloats(buffer, dataStart + start, count, dtype) };
+};
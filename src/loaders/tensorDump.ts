@@ -0,0 +1,77 @@
+// src/loaders/tensorDump.ts
+// The file layouts the LLM views accept for a per-prompt tensor: one JSON file holding the tokens
+// and the nested values under a known key, or a .npy tensor. Either can take a tokens sidecar
+// (.txt with one token per line, or a JSON array of strings).
+import { parseLabelLines } from './delimited';
+import { parseNpy } from './npy';
+
+export const TENSOR_DUMP_EXTENSIONS = ['.json', '.npy', '.txt'];
+
+export interface TensorDump {
+  name: string; // Base name of the tensor file
+  file: string; // Tensor file name, for messages
+  shape: number[];
+  data: Float32Array; // C order
+  tokens: string[] | null;
+  tokensFile: string; // Where the tokens came from, for messages
+}
+
+const extension = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Shape of a nested numeric array, checked to be rectangular while it is flattened.
+const flattenNested = (value: unknown, file: string): { shape: number[]; data: Float32Array } => {
+  const shape: number[] = [];
+  for (let level: unknown = value; Array.isArray(level); level = level[0]) shape.push(level.length);
+  const data = new Float32Array(shape.reduce((a, b) => a * b, 1));
+  let written = 0;
+  const walk = (node: unknown, depth: number) => {
+    if (depth === shape.length) {
+      if (typeof node !== 'number' || !Number.isFinite(node)) throw new Error(`${file}: tensor values must be finite numbers.`);
+      data[written++] = node;
+      return;
+    }
+    if (!Array.isArray(node) || node.length !== shape[depth]) {
+      throw new Error(`${file}: the array is ragged at depth ${depth + 1}; expected ${shape[depth]} entries.`);
+    }
+    node.forEach(child => walk(child, depth + 1));
+  };
+  walk(value, 0);
+  return { shape, data };
+};
+
+const parseTokens = (text: string, file: string): string[] => {
+  if (extension(file) !== '.json') return parseLabelLines(text);
+  const tokens = JSON.parse(text);
+  if (!Array.isArray(tokens) || !tokens.every(t => typeof t === 'string')) throw new Error(`${file}: expected a JSON array of token strings.`);
+  return tokens;
+};
+
+// Reads the tensor from picked or dropped files. `keys` are the JSON properties tried in turn
+// for the nested values; `what` names the tensor in messages.
+export const readTensorDump = async (files: File[], keys: string[], what: string): Promise<TensorDump> => {
+  const primary = files.find(f => extension(f.name) === '.npy')
+    ?? files.filter(f => extension(f.name) === '.json').sort((a, b) => b.size - a.size)[0]; // Beside a tokens JSON, the tensor is the bigger file
+  if (!primary) throw new Error(`No ${what} file found. Pick a .json dump, or a .npy tensor plus a tokens file.`);
+  const sidecar = files.find(f => f !== primary && ['.txt', '.json'].includes(extension(f.name)));
+
+  let shape: number[], data: Float32Array, tokens: string[] | null = null;
+  if (extension(primary.name) === '.npy') {
+    ({ shape, data } = parseNpy(await primary.arrayBuffer()));
+  } else {
+    const json = JSON.parse(await primary.text());
+    const nested = Array.isArray(json) ? json : keys.map(key => json?.[key]).find(Array.isArray);
+    if (!Array.isArray(nested)) throw new Error(`${primary.name}: no "${keys[0]}" array found.`);
+    ({ shape, data } = flattenNested(nested, primary.name));
+    if (Array.isArray(json?.tokens)) tokens = json.tokens.map(String);
+  }
+  if (sidecar) tokens = parseTokens(await sidecar.text(), sidecar.name);
+  return { name: baseName(primary.name), file: primary.name, shape, data, tokens, tokensFile: sidecar?.name ?? primary.name };
+};
+
+// The dump's tokens, checked against the token count its shape implies; numbered placeholders when absent.
+export const dumpTokens = (dump: TensorDump, count: number): string[] => {
+  if (!dump.tokens) return Array.from({ length: count }, (_, i) => `t${i}`);
+  if (dump.tokens.length !== count) throw new Error(`${dump.tokensFile}: ${dump.tokens.length} tokens for a ${count}-token ${dump.file}.`);
+  return dump.tokens;
+};
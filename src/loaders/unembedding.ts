@@ -0,0 +1,75 @@
+// src/loaders/unembedding.ts
+// The unembedding for the logit lens: a (vocab, d_model) matrix as .npy or .safetensors, plus the
+// vocabulary as .txt (one token per line, in id order), a JSON array, a vocab.json ({ token: id })
+// or a tokenizer.json. A (d_model, vocab) matrix, such as TransformerLens's W_U, is transposed.
+import { displayToken, Unembedding } from '../llm/logitLens';
+import { parseLabelLines } from './delimited';
+import { parseNpy } from './npy';
+import { parseSafetensors, readSafetensorsHeader } from './safetensors';
+
+export const UNEMBEDDING_EXTENSIONS = ['.npy', '.safetensors', '.json', '.txt'];
+
+// Checkpoint names for the output projection, tried in order; tied models only have the input embedding.
+const UNEMBEDDING_TENSORS = ['lm_head.weight', 'embed_out.weight', 'output.weight', 'transformer.wte.weight', 'model.embed_tokens.weight', 'wte.weight'];
+
+const extension = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+
+// Token ids to strings; gaps in the id range stay undefined and are numbered by the caller.
+const idMapToVocab = (entries: [string, unknown][], file: string): string[] => {
+  const vocab: string[] = [];
+  for (const [token, id] of entries) {
+    if (!Number.isInteger(id) || (id as number) < 0) throw new Error(`${file}: token ${JSON.stringify(token)} has no valid id.`);
+    vocab[id as number] = token;
+  }
+  return vocab;
+};
+
+const parseVocab = (text: string, file: string): string[] => {
+  if (extension(file) !== '.json') return parseLabelLines(text);
+  const json = JSON.parse(text);
+  const vocab = json?.model?.vocab ?? json; // tokenizer.json nests the vocabulary under the model
+  if (Array.isArray(vocab)) {
+    // SentencePiece (Unigram) tokenizer.json lists [token, score] pairs in id order.
+    return vocab.map(entry => (Array.isArray(entry) ? String(entry[0]) : String(entry)));
+  }
+  if (vocab && typeof vocab === 'object') return idMapToVocab(Object.entries(vocab), file);
+  throw new Error(`${file}: expected a token list, a { token: id } map or a tokenizer.json.`);
+};
+
+const readMatrix = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+  if (extension(file.name) === '.npy') return parseNpy(buffer);
+  const names = Object.keys(readSafetensorsHeader(buffer).header);
+  return parseSafetensors(buffer, UNEMBEDDING_TENSORS.find(name => names.includes(name)));
+};
+
+export const loadUnembeddingFiles = async (files: File[]): Promise<Unembedding> => {
+  const matrixFile = files.find(f => ['.npy', '.safetensors'].includes(extension(f.name)));
+  if (!matrixFile) throw new Error('No unembedding found. Pick a .npy or .safetensors matrix, plus a vocabulary file.');
+  const vocabFile = files.find(f => ['.txt', '.json'].includes(extension(f.name)));
+
+  const { shape, data } = await readMatrix(matrixFile);
+  if (shape.length !== 2) throw new Error(`${matrixFile.name}: expected a 2D (vocab, d_model) matrix, got (${shape.join(', ')}).`);
+  const vocab = vocabFile ? parseVocab(await vocabFile.text(), vocabFile.name) : [];
+
+  // The vocabulary axis is the one matching the vocabulary's length, else the longer one.
+  // Checkpoints often pad the vocabulary to a round size, so the matrix may have spare rows.
+  const transposed = vocab.length > 0 ? shape[0] !== vocab.length && shape[1] === vocab.length : shape[1] > shape[0];
+  const [vocabSize, dModel] = transposed ? [shape[1], shape[0]] : shape;
+  if (vocab.length > vocabSize) {
+    throw new Error(`${vocabFile!.name}: ${vocab.length} tokens, but ${matrixFile.name} has only ${vocabSize} vocabulary rows.`);
+  }
+
+  let weights = data;
+  if (transposed) {
+    weights = new Float32Array(data.length);
+    for (let d = 0; d < dModel; d++) {
+      for (let v = 0; v < vocabSize; v++) weights[v * dModel + d] = data[d * vocabSize + v];
+    }
+  }
+  return {
+    name: matrixFile.name.replace(/\.[^.]+$/, ''),
+    vocab: Array.from({ length: vocabSize }, (_, id) => (vocab[id] === undefined ? `#${id}` : displayToken(vocab[id]))),
+    vocabSize, dModel, weights,
+  };
+};
@@ -1,9 +1,39 @@
 // src/main.tsx
 import ReactDOM from 'react-dom/client';
-import MyTestShell from './MyTestShell.tsx'; // Points to the minimal R3F App
+import AppShell from './AppShell.tsx';
+import { NeighborsProvider } from './analysis/NeighborsContext.tsx';
+import { CompareProvider } from './compare/CompareContext.tsx';
+import { DatasetProvider } from './data/DatasetContext.tsx';
+import { EncodingProvider } from './data/EncodingContext.tsx';
+import { FilterProvider } from './data/FilterContext.tsx';
+import { SelectionProvider } from './data/SelectionContext.tsx';
+import { LlmProvider } from './llm/LlmContext.tsx';
+import { QueryProvider } from './query/QueryContext.tsx';
+import { ViewStateProvider } from './shell/ViewStateContext.tsx';
+import { SnapshotProvider } from './snapshots/SnapshotContext.tsx';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   // <React.StrictMode> // Keep StrictMode commented for now
-    <MyTestShell />
+    <DatasetProvider>
+      <NeighborsProvider>
+        <SnapshotProvider>
+          <CompareProvider>
+            <EncodingProvider>
+              <FilterProvider>
+                <SelectionProvider>
+                  <QueryProvider>
+                    <LlmProvider>
+                      <ViewStateProvider>
+                        <AppShell />
+                      </ViewStateProvider>
+                    </LlmProvider>
+                  </QueryProvider>
+                </SelectionProvider>
+              </FilterProvider>
+            </EncodingProvider>
+          </CompareProvider>
+        </SnapshotProvider>
+      </NeighborsProvider>
+    </DatasetProvider>
   // </React.StrictMode>,
-);
\ No newline at end of file
+);
@@ -0,0 +1,556 @@
+// src/pixi/ChronoScroll.ts
+// The Pixi scroll as an imperative scene: display objects are created when the data changes
+// and animated from the ticker, so React re-renders only when the data, selection or query do,
+// never per frame. A quadtree over the runes culls what is out of view and answers pointer
+// hit tests, rather than Pixi's per-object events walking every sprite on every move. How much
+// of each rune is drawn depends on the zoom: cluster bubbles, dots, runes, then runes with names.
+import * as PIXI from 'pixi.js';
+import { EmbeddingDataset, NOISE_CLUSTER } from '../data/dataset';
+import { neighborsOf } from '../data/neighbors';
+import { rgbToHex } from '../data/palette';
+import { Quadtree } from '../data/quadtree';
+import { createRng } from '../data/random';
+import { QueryMarker } from '../query/QueryContext';
+import { CameraState } from '../shell/viewState';
+import { ClusterBubbles, summarizeClusters } from './ClusterBubbles';
+import { Minimap } from './Minimap';
+import { RuneDetail, RuneGlyph, RuneLayers } from './RuneGlyph';
+import { RuneTextures } from './runeTextures';
+import { MAX_RUNE_SIZE, RuneData, scrollBounds, toScrollPosition } from './runes';
+import { Viewport, WorldBounds } from './Viewport';
+
+export interface ScrollCallbacks {
+  onHover: (id: string | null) => void;
+  onTap: (id: string) => void;
+  onCamera: (camera: CameraState) => void; // When the view comes to rest after moving
+}
+
+export interface ScrollMarks {
+  selectedId: string | null;
+  hoveredId: string | null;
+  mask: Uint8Array | null; // 0 = filtered out
+  selectedIds: ReadonlySet<string>;
+}
+
+// Spinning every symbol re-uploads every sprite each frame; past this many runes in view only
+// the highlighted ones spin.
+const AMBIENT_SPIN_LIMIT = 5000;
+
+// Levels of detail, by zoom.
+type Detail = 'clusters' | 'dots' | 'runes' | 'names';
+const CLUSTER_ZOOM = 0.3; // Below this, cluster bubbles stand in for the runes
+const DOT_ZOOM = 0.6; // Below this, runes are dots
+const NAME_ZOOM = 1.4; // From this, runes in view are named
+const MAX_NAMES = 150; // With more runes in view, only the hovered and selected are named
+const detailAt = (zoom: number): Detail => (zoom < CLUSTER_ZOOM ? 'clusters' : zoom < DOT_ZOOM ? 'dots' : zoom < NAME_ZOOM ? 'runes' : 'names');
+
+// Rebuilding the quadtree costs tens of milliseconds at 50k runes, so while they move (a layout
+// transition) it is rebuilt at most this often; culling in between uses where they just were.
+const INDEX_REBUILD_MS = 100;
+const MINIMAP_REDRAW_MS = 250;
+const MAX_RUNE_RADIUS = MAX_RUNE_SIZE * 1.28; // Selected runes grow by this much
+const CULL_MARGIN = MAX_RUNE_RADIUS * 1.8; // Reach of the largest rune's glow
+const TILE_SIZE = 500; // Scroll units; the parchment is drawn in tiles so those out of view are culled
+
+const QUERY_COLOR = 0xffd27a;
+const THREAD_GROWTH = 1.5; // Per second; fraction of its length a thread grows
+
+type Point = { x: number; y: number };
+
+// Offset in -0.5..0.5 for a point on the parchment's grain, the same for every tile that meets there.
+const grainJitter = (line: number, at: number) => createRng((line * 73856093) ^ (at * 19349663))() - 0.5;
+
+// A scroll extent grown to whole tiles.
+const toTiles = ({ x, y, width, height }: WorldBounds): WorldBounds => {
+  const left = Math.floor(x / TILE_SIZE) * TILE_SIZE, top = Math.floor(y / TILE_SIZE) * TILE_SIZE;
+  return { x: left, y: top, width: Math.ceil((x + width) / TILE_SIZE) * TILE_SIZE - left, height: Math.ceil((y + height) / TILE_SIZE) * TILE_SIZE - top };
+};
+
+const intersects = (a: WorldBounds, b: WorldBounds) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+interface ThreadEnd extends Point { strength: number; } // strength is the kNN similarity normalised over the graph
+
+// Threads from one point to several, growing out from it. Redrawn only while growing or when
+// the ends move.
+class ThreadWeave {
+  readonly graphics = new PIXI.Graphics();
+  private from: Point = { x: 0, y: 0 };
+  private ends: ThreadEnd[] = [];
+  private color = 0xffffff;
+  private progress = 1;
+  private dirty = false;
+
+  constructor() {
+    this.graphics.filters = [new PIXI.BlurFilter({ strength: 2.5 })];
+  }
+
+  // Starts growing afresh.
+  weave(from: Point, ends: ThreadEnd[], color: number) {
+    this.color = color;
+    this.progress = ends.length > 0 ? 0 : 1;
+    this.move(from, ends);
+  }
+
+  // Follows moving ends (e.g. a layout transition) without starting over.
+  move(from: Point, ends: ThreadEnd[]) {
+    this.from = from;
+    this.ends = ends;
+    this.dirty = true;
+  }
+
+  update(deltaMS: number) {
+    if (this.progress < 1) {
+      this.progress = Math.min(1, this.progress + deltaMS / 1000 * THREAD_GROWTH);
+      this.dirty = true;
+    }
+    if (!this.dirty) return;
+    this.dirty = false;
+    const g = this.graphics.clear();
+    const { from, progress } = this;
+    this.ends.forEach(to => {
+      const toX = from.x + (to.x - from.x) * progress, toY = from.y + (to.y - from.y) * progress;
+      g.moveTo(from.x, from.y)
+        .quadraticCurveTo(
+          from.x + (to.x - from.x) * progress * 0.5,
+          from.y + (to.y - from.y) * progress * 0.5 + Math.sin(progress * Math.PI) * 25,
+          toX, toY,
+        )
+        .stroke({ width: 1.4 + to.strength * 2.4, color: this.color, alpha: 0.25 + to.strength * 0.45 });
+      if (progress > 0.04 && progress < 0.96) g.circle(toX, toY, 3.8).fill({ color: this.color, alpha: 0.65 });
+    });
+  }
+
+  destroy() {
+    this.graphics.destroy();
+  }
+}
+
+// The semantic query: a gold seal on the scroll with threads to its nearest neighbours.
+class QuerySeal {
+  readonly container = new PIXI.Container();
+  private readonly seal = new PIXI.Graphics();
+  private readonly label: PIXI.Text;
+  private readonly threads = new ThreadWeave();
+  private marker: QueryMarker | null = null;
+  private time = 0;
+
+  constructor() {
+    const radius = 20;
+    this.seal.poly([0, -radius, radius, 0, 0, radius, -radius, 0]).fill({ color: QUERY_COLOR, alpha: 0.95 }).stroke({ width: 3, color: 0xffffff, alpha: 0.9 });
+    this.label = new PIXI.Text({
+      anchor: { x: 0.5, y: 1 },
+      style: {
+        fontSize: 14, fill: QUERY_COLOR, fontStyle: 'italic',
+        stroke: { color: 0x050505, width: 3.5 },
+        wordWrap: true, wordWrapWidth: 220, align: 'center',
+      },
+    });
+    this.container.addChild(this.threads.graphics, this.seal, this.label);
+    this.container.visible = false;
+  }
+
+  set(marker: QueryMarker | null, runes: RuneData[]) {
+    const changed = marker !== this.marker;
+    this.marker = marker;
+    this.container.visible = marker !== null;
+    if (!marker) return;
+    const position = toScrollPosition(marker.position);
+    this.seal.position.set(position.x, position.y);
+    this.label.position.set(position.x, position.y - 28);
+    this.label.text = `“${marker.text}”`;
+    const ends = marker.neighbors.flatMap(({ index, strength }) => (runes[index] ? [{ ...runes[index].position, strength }] : []));
+    if (changed) this.threads.weave(position, ends, QUERY_COLOR);
+    else this.threads.move(position, ends);
+  }
+
+  update(deltaMS: number) {
+    if (!this.marker) return;
+    this.time += deltaMS;
+    this.seal.scale.set(1 + Math.sin(this.time * 0.06 * 60 / 1000) * 0.1);
+    this.threads.update(deltaMS);
+  }
+
+  destroy() {
+    this.threads.destroy();
+    this.container.destroy({ children: true });
+  }
+}
+
+interface ParchmentTile { graphics: PIXI.Graphics; bounds: WorldBounds; }
+
+export class ChronoScroll {
+  readonly root = new PIXI.Container(); // The scene's place in the React tree
+  private readonly viewport = new Viewport(toTiles(scrollBounds([])));
+  private readonly world = new PIXI.Container({ isRenderGroup: true }); // Panned and zoomed by the viewport
+  private readonly parchment = new PIXI.Container();
+  private tiles: ParchmentTile[] = [];
+  private bounds = toTiles(scrollBounds([]));
+  private readonly textures: RuneTextures;
+  private readonly layers: RuneLayers;
+  private readonly labels = new PIXI.Container();
+  private readonly threads = new ThreadWeave();
+  private readonly seal = new QuerySeal();
+  private readonly bubbles = new ClusterBubbles();
+  private readonly minimap: Minimap;
+  private readonly detach: () => void;
+  private glyphs: RuneGlyph[] = [];
+  private indexById = new Map<string, number>();
+  private index: Quadtree | null = null;
+  private indexBuiltAt = -Infinity; // -Infinity = the runes were replaced; rebuild at once
+  private indexStale = false;
+  private minimapDrawnAt = -Infinity;
+  private minimapStale = false;
+  private shown: number[] = []; // Runes in view, drawn at some detail
+  private cullStamp = 0;
+  private seenAt = new Int32Array(0); // cullStamp of the last cull that found each rune in view
+  private detail: Detail | null = null;
+  private viewStale = true; // Something besides the view changed what is shown
+  private fitted = false; // The view starts on the whole scroll, once
+  private dataset: EmbeddingDataset | null = null;
+  private marks: ScrollMarks = { selectedId: null, hoveredId: null, mask: null, selectedIds: new Set() };
+  private marker: QueryMarker | null = null;
+  private threadSource = -1; // Rune the neighbour threads come from
+  private readonly animating = new Set<RuneGlyph>();
+  private readonly nameLabels = new Map<string, PIXI.Text>();
+  private readonly nameStyle = new PIXI.TextStyle({
+    fontSize: 13, fill: 0xf5f5f5,
+    stroke: { color: 0x050505, width: 3.5 },
+    wordWrap: true, wordWrapWidth: 170, align: 'center',
+    dropShadow: { color: 0x000000, blur: 4, alpha: 0.85, angle: Math.PI / 4, distance: 2 },
+  });
+  private pointer: Point | null = null; // Last pointer position over the canvas, in screen pixels
+  private hoverStale = false; // The pointer, the view or the runes moved since the last pick
+  private reportedHover: string | null = null;
+
+  constructor(private readonly app: PIXI.Application, glowSprite: PIXI.Texture | null, private readonly callbacks: ScrollCallbacks) {
+    this.textures = new RuneTextures(app.renderer, glowSprite);
+    const layer = () => new PIXI.Container({ eventMode: 'none' });
+    this.layers = { glow: layer(), highlight: layer(), body: layer(), symbol: layer() };
+    this.labels.eventMode = 'none';
+    this.world.eventMode = 'none'; // Hit testing is ours; see pick()
+    this.world.addChild(
+      this.parchment, this.threads.graphics, this.layers.glow, this.layers.highlight, this.layers.body,
+      this.layers.symbol, this.bubbles.container, this.seal.container, this.labels,
+    );
+    this.minimap = new Minimap((x, y, glide) => (glide ? this.viewport.flyTo(x, y) : this.viewport.jumpTo([x, y, this.viewport.scale])));
+    this.root.addChild(this.world, this.minimap.container);
+    this.drawParchment();
+
+    const stage = app.stage;
+    const canvas = app.canvas;
+    const detachViewport = this.viewport.attach(stage, canvas, app.screen);
+    const onMove = (event: PIXI.FederatedPointerEvent) => {
+      const { x, y } = event.global;
+      this.pointer = this.minimap.contains(x, y) ? null : { x, y };
+      this.hoverStale = true;
+    };
+    const onLeave = () => {
+      this.pointer = null;
+      this.hoverStale = true;
+    };
+    const onTap = (event: PIXI.FederatedPointerEvent) => {
+      if (this.viewport.wasDrag) return;
+      const index = this.pick(event.global.x, event.global.y);
+      if (index >= 0) {
+        callbacks.onTap(this.glyphs[index].data.id);
+        return;
+      }
+      // A cluster bubble zooms in on its runes.
+      const bubble = this.detail === 'clusters' ? this.bubbles.pick(...this.viewport.toWorld(event.global.x, event.global.y)) : null;
+      if (bubble) {
+        const fit = this.viewport.zoomToFit({ x: 0, y: 0, width: bubble.radius * 2.4, height: bubble.radius * 2.4 });
+        this.viewport.flyTo(bubble.x, bubble.y, Math.max(DOT_ZOOM, fit));
+      }
+    };
+    stage.on('pointermove', onMove);
+    stage.on('pointertap', onTap);
+    canvas.addEventListener('pointerleave', onLeave);
+    this.detach = () => {
+      detachViewport();
+      stage.off('pointermove', onMove);
+      stage.off('pointertap', onTap);
+      canvas.removeEventListener('pointerleave', onLeave);
+    };
+  }
+
+  // missing holds the rune symbols the rune font cannot draw; they show as stars.
+  setRunes(dataset: EmbeddingDataset, runes: RuneData[], missing: ReadonlySet<string>) {
+    this.dataset = dataset;
+    const symbolOf = (rune: RuneData) => (missing.has(rune.rune) ? null : rune.rune);
+    const sameRunes = runes.length === this.glyphs.length && runes.every((rune, i) => this.glyphs[i].data.id === rune.id);
+    if (sameRunes) {
+      // A layout transition or a new encoding: move and recolour in place.
+      runes.forEach((rune, i) => this.glyphs[i].setRune(rune, symbolOf(rune)));
+    } else {
+      this.glyphs.forEach(glyph => glyph.destroy());
+      this.animating.clear();
+      this.glyphs = runes.map(rune => new RuneGlyph(this.layers, this.textures, rune, symbolOf(rune)));
+      this.indexById = new Map(runes.map((rune, i) => [rune.id, i]));
+      this.seenAt = new Int32Array(runes.length);
+      this.shown = [];
+      this.index = null;
+      this.indexBuiltAt = -Infinity;
+      this.threadSource = -1;
+      this.refreshMarks();
+    }
+    this.indexStale = this.minimapStale = this.viewStale = this.hoverStale = true;
+
+    const bounds = toTiles(scrollBounds(runes));
+    const { x, y, width, height } = this.bounds;
+    if (bounds.x !== x || bounds.y !== y || bounds.width !== width || bounds.height !== height) {
+      this.bounds = bounds;
+      this.viewport.setBounds(bounds);
+      this.drawParchment();
+    }
+    if (!this.fitted && runes.length > 0) {
+      this.fitted = true;
+      this.viewport.resize(this.app.screen.width, this.app.screen.height);
+      const data = scrollBounds(runes);
+      this.viewport.jumpTo([data.x + data.width / 2, data.y + data.height / 2, this.viewport.zoomToFit(data)]);
+    }
+
+    this.bubbles.set(summarizeClusters(runes));
+    this.updateThreads();
+    this.seal.set(this.marker, runes);
+  }
+
+  setMarks(marks: ScrollMarks) {
+    const previous = this.marks;
+    this.marks = marks;
+    if (marks.mask !== previous.mask || marks.selectedIds !== previous.selectedIds) {
+      this.refreshMarks();
+    } else {
+      // Only hover or selection moved: touch just the runes involved.
+      [previous.selectedId, previous.hoveredId, marks.selectedId, marks.hoveredId].forEach(id => {
+        const index = id !== null ? this.indexById.get(id) : undefined;
+        if (index !== undefined) this.refreshMark(index);
+      });
+    }
+    this.viewStale = true; // Zoomed out to clusters, the selection still shows as dots
+    this.updateThreads();
+  }
+
+  setQuery(marker: QueryMarker | null) {
+    this.marker = marker;
+    this.seal.set(marker, this.glyphs.map(glyph => glyph.data));
+  }
+
+  // Glides the view to the rune with this id, if it is on the scroll, near enough to see it as a rune.
+  flyTo(id: string) {
+    const index = this.indexById.get(id);
+    if (index === undefined) return;
+    const { x, y } = this.glyphs[index].data.position;
+    this.viewport.flyTo(x, y, Math.max(this.viewport.scale, DOT_ZOOM));
+  }
+
+  // Moves the view at once, as for a shared link; the scroll then keeps it rather than fitting itself.
+  jumpTo(camera: CameraState) {
+    this.fitted = true;
+    this.viewport.jumpTo(camera);
+  }
+
+  // Screen position of a rune, for box/lasso selection.
+  project(index: number): [number, number] | null {
+    const glyph = this.glyphs[index];
+    return glyph ? this.viewport.toScreen(glyph.data.position.x, glyph.data.position.y) : null;
+  }
+
+  update(deltaMS: number) {
+    const { viewport, world, app } = this;
+    viewport.resize(app.screen.width, app.screen.height);
+    const motion = viewport.update(deltaMS);
+    viewport.apply(world);
+    if (motion === 'settled') this.callbacks.onCamera(viewport.camera);
+
+    const now = performance.now();
+    if (this.indexStale && now - this.indexBuiltAt >= INDEX_REBUILD_MS) this.rebuildIndex(now);
+    if (this.minimapStale && now - this.minimapDrawnAt >= MINIMAP_REDRAW_MS) {
+      this.minimapStale = false;
+      this.minimapDrawnAt = now;
+      this.minimap.setRunes(this.glyphs.map(glyph => glyph.data), this.bounds);
+    }
+    const detail = detailAt(viewport.scale);
+    if (detail !== this.detail) {
+      this.detail = detail;
+      this.viewStale = true;
+    }
+    if (motion || this.viewStale) this.cull();
+    this.minimap.update(app.screen.width, viewport.visibleRect());
+
+    this.animating.forEach(glyph => {
+      glyph.animate(deltaMS);
+      if (!glyph.animating) this.animating.delete(glyph);
+    });
+    if (detail === 'runes' || detail === 'names') {
+      if (this.shown.length <= AMBIENT_SPIN_LIMIT) this.shown.forEach(i => this.glyphs[i]?.spin(deltaMS));
+      else this.animating.forEach(glyph => glyph.spin(deltaMS));
+    }
+    this.threads.update(deltaMS);
+    this.seal.update(deltaMS);
+    if (this.animating.size > 0) {
+      this.updateLabels();
+      this.hoverStale = true;
+    }
+
+    // Hover follows the pointer, and whatever moves under it; not while dragging the view.
+    if (motion) this.hoverStale = true;
+    if (this.hoverStale && !viewport.dragging) {
+      this.hoverStale = false;
+      const hovered = this.pointer ? this.pick(this.pointer.x, this.pointer.y) : -1;
+      const hoveredId = hovered >= 0 ? this.glyphs[hovered].data.id : null;
+      const overBubble = hovered < 0 && this.pointer && detail === 'clusters' && this.bubbles.pick(...viewport.toWorld(this.pointer.x, this.pointer.y));
+      app.stage.cursor = hovered >= 0 || overBubble ? 'pointer' : 'grab';
+      if (hoveredId !== this.reportedHover) {
+        this.reportedHover = hoveredId;
+        this.callbacks.onHover(hoveredId);
+      }
+    }
+  }
+
+  destroy() {
+    this.detach();
+    this.glyphs.forEach(glyph => glyph.destroy());
+    this.glyphs = [];
+    this.threads.destroy();
+    this.seal.destroy();
+    this.bubbles.destroy();
+    this.minimap.destroy();
+    this.root.destroy({ children: true });
+    this.nameStyle.destroy();
+    this.textures.destroy();
+  }
+
+  // Topmost drawn rune under a screen point, or -1.
+  private pick(screenX: number, screenY: number): number {
+    if (!this.index) return -1;
+    const [x, y] = this.viewport.toWorld(screenX, screenY);
+    return this.index.pick(x, y, MAX_RUNE_RADIUS, i => this.glyphs[i]?.radius ?? 0);
+  }
+
+  private rebuildIndex(now: number) {
+    const positions = new Float32Array(this.glyphs.length * 2);
+    this.glyphs.forEach(({ data: { position } }, i) => {
+      positions[i * 2] = position.x;
+      positions[i * 2 + 1] = position.y;
+    });
+    this.index = new Quadtree(positions);
+    this.indexBuiltAt = now;
+    this.indexStale = false;
+    this.viewStale = true;
+  }
+
+  // Shows the runes (and parchment tiles) in view at the current detail, and hides those that left it.
+  private cull() {
+    this.viewStale = false;
+    this.hoverStale = true;
+    const view = this.viewport.visibleRect();
+    this.tiles.forEach(tile => { tile.graphics.visible = intersects(tile.bounds, view); });
+    this.bubbles.container.visible = this.detail === 'clusters';
+    this.bubbles.update(this.viewport.scale);
+
+    const inView: number[] = [];
+    this.index?.forEachInRect(view.x - CULL_MARGIN, view.y - CULL_MARGIN, view.x + view.width + CULL_MARGIN, view.y + view.height + CULL_MARGIN, i => {
+      if (i < this.glyphs.length) inView.push(i);
+    });
+    const stamp = ++this.cullStamp;
+    inView.forEach(i => { this.seenAt[i] = stamp; });
+    this.shown.forEach(i => { if (this.seenAt[i] !== stamp) this.glyphs[i]?.setDetail(null); });
+    inView.forEach(i => this.glyphs[i].setDetail(this.runeDetail(i)));
+    this.shown = inView;
+    this.updateLabels();
+  }
+
+  private runeDetail(index: number): RuneDetail | null {
+    if (this.detail === 'runes' || this.detail === 'names') return 'rune';
+    if (this.detail === 'dots') return 'dot';
+    // Behind the cluster bubbles, only what has no bubble or is selected stays visible.
+    const { data } = this.glyphs[index];
+    const { selectedId, selectedIds } = this.marks;
+    return data.cluster === NOISE_CLUSTER || data.id === selectedId || selectedIds.has(data.id) ? 'dot' : null;
+  }
+
+  private refreshMarks() {
+    this.glyphs.forEach((_, index) => this.refreshMark(index));
+  }
+
+  private refreshMark(index: number) {
+    const glyph = this.glyphs[index];
+    const { selectedId, hoveredId, mask, selectedIds } = this.marks;
+    const id = glyph.data.id;
+    glyph.setState({
+      selected: selectedId === id,
+      hovered: hoveredId === id && selectedId !== id,
+      dimmed: mask ? !mask[index] : false,
+      marked: selectedIds.has(id),
+    });
+    if (glyph.animating) this.animating.add(glyph);
+  }
+
+  // Threads from the selected (or else hovered) rune to its nearest neighbours.
+  private updateThreads() {
+    const { selectedId, hoveredId } = this.marks;
+    const activeId = selectedId ?? hoveredId;
+    const source = activeId !== null ? this.indexById.get(activeId) ?? -1 : -1;
+    const glyph = this.glyphs[source];
+    const ends = glyph && this.dataset
+      ? neighborsOf(this.dataset, source).flatMap(({ target, strength }) => (this.glyphs[target] ? [{ ...this.glyphs[target].data.position, strength }] : []))
+      : [];
+    const from = glyph ? glyph.data.position : { x: 0, y: 0 };
+    if (source !== this.threadSource) this.threads.weave(from, ends, glyph ? rgbToHex(glyph.data.swatch.secondary) : 0xffffff);
+    else this.threads.move(from, ends);
+    this.threadSource = source;
+  }
+
+  // Names over the hovered and selected runes, and over every rune in view when zoomed in close.
+  private updateLabels() {
+    const ids = new Set([this.marks.selectedId, this.marks.hoveredId].filter((id): id is string => id !== null));
+    if (this.detail === 'names' && this.shown.length <= MAX_NAMES) this.shown.forEach(i => ids.add(this.glyphs[i].data.id));
+    this.nameLabels.forEach((label, id) => {
+      const index = this.indexById.get(id);
+      if (ids.has(id) && index !== undefined && this.glyphs[index].shown) return;
+      label.destroy();
+      this.nameLabels.delete(id);
+    });
+    ids.forEach(id => {
+      const index = this.indexById.get(id);
+      const glyph = index !== undefined ? this.glyphs[index] : undefined;
+      if (!glyph?.shown) return;
+      let label = this.nameLabels.get(id);
+      if (!label) {
+        label = new PIXI.Text({ text: glyph.data.name, style: this.nameStyle, anchor: { x: 0.5, y: 1 } });
+        this.labels.addChild(label);
+        this.nameLabels.set(id, label);
+      }
+      label.position.set(glyph.data.position.x, glyph.data.position.y - glyph.radius * 0.8 - 14);
+    });
+  }
+
+  // The parchment over the scroll's extent, in tiles; the grain lines meet across tile edges.
+  private drawParchment() {
+    this.tiles.forEach(tile => tile.graphics.destroy());
+    const { x, y, width, height } = this.bounds;
+    this.tiles = [];
+    for (let top = y; top < y + height; top += TILE_SIZE) {
+      for (let left = x; left < x + width; left += TILE_SIZE) {
+        const g = new PIXI.Graphics();
+        const right = left + TILE_SIZE, bottom = top + TILE_SIZE;
+        g.rect(left, top, TILE_SIZE, TILE_SIZE).fill({ color: 0x1a120b, alpha: 0.92 });
+        for (let line = Math.ceil(top / 60); line * 60 < bottom; line++) {
+          const at = line * 60;
+          g.moveTo(left, at + grainJitter(line, left) * 15)
+            .bezierCurveTo(left + TILE_SIZE * 0.3, at + (Math.random() - 0.5) * 25, left + TILE_SIZE * 0.7, at + (Math.random() - 0.5) * 25, right, at + grainJitter(line, right) * 15);
+        }
+        for (let line = Math.ceil(left / 80); line * 80 < right; line++) {
+          const at = line * 80;
+          g.moveTo(at + grainJitter(-line, top) * 15, top)
+            .bezierCurveTo(at + (Math.random() - 0.5) * 25, top + TILE_SIZE * 0.3, at + (Math.random() - 0.5) * 25, top + TILE_SIZE * 0.7, at + grainJitter(-line, bottom) * 15, bottom);
+        }
+        g.stroke({ width: 1.8, color: 0x33261b, alpha: 0.65 });
+        this.parchment.addChild(g);
+        this.tiles.push({ graphics: g, bounds: { x: left, y: top, width: TILE_SIZE, height: TILE_SIZE } });
+      }
+    }
+    this.viewStale = true;
+  }
+}
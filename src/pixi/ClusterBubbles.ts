@@ -0,0 +1,95 @@
+// src/pixi/ClusterBubbles.ts
+// The widest level of detail: one bubble per cluster at its runes' centroid, sized to their
+// spread and labelled with how many there are, in place of the runes themselves.
+import * as PIXI from 'pixi.js';
+import { NOISE_CLUSTER } from '../data/dataset';
+import { ClusterSwatch, rgbToHex } from '../data/palette';
+import { clusterSwatches } from '../data/PointColorContext';
+import { RuneData } from './runes';
+
+export interface ClusterSummary {
+  cluster: number;
+  x: number; y: number; // Centroid, in scroll units
+  radius: number; // Covers most of the cluster's runes
+  count: number;
+  swatch: ClusterSwatch; // The colour most of its runes are drawn in
+}
+
+const MIN_RADIUS = 60;
+const SPREAD_RADII = 1.5; // Bubble radius in RMS distances from the centroid
+
+// Noise has no single place on the scroll, so it gets no bubble.
+export const summarizeClusters = (runes: RuneData[]): ClusterSummary[] => {
+  const sums = new Map<number, { x: number; y: number; xx: number; yy: number; count: number }>();
+  runes.forEach(({ cluster, position: { x, y } }) => {
+    if (cluster === NOISE_CLUSTER) return;
+    const sum = sums.get(cluster) ?? { x: 0, y: 0, xx: 0, yy: 0, count: 0 };
+    sum.x += x; sum.y += y; sum.xx += x * x; sum.yy += y * y; sum.count++;
+    sums.set(cluster, sum);
+  });
+  const swatches = clusterSwatches(runes);
+  return [...sums.entries()].sort(([a], [b]) => a - b).map(([cluster, { x, y, xx, yy, count }]) => {
+    const cx = x / count, cy = y / count;
+    const spread = Math.sqrt(Math.max(0, xx / count - cx * cx + yy / count - cy * cy));
+    return { cluster, x: cx, y: cy, radius: Math.max(MIN_RADIUS, spread * SPREAD_RADII), count, swatch: swatches.get(cluster)! };
+  });
+};
+
+interface Bubble { summary: ClusterSummary; disc: PIXI.Graphics; label: PIXI.Text; }
+
+export class ClusterBubbles {
+  readonly container = new PIXI.Container({ eventMode: 'none' });
+  private bubbles: Bubble[] = [];
+  private readonly labelStyle = new PIXI.TextStyle({
+    fontSize: 14, fill: 0xf5f5f5, align: 'center',
+    stroke: { color: 0x050505, width: 3.5 },
+  });
+
+  set(summaries: ClusterSummary[]) {
+    const sameClusters = summaries.length === this.bubbles.length && summaries.every((s, i) => this.bubbles[i].summary.cluster === s.cluster);
+    if (!sameClusters) {
+      this.clear();
+      this.bubbles = summaries.map(summary => {
+        const disc = new PIXI.Graphics();
+        const label = new PIXI.Text({ text: '', style: this.labelStyle, anchor: 0.5 });
+        this.container.addChild(disc, label);
+        return { summary, disc, label };
+      });
+    }
+    this.bubbles.forEach((bubble, i) => {
+      const summary = summaries[i];
+      const { primary, secondary } = summary.swatch;
+      bubble.summary = summary;
+      bubble.disc.clear()
+        .circle(summary.x, summary.y, summary.radius).fill({ color: rgbToHex(primary), alpha: 0.35 })
+        .stroke({ width: 6, color: rgbToHex(secondary), alpha: 0.8 });
+      bubble.label.text = `Cluster ${summary.cluster}\n${summary.count} rune${summary.count === 1 ? '' : 's'}`;
+      bubble.label.position.set(summary.x, summary.y);
+    });
+  }
+
+  // Labels keep their on-screen size at any zoom.
+  update(zoom: number) {
+    this.bubbles.forEach(({ label }) => label.scale.set(1 / zoom));
+  }
+
+  // The innermost bubble containing a scroll position.
+  pick(x: number, y: number): ClusterSummary | null {
+    let best: ClusterSummary | null = null;
+    for (const { summary } of this.bubbles) {
+      if (Math.hypot(summary.x - x, summary.y - y) <= summary.radius && (!best || summary.radius < best.radius)) best = summary;
+    }
+    return best;
+  }
+
+  destroy() {
+    this.clear();
+    this.container.destroy();
+    this.labelStyle.destroy();
+  }
+
+  private clear() {
+    this.bubbles.forEach(({ disc, label }) => { disc.destroy(); label.destroy(); });
+    this.bubbles = [];
+  }
+}
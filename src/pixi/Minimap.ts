@@ -0,0 +1,108 @@
+// src/pixi/Minimap.ts
+// Overview of the whole scroll in the canvas's top-right corner: every rune as a dot in its
+// colour, and a frame for what the main view shows. Clicking glides the view there; dragging
+// across it pans directly.
+import * as PIXI from 'pixi.js';
+import { RuneData } from './runes';
+import { WorldBounds } from './Viewport';
+
+const MAX_WIDTH = 180;
+const MAX_HEIGHT = 120;
+const MARGIN = 10;
+const TOP = 56; // Below the selection tool bar
+
+export class Minimap {
+  readonly container = new PIXI.Container({ eventMode: 'static', cursor: 'pointer' });
+  private readonly backdrop = new PIXI.Graphics();
+  private readonly dots = new PIXI.Sprite();
+  private readonly frame = new PIXI.Graphics();
+  private readonly canvas = document.createElement('canvas');
+  private texture: PIXI.Texture | null = null;
+  private bounds: WorldBounds = { x: 0, y: 0, width: 1, height: 1 };
+  private width = MAX_WIDTH;
+  private height = MAX_HEIGHT;
+  private dragging = false;
+  private lastFrame = '';
+
+  // onPan moves the view's centre to a scroll position: gliding for a click, at once while dragging.
+  constructor(onPan: (x: number, y: number, glide: boolean) => void) {
+    this.container.addChild(this.backdrop, this.dots, this.frame);
+    const toWorld = (event: PIXI.FederatedPointerEvent): [number, number] => {
+      const local = this.container.toLocal(event.global);
+      return [this.bounds.x + local.x / this.width * this.bounds.width, this.bounds.y + local.y / this.height * this.bounds.height];
+    };
+    // Stop these reaching the stage, where they would drag the view or pick a rune underneath.
+    this.container.on('pointerdown', event => {
+      event.stopPropagation();
+      this.dragging = true;
+      onPan(...toWorld(event), true);
+    });
+    this.container.on('globalpointermove', event => {
+      if (this.dragging) onPan(...toWorld(event), false);
+    });
+    const release = () => { this.dragging = false; };
+    this.container.on('pointerup', release);
+    this.container.on('pointerupoutside', release);
+    this.container.on('pointertap', event => event.stopPropagation());
+  }
+
+  // Whether a screen point is over the minimap.
+  contains(screenX: number, screenY: number) {
+    const { x, y } = this.container.position;
+    return this.container.visible && screenX >= x && screenX <= x + this.width && screenY >= y && screenY <= y + this.height;
+  }
+
+  // Redraws the overview; cheap enough to call a few times a second while runes move.
+  setRunes(runes: RuneData[], bounds: WorldBounds) {
+    this.bounds = bounds;
+    const scale = Math.min(MAX_WIDTH / bounds.width, MAX_HEIGHT / bounds.height);
+    this.width = Math.max(1, Math.round(bounds.width * scale));
+    this.height = Math.max(1, Math.round(bounds.height * scale));
+    this.container.hitArea = new PIXI.Rectangle(0, 0, this.width, this.height);
+    this.backdrop.clear()
+      .rect(0, 0, this.width, this.height).fill({ color: 0x1a120b, alpha: 0.85 })
+      .stroke({ width: 1, color: 0x8a7050, alpha: 0.8 });
+    this.lastFrame = '';
+
+    // Without a 2D canvas the minimap still shows and moves the view, just without the runes.
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return;
+    this.canvas.width = this.width;
+    this.canvas.height = this.height;
+    const image = ctx.createImageData(this.width, this.height);
+    runes.forEach(({ position, swatch: { primary } }) => {
+      // Two pixels square, so a sparse scroll still shows its runes.
+      const px = Math.floor((position.x - bounds.x) * scale), py = Math.floor((position.y - bounds.y) * scale);
+      for (let y = Math.max(0, py); y <= Math.min(this.height - 1, py + 1); y++) {
+        for (let x = Math.max(0, px); x <= Math.min(this.width - 1, px + 1); x++) {
+          image.data.set([primary[0], primary[1], primary[2], 255], (y * this.width + x) * 4);
+        }
+      }
+    });
+    ctx.putImageData(image, 0, 0);
+    // The canvas changes size with the scroll, so each redraw gets a fresh texture.
+    this.texture?.destroy(true);
+    this.texture = PIXI.Texture.from(this.canvas, true);
+    this.dots.texture = this.texture;
+  }
+
+  // Keeps the minimap in the corner and its frame on the main view's visible rectangle.
+  update(screenWidth: number, view: WorldBounds) {
+    this.container.position.set(screenWidth - this.width - MARGIN, TOP);
+    const { bounds } = this;
+    const sx = this.width / bounds.width, sy = this.height / bounds.height;
+    const left = Math.max(0, (view.x - bounds.x) * sx), top = Math.max(0, (view.y - bounds.y) * sy);
+    const right = Math.min(this.width, (view.x + view.width - bounds.x) * sx);
+    const bottom = Math.min(this.height, (view.y + view.height - bounds.y) * sy);
+    const key = [left, top, right, bottom].map(v => v.toFixed(1)).join();
+    if (key === this.lastFrame) return;
+    this.lastFrame = key;
+    this.frame.clear();
+    if (right > left && bottom > top) this.frame.rect(left, top, right - left, bottom - top).stroke({ width: 1.5, color: 0xffd27a, alpha: 0.95 });
+  }
+
+  destroy() {
+    this.container.destroy({ children: true });
+    this.texture?.destroy(true);
+  }
+}
@@ -0,0 +1,155 @@
+// src/pixi/RuneGlyph.ts
+// One rune on the scroll, as plain sprites the scene animates from its ticker: a tinted glow, a
+// highlight ring, the body and the spinning symbol. Each part lives in a layer shared by all
+// runes (see ChronoScroll), so sprites with the same texture batch together. Zoomed out, a rune
+// is drawn as just its body (a dot), and culled runes draw nothing.
+import * as PIXI from 'pixi.js';
+import { damp } from '../data/damping';
+import { rgbToHex } from '../data/palette';
+import { HIGHLIGHT_RADIUS, RuneTextures, TEXTURE_RADIUS } from './runeTextures';
+import { RuneData } from './runes';
+
+export interface RuneLayers {
+  glow: PIXI.Container;
+  highlight: PIXI.Container;
+  body: PIXI.Container;
+  symbol: PIXI.Container;
+}
+
+export interface RuneState {
+  selected: boolean;
+  hovered: boolean;
+  dimmed: boolean; // Filtered out by search/filters
+  marked: boolean; // In the box/lasso selection set
+}
+
+const SCALE_RATE = 12; // Damping rate (see data/damping.ts) of the rune towards its target scale
+const SPIN_RATE = 0.24; // Radians per second; selected runes spin faster
+
+export type RuneDetail = 'dot' | 'rune';
+
+const NO_STATE: RuneState = { selected: false, hovered: false, dimmed: false, marked: false };
+
+export class RuneGlyph {
+  // Hidden until the scroll culls the rune into view.
+  private readonly glow = new PIXI.Sprite({ anchor: 0.5, visible: false });
+  private readonly highlight = new PIXI.Sprite({ anchor: 0.5, visible: false });
+  private readonly body = new PIXI.Sprite({ anchor: 0.5, visible: false });
+  private readonly symbol = new PIXI.Sprite({ anchor: 0.5, visible: false });
+  private rune!: RuneData;
+  private symbolChar: string | null = null;
+  private state = NO_STATE;
+  private detail: RuneDetail | null = null; // null = not drawn
+  private scale = 1; // Eases towards targetScale
+  private time = 0;
+
+  constructor(layers: RuneLayers, private readonly textures: RuneTextures, rune: RuneData, symbol: string | null) {
+    this.glow.texture = textures.glow;
+    this.highlight.texture = textures.highlight;
+    this.symbol.rotation = Math.random() * Math.PI * 2;
+    layers.glow.addChild(this.glow);
+    layers.highlight.addChild(this.highlight);
+    layers.body.addChild(this.body);
+    layers.symbol.addChild(this.symbol);
+    this.setRune(rune, symbol);
+  }
+
+  get data() {
+    return this.rune;
+  }
+
+  // Drawn radius, including the hover/selection growth; 0 while not drawn.
+  get radius() {
+    return this.detail ? this.rune.size * this.scale : 0;
+  }
+
+  get shown() {
+    return this.detail !== null;
+  }
+
+  // Whether the rune is mid-animation beyond the ambient spin.
+  get animating() {
+    return this.state.selected || Math.abs(this.targetScale - this.scale) > 0.001;
+  }
+
+  get highlighted() {
+    return this.state.selected || this.state.hovered || this.state.marked;
+  }
+
+  // symbol = null when the rune font cannot draw data.rune.
+  setRune(rune: RuneData, symbol: string | null) {
+    const previous = this.rune;
+    this.rune = rune;
+    if (!previous || previous.swatch !== rune.swatch || this.symbolChar !== symbol) {
+      this.body.texture = this.textures.body(rune.swatch);
+      this.symbol.texture = this.textures.symbol(symbol, rune.swatch);
+      this.glow.tint = rgbToHex(rune.swatch.glow);
+      this.highlight.tint = rgbToHex(rune.swatch.secondary);
+      this.symbolChar = symbol;
+    }
+    this.layout();
+  }
+
+  setDetail(detail: RuneDetail | null) {
+    if (detail === this.detail) return;
+    this.detail = detail;
+    this.body.visible = detail !== null;
+    this.glow.visible = this.symbol.visible = detail === 'rune';
+    this.updateHighlight();
+  }
+
+  setState(state: RuneState) {
+    this.state = state;
+    const alpha = this.alpha;
+    this.glow.alpha = alpha * 0.2;
+    this.body.alpha = alpha;
+    this.symbol.alpha = alpha;
+    this.updateHighlight();
+    this.layout();
+  }
+
+  // Eases the scale and pulses the selection ring; deltaMS is the frame time.
+  animate(deltaMS: number) {
+    this.time += deltaMS;
+    this.scale = damp(this.scale, this.targetScale, SCALE_RATE, deltaMS / 1000);
+    this.updateHighlight();
+    this.layout();
+  }
+
+  spin(deltaMS: number) {
+    this.symbol.rotation += deltaMS / 1000 * SPIN_RATE * (this.state.selected ? 1.8 : 1);
+  }
+
+  destroy() {
+    [this.glow, this.highlight, this.body, this.symbol].forEach(sprite => sprite.destroy());
+  }
+
+  private get alpha() {
+    const { selected, hovered, dimmed, marked } = this.state;
+    return selected ? 1 : (hovered || marked ? 0.95 : (dimmed ? 0.15 : 0.88));
+  }
+
+  private get targetScale() {
+    const { selected, hovered, marked } = this.state;
+    return selected ? 1.28 : (hovered ? 1.18 : (marked ? 1.12 : 1));
+  }
+
+  private updateHighlight() {
+    const { selected, hovered, marked } = this.state;
+    const strength = selected ? 0.85 : (hovered ? 0.55 : (marked ? 0.4 : 0));
+    this.highlight.visible = this.detail !== null && strength > 0;
+    if (!this.highlight.visible) return;
+    const pulse = selected ? Math.sin(this.time * 0.08 * 60 / 1000) * 0.2 + 0.8 : 1;
+    this.highlight.alpha = this.alpha * strength * pulse;
+  }
+
+  private layout() {
+    const { x, y } = this.rune.position;
+    const scale = this.rune.size * this.scale / TEXTURE_RADIUS;
+    [this.glow, this.highlight, this.body, this.symbol].forEach(sprite => sprite.position.set(x, y));
+    this.glow.width = this.glow.height = this.rune.size * this.scale * 3.6;
+    this.body.scale.set(scale);
+    this.symbol.scale.set(scale);
+    this.highlight.scale.set(this.rune.size * this.scale * (this.state.selected ? 1.18 : 1.08) / HIGHLIGHT_RADIUS);
+  }
+}
@@ -0,0 +1,219 @@
+// src/pixi/Viewport.ts
+// Pan and zoom for the Pixi scroll, kept outside React. Dragging pans and, when let go while
+// moving, flings the view on with inertia; the wheel zooms around the cursor; focus requests
+// glide the view over. The view's centre never leaves the world bounds. The scene calls
+// update() once per tick and applies the result to its world container.
+import * as PIXI from 'pixi.js';
+import { dampingFactor } from '../data/damping';
+import { CameraState } from '../shell/viewState';
+
+export interface WorldBounds { x: number; y: number; width: number; height: number; }
+
+export const MIN_ZOOM = 0.15;
+export const MAX_ZOOM = 3.5;
+const FLY_RATE = 4; // Damping rate (see data/damping.ts) of the view towards its target
+const FRICTION = 3.5; // Damping rate of a fling's speed towards a stop
+const MIN_FLING_SPEED = 0.02; // Screen pixels per ms; slower flings stop
+const FLING_WINDOW_MS = 80; // A release later than this after the last move is a stop, not a fling
+const VELOCITY_BLEND = 0.6; // Weight of the latest pointer move in the fling speed
+const TAP_DISTANCE = 4; // Screen pixels; a press that moves less than this is a tap
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+export class Viewport {
+  private x: number;
+  private y: number;
+  private zoom: number;
+  private bounds: WorldBounds;
+  private width = 1;
+  private height = 1;
+  private velocity = { x: 0, y: 0 }; // World units per ms
+  private flyTarget: { x: number; y: number; zoom: number } | null = null;
+  private drag: { x: number; y: number; time: number; travelled: number } | null = null;
+  private moved = false; // Since the last update
+  private settled = true; // Last update saw no motion
+  private lastTapWasDrag = false;
+
+  constructor(bounds: WorldBounds, zoom = 0.75) {
+    this.bounds = bounds;
+    this.x = bounds.x + bounds.width / 2;
+    this.y = bounds.y + bounds.height / 2;
+    this.zoom = clampZoom(zoom);
+  }
+
+  get camera(): CameraState {
+    return [this.x, this.y, this.zoom];
+  }
+
+  get scale() {
+    return this.zoom;
+  }
+
+  get dragging() {
+    return this.drag !== null;
+  }
+
+  // Whether the press that just ended panned the view, so the scene can ignore it as a tap.
+  get wasDrag() {
+    return this.lastTapWasDrag;
+  }
+
+  setBounds(bounds: WorldBounds) {
+    this.bounds = bounds;
+    this.clamp();
+  }
+
+  resize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  // Glides to (x, y), zooming to zoom on the way if given.
+  flyTo(x: number, y: number, zoom = this.zoom) {
+    this.flyTarget = { x, y, zoom: clampZoom(zoom) };
+    this.velocity = { x: 0, y: 0 };
+  }
+
+  // The zoom at which the rectangle just fills the screen.
+  zoomToFit({ width, height }: WorldBounds) {
+    return clampZoom(Math.min(this.width / Math.max(width, 1), this.height / Math.max(height, 1)));
+  }
+
+  visibleRect(): WorldBounds {
+    const [x, y] = this.toWorld(0, 0);
+    return { x, y, width: this.width / this.zoom, height: this.height / this.zoom };
+  }
+
+  jumpTo([x, y, zoom]: CameraState) {
+    this.flyTarget = null;
+    this.velocity = { x: 0, y: 0 };
+    this.x = x;
+    this.y = y;
+    this.zoom = clampZoom(zoom);
+    this.clamp();
+    this.moved = true;
+  }
+
+  toWorld(screenX: number, screenY: number): [number, number] {
+    return [this.x + (screenX - this.width / 2) / this.zoom, this.y + (screenY - this.height / 2) / this.zoom];
+  }
+
+  toScreen(worldX: number, worldY: number): [number, number] {
+    return [this.width / 2 + (worldX - this.x) * this.zoom, this.height / 2 + (worldY - this.y) * this.zoom];
+  }
+
+  // Listens on the stage for drags and on the canvas for the wheel; returns the cleanup.
+  attach(stage: PIXI.Container, canvas: HTMLCanvasElement, screen: PIXI.Rectangle): () => void {
+    const onDown = (event: PIXI.FederatedPointerEvent) => {
+      this.drag = { x: event.global.x, y: event.global.y, time: performance.now(), travelled: 0 };
+      this.flyTarget = null;
+      this.velocity = { x: 0, y: 0 };
+      stage.cursor = 'grabbing';
+    };
+    const onMove = (event: PIXI.FederatedPointerEvent) => {
+      const drag = this.drag;
+      if (!drag) return;
+      const dx = event.global.x - drag.x, dy = event.global.y - drag.y;
+      const now = performance.now();
+      const dt = Math.max(1, now - drag.time);
+      // Blend with the previous estimate so one uneven event does not decide the fling.
+      this.velocity = {
+        x: this.velocity.x * (1 - VELOCITY_BLEND) + (-dx / this.zoom / dt) * VELOCITY_BLEND,
+        y: this.velocity.y * (1 - VELOCITY_BLEND) + (-dy / this.zoom / dt) * VELOCITY_BLEND,
+      };
+      this.x -= dx / this.zoom;
+      this.y -= dy / this.zoom;
+      this.clamp();
+      this.moved = true;
+      this.drag = { x: event.global.x, y: event.global.y, time: now, travelled: drag.travelled + Math.hypot(dx, dy) };
+    };
+    const onUp = () => {
+      const drag = this.drag;
+      if (!drag) return;
+      this.lastTapWasDrag = drag.travelled >= TAP_DISTANCE;
+      if (performance.now() - drag.time > FLING_WINDOW_MS) this.velocity = { x: 0, y: 0 };
+      this.drag = null;
+      stage.cursor = 'grab';
+    };
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const [worldX, worldY] = this.toWorld(event.clientX - rect.left, event.clientY - rect.top);
+      const zoom = clampZoom(this.zoom * (1 - event.deltaY * 0.001));
+      // Keep the world point under the cursor where it is.
+      this.x = worldX - (worldX - this.x) * this.zoom / zoom;
+      this.y = worldY - (worldY - this.y) * this.zoom / zoom;
+      this.zoom = zoom;
+      this.flyTarget = null;
+      this.clamp();
+      this.moved = true;
+    };
+
+    stage.eventMode = 'static';
+    stage.hitArea = screen;
+    stage.cursor = 'grab';
+    stage.on('pointerdown', onDown);
+    stage.on('pointermove', onMove);
+    stage.on('pointerup', onUp);
+    stage.on('pointerupoutside', onUp);
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => {
+      stage.off('pointerdown', onDown);
+      stage.off('pointermove', onMove);
+      stage.off('pointerup', onUp);
+      stage.off('pointerupoutside', onUp);
+      canvas.removeEventListener('wheel', onWheel);
+    };
+  }
+
+  // Advances flights and flings. Returns 'moving' while the view changes, 'settled' on the first
+  // still tick after a change (when to report the camera), and null otherwise.
+  update(deltaMS: number): 'moving' | 'settled' | null {
+    const target = this.flyTarget;
+    if (target) {
+      const t = dampingFactor(FLY_RATE, deltaMS / 1000);
+      this.x += (target.x - this.x) * t;
+      this.y += (target.y - this.y) * t;
+      this.zoom *= Math.pow(target.zoom / this.zoom, t); // Evenly in log scale, so zooming in and out feel alike
+      if (Math.hypot(target.x - this.x, target.y - this.y) < 0.5 && Math.abs(Math.log(target.zoom / this.zoom)) < 0.002) {
+        this.zoom = target.zoom;
+        this.flyTarget = null;
+      }
+      this.clamp();
+      this.moved = true;
+    } else if (!this.drag && (this.velocity.x !== 0 || this.velocity.y !== 0)) {
+      this.x += this.velocity.x * deltaMS;
+      this.y += this.velocity.y * deltaMS;
+      const decay = 1 - dampingFactor(FRICTION, deltaMS / 1000);
+      this.velocity = { x: this.velocity.x * decay, y: this.velocity.y * decay };
+      if (Math.hypot(this.velocity.x, this.velocity.y) * this.zoom < MIN_FLING_SPEED) this.velocity = { x: 0, y: 0 };
+      this.clamp();
+      this.moved = true;
+    }
+
+    if (this.moved) {
+      this.moved = false;
+      this.settled = false;
+      return 'moving';
+    }
+    if (this.settled || this.drag) return null;
+    this.settled = true;
+    return 'settled';
+  }
+
+  apply(container: PIXI.Container) {
+    container.position.set(this.width / 2 - this.x * this.zoom, this.height / 2 - this.y * this.zoom);
+    container.scale.set(this.zoom);
+  }
+
+  // A fling into an edge stops along that axis rather than pressing against it.
+  private clamp() {
+    const { x, y, width, height } = this.bounds;
+    const cx = Math.max(x, Math.min(x + width, this.x));
+    const cy = Math.max(y, Math.min(y + height, this.y));
+    if (cx !== this.x) this.velocity.x = 0;
+    if (cy !== this.y) this.velocity.y = 0;
+    this.x = cx;
+    this.y = cy;
+  }
+}
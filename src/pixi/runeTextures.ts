@@ -0,0 +1,104 @@
+// src/pixi/runeTextures.ts
+// Textures the rune sprites share, baked once from Pixi graphics and text at the largest rune's
+// size so thousands of runes draw as batched sprites instead of per-rune graphics. Bodies and
+// rune symbols are baked per swatch (swatch objects are shared, see palette.ts) and per symbol,
+// so there are only as many as there are colour and symbol combinations in use.
+import * as PIXI from 'pixi.js';
+import { FONTS } from '../assets/manifest';
+import { ClusterSwatch, rgbToHex } from '../data/palette';
+import { MAX_RUNE_SIZE } from './runes';
+
+export const TEXTURE_RADIUS = MAX_RUNE_SIZE; // Runes are scaled by size / TEXTURE_RADIUS
+export const HIGHLIGHT_RADIUS = TEXTURE_RADIUS * 1.13; // Between the hovered and selected ring sizes
+const TEXTURE_RESOLUTION = 2; // Stays sharp when zoomed in
+
+export class RuneTextures {
+  readonly glow: PIXI.Texture; // White; tinted per rune
+  readonly highlight: PIXI.Texture; // White ring; tinted per rune
+  private readonly baked: PIXI.Texture[] = [];
+  private readonly bodies = new Map<ClusterSwatch, PIXI.Texture>();
+  private readonly symbols = new Map<ClusterSwatch, Map<string, PIXI.Texture>>();
+  private readonly symbolStyles = new Map<ClusterSwatch, PIXI.TextStyle>();
+
+  // glowSprite is the manifest's rune glow; without it the glow is baked from stacked circles.
+  constructor(private readonly renderer: PIXI.Renderer, glowSprite: PIXI.Texture | null) {
+    this.glow = glowSprite ?? this.bake(new PIXI.Graphics(), g => {
+      for (let ring = 0; ring < 6; ring++) g.circle(0, 0, TEXTURE_RADIUS * 1.8 * (1 - ring / 7)).fill({ color: 0xffffff, alpha: 0.16 });
+    }, TEXTURE_RADIUS * 1.8);
+    this.highlight = this.bake(new PIXI.Graphics(), g => {
+      g.circle(0, 0, HIGHLIGHT_RADIUS).stroke({ width: 9, color: 0xffffff, alpha: 0.25 });
+      g.circle(0, 0, HIGHLIGHT_RADIUS).stroke({ width: 4, color: 0xffffff, alpha: 1 });
+    }, HIGHLIGHT_RADIUS + 5);
+  }
+
+  body(swatch: ClusterSwatch): PIXI.Texture {
+    let texture = this.bodies.get(swatch);
+    if (!texture) {
+      texture = this.bake(new PIXI.Graphics(), g => {
+        g.circle(0, 0, TEXTURE_RADIUS)
+          .fill({ color: rgbToHex(swatch.primary), alpha: 0.92 })
+          .stroke({ width: 2.5, color: rgbToHex(swatch.secondary), alpha: 0.85 });
+      }, TEXTURE_RADIUS + 2);
+      this.bodies.set(swatch, texture);
+    }
+    return texture;
+  }
+
+  // The rune's symbol, or a star when the rune font has no glyph for it (symbol = null).
+  symbol(symbol: string | null, swatch: ClusterSwatch): PIXI.Texture {
+    let bySymbol = this.symbols.get(swatch);
+    if (!bySymbol) {
+      bySymbol = new Map();
+      this.symbols.set(swatch, bySymbol);
+    }
+    const key = symbol ?? '';
+    let texture = bySymbol.get(key);
+    if (!texture) {
+      texture = symbol === null
+        ? this.bake(new PIXI.Graphics(), g => {
+          g.star(0, 0, 5, TEXTURE_RADIUS * 0.62, TEXTURE_RADIUS * 0.28).fill({ color: rgbToHex(swatch.secondary) });
+        }, TEXTURE_RADIUS)
+        : this.bake(new PIXI.Text({ text: symbol, style: this.symbolStyle(swatch), anchor: 0.5 }), () => {}, TEXTURE_RADIUS * 1.3);
+      bySymbol.set(key, texture);
+    }
+    return texture;
+  }
+
+  destroy() {
+    this.baked.forEach(texture => texture.destroy(true));
+    this.baked.length = 0;
+    this.bodies.clear();
+    this.symbols.clear();
+    this.symbolStyles.forEach(style => style.destroy());
+    this.symbolStyles.clear();
+  }
+
+  private symbolStyle(swatch: ClusterSwatch) {
+    let style = this.symbolStyles.get(swatch);
+    if (!style) {
+      const { primary, secondary, glow } = swatch;
+      style = new PIXI.TextStyle({
+        fontSize: TEXTURE_RADIUS * 1.15, fill: rgbToHex(secondary),
+        stroke: { color: rgbToHex(primary), width: 2.5 },
+        align: 'center',
+        dropShadow: { color: rgbToHex(glow), blur: 7, alpha: 0.65, angle: Math.PI / 4, distance: 3 },
+        fontFamily: FONTS.runes.family,
+      });
+      this.symbolStyles.set(swatch, style);
+    }
+    return style;
+  }
+
+  // Renders target, centred on its origin, into a square texture extent units from the centre
+  // each way, so sprites anchored at 0.5 line up whatever the shape's own bounds.
+  private bake<T extends PIXI.Container>(target: T, draw: (target: T) => void, extent: number): PIXI.Texture {
+    draw(target);
+    const texture = this.renderer.generateTexture({
+      target, resolution: TEXTURE_RESOLUTION, antialias: true,
+      frame: new PIXI.Rectangle(-extent, -extent, extent * 2, extent * 2),
+    });
+    target.destroy();
+    this.baked.push(texture);
+    return texture;
+  }
+}
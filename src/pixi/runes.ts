@@ -0,0 +1,50 @@
+// src/pixi/runes.ts
+// The dataset as the Pixi scroll draws it: each point is a rune at a position on the scroll,
+// in its swatch's colours, sized by the encoding. The scroll is as large as the runes need.
+import { EmbeddingDataset, Vec3 } from '../data/dataset';
+import { SizeLookup } from '../data/EncodingContext';
+import { ClusterSwatch } from '../data/palette';
+import { SwatchLookup } from '../data/PointColorContext';
+import { WorldBounds } from './Viewport';
+
+export interface RuneData { id: string; position: { x: number, y: number }; cluster: number; swatch: ClusterSwatch; name: string; size: number; rune: string; }
+
+// Scroll units per layout unit; the layout's origin is the scroll's.
+const SCROLL_SCALE_X = 1000;
+const SCROLL_SCALE_Y = 600;
+const SCROLL_MARGIN = 250; // Scroll units of parchment kept around the outermost runes
+const MIN_SCROLL_EXTENT = 800; // A handful of runes still get a scroll worth panning over
+
+// The scroll is 2D, so only the first two layout axes are used; y is flipped to screen space.
+export const toScrollPosition = (position: Vec3) => ({
+  x: position[0] * SCROLL_SCALE_X,
+  y: -position[1] * SCROLL_SCALE_Y,
+});
+
+export const MAX_RUNE_SIZE = 35; // Radius of the largest rune, in scroll units
+
+// The scroll's extent: the runes' bounding box with a margin, centred on it when padded out to the minimum.
+export const scrollBounds = (runes: RuneData[]): WorldBounds => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  runes.forEach(({ position: { x, y } }) => {
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  });
+  if (runes.length === 0) minX = maxX = minY = maxY = 0;
+  const width = Math.max(maxX - minX + SCROLL_MARGIN * 2, MIN_SCROLL_EXTENT);
+  const height = Math.max(maxY - minY + SCROLL_MARGIN * 2, MIN_SCROLL_EXTENT);
+  return { x: (minX + maxX) / 2 - width / 2, y: (minY + maxY) / 2 - height / 2, width, height };
+};
+
+export const toPixiRunes = (dataset: EmbeddingDataset, swatchOf: SwatchLookup, sizeOf: SizeLookup): RuneData[] => dataset.points.map(point => {
+  const rune = point.metadata.rune;
+  return {
+    id: point.id,
+    position: toScrollPosition(point.position),
+    cluster: point.cluster,
+    swatch: swatchOf(point),
+    name: point.label,
+    size: 22 + sizeOf(dataset, point) * (MAX_RUNE_SIZE - 22),
+    rune: typeof rune === 'string' && rune ? rune : '✦',
+  };
+});
@@ -0,0 +1,122 @@
+// src/query/QueryContext.tsx
+// The current semantic query: the typed text, its embedding from the configured endpoint,
+// and where it lands in the current dataset. The placement is recomputed when the layout or
+// the kNN settings change, so the query marker follows re-projections without a new request.
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useDataset } from '../data/DatasetContext';
+import { DEFAULT_ENDPOINT, EmbeddingEndpoint, fetchEmbedding } from './embeddingsClient';
+import { placeQuery, QueryPlacement } from './placeQuery';
+
+const ENDPOINT_STORAGE_KEY = 'embedding-endpoint';
+
+export interface SemanticQuery { text: string; vector: Float32Array; }
+
+// What the scenes draw: the query's text, position and neighbours.
+export interface QueryMarker extends QueryPlacement { text: string; }
+
+interface QueryContextValue {
+  endpoint: EmbeddingEndpoint;
+  setEndpoint: (endpoint: EmbeddingEndpoint) => void;
+  query: SemanticQuery | null;
+  placement: QueryPlacement | null;
+  marker: QueryMarker | null;
+  pending: boolean; // A request to the endpoint is in flight
+  error: string | null;
+  runQuery: (text: string) => void;
+  cancelQuery: () => void;
+  clearQuery: () => void;
+}
+
+const QueryContext = createContext<QueryContextValue>({
+  endpoint: DEFAULT_ENDPOINT,
+  setEndpoint: () => {},
+  query: null,
+  placement: null,
+  marker: null,
+  pending: false,
+  error: null,
+  runQuery: () => {},
+  cancelQuery: () => {},
+  clearQuery: () => {},
+});
+
+// The URL and model are remembered between sessions; the API key is not.
+const loadEndpoint = (): EmbeddingEndpoint => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ENDPOINT_STORAGE_KEY) ?? 'null');
+    return saved ? { ...DEFAULT_ENDPOINT, url: String(saved.url ?? DEFAULT_ENDPOINT.url), model: String(saved.model ?? '') } : DEFAULT_ENDPOINT;
+  } catch {
+    return DEFAULT_ENDPOINT;
+  }
+};
+
+export const QueryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { dataset } = useDataset();
+  const [endpoint, setEndpointState] = useState(loadEndpoint);
+  const [query, setQuery] = useState<SemanticQuery | null>(null);
+  const [pending, setPending] = useState(false);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const setEndpoint = useCallback((next: EmbeddingEndpoint) => {
+    setEndpointState(next);
+    localStorage.setItem(ENDPOINT_STORAGE_KEY, JSON.stringify({ url: next.url, model: next.model }));
+  }, []);
+
+  const cancelQuery = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setPending(false);
+  }, []);
+  useEffect(() => cancelQuery, [cancelQuery]);
+
+  const runQuery = useCallback((text: string) => {
+    cancelQuery();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPending(true);
+    setRequestError(null);
+    fetchEmbedding(endpoint, text, controller.signal)
+      .then(vector => setQuery({ text, vector }))
+      .catch(e => { if ((e as Error).name !== 'AbortError') setRequestError((e as Error).message); })
+      .finally(() => {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setPending(false);
+        }
+      });
+  }, [endpoint, cancelQuery]);
+
+  const clearQuery = useCallback(() => {
+    cancelQuery();
+    setQuery(null);
+    setRequestError(null);
+  }, [cancelQuery]);
+
+  // A dimension mismatch or a dataset without vectors only shows up here, against the current dataset.
+  const { placement, placementError } = useMemo(() => {
+    if (!query) return { placement: null, placementError: null };
+    try {
+      return { placement: placeQuery(dataset, query.vector), placementError: null };
+    } catch (e) {
+      return { placement: null, placementError: (e as Error).message };
+    }
+  }, [dataset, query]);
+
+  const marker = useMemo(() => (query && placement ? { ...placement, text: query.text } : null), [query, placement]);
+
+  const error = requestError ?? placementError;
+  const value = useMemo(() => ({ endpoint, setEndpoint, query, placement, marker, pending, error, runQuery, cancelQuery, clearQuery }),
+    [endpoint, setEndpoint, query, placement, marker, pending, error, runQuery, cancelQuery, clearQuery]);
+  return <QueryContext.Provider value={value}>{children}</QueryContext.Provider>;
+};
+
+// For a pane showing another model's embedding space (see compare/): the query was embedded by
+// the configured endpoint's model, so it has no place there.
+export const DetachedQueryScope: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const outer = useContext(QueryContext);
+  const value = useMemo(() => ({ ...outer, placement: null, marker: null }), [outer]);
+  return <QueryContext.Provider value={value}>{children}</QueryContext.Provider>;
+};
+
+export const useQuery = () => useContext(QueryContext);
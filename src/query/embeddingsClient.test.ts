@@ -0,0 +1,75 @@
+// src/query/embeddingsClient.test.ts
+// fetchEmbedding against a fake OpenAI-compatible /v1/embeddings server on a local port.
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { EmbeddingEndpoint, EmbeddingRequestError, fetchEmbedding } from './embeddingsClient';
+
+interface FakeReply { status: number; body: string; }
+interface SeenRequest { method?: string; url?: string; authorization?: string; body: unknown; }
+
+let server: Server;
+let endpoint: EmbeddingEndpoint;
+let reply: FakeReply = { status: 200, body: '{}' };
+let seen: SeenRequest | null = null;
+
+const json = (status: number, body: unknown): FakeReply => ({ status, body: JSON.stringify(body) });
+
+beforeAll(async () => {
+  server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let raw = '';
+    request.on('data', chunk => { raw += chunk; });
+    request.on('end', () => {
+      seen = { method: request.method, url: request.url, authorization: request.headers.authorization, body: JSON.parse(raw) };
+      response.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      response.end(reply.body);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  endpoint = { url: `http://127.0.0.1:${port}/v1/embeddings`, model: '', apiKey: '' };
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('fetchEmbedding', () => {
+  it('posts the text and reads data[0].embedding', async () => {
+    reply = json(200, { data: [{ embedding: [0.25, -1, 3] }] });
+    const vector = await fetchEmbedding({ ...endpoint, model: 'nomic-embed', apiKey: 'secret' }, 'a query');
+    expect(Array.from(vector)).toEqual([0.25, -1, 3]);
+    expect(seen).toEqual({
+      method: 'POST', url: '/v1/embeddings', authorization: 'Bearer secret',
+      body: { input: 'a query', model: 'nomic-embed' },
+    });
+  });
+
+  it('leaves out the model and the bearer token when they are empty', async () => {
+    reply = json(200, { data: [{ embedding: [1] }] });
+    await fetchEmbedding(endpoint, 'text');
+    expect(seen?.authorization).toBeUndefined();
+    expect(seen?.body).toEqual({ input: 'text' });
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    reply = { status: 200, body: '<html>proxy page</html>' };
+    await expect(fetchEmbedding(endpoint, 'text')).rejects.toThrow(/answered 200 with a body that is not JSON/);
+  });
+
+  it('reports the status and the server\'s message for an HTTP error', async () => {
+    reply = json(503, { error: { message: 'model is loading' } });
+    await expect(fetchEmbedding(endpoint, 'text')).rejects.toThrow(/answered 503: model is loading\./);
+    reply = json(401, { error: 'bad key' });
+    await expect(fetchEmbedding(endpoint, 'text')).rejects.toThrow(/answered 401: bad key\./);
+  });
+
+  it('rejects a response without a numeric embedding', async () => {
+    for (const body of [{ data: [] }, { data: [{ embedding: 'AAAA' }] }, { data: [{ embedding: [1, null] }] }, {}]) {
+      reply = json(200, body);
+      await expect(fetchEmbedding(endpoint, 'text')).rejects.toThrow(EmbeddingRequestError);
+    }
+  });
+
+  it('explains an unreachable server', async () => {
+    await expect(fetchEmbedding({ ...endpoint, url: 'http://127.0.0.1:1/v1/embeddings' }, 'text')).rejects.toThrow(/Could not reach/);
+  });
+});
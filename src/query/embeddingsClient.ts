@@ -0,0 +1,62 @@
+// src/query/embeddingsClient.ts
+// Minimal client for an OpenAI-compatible embeddings endpoint (llama.cpp server, Ollama,
+// vLLM, or OpenAI itself): POST { input, model } and read data[0].embedding.
+
+export interface EmbeddingEndpoint {
+  url: string; // Full endpoint URL, ending in /v1/embeddings
+  model: string; // Sent as-is; servers hosting a single model usually ignore it
+  apiKey: string; // Sent as a bearer token when non-empty
+}
+
+export const DEFAULT_ENDPOINT: EmbeddingEndpoint = {
+  url: 'http://localhost:8080/v1/embeddings', // llama.cpp server's default port; Ollama serves on 11434
+  model: '',
+  apiKey: '',
+};
+
+export class EmbeddingRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+  }
+}
+
+interface EmbeddingsResponse {
+  data?: { embedding?: unknown }[];
+  error?: { message?: string } | string;
+}
+
+export const fetchEmbedding = async (endpoint: EmbeddingEndpoint, text: string, signal?: AbortSignal): Promise<Float32Array> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (endpoint.apiKey) headers.Authorization = `Bearer ${endpoint.apiKey}`;
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ input: text, ...(endpoint.model ? { model: endpoint.model } : {}) }),
+      signal,
+    });
+  } catch (e) {
+    if ((e as Error).name === 'AbortError') throw e;
+    throw new EmbeddingRequestError(`Could not reach ${endpoint.url} (${(e as Error).message}). Is the server running, with CORS enabled?`);
+  }
+
+  let body: EmbeddingsResponse;
+  try {
+    body = await response.json();
+  } catch {
+    throw new EmbeddingRequestError(`${endpoint.url} answered ${response.status} with a body that is not JSON.`);
+  }
+  if (!response.ok) {
+    const detail = typeof body.error === 'string' ? body.error : body.error?.message;
+    throw new EmbeddingRequestError(`${endpoint.url} answered ${response.status}${detail ? `: ${detail}` : ''}.`);
+  }
+
+  const embedding = body.data?.[0]?.embedding;
+  if (!Array.isArray(embedding) || embedding.length === 0 || !embedding.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    throw new EmbeddingRequestError('The response has no numeric data[0].embedding (base64 encoding is not supported).');
+  }
+  return Float32Array.from(embedding as number[]);
+};
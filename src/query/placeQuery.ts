@@ -0,0 +1,52 @@
+// src/query/placeQuery.ts
+// Puts an outside vector into the current map: its nearest dataset points in the original
+// vector space, and a layout position. Linear layouts (PCA, random projection) have an exact
+// answer; for UMAP, t-SNE and provided coordinates the query sits at the similarity-weighted
+// mean of its neighbours, which is also how UMAP initialises out-of-sample points.
+import { scoreAgainstRows } from '../analysis/knn';
+import { DEFAULT_KNN_PARAMS } from '../analysis/types';
+import { EmbeddingDataset, projectVector, Vec3 } from '../data/dataset';
+
+export interface QueryNeighbor {
+  index: number; // Into dataset.points
+  score: number; // Same scale as the dataset's kNN graph scores
+  strength: number; // 0..1 within the query's neighbours, for line opacity/width
+}
+
+export interface QueryPlacement {
+  position: Vec3; // Normalized layout space, like EmbeddingPoint.position
+  neighbors: QueryNeighbor[]; // Nearest first
+  placement: 'projection' | 'neighbors'; // How position was found
+}
+
+export const placeQuery = (dataset: EmbeddingDataset, vector: Float32Array): QueryPlacement => {
+  const { vectors, dimensions, points } = dataset;
+  if (!vectors) throw new Error('This dataset has no raw vectors to compare a query against.');
+  if (vector.length !== dimensions) {
+    throw new Error(`The endpoint returned ${vector.length}-d embeddings but the dataset is ${dimensions}-d; use the model the dataset was embedded with.`);
+  }
+
+  const metric = dataset.neighbors?.metric ?? DEFAULT_KNN_PARAMS.metric;
+  const k = Math.min(dataset.neighbors?.k ?? DEFAULT_KNN_PARAMS.k, points.length);
+  const scores = scoreAgainstRows(vector, vectors, points.length, dimensions, metric);
+  const nearest = Array.from(scores.keys()).sort((a, b) => scores[b] - scores[a]).slice(0, k);
+
+  const best = scores[nearest[0]] ?? 0, worst = scores[nearest[nearest.length - 1]] ?? 0;
+  const neighbors = nearest.map(index => ({
+    index,
+    score: scores[index],
+    strength: best > worst ? (scores[index] - worst) / (best - worst) : 1,
+  }));
+
+  if (dataset.projection) {
+    return { position: projectVector(dataset.projection, vector), neighbors, placement: 'projection' };
+  }
+  const position: Vec3 = [0, 0, 0];
+  let total = 0;
+  neighbors.forEach(({ index, score }) => {
+    const weight = Math.max(score, 0) + 1e-6; // Cosine can go negative; keep every neighbour in play
+    for (let axis = 0; axis < 3; axis++) position[axis] += points[index].position[axis] * weight;
+    total += weight;
+  });
+  return { position: position.map(v => v / total) as Vec3, neighbors, placement: 'neighbors' };
+};
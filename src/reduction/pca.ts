@@ -0,0 +1,78 @@
+// src/reduction/pca.ts
+// PCA by randomized subspace iteration, so the d × d covariance matrix is never formed;
+// each pass costs O(rows × dimensions × components).
+import { createRng, gaussian } from '../data/random';
+import { ProgressCallback } from '../data/workerJob';
+
+export interface PcaModel {
+  mean: Float32Array;
+  components: Float32Array[]; // Unit-length principal axes, strongest first
+}
+
+const PCA_ITERATIONS = 12;
+
+const orthonormalize = (basis: Float64Array[]) => {
+  basis.forEach((v, i) => {
+    for (let j = 0; j < i; j++) {
+      const u = basis[j];
+      let dot = 0;
+      for (let d = 0; d < v.length; d++) dot += v[d] * u[d];
+      for (let d = 0; d < v.length; d++) v[d] -= dot * u[d];
+    }
+    let norm = 0;
+    for (let d = 0; d < v.length; d++) norm += v[d] * v[d];
+    norm = Math.sqrt(norm) || 1;
+    for (let d = 0; d < v.length; d++) v[d] /= norm;
+  });
+};
+
+export const fitPca = (vectors: Float32Array, count: number, dimensions: number, components: number, seed = 42, onProgress?: ProgressCallback): PcaModel => {
+  const k = Math.min(components, dimensions);
+  const mean = new Float32Array(dimensions);
+  for (let i = 0; i < count; i++) {
+    for (let d = 0; d < dimensions; d++) mean[d] += vectors[i * dimensions + d];
+  }
+  for (let d = 0; d < dimensions; d++) mean[d] /= count || 1;
+
+  const rng = createRng(seed);
+  let basis = Array.from({ length: k }, () => Float64Array.from({ length: dimensions }, () => gaussian(rng)));
+  orthonormalize(basis);
+
+  const scores = new Float64Array(k);
+  for (let iter = 0; iter < PCA_ITERATIONS; iter++) {
+    const next = Array.from({ length: k }, () => new Float64Array(dimensions));
+    for (let i = 0; i < count; i++) {
+      const offset = i * dimensions;
+      for (let c = 0; c < k; c++) {
+        const axis = basis[c];
+        let s = 0;
+        for (let d = 0; d < dimensions; d++) s += (vectors[offset + d] - mean[d]) * axis[d];
+        scores[c] = s;
+      }
+      for (let c = 0; c < k; c++) {
+        const target = next[c], s = scores[c];
+        for (let d = 0; d < dimensions; d++) target[d] += (vectors[offset + d] - mean[d]) * s;
+      }
+    }
+    orthonormalize(next);
+    basis = next;
+    onProgress?.('PCA', (iter + 1) / PCA_ITERATIONS);
+  }
+  return { mean, components: basis.map(axis => Float32Array.from(axis)) };
+};
+
+// Projects rows onto the model's axes; returns a row-major count × components matrix.
+export const projectPca = (model: PcaModel, vectors: Float32Array, count: number, dimensions: number): Float32Array => {
+  const k = model.components.length;
+  const out = new Float32Array(count * k);
+  for (let i = 0; i < count; i++) {
+    const offset = i * dimensions;
+    for (let c = 0; c < k; c++) {
+      const axis = model.components[c];
+      let s = 0;
+      for (let d = 0; d < dimensions; d++) s += (vectors[offset + d] - model.mean[d]) * axis[d];
+      out[i * k + c] = s;
+    }
+  }
+  return out;
+};
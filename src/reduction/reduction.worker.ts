@@ -0,0 +1,37 @@
+// src/reduction/reduction.worker.ts
+// Runs one reduction job off the main thread; see data/workerJob.ts for the protocol.
+import { postError, postProgress, postResult } from '../data/workerJob';
+import { fitPca, PcaModel, projectPca } from './pca';
+import { runTsne } from './tsne';
+import { runUmap } from './umap';
+import { ReductionRequest, ReductionResult } from './types';
+
+self.onmessage = (event: MessageEvent<ReductionRequest>) => {
+  const { vectors, count, dimensions, params } = event.data;
+  try {
+    let positions: Float32Array;
+    let pcaModel: PcaModel | null = null;
+    switch (params.method) {
+      case 'pca': {
+        pcaModel = fitPca(vectors, count, dimensions, params.components, params.seed, postProgress);
+        positions = projectPca(pcaModel, vectors, count, dimensions);
+        break;
+      }
+      case 'umap':
+        positions = runUmap(vectors, count, dimensions, {
+          components: params.components, nNeighbors: params.nNeighbors, minDist: params.minDist,
+          epochs: params.iterations, seed: params.seed,
+        }, postProgress);
+        break;
+      case 'tsne':
+        positions = runTsne(vectors, count, dimensions, {
+          components: params.components, perplexity: params.perplexity,
+          iterations: params.iterations, seed: params.seed,
+        }, postProgress);
+        break;
+    }
+    postResult<ReductionResult>({ positions, components: params.components, pcaModel }, [positions.buffer]);
+  } catch (e) {
+    postError(e);
+  }
+};
@@ -0,0 +1,141 @@
+// src/reduction/tsne.ts
+// t-SNE with sparse input affinities (3 × perplexity nearest neighbours) and exact
+// repulsive forces. The repulsion is O(n²) per iteration, so it suits a few thousand points.
+import { createRng, gaussian } from '../data/random';
+import { ProgressCallback } from '../data/workerJob';
+import { fitPca, projectPca } from './pca';
+
+export interface TsneOptions {
+  components: number;
+  perplexity: number;
+  iterations: number;
+  seed: number;
+}
+
+// Inputs wider than this are first reduced with PCA, as in the reference implementation.
+const TSNE_PCA_DIMENSIONS = 50;
+const EARLY_EXAGGERATION = 12;
+
+interface SparseAffinities { neighbors: Int32Array[]; weights: Float64Array[]; }
+
+const squaredDistances = (data: Float32Array, count: number, dims: number, i: number, out: Float64Array) => {
+  const a = i * dims;
+  for (let j = 0; j < count; j++) {
+    const b = j * dims;
+    let sum = 0;
+    for (let d = 0; d < dims; d++) { const diff = data[a + d] - data[b + d]; sum += diff * diff; }
+    out[j] = sum;
+  }
+};
+
+// Binary-searches a Gaussian bandwidth per point so each conditional distribution hits the perplexity.
+const inputAffinities = (data: Float32Array, count: number, dims: number, perplexity: number, onProgress?: ProgressCallback): SparseAffinities => {
+  const k = Math.min(count - 1, Math.floor(perplexity * 3));
+  const targetEntropy = Math.log(perplexity);
+  const distances = new Float64Array(count);
+  const rows: { neighbors: Int32Array; weights: Float64Array }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    squaredDistances(data, count, dims, i, distances);
+    const sorted = Array.from({ length: count }, (_, j) => j)
+      .filter(j => j !== i)
+      .sort((a, b) => distances[a] - distances[b])
+      .slice(0, k);
+    const neighbors = Int32Array.from(sorted);
+    const dist = Float64Array.from(sorted, j => distances[j]);
+    const weights = new Float64Array(k);
+
+    let beta = 1, lo = -Infinity, hi = Infinity;
+    for (let step = 0; step < 64; step++) {
+      let sum = 0;
+      for (let n = 0; n < k; n++) { weights[n] = Math.exp(-dist[n] * beta); sum += weights[n]; }
+      sum = sum || 1e-12;
+      let entropy = 0;
+      for (let n = 0; n < k; n++) { weights[n] /= sum; entropy -= weights[n] > 1e-12 ? weights[n] * Math.log(weights[n]) : 0; }
+      if (Math.abs(entropy - targetEntropy) < 1e-5) break;
+      if (entropy > targetEntropy) { lo = beta; beta = hi === Infinity ? beta * 2 : (beta + hi) / 2; }
+      else { hi = beta; beta = lo === -Infinity ? beta / 2 : (beta + lo) / 2; }
+    }
+    rows.push({ neighbors, weights });
+    if (i % 200 === 0) onProgress?.('t-SNE affinities', i / count);
+  }
+
+  // Symmetrize: p_ij = (p_j|i + p_i|j) / 2n.
+  const symmetric = Array.from({ length: count }, () => new Map<number, number>());
+  rows.forEach(({ neighbors, weights }, i) => {
+    neighbors.forEach((j, n) => {
+      const w = weights[n] / (2 * count);
+      symmetric[i].set(j, (symmetric[i].get(j) ?? 0) + w);
+      symmetric[j].set(i, (symmetric[j].get(i) ?? 0) + w);
+    });
+  });
+  return {
+    neighbors: symmetric.map(m => Int32Array.from(m.keys())),
+    weights: symmetric.map(m => Float64Array.from(m.values())),
+  };
+};
+
+export const runTsne = (vectors: Float32Array, count: number, dimensions: number, options: TsneOptions, onProgress?: ProgressCallback): Float32Array => {
+  const { components, iterations, seed } = options;
+  const perplexity = Math.max(2, Math.min(options.perplexity, (count - 1) / 3));
+  let data = vectors, dims = dimensions;
+  if (dimensions > TSNE_PCA_DIMENSIONS) {
+    const model = fitPca(vectors, count, dimensions, TSNE_PCA_DIMENSIONS, seed, (_, p) => onProgress?.('t-SNE PCA preprocessing', p));
+    data = projectPca(model, vectors, count, dimensions);
+    dims = TSNE_PCA_DIMENSIONS;
+  }
+  const { neighbors, weights } = inputAffinities(data, count, dims, perplexity, onProgress);
+
+  const rng = createRng(seed);
+  const y = Float64Array.from({ length: count * components }, () => gaussian(rng) * 1e-4);
+  const update = new Float64Array(count * components);
+  const gains = new Float64Array(count * components).fill(1);
+  const grad = new Float64Array(count * components);
+  const learningRate = Math.max(count / EARLY_EXAGGERATION / 4, 50);
+  const exaggerationEnd = Math.min(250, Math.floor(iterations / 4));
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const exaggeration = iter < exaggerationEnd ? EARLY_EXAGGERATION : 1;
+    const momentum = iter < exaggerationEnd ? 0.5 : 0.8;
+    grad.fill(0);
+
+    // Repulsion: exact Student-t kernel over all pairs.
+    let z = 0;
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        let d2 = 0;
+        for (let c = 0; c < components; c++) { const diff = y[i * components + c] - y[j * components + c]; d2 += diff * diff; }
+        const q = 1 / (1 + d2);
+        z += 2 * q;
+        const q2 = q * q;
+        for (let c = 0; c < components; c++) {
+          const f = q2 * (y[i * components + c] - y[j * components + c]);
+          grad[i * components + c] -= f;
+          grad[j * components + c] += f;
+        }
+      }
+    }
+    for (let n = 0; n < grad.length; n++) grad[n] /= z || 1;
+
+    // Attraction over the sparse neighbour affinities.
+    for (let i = 0; i < count; i++) {
+      const row = neighbors[i], w = weights[i];
+      for (let n = 0; n < row.length; n++) {
+        const j = row[n];
+        let d2 = 0;
+        for (let c = 0; c < components; c++) { const diff = y[i * components + c] - y[j * components + c]; d2 += diff * diff; }
+        const f = exaggeration * w[n] / (1 + d2);
+        for (let c = 0; c < components; c++) grad[i * components + c] += f * (y[i * components + c] - y[j * components + c]);
+      }
+    }
+
+    for (let n = 0; n < y.length; n++) {
+      const g = 4 * grad[n];
+      gains[n] = Math.sign(g) !== Math.sign(update[n]) ? gains[n] + 0.2 : Math.max(gains[n] * 0.8, 0.01);
+      update[n] = momentum * update[n] - learningRate * gains[n] * g;
+      y[n] += update[n];
+    }
+    if (iter % 10 === 0) onProgress?.('t-SNE optimisation', iter / iterations);
+  }
+  return Float32Array.from(y);
+};
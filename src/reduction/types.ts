@@ -0,0 +1,39 @@
+// src/reduction/types.ts
+// Request/result shapes for the reduction worker, and the user-facing parameters.
+import type { PcaModel } from './pca';
+
+export type ReductionMethod = 'pca' | 'umap' | 'tsne';
+
+export interface ReductionParams {
+  method: ReductionMethod;
+  components: 2 | 3; // 2D for the Pixi scroll, 3D for the Three/Babylon/deck.gl scenes
+  nNeighbors: number; // UMAP
+  minDist: number; // UMAP
+  perplexity: number; // t-SNE
+  iterations: number; // t-SNE iterations / UMAP epochs (0 lets UMAP choose)
+  seed: number;
+}
+
+export const DEFAULT_REDUCTION_PARAMS: ReductionParams = {
+  method: 'pca',
+  components: 3,
+  nNeighbors: 15,
+  minDist: 0.1,
+  perplexity: 30,
+  iterations: 500,
+  seed: 42,
+};
+
+export interface ReductionRequest {
+  type: 'reduce';
+  vectors: Float32Array;
+  count: number;
+  dimensions: number;
+  params: ReductionParams;
+}
+
+export interface ReductionResult {
+  positions: Float32Array; // Row-major count × components
+  components: number;
+  pcaModel: PcaModel | null; // PCA only: lets new vectors be projected into the same layout
+}
@@ -0,0 +1,31 @@
+// src/reduction/umap.ts
+// Thin wrapper over umap-js that steps the optimisation manually so progress can be reported.
+import { UMAP } from 'umap-js';
+import { createRng } from '../data/random';
+import { ProgressCallback } from '../data/workerJob';
+
+export interface UmapOptions {
+  components: number;
+  nNeighbors: number;
+  minDist: number;
+  epochs: number; // 0 lets umap-js pick based on the dataset size
+  seed: number;
+}
+
+export const runUmap = (vectors: Float32Array, count: number, dimensions: number, options: UmapOptions, onProgress?: ProgressCallback): Float32Array => {
+  const rows = Array.from({ length: count }, (_, i) => Array.from(vectors.subarray(i * dimensions, (i + 1) * dimensions)));
+  const umap = new UMAP({
+    nComponents: options.components,
+    nNeighbors: Math.max(2, Math.min(options.nNeighbors, count - 1)),
+    minDist: options.minDist,
+    nEpochs: options.epochs > 0 ? options.epochs : undefined,
+    random: createRng(options.seed),
+  });
+  onProgress?.('UMAP neighbour graph', 0);
+  const epochs = umap.initializeFit(rows);
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    umap.step();
+    if (epoch % 5 === 0) onProgress?.('UMAP optimisation', epoch / epochs);
+  }
+  return Float32Array.from(umap.getEmbedding().flat());
+};
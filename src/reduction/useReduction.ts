@@ -0,0 +1,61 @@
+// src/reduction/useReduction.ts
+// Main-thread side of the reduction worker: starts jobs and writes the resulting layout
+// back into the shared dataset.
+import { useCallback } from 'react';
+import { EmbeddingDataset, LinearProjection, positionNormalization, sameRows, Vec3, withPositions } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { JobSequence } from '../data/useJobSequence';
+import { useWorkerJob } from '../data/useWorkerJob';
+import type { PcaModel } from './pca';
+import { DEFAULT_REDUCTION_PARAMS, ReductionParams, ReductionRequest, ReductionResult } from './types';
+
+// Unpacks a row-major count × components buffer and normalises it; 2D layouts get z = 0.
+// A PCA model comes back as the matching LinearProjection.
+export const unpackPositions = (positions: Float32Array, count: number, components: number, pcaModel: PcaModel | null = null) => {
+  const raw = Array.from({ length: count }, (_, i): Vec3 => [
+    positions[i * components],
+    positions[i * components + 1],
+    components > 2 ? positions[i * components + 2] : 0,
+  ]);
+  const { center, extent } = positionNormalization(raw);
+  const projection: LinearProjection | null = pcaModel && { mean: pcaModel.mean, axes: pcaModel.components, center, extent };
+  return { positions: raw.map(p => p.map((v, axis) => (v - center[axis]) / extent) as Vec3), projection };
+};
+
+export const createReductionWorker = () =>
+  new Worker(new URL('./reduction.worker.ts', import.meta.url), { type: 'module' });
+
+// A loaded dataset with vectors but only the placeholder random projection, which a build lays
+// out with PCA before using it.
+export const needsLayout = (dataset: EmbeddingDataset) => dataset.vectors !== null && dataset.layout === 'random-projection';
+
+// Runs a 3D PCA for the dataset as one step of a build if it needs a layout; otherwise hands it back.
+export const layoutIfNeeded = async (sequence: JobSequence, dataset: EmbeddingDataset, label: string) => {
+  if (!needsLayout(dataset)) return dataset;
+  const request: ReductionRequest = {
+    type: 'reduce', vectors: dataset.vectors!, count: dataset.points.length, dimensions: dataset.dimensions,
+    params: { ...DEFAULT_REDUCTION_PARAMS, method: 'pca', components: 3 },
+  };
+  const { positions, components } = await sequence.runJob<ReductionRequest, ReductionResult>(createReductionWorker, request, () => label);
+  return withPositions(dataset, unpackPositions(positions, dataset.points.length, components).positions, 'pca');
+};
+
+export const useReduction = () => {
+  const { dataset, setDataset } = useDataset();
+  const { start, cancel, status, error } = useWorkerJob<ReductionRequest, ReductionResult>(createReductionWorker);
+
+  const run = useCallback((params: ReductionParams) => {
+    const source = dataset;
+    if (!source.vectors) return;
+    const request: ReductionRequest = {
+      type: 'reduce', vectors: source.vectors, count: source.points.length, dimensions: source.dimensions, params,
+    };
+    start(request, ({ positions, components, pcaModel }) => {
+      const layout = unpackPositions(positions, source.points.length, components, pcaModel);
+      // Ignore results for a dataset that has since been replaced.
+      setDataset(current => (sameRows(current, source) ? withPositions(current, layout.positions, params.method, layout.projection) : current));
+    });
+  }, [dataset, setDataset, start]);
+
+  return { run, cancel, status, error };
+};
@@ -0,0 +1,61 @@
+// src/shell/ComparisonSplit.tsx
+// Wraps the engine viewport: while a model comparison applies, a second pane shows model B
+// next to it. That pane sees B as its dataset, the shared filter re-evaluated on B and no query
+// marker; selection and hover are by id, so they carry across the panes as they are. The first
+// pane keeps its place in the tree, so opening the comparison does not restart its scene.
+import React from 'react';
+import { buttonStyle, inputStyle } from '../components/panelStyles';
+import { useCompare } from '../compare/CompareContext';
+import { DatasetScope, useDataset } from '../data/DatasetContext';
+import { FilterScope } from '../data/FilterContext';
+import { PointColorProvider } from '../data/PointColorContext';
+import { DetachedQueryScope } from '../query/QueryContext';
+import EngineViewport from './EngineViewport';
+import { ENGINES, EngineId, findEngine } from './engines';
+
+const paneHeaderStyle: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 10px', fontSize: '12px', flexShrink: 0,
+  background: '#0e0b1c', borderBottom: '1px solid rgba(120, 100, 220, 0.25)', overflow: 'hidden', whiteSpace: 'nowrap',
+};
+
+const ComparisonSplit: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { dataset } = useDataset();
+  const { comparison, active, swatches, legend, paneEngine, setPaneEngine, setComparison } = useCompare();
+  const showing = active && comparison !== null;
+  const engine = findEngine(paneEngine)!;
+
+  return (
+    <div style={{ display: 'flex', width: '100%', height: '100%' }}>
+      <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+        {showing && <div style={paneHeaderStyle}><b>A</b> {dataset.name}</div>}
+        <div style={{ flex: 1, minHeight: 0, position: 'relative' }}>
+          <PointColorProvider swatches={showing ? swatches : null} legend={legend}>{children}</PointColorProvider>
+        </div>
+      </div>
+      {showing && (
+        <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', borderLeft: '1px solid rgba(120, 100, 220, 0.35)' }}>
+          <div style={paneHeaderStyle}>
+            <b>B</b> <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{comparison.b.name}</span>
+            <select value={paneEngine} style={{ ...inputStyle, marginLeft: 'auto' }} onChange={e => setPaneEngine(e.target.value as EngineId)}>
+              {ENGINES.map(entry => <option key={entry.id} value={entry.id}>{entry.label}</option>)}
+            </select>
+            <button style={buttonStyle} onClick={() => setComparison(null)} title="Close the comparison">✕</button>
+          </div>
+          <div style={{ flex: 1, minHeight: 0, position: 'relative' }}>
+            <DatasetScope dataset={comparison.b}>
+              <FilterScope>
+                <DetachedQueryScope>
+                  <PointColorProvider swatches={swatches} legend={legend}>
+                    <EngineViewport key={engine.id} engine={engine} view="compare" />
+                  </PointColorProvider>
+                </DetachedQueryScope>
+              </FilterScope>
+            </DatasetScope>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonSplit;
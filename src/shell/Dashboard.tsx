@@ -0,0 +1,53 @@
+// src/shell/Dashboard.tsx
+// Several views of the shared dataset at once: two engine panes side by side over a metadata
+// histogram. Everything reads the same selection, hover and filter stores, so brushing the
+// histogram highlights points in both panes and hovering a point in one pane lights it up in
+// the other. Each pane picks its own engine.
+import React from 'react';
+import HistogramPanel from '../components/HistogramPanel';
+import { inputStyle } from '../components/panelStyles';
+import TimelineBar from '../components/TimelineBar';
+import EngineViewport from './EngineViewport';
+import { ENGINES, EngineId, findEngine } from './engines';
+import { useViewState } from './ViewStateContext';
+
+const paneHeaderStyle: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 10px', fontSize: '12px', flexShrink: 0,
+  background: '#0e0b1c', borderBottom: '1px solid rgba(120, 100, 220, 0.25)',
+};
+
+const Dashboard: React.FC = () => {
+  // Kept with the view state, so the layout is part of a shared link.
+  const { dashboard: { panes, column }, setDashboard } = useViewState();
+  const setPane = (index: number, id: EngineId) => setDashboard(d => ({ ...d, panes: d.panes.map((v, i) => (i === index ? id : v)) }));
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <div style={{ flex: 1, minHeight: 0, display: 'flex', position: 'relative' }}>
+        {panes.map((id, index) => {
+          const engine = findEngine(id)!;
+          return (
+            <div key={index} style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column',
+              borderLeft: index > 0 ? '1px solid rgba(120, 100, 220, 0.35)' : undefined }}>
+              <div style={paneHeaderStyle}>
+                <select value={id} style={inputStyle} onChange={e => setPane(index, e.target.value as EngineId)}>
+                  {ENGINES.map(entry => <option key={entry.id} value={entry.id}>{entry.label}</option>)}
+                </select>
+                <span style={{ opacity: 0.7 }}>{engine.title}</span>
+              </div>
+              <div style={{ flex: 1, minHeight: 0, position: 'relative' }}>
+                <EngineViewport key={engine.id} engine={engine} view={`dashboard${index}`} />
+              </div>
+            </div>
+          );
+        })}
+        <TimelineBar />
+      </div>
+      <div style={{ height: '200px', flexShrink: 0, borderTop: '1px solid rgba(120, 100, 220, 0.35)' }}>
+        <HistogramPanel column={column} onColumn={c => setDashboard(d => ({ ...d, column: c }))} />
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,127 @@
+// src/shell/EngineViewport.tsx
+// Hosts one engine. The shell keys this component on the engine id, so switching engines
+// unmounts the old scene completely. Within an engine, each backend attempt gets its own host:
+// a scene that throws, or never reports a renderer, is torn down and the next backend the
+// browser supports is tried, ending in a static 2D view.
+import React, { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import EncodingLegend from '../components/EncodingLegend';
+import { panelStyle } from '../components/panelStyles';
+import { availableBackends, BACKEND_LABELS, Capabilities, probeCapabilities, RendererBackend } from './capabilities';
+import { EngineEntry } from './engines';
+import { RendererBoundary } from './RendererBoundary';
+import { ScreenProjector } from './screenSelection';
+import SelectionOverlay from './SelectionOverlay';
+import StaticFallback from './StaticFallback';
+import { useCameraSync } from './ViewStateContext';
+
+// A backend that has not produced a renderer by then (e.g. a WebGPU adapter that never
+// resolves a device) counts as failed.
+const READY_TIMEOUT_MS = 10000;
+
+interface BackendFailure { backend: RendererBackend; message: string; }
+
+const releaseCanvasContexts = (canvases: HTMLCanvasElement[]) => {
+  canvases.forEach(canvas => {
+    // getContext returns the canvas's existing context of that type, or null for a different type.
+    const gl = (canvas.getContext('webgl2') ?? canvas.getContext('webgl')) as WebGLRenderingContext | null;
+    gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    canvas.width = 0;
+    canvas.height = 0;
+  });
+};
+
+// Owns the DOM for one backend attempt. The libraries dispose their own scenes, renderers and
+// textures; on the way out we also release the canvases' GPU contexts, which several of them
+// leave for the garbage collector and which browsers cap at a handful per page.
+const AttemptHost: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const container = containerRef.current;
+    return () => {
+      if (!container) return;
+      const canvases = Array.from(container.querySelectorAll('canvas'));
+      // Parents unmount before their children, so let the engines dispose themselves first.
+      setTimeout(() => releaseCanvasContexts(canvases), 0);
+    };
+  }, []);
+  return <div ref={containerRef} style={{ position: 'relative', width: '100%', height: '100%' }}>{children}</div>;
+};
+
+// Mounted next to the scene inside Suspense, so the clock starts once the engine chunk has loaded.
+const ReadyWatchdog: React.FC<{ ready: boolean; onTimeout: () => void }> = ({ ready, onTimeout }) => {
+  useEffect(() => {
+    if (ready) return;
+    const timer = setTimeout(onTimeout, READY_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [ready, onTimeout]);
+  return null;
+};
+
+// view names the viewport ("main", "compare", "dashboard0", …) so each keeps its own camera in shared links.
+const EngineViewport: React.FC<{ engine: EngineEntry; view: string }> = ({ engine, view }) => {
+  const [capabilities, setCapabilities] = useState<Capabilities | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [failures, setFailures] = useState<BackendFailure[]>([]);
+  const [actual, setActual] = useState<RendererBackend | null>(null);
+  const projectorRef = useRef<ScreenProjector | null>(null);
+  const camera = useCameraSync(view, engine.id);
+
+  useEffect(() => {
+    let live = true;
+    probeCapabilities().then(c => { if (live) setCapabilities(c); });
+    return () => { live = false; };
+  }, []);
+
+  const candidates = useMemo(() => (capabilities ? availableBackends(engine.backends, capabilities) : []), [capabilities, engine]);
+  const backend = candidates[attempt];
+
+  const fail = useCallback((error: Error) => {
+    if (!backend) return;
+    setFailures(f => [...f, { backend, message: error.message }]);
+    setActual(null);
+    setAttempt(a => a + 1);
+  }, [backend]);
+  const timeout = useCallback(() => fail(new Error(`no renderer after ${READY_TIMEOUT_MS / 1000}s`)), [fail]);
+
+  if (!capabilities) {
+    return <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>Checking graphics support…</div>;
+  }
+
+  const failureSummary = failures.map(f => `${BACKEND_LABELS[f.backend]} failed (${f.message})`).join('; ');
+
+  if (!backend) {
+    const reason = candidates.length === 0
+      ? `${engine.label} needs ${engine.backends.map(b => BACKEND_LABELS[b]).join(' or ')}, which this browser does not provide.`
+      : `${engine.label} could not start: ${failureSummary}.`;
+    return capabilities.canvas2d
+      ? <StaticFallback reason={reason} />
+      : <div style={{ ...panelStyle, margin: '20px' }}>{reason} No 2D canvas is available either.</div>;
+  }
+
+  const Scene = engine.component;
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%', overflow: 'hidden' }}>
+      <AttemptHost key={backend}>
+        <RendererBoundary onFailure={fail}>
+          <Suspense fallback={
+            <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '1.2em' }}>
+              Loading {engine.title} ({engine.label})…
+            </div>
+          }>
+            <Scene backend={backend} onReady={setActual} projectorRef={projectorRef} camera={camera} />
+            <ReadyWatchdog ready={actual !== null} onTimeout={timeout} />
+          </Suspense>
+        </RendererBoundary>
+      </AttemptHost>
+      {actual && <SelectionOverlay projectorRef={projectorRef} />}
+      <EncodingLegend />
+      {failures.length > 0 && (
+        <div style={{ ...panelStyle, position: 'absolute', top: '10px', left: '10px', maxWidth: '420px', zIndex: 10001 }}>
+          Running on {BACKEND_LABELS[actual ?? backend]} — {failureSummary}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EngineViewport;
@@ -0,0 +1,32 @@
+// src/shell/RendererBoundary.tsx
+// Catches a scene's initialisation failure so the shell can retry with the next backend.
+import React, { useCallback, useState } from 'react';
+
+interface RendererBoundaryProps {
+  onFailure: (error: Error) => void;
+  children: React.ReactNode;
+}
+
+export class RendererBoundary extends React.Component<RendererBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onFailure(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+// Errors from async renderer setup (device creation callbacks, rejected init promises) never
+// reach a boundary on their own; this rethrows them during render so they do.
+export const useRendererFailure = () => {
+  const [error, setError] = useState<Error | null>(null);
+  if (error) throw error;
+  return useCallback((e: unknown) => setError(e instanceof Error ? e : new Error(String(e))), []);
+};
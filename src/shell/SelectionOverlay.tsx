@@ -0,0 +1,90 @@
+// src/shell/SelectionOverlay.tsx
+// Tool switcher plus the transparent layer that captures box/lasso drags over the active
+// engine. While a selection tool is active the layer sits on top of the canvas, so the
+// engine's own pan/orbit handlers never see the drag.
+import React, { useRef, useState } from 'react';
+import { buttonStyle, panelStyle } from '../components/panelStyles';
+import { useDataset } from '../data/DatasetContext';
+import { selectionModeOf, useSelection } from '../data/SelectionContext';
+import { boxPolygon, pointsInPolygon, ScreenPoint, ScreenProjector, SelectionTool } from './screenSelection';
+
+const TOOLS: { tool: SelectionTool; label: string; title: string }[] = [
+  { tool: 'navigate', label: '✥', title: 'Navigate (pan, orbit, click to inspect)' },
+  { tool: 'box', label: '▭', title: 'Box select' },
+  { tool: 'lasso', label: '➰', title: 'Lasso select' },
+];
+
+const MIN_LASSO_STEP_PX = 3; // Skip pointer moves closer than this to the previous lasso vertex
+
+const SelectionOverlay: React.FC<{ projectorRef: React.MutableRefObject<ScreenProjector | null> }> = ({ projectorRef }) => {
+  const { dataset } = useDataset();
+  const { updateSelectedIds } = useSelection();
+  const [tool, setTool] = useState<SelectionTool>('navigate');
+  const [path, setPath] = useState<ScreenPoint[] | null>(null);
+  const layerRef = useRef<HTMLDivElement>(null);
+
+  const localPoint = (event: React.PointerEvent): ScreenPoint => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return [event.clientX - rect.left, event.clientY - rect.top];
+  };
+
+  const onPointerDown = (event: React.PointerEvent) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const start = localPoint(event);
+    setPath([start, start]);
+  };
+
+  const onPointerMove = (event: React.PointerEvent) => {
+    if (!path) return;
+    const p = localPoint(event);
+    if (tool === 'box') {
+      setPath([path[0], p]);
+    } else {
+      const last = path[path.length - 1];
+      if (Math.hypot(p[0] - last[0], p[1] - last[1]) >= MIN_LASSO_STEP_PX) setPath([...path, p]);
+    }
+  };
+
+  const onPointerUp = (event: React.PointerEvent) => {
+    if (!path) return;
+    setPath(null);
+    const project = projectorRef.current;
+    if (!project) return;
+    const polygon = tool === 'box' ? boxPolygon(path[0], path[path.length - 1]) : path;
+    // A click without a drag selects nothing, which in replace mode clears the selection.
+    const indices = pointsInPolygon(dataset.points.length, project, polygon);
+    updateSelectedIds(indices.map(i => dataset.points[i].id), selectionModeOf(event));
+  };
+
+  const shape = path && (tool === 'box' ? boxPolygon(path[0], path[path.length - 1]) : path);
+
+  return (
+    <>
+      {tool !== 'navigate' && (
+        <div ref={layerRef} style={{ position: 'absolute', inset: 0, zIndex: 10000, cursor: 'crosshair', touchAction: 'none' }}
+          onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp}
+          onPointerCancel={() => setPath(null)}>
+          {shape && (
+            <svg style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none' }}>
+              <polygon points={shape.map(p => p.join(',')).join(' ')} fill="rgba(150, 130, 255, 0.15)"
+                stroke="rgba(200, 190, 255, 0.9)" strokeWidth={1.5} strokeDasharray="5 3" />
+            </svg>
+          )}
+        </div>
+      )}
+      <div style={{ ...panelStyle, position: 'absolute', top: '10px', right: '10px', zIndex: 10001, padding: '4px',
+        display: 'flex', alignItems: 'center', gap: '4px' }}>
+        {TOOLS.map(({ tool: t, label, title }) => (
+          <button key={t} title={title} onClick={() => setTool(t)}
+            style={{ ...buttonStyle, padding: '2px 8px', background: t === tool ? buttonStyle.background : 'transparent' }}>
+            {label}
+          </button>
+        ))}
+        {tool !== 'navigate' && <span style={{ opacity: 0.7, padding: '0 4px' }}>Shift adds · Alt removes</span>}
+      </div>
+    </>
+  );
+};
+
+export default SelectionOverlay;
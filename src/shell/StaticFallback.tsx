@@ -0,0 +1,56 @@
+// src/shell/StaticFallback.tsx
+// Last resort when no GPU backend works: the current layout drawn once per size change on a
+// plain 2D canvas, looking straight down the z axis.
+import React, { useEffect, useRef } from 'react';
+import { useDataset } from '../data/DatasetContext';
+import { usePointSize } from '../data/EncodingContext';
+import { rgbToCss } from '../data/palette';
+import { usePointSwatch } from '../data/PointColorContext';
+import EncodingLegend from '../components/EncodingLegend';
+import { panelStyle } from '../components/panelStyles';
+
+const StaticFallback: React.FC<{ reason: string }> = ({ reason }) => {
+  const { dataset } = useDataset();
+  const swatchOf = usePointSwatch();
+  const sizeOf = usePointSize();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const { width, height } = canvas.getBoundingClientRect();
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      ctx.fillStyle = '#08080A';
+      ctx.fillRect(0, 0, width, height);
+      const half = Math.min(width, height) * 0.45;
+      const radius = dataset.points.length > 5000 ? 1.5 : 3.5;
+      dataset.points.forEach(point => {
+        ctx.fillStyle = rgbToCss(swatchOf(point).primary, 0.85);
+        ctx.beginPath();
+        ctx.arc(width / 2 + point.position[0] * half, height / 2 - point.position[1] * half, radius * (0.6 + sizeOf(dataset, point) * 0.8), 0, Math.PI * 2);
+        ctx.fill();
+      });
+    };
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [dataset, swatchOf, sizeOf]);
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <canvas ref={canvasRef} style={{ width: '100%', height: '100%' }} />
+      <div style={{ ...panelStyle, position: 'absolute', top: '10px', left: '10px', maxWidth: '420px' }}>
+        <b>Static 2D view</b> — {reason}
+      </div>
+      <EncodingLegend />
+    </div>
+  );
+};
+
+export default StaticFallback;
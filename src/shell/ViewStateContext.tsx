@@ -0,0 +1,171 @@
+// src/shell/ViewStateContext.tsx
+// Keeps the URL hash in step with the view: dataset, selection, filters, encodings, dashboard
+// layout and every view's camera are written after the route (see viewState.ts) as they change,
+// without adding history entries. Opening a link, or pasting one into this tab, restores them;
+// a hash with no view state (e.g. following a menu link) leaves the view as it is.
+// Locally computed layouts and clusters are not part of a link: it shows the data as loaded.
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useCompare } from '../compare/CompareContext';
+import { useDataset } from '../data/DatasetContext';
+import { useEncoding } from '../data/EncodingContext';
+import { useFilter } from '../data/FilterContext';
+import { useSelection } from '../data/SelectionContext';
+import { loadDatasetUrl } from '../loaders';
+import {
+  CameraRequest, CameraState, CameraSync, DashboardLayout, DatasetRef, decodeViewState, DEFAULT_DASHBOARD, encodeViewState,
+  splitHash, ViewState,
+} from './viewState';
+
+// Coalesces bursts of changes (a drag, a typed query) into one hash update.
+const WRITE_DELAY_MS = 400;
+
+interface ViewStateContextValue {
+  dashboard: DashboardLayout;
+  setDashboard: React.Dispatch<React.SetStateAction<DashboardLayout>>;
+  cameraRequests: Record<string, CameraRequest>; // From links, by view and engine
+  latestCamera: (key: string) => CameraRequest | null; // Where the view was last reported, as a fresh request
+  reportCamera: (key: string, camera: CameraState) => void;
+  notice: string | null; // About restoring a link, e.g. its dataset still has to be loaded
+  dismissNotice: () => void;
+}
+
+const ViewStateContext = createContext<ViewStateContextValue>({
+  dashboard: DEFAULT_DASHBOARD,
+  setDashboard: () => {},
+  cameraRequests: {},
+  latestCamera: () => null,
+  reportCamera: () => {},
+  notice: null,
+  dismissNotice: () => {},
+});
+
+// A link's dataset is on screen when it came from the same URL, or for local files, has the same name.
+const showsDataset = (ref: DatasetRef, name: string, source: string | null) => (ref.url ? ref.url === source : ref.name === name);
+
+export const ViewStateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { dataset, loadDataset, source } = useDataset();
+  const { filter, setFilter } = useFilter();
+  const { selectedId, setSelectedId, selectedIds, updateSelectedIds } = useSelection();
+  const { encoding, setEncoding } = useEncoding();
+  const { paneEngine, setPaneEngine } = useCompare();
+  const [dashboard, setDashboard] = useState<DashboardLayout>(DEFAULT_DASHBOARD);
+  const [cameraRequests, setCameraRequests] = useState<Record<string, CameraRequest>>({});
+  const [linked, setLinked] = useState<ViewState | null>(null); // Waiting for its dataset before its selection applies
+  const [notice, setNotice] = useState<string | null>(null);
+  const camerasRef = useRef<Record<string, CameraState>>({});
+  const nonceRef = useRef(0);
+  const writeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const apply = useCallback((state: ViewState) => {
+    setFilter(state.filter);
+    setEncoding(state.encoding);
+    setDashboard(state.dashboard);
+    setPaneEngine(state.paneEngine);
+    camerasRef.current = { ...camerasRef.current, ...state.cameras };
+    setNotice(null);
+    setLinked(state);
+  }, [setFilter, setEncoding, setPaneEngine]);
+
+  // Restore on load and whenever a link is pasted into this tab (our own writes fire no hashchange).
+  useEffect(() => {
+    const restore = () => {
+      const { query } = splitHash(window.location.hash);
+      if (query) apply(decodeViewState(query));
+    };
+    restore();
+    window.addEventListener('hashchange', restore);
+    return () => window.removeEventListener('hashchange', restore);
+  }, [apply]);
+
+  // Fetch the link's dataset if it names a URL; a local file can only be asked for. pending is the
+  // link's own ref object, so it only changes when another link arrives.
+  const pending = linked && linked.dataset.name && !showsDataset(linked.dataset, dataset.name, source) ? linked.dataset : null;
+  useEffect(() => {
+    if (!pending) return;
+    if (!pending.url) {
+      setNotice(`This view was shared with the dataset "${pending.name}". Load that file to see its selection.`);
+      return;
+    }
+    let live = true;
+    setNotice(`Loading ${pending.name} from ${pending.url}…`);
+    loadDatasetUrl(pending.url)
+      .then(({ dataset: fetched }) => { if (live) loadDataset(fetched, pending.url); })
+      .catch(e => {
+        if (!live) return;
+        setNotice(`Could not load the shared dataset: ${(e as Error).message}`);
+        setLinked(null);
+      });
+    return () => { live = false; };
+  }, [pending, loadDataset]);
+
+  // Selection is by id, so it waits until the link's points are on screen. The cameras go with it,
+  // after the dataset has loaded: a scene that flies to a newly selected point, or moves with its
+  // data, would otherwise carry the view away from the shared one.
+  useEffect(() => {
+    if (!linked || pending) return;
+    setSelectedId(linked.selectedId);
+    updateSelectedIds(linked.selectedIds, 'replace');
+    setCameraRequests(Object.fromEntries(Object.entries(linked.cameras).map(([key, camera]) => [key, { camera, nonce: ++nonceRef.current }])));
+    setNotice(null);
+    setLinked(null);
+  }, [linked, pending, setSelectedId, updateSelectedIds]);
+
+  const dismissNotice = useCallback(() => {
+    setNotice(null);
+    setLinked(null);
+  }, []);
+
+  // The writer reads the latest state through a ref, so a camera report and a state change share one timer.
+  const stateRef = useRef<ViewState | null>(null);
+  stateRef.current = linked ? null : {
+    dataset: { name: dataset.name, url: source },
+    selectedId, selectedIds: [...selectedIds], filter, encoding, cameras: camerasRef.current, dashboard, paneEngine,
+  };
+  const scheduleWrite = useCallback(() => {
+    if (writeTimerRef.current !== null) return;
+    writeTimerRef.current = setTimeout(() => {
+      writeTimerRef.current = null;
+      const state = stateRef.current;
+      if (!state) return; // A link is still being restored; keep it in the address bar
+      const { path } = splitHash(window.location.hash);
+      const hash = `${path || '#/'}?${encodeViewState({ ...state, cameras: camerasRef.current })}`;
+      if (hash !== window.location.hash) window.history.replaceState(null, '', hash);
+    }, WRITE_DELAY_MS);
+  }, []);
+  useEffect(() => () => { if (writeTimerRef.current !== null) clearTimeout(writeTimerRef.current); }, []);
+
+  useEffect(scheduleWrite, [scheduleWrite, dataset, source, selectedId, selectedIds, filter, encoding, dashboard, paneEngine, linked]);
+  // Following a menu link replaces the hash; put the view state back after the new route.
+  useEffect(() => {
+    window.addEventListener('hashchange', scheduleWrite);
+    return () => window.removeEventListener('hashchange', scheduleWrite);
+  }, [scheduleWrite]);
+
+  const latestCamera = useCallback((key: string) => {
+    const camera = camerasRef.current[key];
+    return camera ? { camera, nonce: ++nonceRef.current } : null;
+  }, []);
+  const reportCamera = useCallback((key: string, camera: CameraState) => {
+    camerasRef.current = { ...camerasRef.current, [key]: camera };
+    scheduleWrite();
+  }, [scheduleWrite]);
+
+  const value = useMemo(() => ({ dashboard, setDashboard, cameraRequests, latestCamera, reportCamera, notice, dismissNotice }),
+    [dashboard, cameraRequests, latestCamera, reportCamera, notice, dismissNotice]);
+  return <ViewStateContext.Provider value={value}>{children}</ViewStateContext.Provider>;
+};
+
+export const useViewState = () => useContext(ViewStateContext);
+
+// The camera plumbing for one engine in one view ("main", "compare", "dashboard0", …). A view
+// that remounts (switching engines and back) starts where it was; a link's camera, arriving
+// later, wins over that.
+export const useCameraSync = (view: string, engine: string): CameraSync => {
+  const key = `${view}.${engine}`;
+  const { cameraRequests, latestCamera, reportCamera } = useViewState();
+  const [onMount] = useState(() => latestCamera(key));
+  const linkedRequest = cameraRequests[key];
+  const restore = linkedRequest && (!onMount || linkedRequest.nonce > onMount.nonce) ? linkedRequest : onMount;
+  const report = useCallback((camera: CameraState) => reportCamera(key, camera), [reportCamera, key]);
+  return useMemo(() => ({ restore, report }), [restore, report]);
+};
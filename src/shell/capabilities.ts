@@ -0,0 +1,64 @@
+// src/shell/capabilities.ts
+// One-time probe of the GPU APIs this browser actually offers, and the contract between the
+// shell and an engine: the shell picks a backend to try, the engine reports what it really got.
+import type { MutableRefObject } from 'react';
+import type { ScreenProjector } from './screenSelection';
+import type { CameraSync } from './viewState';
+
+export type RendererBackend = 'webgpu' | 'webgl2' | 'webgl';
+
+export const BACKEND_LABELS: Record<RendererBackend, string> = {
+  webgpu: 'WebGPU',
+  webgl2: 'WebGL 2',
+  webgl: 'WebGL 1',
+};
+
+export interface Capabilities {
+  webgpu: boolean; // navigator.gpu handed out an adapter
+  webgl2: boolean;
+  webgl: boolean;
+  canvas2d: boolean;
+}
+
+// Props every engine component receives from the shell.
+export interface EngineSceneProps {
+  backend: RendererBackend; // Backend to initialise with
+  onReady: (actual: RendererBackend) => void; // Called once the renderer exists, with what it ended up using
+  projectorRef: MutableRefObject<ScreenProjector | null>; // Kept current by the engine, for box/lasso selection
+  camera: CameraSync; // Restores the camera from links and remounts, and hears where the user moved it
+}
+
+const probeWebGL = (type: 'webgl2' | 'webgl') => {
+  const canvas = document.createElement('canvas');
+  const gl = canvas.getContext(type, { failIfMajorPerformanceCaveat: false }) as WebGLRenderingContext | null;
+  gl?.getExtension('WEBGL_lose_context')?.loseContext(); // Don't hold one of the page's few contexts
+  return gl !== null;
+};
+
+const probeWebGPU = async () => {
+  const gpu = (navigator as Navigator & { gpu?: { requestAdapter: () => Promise<unknown | null> } }).gpu;
+  if (!gpu) return false;
+  try {
+    return (await gpu.requestAdapter()) !== null;
+  } catch {
+    return false;
+  }
+};
+
+let capabilitiesPromise: Promise<Capabilities> | null = null;
+
+export const probeCapabilities = (): Promise<Capabilities> => {
+  if (!capabilitiesPromise) {
+    capabilitiesPromise = probeWebGPU().then(webgpu => ({
+      webgpu,
+      webgl2: probeWebGL('webgl2'),
+      webgl: probeWebGL('webgl'),
+      canvas2d: document.createElement('canvas').getContext('2d') !== null,
+    }));
+  }
+  return capabilitiesPromise;
+};
+
+// An engine's preferred backends, minus the ones this browser cannot provide.
+export const availableBackends = (preferred: RendererBackend[], capabilities: Capabilities) =>
+  preferred.filter(backend => capabilities[backend]);
@@ -0,0 +1,28 @@
+// src/shell/engines.ts
+// The four visualizers the shell can host. Each is a lazy chunk, so only the engine on
+// screen is downloaded and parsed.
+import React from 'react';
+import { EngineSceneProps, RendererBackend } from './capabilities';
+
+export type EngineId = 'three' | 'babylon' | 'deck' | 'pixi';
+
+export interface EngineEntry {
+  id: EngineId;
+  label: string; // Menu text
+  title: string; // Scene name shown while the chunk loads
+  backends: RendererBackend[]; // Tried in order, skipping those the browser lacks
+  component: React.LazyExoticComponent<React.ComponentType<EngineSceneProps>>;
+}
+
+export const ENGINES: EngineEntry[] = [
+  // three r160's WebGLRenderer; its WebGPU renderer is not usable through react-three-fiber 8.
+  { id: 'three', label: 'Three.js', title: 'Ephemeral Echoes', backends: ['webgl2', 'webgl'], component: React.lazy(() => import('../ThreeJSApp')) },
+  { id: 'babylon', label: 'Babylon.js', title: 'Neural Constellations', backends: ['webgpu', 'webgl2', 'webgl'], component: React.lazy(() => import('../BabylonApp')) },
+  // luma.gl 9 needs WebGL 2, and its WebGPU adapter is not bundled.
+  { id: 'deck', label: 'Deck.gl', title: 'Data Geysers', backends: ['webgl2'], component: React.lazy(() => import('../DeckGLApp')) },
+  { id: 'pixi', label: 'PixiJS', title: 'Chrono-Scrolls', backends: ['webgpu', 'webgl2', 'webgl'], component: React.lazy(() => import('../PixiApp')) },
+];
+
+export const DEFAULT_ENGINE: EngineId = 'three';
+
+export const findEngine = (id: string): EngineEntry | undefined => ENGINES.find(engine => engine.id === id);
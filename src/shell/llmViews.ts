@@ -0,0 +1,20 @@
+// src/shell/llmViews.ts
+// Views of a language model's internals rather than of an embedding dataset. They share the
+// shell's menu and hash routing, but bring their own loaders and controls instead of the dataset
+// sidebar, and handle their own renderer needs. Each is a lazy chunk, like the engines.
+import React from 'react';
+
+export type LlmViewId = 'attention' | 'trajectories';
+
+export interface LlmViewEntry {
+  id: LlmViewId;
+  label: string; // Menu text
+  component: React.LazyExoticComponent<React.ComponentType>;
+}
+
+export const LLM_VIEWS: LlmViewEntry[] = [
+  { id: 'attention', label: 'Attention', component: React.lazy(() => import('../llm/AttentionView')) },
+  { id: 'trajectories', label: 'Trajectories', component: React.lazy(() => import('../llm/TrajectoryView')) },
+];
+
+export const findLlmView = (id: string): LlmViewEntry | undefined => LLM_VIEWS.find(view => view.id === id);
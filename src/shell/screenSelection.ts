@@ -0,0 +1,41 @@
+// src/shell/screenSelection.ts
+// Box and lasso selection in screen space, shared by every engine. An engine only has to say
+// where each point lands on screen; the shell's overlay draws the shape and tests the points.
+
+export type ScreenPoint = [number, number]; // CSS pixels from the viewport's top-left corner
+
+// Where dataset point `index` is drawn right now, or null when it is not on screen (behind the
+// camera, or not drawn by this engine). Engines publish one through EngineSceneProps.projectorRef.
+export type ScreenProjector = (index: number) => ScreenPoint | null;
+
+export type SelectionTool = 'navigate' | 'box' | 'lasso';
+
+export const boxPolygon = ([x0, y0]: ScreenPoint, [x1, y1]: ScreenPoint): ScreenPoint[] =>
+  [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+
+// Even-odd rule, so a self-crossing lasso behaves like it looks.
+export const pointInPolygon = ([x, y]: ScreenPoint, polygon: ScreenPoint[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i], [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Indices of the points whose projection falls inside the polygon.
+export const pointsInPolygon = (count: number, project: ScreenProjector, polygon: ScreenPoint[]): number[] => {
+  if (polygon.length < 3) return [];
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  polygon.forEach(([x, y]) => {
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  });
+  const hits: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const p = project(i);
+    if (!p || p[0] < minX || p[0] > maxX || p[1] < minY || p[1] > maxY) continue;
+    if (pointInPolygon(p, polygon)) hits.push(i);
+  }
+  return hits;
+};
@@ -0,0 +1,38 @@
+// src/shell/useHashRoute.ts
+// Hash routing between engines, the multi-view dashboard and LLM views: `#/three`, `#/babylon`,
+// `#/deck`, `#/pixi`, `#/dashboard`, `#/attention`, `#/trajectories`. An unknown or missing hash is rewritten (without a history entry) to the default engine.
+// View state for shared links follows the route after a `?` (see ViewStateContext).
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_ENGINE, EngineId, findEngine } from './engines';
+import { findLlmView, LlmViewId } from './llmViews';
+
+export const DASHBOARD_ROUTE = 'dashboard';
+
+export type RouteId = EngineId | typeof DASHBOARD_ROUTE | LlmViewId;
+
+const routeFromHash = (hash: string): RouteId | null => {
+  const id = hash.replace(/^#\/?/, '').split(/[/?]/)[0];
+  if (id === DASHBOARD_ROUTE) return DASHBOARD_ROUTE;
+  return findEngine(id)?.id ?? findLlmView(id)?.id ?? null;
+};
+
+export const routeHash = (route: RouteId) => `#/${route}`;
+
+export const useHashRoute = () => {
+  const [route, setRoute] = useState<RouteId>(() => routeFromHash(window.location.hash) ?? DEFAULT_ENGINE);
+
+  useEffect(() => {
+    const sync = () => {
+      const next = routeFromHash(window.location.hash);
+      if (next) setRoute(next);
+      else window.history.replaceState(null, '', routeHash(DEFAULT_ENGINE));
+    };
+    sync();
+    window.addEventListener('hashchange', sync);
+    return () => window.removeEventListener('hashchange', sync);
+  }, []);
+
+  const navigate = useCallback((next: RouteId) => { window.location.hash = routeHash(next); }, []);
+
+  return { route, navigate };
+};
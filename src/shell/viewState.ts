@@ -0,0 +1,133 @@
+// src/shell/viewState.ts
+// The view state a shared link carries, serialised as query parameters after the route in the
+// URL hash: `#/deck?data=…&point=…&cam.main.deck=…`. Parameters at their defaults are left
+// out, so a plain `#/deck` is the default view.
+import { ColorMapId, COLOR_MAPS } from '../data/colorMaps';
+import { DEFAULT_ENCODING, Encoding, SizeScale } from '../data/encoding';
+import { EMPTY_FILTER, FilterState, RangeFilter } from '../data/filters';
+import { DEFAULT_ENGINE, EngineId, findEngine } from './engines';
+
+// An engine's camera as a flat list of numbers; each scene defines its own layout (see CameraSync).
+export type CameraState = number[];
+
+// nonce makes a repeated request for the same camera a new value, so the scene jumps again.
+export interface CameraRequest { camera: CameraState; nonce: number; }
+
+// Handed to each scene: where to put its camera, and a callback for where the user moved it.
+export interface CameraSync {
+  restore: CameraRequest | null;
+  report: (camera: CameraState) => void;
+}
+
+// Links name the dataset; one fetched from a URL is fetched again, a local file has to be loaded by hand.
+export interface DatasetRef { name: string; url: string | null; }
+
+export interface DashboardLayout {
+  panes: EngineId[];
+  column: string | null; // Histogram column; null = cluster
+}
+
+export const DEFAULT_DASHBOARD: DashboardLayout = { panes: ['deck', 'pixi'], column: null };
+
+export interface ViewState {
+  dataset: DatasetRef;
+  selectedId: string | null;
+  selectedIds: string[];
+  filter: FilterState;
+  encoding: Encoding;
+  cameras: Record<string, CameraState>; // By view and engine, e.g. "main.deck" or "dashboard1.pixi"
+  dashboard: DashboardLayout;
+  paneEngine: EngineId; // The comparison's second pane
+}
+
+// Larger selection sets are left out of the link rather than making it unwieldy.
+export const MAX_LINKED_SELECTION = 1000;
+
+const CAMERA_PREFIX = 'cam.';
+
+const isEngineId = (id: string): id is EngineId => findEngine(id) !== undefined;
+
+// Six significant digits keep camera parameters short without a visible jump.
+const formatNumber = (value: number) => String(+value.toPrecision(6));
+
+const parseJson = <T>(text: string | null, valid: (value: unknown) => value is T): T | null => {
+  if (text === null) return null;
+  try {
+    const value: unknown = JSON.parse(text);
+    return valid(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isRangeArray = (value: unknown): value is RangeFilter[] => Array.isArray(value) && value.every(r =>
+  typeof r === 'object' && r !== null && typeof r.column === 'string' && typeof r.min === 'number' && typeof r.max === 'number');
+
+export const encodeViewState = (state: ViewState): string => {
+  const params = new URLSearchParams();
+  const { dataset, filter, encoding: { color, size }, dashboard } = state;
+  params.set('data', dataset.name);
+  if (dataset.url) params.set('src', dataset.url);
+  if (state.selectedId !== null) params.set('point', state.selectedId);
+  if (state.selectedIds.length > 0 && state.selectedIds.length <= MAX_LINKED_SELECTION) params.set('set', JSON.stringify(state.selectedIds));
+  if (filter.query) params.set('q', filter.query);
+  if (filter.clusters) params.set('clusters', filter.clusters.join(','));
+  if (filter.ranges.length > 0) params.set('ranges', JSON.stringify(filter.ranges));
+  if (color.column !== null) params.set('color', color.column);
+  if (color.colorMap !== DEFAULT_ENCODING.color.colorMap) params.set('cmap', color.colorMap);
+  if (size.column !== DEFAULT_ENCODING.size.column) params.set('size', size.column ?? '');
+  if (size.scale !== DEFAULT_ENCODING.size.scale) params.set('scale', size.scale);
+  Object.entries(state.cameras).forEach(([key, camera]) => params.set(CAMERA_PREFIX + key, camera.map(formatNumber).join(',')));
+  if (dashboard.panes.join() !== DEFAULT_DASHBOARD.panes.join()) params.set('panes', dashboard.panes.join(','));
+  if (dashboard.column !== null) params.set('hist', dashboard.column);
+  if (state.paneEngine !== DEFAULT_ENGINE) params.set('paneB', state.paneEngine);
+  return params.toString();
+};
+
+// Anything missing or malformed takes its default, so hand-edited or older links still open.
+export const decodeViewState = (query: string): ViewState => {
+  const params = new URLSearchParams(query);
+  const scale = params.get('scale');
+  const colorMap = params.get('cmap');
+  const panes = (params.get('panes') ?? '').split(',').filter(isEngineId);
+  const paneEngine = params.get('paneB') ?? '';
+  const cameras: Record<string, CameraState> = {};
+  params.forEach((value, key) => {
+    if (!key.startsWith(CAMERA_PREFIX)) return;
+    const camera = value.split(',').map(Number);
+    if (camera.length > 0 && camera.every(Number.isFinite)) cameras[key.slice(CAMERA_PREFIX.length)] = camera;
+  });
+  const clusters = params.get('clusters');
+
+  return {
+    dataset: { name: params.get('data') ?? '', url: params.get('src') },
+    selectedId: params.get('point'),
+    selectedIds: parseJson(params.get('set'), isStringArray) ?? [],
+    filter: {
+      query: params.get('q') ?? EMPTY_FILTER.query,
+      clusters: clusters !== null ? clusters.split(',').filter(Boolean).map(Number).filter(Number.isInteger) : EMPTY_FILTER.clusters,
+      ranges: parseJson(params.get('ranges'), isRangeArray) ?? EMPTY_FILTER.ranges,
+    },
+    encoding: {
+      color: {
+        column: params.get('color'),
+        colorMap: colorMap !== null && colorMap in COLOR_MAPS ? colorMap as ColorMapId : DEFAULT_ENCODING.color.colorMap,
+      },
+      size: {
+        column: params.has('size') ? params.get('size') || null : DEFAULT_ENCODING.size.column,
+        scale: scale === 'linear' || scale === 'sqrt' || scale === 'log' ? scale as SizeScale : DEFAULT_ENCODING.size.scale,
+      },
+    },
+    cameras,
+    dashboard: { panes: panes.length > 0 ? panes : DEFAULT_DASHBOARD.panes, column: params.get('hist') },
+    paneEngine: isEngineId(paneEngine) ? paneEngine : DEFAULT_ENGINE,
+  };
+};
+
+// Splits a location hash into its route path and view state query.
+export const splitHash = (hash: string): { path: string; query: string } => {
+  const at = hash.indexOf('?');
+  return at < 0 ? { path: hash, query: '' } : { path: hash.slice(0, at), query: hash.slice(at + 1) };
+};
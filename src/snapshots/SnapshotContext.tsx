@@ -0,0 +1,74 @@
+// src/snapshots/SnapshotContext.tsx
+// Snapshots loaded for a timeline, the timeline built from them, and its playback clock. The timeline applies while the shared dataset
+// is its base (same rows); loading or isolating other data parks it until its dataset is shown again.
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { EmbeddingDataset, sameRows } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { SnapshotTimeline } from './snapshots';
+
+export const DEFAULT_PLAY_SPEED = 0.5; // Snapshots per second
+
+interface SnapshotContextValue {
+  snapshots: EmbeddingDataset[]; // In timeline order; kept after building so the list can be edited and rebuilt
+  setSnapshots: React.Dispatch<React.SetStateAction<EmbeddingDataset[]>>;
+  timeline: SnapshotTimeline | null;
+  setTimeline: (timeline: SnapshotTimeline | null) => void;
+  active: boolean; // The shown dataset is the timeline's
+  time: number; // Fractional snapshot index
+  setTime: (time: number) => void;
+  playing: boolean;
+  setPlaying: (playing: boolean) => void;
+  speed: number;
+  setSpeed: (speed: number) => void;
+}
+
+const SnapshotContext = createContext<SnapshotContextValue>({
+  snapshots: [],
+  setSnapshots: () => {},
+  timeline: null,
+  setTimeline: () => {},
+  active: false,
+  time: 0,
+  setTime: () => {},
+  playing: false,
+  setPlaying: () => {},
+  speed: DEFAULT_PLAY_SPEED,
+  setSpeed: () => {},
+});
+
+export const SnapshotProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { dataset } = useDataset();
+  const [snapshots, setSnapshots] = useState<EmbeddingDataset[]>([]);
+  const [timeline, setTimelineState] = useState<SnapshotTimeline | null>(null);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(DEFAULT_PLAY_SPEED);
+  const active = timeline !== null && sameRows(timeline.base, dataset);
+  const lastFrame = timeline ? timeline.frames.length - 1 : 0;
+
+  const setTimeline = useCallback((next: SnapshotTimeline | null) => {
+    setTimelineState(next);
+    setTime(0);
+    setPlaying(false);
+  }, []);
+
+  useEffect(() => {
+    if (!playing || !active) return;
+    let frame = 0, last = performance.now();
+    const step = (now: number) => {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      setTime(t => Math.min(t + elapsed * speed, lastFrame));
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, active, speed, lastFrame]);
+  useEffect(() => { if (playing && time >= lastFrame) setPlaying(false); }, [playing, time, lastFrame]);
+
+  const value = useMemo(() => ({ snapshots, setSnapshots, timeline, setTimeline, active, time, setTime, playing, setPlaying, speed, setSpeed }),
+    [snapshots, timeline, setTimeline, active, time, playing, speed]);
+  return <SnapshotContext.Provider value={value}>{children}</SnapshotContext.Provider>;
+};
+
+export const useSnapshots = () => useContext(SnapshotContext);
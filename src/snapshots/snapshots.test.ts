@@ -0,0 +1,116 @@
+// src/snapshots/snapshots.test.ts
+// Procrustes alignment and timeline building on hand-made layouts with a known transform.
+import { describe, expect, it } from 'vitest';
+import { createDataset, EmbeddingDataset, Vec3 } from '../data/dataset';
+import { applyTransform, buildTimeline, DRIFT_COLUMNS, fitProcrustes } from './snapshots';
+
+// Row-major rotation by angle about a unit axis (Rodrigues).
+const rotationAbout = ([x, y, z]: Vec3, angle: number): number[] => {
+  const c = Math.cos(angle), s = Math.sin(angle), t = 1 - c;
+  return [
+    t * x * x + c, t * x * y - s * z, t * x * z + s * y,
+    t * x * y + s * z, t * y * y + c, t * y * z - s * x,
+    t * x * z - s * y, t * y * z + s * x, t * z * z + c,
+  ];
+};
+
+const times = (m: number[], p: Vec3): Vec3 => [
+  m[0] * p[0] + m[1] * p[1] + m[2] * p[2],
+  m[3] * p[0] + m[4] * p[1] + m[5] * p[2],
+  m[6] * p[0] + m[7] * p[1] + m[8] * p[2],
+];
+
+const determinant = (m: number[]) =>
+  m[0] * (m[4] * m[8] - m[5] * m[7]) - m[1] * (m[3] * m[8] - m[5] * m[6]) + m[2] * (m[3] * m[7] - m[4] * m[6]);
+
+const expectClose = (actual: number[], expected: number[], digits = 9) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], digits));
+};
+
+// RᵀR, which is the identity for an orthonormal R.
+const gram = (m: number[]) => Array.from({ length: 9 }, (_, i) => {
+  const r = Math.floor(i / 3), c = i % 3;
+  return m[r] * m[c] + m[3 + r] * m[3 + c] + m[6 + r] * m[6 + c];
+});
+
+const IDENTITY = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+const AXIS: Vec3 = [1 / Math.sqrt(14), 2 / Math.sqrt(14), 3 / Math.sqrt(14)];
+const CLOUD: Vec3[] = [[0, 0, 0], [1, 0.2, -0.5], [-0.7, 1.4, 0.3], [0.4, -1.1, 2], [2.2, 0.9, 1.1], [-1.5, -0.3, -1.8]];
+const FLAT: Vec3[] = CLOUD.map(([x, y]) => [x, y, 0]);
+
+describe('fitProcrustes', () => {
+  it('recovers a rotation, scale and shift exactly', () => {
+    const rotation = rotationAbout(AXIS, 1.1);
+    const target = CLOUD.map(p => times(rotation, p).map((v, r) => 2.5 * v + [4, -1, 0.5][r]) as Vec3);
+    const fit = fitProcrustes(CLOUD, target);
+    expectClose(fit.rotation, rotation);
+    expect(fit.scale).toBeCloseTo(2.5, 9);
+    CLOUD.forEach((p, i) => expectClose(applyTransform(fit, p), target[i]));
+  });
+
+  it('recovers a reflection instead of forcing a proper rotation', () => {
+    const mirror = [1, 0, 0, 0, -1, 0, 0, 0, 1];
+    const fit = fitProcrustes(CLOUD, CLOUD.map(p => times(mirror, p)));
+    expectClose(fit.rotation, mirror);
+    expect(determinant(fit.rotation)).toBeCloseTo(-1, 9);
+    expect(fit.scale).toBeCloseTo(1, 9);
+  });
+
+  it('gives an orthonormal R for a coplanar layout and still maps it onto its target', () => {
+    const rotation = rotationAbout(AXIS, -0.6);
+    const target = FLAT.map(p => times(rotation, p));
+    const fit = fitProcrustes(FLAT, target);
+    expectClose(gram(fit.rotation), IDENTITY);
+    expect(fit.scale).toBeCloseTo(1, 9);
+    FLAT.forEach((p, i) => expectClose(applyTransform(fit, p), target[i]));
+  });
+
+  it('is the identity for a layout aligned with itself', () => {
+    const fit = fitProcrustes(CLOUD, CLOUD);
+    expectClose(fit.rotation, IDENTITY);
+    expect(fit.scale).toBeCloseTo(1, 9);
+  });
+});
+
+const snapshot = (name: string, ids: string[], positions: Vec3[]): EmbeddingDataset => createDataset({
+  name,
+  points: ids.map((id, i) => ({ id, label: id, cluster: 0, position: positions[i], metadata: {} })),
+});
+
+describe('buildTimeline', () => {
+  const ids = CLOUD.map((_, i) => `p${i}`);
+
+  it('aligns rotated copies so that nothing is left to drift', () => {
+    const rotation = rotationAbout(AXIS, 2);
+    const timeline = buildTimeline([
+      snapshot('a', ids, CLOUD),
+      snapshot('b', ids, CLOUD.map(p => times(rotation, p).map(v => 3 * v) as Vec3)),
+    ]);
+    expect(timeline.names).toEqual(['a', 'b']);
+    expect(timeline.dropped).toBe(0);
+    timeline.frames[1].forEach((p, i) => expectClose(p, timeline.frames[0][i]));
+    timeline.base.points.forEach(point => {
+      expect(point.metadata[DRIFT_COLUMNS.path]).toBeCloseTo(0, 9);
+      expect(point.metadata[DRIFT_COLUMNS.net]).toBeCloseTo(0, 9);
+    });
+  });
+
+  it('keeps only the ids every snapshot shares and counts the rest as dropped', () => {
+    const timeline = buildTimeline([
+      snapshot('a', [...ids, 'only-a'], [...CLOUD, [5, 5, 5]]),
+      snapshot('b', [...ids.slice(1), 'only-b'], [...CLOUD.slice(1), [9, 9, 9]]), // p0 left out
+      snapshot('c', [...ids].reverse(), [...CLOUD].reverse()), // Same points in another row order
+    ]);
+    expect(timeline.base.points.map(p => p.id)).toEqual(ids.slice(1));
+    expect(timeline.dropped).toBe(3); // p0, only-a and only-b
+    expect(timeline.frames.every(frame => frame.length === ids.length - 1)).toBe(true);
+    expect(timeline.steps).toHaveLength(2);
+  });
+
+  it('refuses fewer than two snapshots or fewer than three shared ids', () => {
+    expect(() => buildTimeline([snapshot('a', ids, CLOUD)])).toThrow(/at least two snapshots/);
+    expect(() => buildTimeline([snapshot('a', ids, CLOUD), snapshot('b', ids.slice(0, 2), CLOUD.slice(0, 2))]))
+      .toThrow(/share only 2 ids/);
+  });
+});
@@ -0,0 +1,211 @@
+// src/snapshots/snapshots.ts
+// Several embedding sets of the same items (model checkpoints, fine-tuning epochs, successive
+// indexing runs) played back as one moving layout. Each snapshot is laid out on its own, then
+// rotated, scaled and shifted onto the one before it (Procrustes, over the shared ids), so what
+// is left between frames is the items moving relative to each other, not the layout spinning.
+import { createDataset, distance3, EmbeddingDataset, EmbeddingPoint, normalizePositions, Vec3 } from '../data/dataset';
+
+// Metadata columns added to the timeline's dataset, so drift works with the filters and inspector.
+export const DRIFT_COLUMNS = {
+  path: 'drift_path', // Aligned distance travelled over the whole timeline
+  net: 'drift_net', // Aligned distance between the first and last snapshot
+  cosine: 'drift_cosine', // Cosine distance between the first and last raw vectors
+} as const;
+
+export interface SnapshotTimeline {
+  base: EmbeddingDataset; // The first snapshot cut down to the shared ids, plus drift columns; what the scenes show
+  names: string[]; // Snapshot names, in timeline order
+  frames: Vec3[][]; // Aligned positions per snapshot, in the base dataset's row order
+  steps: Float32Array[]; // Per transition k → k+1, every point's displacement left after alignment
+  dropped: number; // Ids missing from at least one snapshot, left out of the timeline
+}
+
+// x ↦ scale · R (x - from) + to; R row-major.
+export interface SimilarityTransform { rotation: number[]; scale: number; from: Vec3; to: Vec3; }
+
+const mean3 = (points: Vec3[]): Vec3 => {
+  const sum: Vec3 = [0, 0, 0];
+  points.forEach(p => { sum[0] += p[0]; sum[1] += p[1]; sum[2] += p[2]; });
+  return sum.map(v => v / (points.length || 1)) as Vec3;
+};
+
+// Eigen-decomposition of a symmetric 3×3 matrix by cyclic Jacobi rotations; eigenvectors are the
+// columns of the returned row-major matrix.
+const symmetricEigen3 = (matrix: number[]) => {
+  const a = [...matrix];
+  const v = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  for (let sweep = 0; sweep < 50; sweep++) {
+    if (Math.abs(a[1]) + Math.abs(a[2]) + Math.abs(a[5]) < 1e-12) break;
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      const apq = a[p * 3 + q];
+      if (Math.abs(apq) < 1e-15) continue;
+      const theta = (a[q * 3 + q] - a[p * 3 + p]) / (2 * apq);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1), s = t * c;
+      for (let k = 0; k < 3; k++) { // A ← A·J
+        const akp = a[k * 3 + p], akq = a[k * 3 + q];
+        a[k * 3 + p] = c * akp - s * akq;
+        a[k * 3 + q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) { // A ← Jᵀ·A
+        const apk = a[p * 3 + k], aqk = a[q * 3 + k];
+        a[p * 3 + k] = c * apk - s * aqk;
+        a[q * 3 + k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) { // V ← V·J
+        const vkp = v[k * 3 + p], vkq = v[k * 3 + q];
+        v[k * 3 + p] = c * vkp - s * vkq;
+        v[k * 3 + q] = s * vkp + c * vkq;
+      }
+    }
+  }
+  return { values: [a[0], a[4], a[8]], vectors: v };
+};
+
+// Least-squares similarity transform taking source onto target (matching rows). Reflections are
+// allowed: PCA and UMAP are free to flip an axis between runs, and a flip is not drift.
+export const fitProcrustes = (source: Vec3[], target: Vec3[]): SimilarityTransform => {
+  const from = mean3(source), to = mean3(target);
+  const cross = new Array(9).fill(0); // Σ (y - ȳ)(x - x̄)ᵀ
+  let sourceSpread = 0;
+  source.forEach((x, i) => {
+    const y = target[i];
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) cross[r * 3 + c] += (y[r] - to[r]) * (x[c] - from[c]);
+      sourceSpread += (x[r] - from[r]) ** 2;
+    }
+  });
+
+  // SVD cross = U Σ Vᵀ through the eigen-decomposition of crossᵀ·cross = V Σ² Vᵀ; then R = U Vᵀ.
+  const gram = Array.from({ length: 9 }, (_, i) => {
+    const r = Math.floor(i / 3), c = i % 3;
+    return cross[r] * cross[c] + cross[3 + r] * cross[3 + c] + cross[6 + r] * cross[6 + c];
+  });
+  const { values, vectors } = symmetricEigen3(gram);
+  const largest = Math.max(...values, 0);
+  const v: Vec3[] = [0, 1, 2].map(k => [vectors[k], vectors[3 + k], vectors[6 + k]]);
+  const u: (Vec3 | null)[] = [];
+  let singularSum = 0;
+  v.forEach((vk, k) => {
+    const sigma = Math.sqrt(Math.max(values[k], 0));
+    if (sigma <= 1e-9 * Math.sqrt(largest)) {
+      u.push(null);
+      return;
+    }
+    singularSum += sigma;
+    u.push([0, 1, 2].map(r => (cross[r * 3] * vk[0] + cross[r * 3 + 1] * vk[1] + cross[r * 3 + 2] * vk[2]) / sigma) as Vec3);
+  });
+  // Flat layouts (2D, or all points on a line) leave directions with no singular value; any
+  // orthonormal completion will do there, since the points have no extent along them.
+  const basis: Vec3[] = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  for (let k = 0; k < 3; k++) {
+    if (u[k]) continue;
+    const known = u.filter((column): column is Vec3 => column !== null);
+    for (const axis of basis) {
+      const candidate = [...axis] as Vec3;
+      known.forEach(column => {
+        const dot = candidate[0] * column[0] + candidate[1] * column[1] + candidate[2] * column[2];
+        for (let r = 0; r < 3; r++) candidate[r] -= dot * column[r];
+      });
+      const length = Math.hypot(...candidate);
+      if (length > 1e-6) {
+        u[k] = candidate.map(x => x / length) as Vec3;
+        break;
+      }
+    }
+  }
+  const rotation = Array.from({ length: 9 }, (_, i) => {
+    const r = Math.floor(i / 3), c = i % 3;
+    return u.reduce((sum, uk, k) => sum + uk![r] * v[k][c], 0);
+  });
+  return { rotation, scale: sourceSpread > 0 ? singularSum / sourceSpread : 1, from, to };
+};
+
+export const applyTransform = ({ rotation: m, scale, from, to }: SimilarityTransform, p: Vec3): Vec3 => {
+  const x = p[0] - from[0], y = p[1] - from[1], z = p[2] - from[2];
+  return [
+    scale * (m[0] * x + m[1] * y + m[2] * z) + to[0],
+    scale * (m[3] * x + m[4] * y + m[5] * z) + to[1],
+    scale * (m[6] * x + m[7] * y + m[8] * z) + to[2],
+  ];
+};
+
+const cosineDistance = (a: Float32Array, b: Float32Array) => {
+  let dot = 0, aa = 0, bb = 0;
+  for (let d = 0; d < a.length; d++) {
+    dot += a[d] * b[d];
+    aa += a[d] * a[d];
+    bb += b[d] * b[d];
+  }
+  return aa > 0 && bb > 0 ? 1 - dot / Math.sqrt(aa * bb) : 0;
+};
+
+// Aligns laid-out snapshots (in timeline order) into a timeline over the ids they all share.
+export const buildTimeline = (snapshots: EmbeddingDataset[]): SnapshotTimeline => {
+  if (snapshots.length < 2) throw new Error('A timeline needs at least two snapshots.');
+  const [first] = snapshots;
+  const rowsById = snapshots.map(s => new Map(s.points.map((p, row) => [p.id, row])));
+  const kept = first.points.map((_, row) => row).filter(row => rowsById.every(rows => rows.has(first.points[row].id)));
+  if (kept.length < 3) throw new Error(`The snapshots share only ${kept.length} ids; aligning them needs at least 3.`);
+  const ids = kept.map(row => first.points[row].id);
+
+  const frames: Vec3[][] = [normalizePositions(kept.map(row => first.points[row].position))];
+  const steps: Float32Array[] = [];
+  for (let k = 1; k < snapshots.length; k++) {
+    const raw = ids.map(id => snapshots[k].points[rowsById[k].get(id)!].position);
+    const previous = frames[k - 1];
+    const transform = fitProcrustes(raw, previous);
+    const aligned = raw.map(p => applyTransform(transform, p));
+    const step = new Float32Array(aligned.map((p, i) => distance3(p, previous[i])));
+    frames.push(aligned);
+    steps.push(step);
+  }
+
+  // Vector drift needs every snapshot to embed into the same space.
+  const comparable = snapshots.every(s => s.vectors && s.dimensions === first.dimensions);
+  const last = snapshots[snapshots.length - 1];
+  const lastFrame = frames[frames.length - 1];
+  const points: EmbeddingPoint[] = kept.map((row, i) => {
+    const point = first.points[row];
+    const metadata = { ...point.metadata };
+    metadata[DRIFT_COLUMNS.path] = steps.reduce((sum, step) => sum + step[i], 0);
+    metadata[DRIFT_COLUMNS.net] = distance3(frames[0][i], lastFrame[i]);
+    if (comparable) {
+      const lastRow = rowsById[rowsById.length - 1].get(point.id)!;
+      metadata[DRIFT_COLUMNS.cosine] = cosineDistance(
+        first.vectors!.subarray(row * first.dimensions, (row + 1) * first.dimensions),
+        last.vectors!.subarray(lastRow * last.dimensions, (lastRow + 1) * last.dimensions),
+      );
+    }
+    return { ...point, position: frames[0][i], metadata };
+  });
+
+  let vectors: Float32Array | null = null;
+  if (first.vectors) {
+    vectors = new Float32Array(kept.length * first.dimensions);
+    kept.forEach((row, i) => vectors!.set(first.vectors!.subarray(row * first.dimensions, (row + 1) * first.dimensions), i * first.dimensions));
+  }
+  return {
+    base: createDataset({
+      name: `${first.name} → ${last.name} (${snapshots.length} snapshots)`,
+      points, vectors, dimensions: first.dimensions, layout: first.layout,
+    }),
+    names: snapshots.map(s => s.name),
+    frames, steps,
+    dropped: new Set(snapshots.flatMap(s => s.points.map(p => p.id))).size - kept.length,
+  };
+};
+
+// Positions at a fractional time in snapshots (0 = first, frames - 1 = last), moving in a straight line between frames.
+export const timelinePositions = ({ frames }: SnapshotTimeline, time: number): Vec3[] => {
+  const t = Math.min(Math.max(time, 0), frames.length - 1);
+  const k = Math.min(Math.floor(t), frames.length - 2);
+  const f = t - k;
+  const from = frames[k], to = frames[k + 1];
+  if (f === 0) return from;
+  return from.map((p, i) => [
+    p[0] + (to[i][0] - p[0]) * f,
+    p[1] + (to[i][1] - p[1]) * f,
+    p[2] + (to[i][2] - p[2]) * f,
+  ]);
+};
@@ -0,0 +1,30 @@
+// src/snapshots/useSnapshotBuilder.ts
+// Turns loaded snapshots into a timeline: snapshots that only have the placeholder random
+// projection get a PCA layout on the reduction worker, one after another, then everything is
+// aligned and the timeline's dataset replaces the shown one.
+import { useCallback } from 'react';
+import { EmbeddingDataset } from '../data/dataset';
+import { useDataset } from '../data/DatasetContext';
+import { useJobSequence } from '../data/useJobSequence';
+import { layoutIfNeeded } from '../reduction/useReduction';
+import { buildTimeline } from './snapshots';
+import { useSnapshots } from './SnapshotContext';
+
+export const useSnapshotBuilder = () => {
+  const { loadDataset } = useDataset();
+  const { setTimeline } = useSnapshots();
+  const { start, cancel, status, error } = useJobSequence();
+
+  const build = useCallback((snapshots: EmbeddingDataset[]) => start(async sequence => {
+    const laidOut: EmbeddingDataset[] = [];
+    for (const [index, snapshot] of snapshots.entries()) {
+      laidOut.push(await layoutIfNeeded(sequence, snapshot, `PCA ${index + 1}/${snapshots.length} (${snapshot.name})`));
+    }
+    sequence.setStatus({ stage: 'Aligning', progress: 1 });
+    const timeline = buildTimeline(laidOut);
+    loadDataset(timeline.base);
+    setTimeline(timeline);
+  }), [loadDataset, setTimeline, start]);
+
+  return { build, cancel, status, error };
+};
@@ -0,0 +1,10 @@
+// src/three/elements.ts
+// react-babylonjs declares global JSX <mesh>, <directionalLight> and <pointLight> with Babylon's
+// props, which shadow R3F's when type-checking. These are the same R3F intrinsics under names
+// that carry R3F's own prop types.
+import type { ThreeElements } from '@react-three/fiber';
+import type React from 'react';
+
+export const ThreeMesh = 'mesh' as unknown as React.FC<ThreeElements['mesh']>;
+export const ThreeDirectionalLight = 'directionalLight' as unknown as React.FC<ThreeElements['directionalLight']>;
+export const ThreePointLight = 'pointLight' as unknown as React.FC<ThreeElements['pointLight']>;